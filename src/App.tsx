@@ -1,13 +1,20 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import HomePage from "./pages/HomePage";
+import DoorPage from "./pages/DoorPage";
 import AdminPage from "./pages/AdminPage";
 import ReportPage from "./pages/ReportPage";
 import MembersPage from "./pages/MembersPage";
+import MemberAttendancePage from "./pages/MemberAttendancePage";
 import GuestsPage from "./pages/GuestsPage";
 import ObserversPage from "./pages/ObserversPage";
 import ImportPage from "./pages/ImportPage";
 import PublicGuestWalkinPage from "./pages/PublicGuestWalkinPage";
 import AdminPublicGuestLinkPage from "./pages/AdminPublicGuestLinkPage";
+import LiveEventQrPage from "./pages/LiveEventQrPage";
+import PipelinePage from "./pages/PipelinePage";
+import ReferralsPage from "./pages/ReferralsPage";
+import GuestIntroductionsPage from "./pages/GuestIntroductionsPage";
+import GuestIntroductionPage from "./pages/GuestIntroductionPage";
 import { ChapterProvider } from "./chapterContext";
 
 export default function App() {
@@ -16,14 +23,21 @@ export default function App() {
       <ChapterProvider>
         <Routes>
           <Route path="/" element={<HomePage />} />
+          <Route path="/door" element={<DoorPage />} />
           <Route path="/admin" element={<AdminPage />} />
           <Route path="/admin/members" element={<MembersPage />} />
+          <Route path="/admin/members/attendance" element={<MemberAttendancePage />} />
           <Route path="/admin/guests" element={<GuestsPage />} />
           <Route path="/admin/observers" element={<ObserversPage />} />
           <Route path="/admin/import" element={<ImportPage />} />
           <Route path="/admin/public-guest" element={<AdminPublicGuestLinkPage />} />
+          <Route path="/admin/live-qr" element={<LiveEventQrPage />} />
+          <Route path="/admin/pipeline" element={<PipelinePage />} />
+          <Route path="/admin/referrals" element={<ReferralsPage />} />
+          <Route path="/admin/introductions" element={<GuestIntroductionsPage />} />
           <Route path="/report" element={<ReportPage />} />
           <Route path="/public/guest" element={<PublicGuestWalkinPage />} />
+          <Route path="/guest/intro" element={<GuestIntroductionPage />} />
         </Routes>
       </ChapterProvider>
     </BrowserRouter>
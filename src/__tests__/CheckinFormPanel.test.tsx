@@ -14,6 +14,16 @@ const { logAttendance } = vi.hoisted(() => ({
 
 vi.mock("../api", () => ({
   getEventForDate: vi.fn().mockResolvedValue({ id: 1, name: "Test Event" }),
+  getEventById: vi.fn().mockResolvedValue({
+    id: 1,
+    name: "Test Event",
+    date: "2026-02-10",
+    startTime: "07:00",
+    endTime: "09:00",
+    registrationStartTime: "06:30",
+    onTimeCutoff: "07:01",
+    createdAt: "2026-02-01"
+  }),
   getCurrentEvent: vi.fn().mockResolvedValue({
     id: 1,
     name: "Test Event",
@@ -49,9 +59,20 @@ describe("CheckinFormPanel date helpers", () => {
   });
 });
 
+/** Unsigned live event token for event 1 (no chapter key passed, so the backend would check the signature). */
+function liveTokenQuery(): string {
+  const now = Math.floor(Date.now() / 1000);
+  const body = btoa(JSON.stringify({ v: 1, t: "event", eid: 1, ch: 1, iat: now, exp: now + 30 }))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `?t=${encodeURIComponent(`BNIE.${body}.sig`)}`;
+}
+
 describe("CheckinFormPanel", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    window.history.replaceState(null, "", `/${liveTokenQuery()}`);
     vi.stubGlobal(
       "WebSocket",
       class {
@@ -110,4 +131,18 @@ describe("CheckinFormPanel", () => {
     expect(screen.getByText(/2099-01-01/i)).toBeInTheDocument();
     expect(logAttendance).not.toHaveBeenCalled();
   });
+
+  it("asks for the venue QR instead of showing the form when the live token is missing", async () => {
+    window.history.replaceState(null, "", "/");
+    render(
+      <BrowserRouter>
+        <CheckinFormPanel onNotify={() => {}} />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText(/請掃描會場螢幕上的簽到 QR 碼/)).toBeInTheDocument();
+    });
+    expect(screen.queryByText(/Alice/i)).not.toBeInTheDocument();
+  });
 });
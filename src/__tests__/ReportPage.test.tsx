@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { MemoryRouter } from "react-router-dom";
 import ReportPage from "../pages/ReportPage";
 import { ChapterProvider } from "../chapterContext";
@@ -8,6 +8,8 @@ vi.mock("../api", () => ({
   ANCHOR_CHAPTER_ID: 1,
   CHAPTER_TAG_TO_ID: { anchor: 1, amax: 2, dynasty: 3 },
   setActiveApiChapter: vi.fn(),
+  setAdminSessionToken: vi.fn(),
+  setAdminUnauthorizedHandler: vi.fn(),
   clientLogin: vi.fn(),
   clientLogout: vi.fn(),
   fetchClientSession: vi.fn().mockResolvedValue({
@@ -26,6 +28,8 @@ vi.mock("../api", () => ({
   getRecords: vi.fn().mockResolvedValue({ records: [] }),
   clearRecords: vi.fn().mockResolvedValue({ status: "success", message: "ok" }),
   deleteRecord: vi.fn().mockResolvedValue({ status: "success", message: "ok" }),
+  markAttendanceAbsent: vi.fn().mockResolvedValue({ status: "success" }),
+  isRecordConflictError: vi.fn().mockReturnValue(false),
   exportRecords: vi.fn().mockResolvedValue(new Blob(["x"], { type: "text/csv" })),
   getReportWebSocketUrl: vi.fn().mockReturnValue("ws://localhost:10000/ws/report"),
 }));
@@ -71,4 +75,20 @@ describe("ReportPage", () => {
       expect(getReportData).toHaveBeenCalledWith(1, "amax", 2);
     });
   });
+
+  it("tells the admin when a record changed on another device before the delete", async () => {
+    const api = await import("../api");
+    const record = { id: "r1", version: "v1", name: "Alice", domain: "IT", type: "guest", timestamp: "2026-02-10T07:00:00Z", receivedAt: "" };
+    vi.mocked(api.getRecords).mockResolvedValue({ records: [record] } as Awaited<ReturnType<typeof api.getRecords>>);
+    vi.mocked(api.deleteRecord).mockRejectedValueOnce(new Error("record changed"));
+    vi.mocked(api.isRecordConflictError).mockReturnValueOnce(true);
+
+    renderReport();
+    fireEvent.click(await screen.findByText(/簽到記錄 CSV/i));
+    fireEvent.click(await screen.findByTitle("刪除 Alice"));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Alice 的記錄已被其他裝置更改");
+    expect(api.deleteRecord).toHaveBeenCalledWith(record);
+    expect(api.markAttendanceAbsent).not.toHaveBeenCalled();
+  });
 });
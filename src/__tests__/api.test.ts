@@ -58,4 +58,82 @@ describe("API helpers", () => {
     expect(result).toHaveProperty("guests");
     expect(Array.isArray(result.guests)).toBe(true);
   });
+
+  it("attaches the admin bearer token to admin calls", async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ status: "success", message: "ok" }),
+    } as Response);
+    const { clearRecords, setAdminSessionToken } = await import("../api");
+    setAdminSessionToken("tok-123");
+    await clearRecords();
+    const init = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1] as RequestInit;
+    expect(new Headers(init.headers).get("Authorization")).toBe("Bearer tok-123");
+    setAdminSessionToken(null);
+  });
+
+  it("calls the unauthorized handler on 401 only when a token was sent", async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      status: 401,
+      text: async () => JSON.stringify({ message: "unauthorized" }),
+    } as Response);
+    const { deleteMember, setAdminSessionToken, setAdminUnauthorizedHandler } = await import("../api");
+    const onUnauthorized = vi.fn();
+    setAdminUnauthorizedHandler(onUnauthorized);
+
+    await expect(deleteMember("Alice")).rejects.toThrow("unauthorized");
+    expect(onUnauthorized).not.toHaveBeenCalled();
+
+    setAdminSessionToken("expired");
+    await expect(deleteMember("Alice")).rejects.toThrow("unauthorized");
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+
+    setAdminSessionToken(null);
+    setAdminUnauthorizedHandler(null);
+  });
+
+  it("deleteRecord targets the stable id and sends the loaded version as If-Match", async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      status: 412,
+      text: async () => JSON.stringify({ message: "record changed" }),
+    } as Response);
+    const { deleteRecord, isRecordConflictError } = await import("../api");
+    const error = await deleteRecord({ id: "rec/42", version: "v7" }).catch((e) => e);
+    const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect(url).toMatch(/\/api\/records\/rec%2F42\?/);
+    expect(init.method).toBe("DELETE");
+    expect(new Headers(init.headers).get("If-Match")).toBe('"v7"');
+    expect(isRecordConflictError(error)).toBe(true);
+  });
+
+  it("updateRecord sends no If-Match for a record without a version and treats 428 as a conflict", async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      status: 428,
+      text: async () => JSON.stringify({ message: "version required" }),
+    } as Response);
+    const { updateRecord, isRecordConflictError } = await import("../api");
+    const error = await updateRecord({ id: "rec-1" }, { substituteFor: "Bob" }).catch((e) => e);
+    const [url, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect(url).toMatch(/\/api\/records\/rec-1\?/);
+    expect(init.method).toBe("PUT");
+    expect(new Headers(init.headers).has("If-Match")).toBe(false);
+    expect(isRecordConflictError(error)).toBe(true);
+  });
+
+  it("scopes the report socket URL and subscribe frame to the chapter", async () => {
+    const { getReportWebSocketUrl, buildReportSubscribeMessage } = await import("../api");
+    expect(getReportWebSocketUrl({ chapterTag: "amax", chapterId: 2, eventId: 5 }, 9)).toMatch(
+      /\/ws\/report\?chapterId=2&chapter=amax&eventId=5&since=9$/
+    );
+    expect(JSON.parse(buildReportSubscribeMessage({ chapterTag: "dynasty", chapterId: 3 }))).toEqual({
+      type: "subscribe",
+      chapter: "dynasty",
+      chapterId: 3,
+      eventId: null,
+    });
+  });
 });
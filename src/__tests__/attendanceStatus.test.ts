@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyCheckIn,
+  classifyWallClock,
+  parseTimeOfDay,
+  parseWallClock,
+  resolveChapterTimezone,
+} from "../lib/attendanceStatus";
+
+const event = {
+  date: "2026-02-10",
+  registrationStartTime: "06:30",
+  onTimeCutoff: "07:05",
+  endTime: "09:00",
+};
+
+describe("attendanceStatus", () => {
+  it("parses HH:mm and HH:mm:ss", () => {
+    expect(parseTimeOfDay("07:05")).toBe(7 * 3600 + 5 * 60);
+    expect(parseTimeOfDay("07:05:30")).toBe(7 * 3600 + 5 * 60 + 30);
+    expect(parseTimeOfDay("25:00")).toBeNull();
+    expect(parseTimeOfDay("")).toBeNull();
+  });
+
+  it("classifies early / on-time / late / after-close in HKT", () => {
+    expect(classifyCheckIn(event, new Date("2026-02-10T06:10:00+08:00"), "Asia/Hong_Kong")).toBe("early");
+    expect(classifyCheckIn(event, new Date("2026-02-10T06:45:00+08:00"), "Asia/Hong_Kong")).toBe("on-time");
+    expect(classifyCheckIn(event, new Date("2026-02-10T07:05:00+08:00"), "Asia/Hong_Kong")).toBe("on-time");
+    expect(classifyCheckIn(event, new Date("2026-02-10T07:05:01+08:00"), "Asia/Hong_Kong")).toBe("late");
+    expect(classifyCheckIn(event, new Date("2026-02-10T09:30:00+08:00"), "Asia/Hong_Kong")).toBe("after-close");
+  });
+
+  it("uses the chapter timezone, not UTC", () => {
+    // 23:10 UTC on the 9th is 07:10 on the 10th in Hong Kong.
+    const at = new Date("2026-02-09T23:10:00Z");
+    expect(classifyCheckIn(event, at, "Asia/Hong_Kong")).toBe("late");
+    expect(classifyCheckIn(event, at, "UTC")).toBe("early");
+  });
+
+  it("treats other calendar days as early / after-close", () => {
+    expect(classifyWallClock(event, { date: "2026-02-09", secondsOfDay: 8 * 3600 })).toBe("early");
+    expect(classifyWallClock(event, { date: "2026-02-11", secondsOfDay: 6 * 3600 })).toBe("after-close");
+  });
+
+  it("falls back to default times when the event omits them", () => {
+    expect(classifyWallClock({ date: "2026-02-10" }, { date: "2026-02-10", secondsOfDay: 7 * 3600 + 6 * 60 })).toBe("late");
+  });
+
+  it("parses admin-entered wall clock strings", () => {
+    expect(parseWallClock("2026-02-10T07:20")).toEqual({ date: "2026-02-10", secondsOfDay: 7 * 3600 + 20 * 60 });
+    expect(parseWallClock("not a time")).toBeNull();
+  });
+
+  it("falls back to Hong Kong for unknown zones", () => {
+    expect(resolveChapterTimezone("Mars/Olympus")).toBe("Asia/Hong_Kong");
+    expect(resolveChapterTimezone(undefined)).toBe("Asia/Hong_Kong");
+    expect(resolveChapterTimezone("Asia/Singapore")).toBe("Asia/Singapore");
+  });
+});
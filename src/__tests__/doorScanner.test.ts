@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { createScanDebouncer } from "../lib/doorScanner";
+
+describe("door scanner debounce", () => {
+  it("submits a payload once per window but never blocks a different badge", () => {
+    const debouncer = createScanDebouncer(5000);
+    expect(debouncer.shouldSubmit("BNI2.a.sig", 1000)).toBe(true);
+    expect(debouncer.shouldSubmit("BNI2.a.sig", 1300)).toBe(false);
+    expect(debouncer.shouldSubmit(" BNI2.a.sig ", 5999)).toBe(false);
+    expect(debouncer.shouldSubmit("BNI2.b.sig", 2000)).toBe(true);
+    expect(debouncer.shouldSubmit("BNI2.a.sig", 6000)).toBe(true);
+  });
+
+  it("forgets everything on reset", () => {
+    const debouncer = createScanDebouncer(5000);
+    debouncer.shouldSubmit("token", 0);
+    debouncer.reset();
+    expect(debouncer.shouldSubmit("token", 10)).toBe(true);
+  });
+});
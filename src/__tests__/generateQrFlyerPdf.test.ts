@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { generateQrFlyerPdfBlob } from "../lib/generateQrFlyerPdf";
+import { generatePagedPdfBlob, generateQrFlyerPdfBlob } from "../lib/generateQrFlyerPdf";
 
 const mockAddImage = vi.fn();
+const mockAddPage = vi.fn();
 const mockOutput = vi.fn(() => new Blob(["pdf"], { type: "application/pdf" }));
 const mockHtml2Canvas = vi.fn(async () => ({
   width: 1436,
@@ -16,6 +17,7 @@ vi.mock("html2canvas", () => ({
 vi.mock("jspdf", () => ({
   jsPDF: class {
     addImage = mockAddImage;
+    addPage = mockAddPage;
     output = mockOutput;
   }
 }));
@@ -52,3 +54,27 @@ describe("generateQrFlyerPdfBlob", () => {
     document.body.removeChild(root);
   });
 });
+
+describe("generatePagedPdfBlob", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("puts each capture element on its own top-aligned A4 page", async () => {
+    const root = document.createElement("div");
+    root.className = "qr-pdf-capture-root";
+    const pages = [document.createElement("div"), document.createElement("div")];
+    pages.forEach((page) => root.appendChild(page));
+    document.body.appendChild(root);
+
+    await generatePagedPdfBlob(pages);
+
+    expect(mockHtml2Canvas).toHaveBeenCalledTimes(2);
+    expect(mockAddPage).toHaveBeenCalledTimes(1);
+    expect(mockAddImage).toHaveBeenCalledTimes(2);
+    const [, , x, y] = mockAddImage.mock.calls[1];
+    expect([x, y]).toEqual([10, 10]);
+
+    document.body.removeChild(root);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import type { GuestInfo } from "../api";
+import {
+  distinctPairKey,
+  groupGuestIdentities,
+  guestNameSimilarity,
+  normalizePhoneNumber,
+  proposeGuestDuplicates,
+  repeatVisitors,
+} from "../lib/guestIdentity";
+
+const guests: GuestInfo[] = [
+  { name: "Peter Chan", profession: "Insurance", referrer: "Vincent", eventDate: "2026-07-02", phoneNumber: "+852 9123 4567" },
+  { name: "peter  chan", profession: "", referrer: "Vincent", eventDate: "2026-07-16" },
+  { name: "Chan Peter", profession: "Insurance Agent", referrer: "Vincent", eventDate: "2026-08-13" },
+  { name: "P. Chan", profession: "Insurance", referrer: "Amy", eventDate: "2026-08-20", phoneNumber: "91234567" },
+  { name: "陳大文", profession: "會計師", referrer: "Zoe", eventDate: "2026-07-02" },
+  { name: "陳大丈", profession: "會計師", referrer: "Zoe", eventDate: "2026-08-13" },
+  { name: "Mary Lau", profession: "Lawyer", referrer: "Peter", eventDate: "2026-07-02" },
+];
+
+describe("guest identity helpers", () => {
+  it("normalizes Hong Kong phone numbers", () => {
+    expect(normalizePhoneNumber("+852 9123-4567")).toBe("91234567");
+    expect(normalizePhoneNumber("0085291234567")).toBe("91234567");
+    expect(normalizePhoneNumber("123")).toBe("");
+  });
+
+  it("scores names across word order, titles and Chinese characters", () => {
+    expect(guestNameSimilarity("Mr. Peter Chan", "Chan Peter")).toBe(1);
+    expect(guestNameSimilarity("Peter Chan", "Peter Chan Tai Man")).toBe(0.9);
+    expect(guestNameSimilarity("陳大文", "陳大丈")).toBeCloseTo(2 / 3);
+    expect(guestNameSimilarity("陳大文 Peter Chan", "Peter Chan")).toBe(1);
+    expect(guestNameSimilarity("陳大文", "Peter Chan")).toBe(0);
+    expect(guestNameSimilarity("陳大文 Peter Chan", "李小明 Peter Chan")).toBe(0);
+    expect(guestNameSimilarity("陳大文 Peter Chan", "陳大文 Chan Peter")).toBe(1);
+  });
+
+  it("groups visits by normalized name with the latest profile", () => {
+    const peter = groupGuestIdentities(guests).find((identity) => identity.key === "peter chan");
+    expect(peter?.visits.map((v) => v.eventDate)).toEqual(["2026-07-02", "2026-07-16"]);
+    expect(peter).toMatchObject({ name: "peter  chan", profession: "Insurance", phoneNumber: "91234567" });
+    expect(repeatVisitors(groupGuestIdentities(guests)).map((i) => i.key)).toEqual(["peter chan"]);
+  });
+});
+
+describe("proposeGuestDuplicates", () => {
+  const identities = groupGuestIdentities(guests);
+
+  it("links identities by phone, name and referrer, transitively", () => {
+    const proposals = proposeGuestDuplicates(identities);
+    expect(proposals.map((p) => p.identities.map((i) => i.key))).toEqual([
+      ["peter chan", "chan peter", "p chan"],
+      ["陳大丈", "陳大文"],
+    ]);
+    expect(proposals[0].signals).toEqual(["phone", "name", "referrer"]);
+    // One character off is below the name-only bar but enough with the same referrer.
+    expect(proposals[1].signals).toEqual(["name", "referrer"]);
+  });
+
+  it("skips pairs marked as different people", () => {
+    const proposals = proposeGuestDuplicates(identities, new Set([distinctPairKey("陳大文", "陳大丈")]));
+    expect(proposals.some((p) => p.identities.some((i) => i.key === "陳大文"))).toBe(false);
+  });
+});
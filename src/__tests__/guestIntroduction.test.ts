@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import type { MemberInfo, SeatingPlanVersion, StoredMatchResult } from "../api";
+import { buildGuestIntroduction, buildGuestIntroductionUrl, prepareGuestIntroduction, type GuestIntroductionSources } from "../lib/guestIntroduction";
+import { MEMBER_CATEGORIES } from "../lib/memberCategories";
+
+const { matchGuestWithMembers } = vi.hoisted(() => ({ matchGuestWithMembers: vi.fn() }));
+vi.mock("../lib/assignGuestToTable", () => ({ matchGuestWithMembers }));
+
+const members: MemberInfo[] = [
+  { id: 1, name: "Vincent Woo", domain: "會計", professionCode: "B" },
+  { id: 2, name: "Zoe Wu", domain: "平面設計", professionCode: "E" },
+  { id: 3, name: "Peter Chan", domain: "保險" },
+];
+
+const seating: SeatingPlanVersion = {
+  version: 1,
+  savedAt: "2026-03-01T09:00:00.000Z",
+  seatsPerTable: 10,
+  guests: [{ id: "guest-yuri lo", name: "Yuri Lo", profession: "醫務中心", bottlenecks: [] }],
+  members: [
+    { id: "member-1", name: "Vincent Woo", profession: "會計" },
+    { id: "member-2", name: "Zoe Wu", profession: "平面設計" },
+  ],
+  plan: {
+    planId: "seat-1",
+    eventId: 7,
+    generatedAt: "2026-03-01T09:00:00.000Z",
+    assignments: [],
+    tables: [
+      { table: 1, hostMemberId: "member-1", memberIds: ["member-1"], guestIds: ["guest-yuri lo"] },
+      { table: 2, hostMemberId: null, memberIds: ["member-2"], guestIds: [] },
+    ],
+    unseatedMemberIds: [],
+    warnings: [],
+  },
+};
+
+const stored: StoredMatchResult = {
+  eventId: 7,
+  runId: "run-1",
+  guestKey: "yuri lo",
+  guestName: "Yuri Lo",
+  guestProfession: "醫務中心",
+  profileHash: "h",
+  rosterVersion: "r",
+  provider: "deepseek",
+  matchedAt: "2026-03-01T10:00:00.000Z",
+  matchedMembers: [
+    { memberName: "Peter Chan", profession: "保險", matchStrength: "Low", reason: "一般人脈" },
+    { memberName: "Zoe Wu", profession: "平面設計", matchStrength: "Medium", reason: "診所品牌" },
+    { memberName: "Vincent Woo", profession: "會計", matchStrength: "High", reason: "診所報稅" },
+  ],
+};
+
+const sources: GuestIntroductionSources = {
+  members,
+  categories: MEMBER_CATEGORIES,
+  stored: [stored],
+  overrides: [],
+  feedback: [],
+  seating,
+};
+
+describe("buildGuestIntroduction", () => {
+  it("lists strong matches first with category colour and table numbers, dropping Low ones", () => {
+    const card = buildGuestIntroduction(7, { name: " Yuri Lo ", profession: "醫務中心" }, stored.matchedMembers, "deepseek", sources, new Date("2026-03-01T10:05:00.000Z"));
+    expect(card).toMatchObject({ guestKey: "yuri lo", guestName: "Yuri Lo", tableNumber: 1, generatedAt: "2026-03-01T10:05:00.000Z" });
+    expect(card.members).toEqual([
+      { memberName: "Vincent Woo", profession: "會計", matchStrength: "High", reason: "診所報稅", categoryName: "專業及企業服務", accent: "#f97316", tableNumber: 1 },
+      { memberName: "Zoe Wu", profession: "平面設計", matchStrength: "Medium", reason: "診所品牌", categoryName: "市場推廣及展覽", accent: "#84cc16", tableNumber: 2 },
+    ]);
+  });
+
+  it("keeps Low matches when nothing stronger was found", () => {
+    const card = buildGuestIntroduction(7, { name: "Ken Ip", profession: "物流" }, [stored.matchedMembers[0]], null, { ...sources, seating: null });
+    expect(card.members).toMatchObject([{ memberName: "Peter Chan", categoryName: "", accent: "#64748b", tableNumber: null }]);
+    expect(card.tableNumber).toBeNull();
+  });
+});
+
+describe("prepareGuestIntroduction", () => {
+  it("uses stored matches with overrides applied", async () => {
+    const card = await prepareGuestIntroduction(7, { name: "Yuri Lo", profession: "醫務中心" }, {
+      ...sources,
+      overrides: [{ eventId: 7, guestKey: "yuri lo", memberName: "Vincent Woo", profession: "會計", removed: true, updatedAt: "2026-03-01" }],
+    });
+    expect(card.members.map((m) => m.memberName)).toEqual(["Zoe Wu"]);
+    expect(card.provider).toBe("deepseek");
+    expect(matchGuestWithMembers).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a fresh match for guests without stored results", async () => {
+    matchGuestWithMembers.mockResolvedValueOnce({
+      matchStrength: "Medium",
+      matchNote: "",
+      provider: "local",
+      recommendedMembers: [{ member: { id: "member-3", name: "Peter Chan", profession: "保險" }, matchStrength: "Medium", reason: "保障規劃" }],
+    });
+    const card = await prepareGuestIntroduction(7, { name: "Ken Ip", profession: "物流" }, sources);
+    expect(matchGuestWithMembers).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "guest-ken ip", name: "Ken Ip", profession: "物流" }),
+      expect.arrayContaining([expect.objectContaining({ id: "member-1", name: "Vincent Woo", category: "B" })])
+    );
+    expect(card).toMatchObject({ provider: "local", members: [{ memberName: "Peter Chan", reason: "保障規劃" }] });
+  });
+});
+
+describe("buildGuestIntroductionUrl", () => {
+  it("links by the card token and keeps the chapter outside Anchor", () => {
+    expect(buildGuestIntroductionUrl("https://x.test", "k3J9x-Qa", "anchor")).toBe("https://x.test/guest/intro?id=k3J9x-Qa");
+    expect(buildGuestIntroductionUrl("https://x.test", "k3J9x-Qa", "amax")).toBe("https://x.test/guest/intro?id=k3J9x-Qa&chapter=amax");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const api = vi.hoisted(() => ({
+  bulkImport: vi.fn(),
+  bulkImportObservers: vi.fn(),
+  bulkSetPlannedSubstitutes: vi.fn(),
+  deleteGuest: vi.fn(),
+  deleteObserver: vi.fn(),
+  deletePlannedSubstitute: vi.fn(),
+  getGuests: vi.fn(),
+  getObservers: vi.fn(),
+  getPlannedSubstitutes: vi.fn(),
+}));
+
+vi.mock("../api", () => api);
+
+import {
+  applyImportDiff,
+  defaultSelectedDiffRows,
+  reconcileImport,
+  type ExistingRegistrations,
+} from "../lib/importReconciliation";
+
+const existing: ExistingRegistrations = {
+  guests: [
+    { name: "Yuri Lo", profession: "醫務中心", referrer: "Vincent" },
+    { name: "Mary Lau", profession: "Lawyer", referrer: "Peter" },
+    { name: "Ken Chan", profession: "Insurance", referrer: "CK" },
+  ],
+  observers: [{ id: 1, name: "Eddie Cheng", profession: "Marketing", eventDate: "2026-08-13", attended: false }],
+  substitutes: [{ memberName: "Zoe", substituteName: "Wendy Cheung" }],
+};
+
+describe("reconcileImport", () => {
+  const rows = reconcileImport(
+    {
+      guests: [
+        { name: "yuri  lo", profession: "醫務中心", referrer: "Vincent", role: "GUEST" },
+        { name: "Mary Lau", profession: "Family Lawyer", referrer: "Peter", role: "SPEAKER" },
+        { name: "Alice Yip", profession: "Director", referrer: "", role: "VIP" },
+      ],
+      observers: [{ name: "Eddie Cheng", profession: "Marketing" }],
+      substitutes: [{ memberName: "Zoe", substituteName: "Tom Ho" }],
+    },
+    existing
+  );
+  const byId = new Map(rows.map((r) => [r.id, r]));
+
+  it("classifies rows by name and lists field-level changes", () => {
+    expect(byId.get("guest:yuri lo")?.status).toBe("unchanged");
+    expect(byId.get("guest:mary lau")).toMatchObject({
+      status: "changed",
+      changes: [
+        { field: "profession", from: "Lawyer", to: "Family Lawyer" },
+        { field: "role", from: "GUEST", to: "SPEAKER" },
+      ],
+    });
+    expect(byId.get("guest:alice yip")?.status).toBe("new");
+    expect(byId.get("guest:ken chan")).toMatchObject({ status: "removed", name: "Ken Chan" });
+    expect(byId.get("observer:eddie cheng")?.status).toBe("unchanged");
+    expect(byId.get("substitute:zoe")?.changes).toEqual([
+      { field: "substituteName", label: "替代人", from: "Wendy Cheung", to: "Tom Ho" },
+    ]);
+  });
+
+  it("selects additions and updates by default but never deletions", () => {
+    expect([...defaultSelectedDiffRows(rows)].sort()).toEqual(["guest:alice yip", "guest:mary lau", "substitute:zoe"]);
+  });
+
+  it("leaves lists that weren't imported alone", () => {
+    const guestsOnly = reconcileImport({ guests: [] }, existing);
+    expect(guestsOnly.every((r) => r.entity === "guest" && r.status === "removed")).toBe(true);
+  });
+});
+
+describe("applyImportDiff", () => {
+  beforeEach(() => {
+    Object.values(api).forEach((fn) => fn.mockReset().mockResolvedValue({ inserted: 0, updated: 1, failed: 0 }));
+  });
+
+  it("upserts the selected rows and deletes removed ones for that date only", async () => {
+    const rows = reconcileImport(
+      { guests: [{ name: "Mary Lau", profession: "Family Lawyer", referrer: "Peter" }], substitutes: [] },
+      existing
+    );
+    const result = await applyImportDiff("2026-08-13", rows, "anchor", 1);
+
+    expect(api.bulkImport).toHaveBeenCalledWith(
+      { type: "guest", records: [expect.objectContaining({ name: "Mary Lau" })] },
+      "anchor",
+      1
+    );
+    expect(api.bulkImportObservers).not.toHaveBeenCalled();
+    expect(api.deleteGuest.mock.calls).toEqual([
+      ["Yuri Lo", "2026-08-13", "anchor", 1],
+      ["Ken Chan", "2026-08-13", "anchor", 1],
+    ]);
+    expect(api.deletePlannedSubstitute).toHaveBeenCalledWith("2026-08-13", "Zoe", "anchor", 1);
+    expect(result.deletions).toEqual({ total: 3, deleted: 3, failed: 0, errors: [] });
+  });
+
+  it("reports a failed deletion per row and still runs the rest", async () => {
+    api.deleteGuest.mockRejectedValueOnce(new Error("找不到嘉賓"));
+    const rows = reconcileImport({ guests: [], substitutes: [] }, existing);
+    const result = await applyImportDiff("2026-08-13", rows, "anchor", 1);
+
+    expect(api.deleteGuest).toHaveBeenCalledTimes(3);
+    expect(api.deletePlannedSubstitute).toHaveBeenCalledTimes(1);
+    expect(result.deletions).toEqual({ total: 4, deleted: 3, failed: 1, errors: ["Yuri Lo: 找不到嘉賓"] });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { IntroductionFeedback, MatchOverride, MatchedMember } from "../api";
+import type { Guest, Member } from "../types/seating";
+import { matchMembersByKeyword } from "../lib/keywordMatch";
+import {
+  applyMatchOverrides,
+  summarizeIntroductionFeedback,
+  upsertMatchOverride,
+  withIntroductionStats,
+} from "../lib/matchFeedback";
+
+const matched: MatchedMember[] = [
+  { memberName: "Vincent Woo", profession: "會計", matchStrength: "High", reason: "診所報稅" },
+  { memberName: "Zoe Wu", profession: "設計", matchStrength: "Medium", reason: "品牌設計" },
+  { memberName: "Peter Chan", profession: "保險", matchStrength: "Low", reason: "一般人脈" },
+];
+
+const override = (memberName: string, patch: Partial<MatchOverride>): MatchOverride => ({
+  eventId: 7,
+  guestKey: "yuri lo",
+  memberName,
+  profession: "",
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  ...patch,
+});
+
+const feedback = (memberName: string, happened: boolean, useful: boolean | null, eventId = 7, recordedAt = "2026-03-02"): IntroductionFeedback => ({
+  eventId,
+  guestKey: "yuri lo",
+  guestName: "Yuri Lo",
+  memberName,
+  happened,
+  useful,
+  recordedAt,
+});
+
+describe("applyMatchOverrides", () => {
+  it("drops removed members, re-grades and re-words, and puts pinned ones first", () => {
+    const adjusted = applyMatchOverrides(matched, [
+      override("vincent woo", { removed: true }),
+      override("Peter Chan", { pinned: true, matchStrength: "High", reason: "剛好需要保險" }),
+      override("Amy Ng", { pinned: true, profession: "律師" }),
+    ]);
+    expect(adjusted).toEqual([
+      { memberName: "Peter Chan", profession: "保險", matchStrength: "High", reason: "剛好需要保險", pinned: true, edited: true },
+      { memberName: "Amy Ng", profession: "律師", matchStrength: "High", reason: "", pinned: true, edited: undefined },
+      matched[1],
+    ]);
+  });
+
+  it("treats an empty override as cleared and upserts per event, guest and member", () => {
+    expect(applyMatchOverrides(matched, [override("Zoe Wu", {})])[1]).toMatchObject({ matchStrength: "Medium", edited: undefined });
+    const list = upsertMatchOverride([override("Zoe Wu", { removed: true })], override("zoe wu", {}));
+    expect(list).toHaveLength(1);
+    expect(list[0].removed).toBeUndefined();
+  });
+});
+
+describe("summarizeIntroductionFeedback", () => {
+  it("counts the latest outcome per introduction and attaches it to members", () => {
+    const summary = summarizeIntroductionFeedback([
+      feedback("Zoe Wu", false, null, 7, "2026-03-01"),
+      feedback("Zoe Wu", true, true, 7, "2026-03-02"),
+      feedback("Zoe Wu", true, false, 8),
+      feedback("Peter Chan", false, null),
+    ]);
+    expect(summary).toEqual([
+      { memberName: "Zoe Wu", recorded: 2, happened: 2, useful: 1 },
+      { memberName: "Peter Chan", recorded: 1, happened: 0, useful: 0 },
+    ]);
+    const members = withIntroductionStats([{ id: "m1", name: "zoe wu", profession: "設計" }, { id: "m2", name: "Amy Ng", profession: "律師" }], summary);
+    expect(members[0].introductions).toEqual({ recorded: 2, happened: 2, useful: 1 });
+    expect(members[1].introductions).toBeUndefined();
+  });
+});
+
+describe("matchMembersByKeyword feedback boost", () => {
+  const guest: Guest = { id: "g1", name: "Yuri Lo", profession: "醫務中心", targetProfession: "設計", bottlenecks: [] };
+  const members: Member[] = [
+    { id: "m1", name: "Zoe Wu", profession: "平面設計" },
+    { id: "m2", name: "Ada Lam", profession: "品牌設計", introductions: { recorded: 3, happened: 3, useful: 3 } },
+    { id: "m3", name: "Ken Ip", profession: "物流", introductions: { recorded: 2, happened: 2, useful: 2 } },
+  ];
+
+  it("ranks relevant members who converted introductions higher, but never makes irrelevant ones relevant", () => {
+    const matches = matchMembersByKeyword(guest, members);
+    expect(matches.map((m) => m.member.name)).toEqual(["Ada Lam", "Zoe Wu", "Ken Ip"]);
+    expect(matches[0].reason).toContain("過往有 3 次引薦獲評為有幫助");
+    expect(matches[2]).toMatchObject({ matchStrength: "Low" });
+    expect(matches[2].reason).not.toContain("過往");
+  });
+});
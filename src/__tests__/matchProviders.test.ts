@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { Guest, Member } from "../types/seating";
+import {
+  MATCH_RESPONSE_SCHEMA,
+  matchProviderLabel,
+  matchWithProviders,
+  registerMatchProvider,
+  validateJsonSchema,
+} from "../lib/matchProviders";
+
+const members: Member[] = [
+  { id: "m1", name: "Peter Chan", profession: "Insurance Broker" },
+  { id: "m2", name: "Amy Ng", profession: "律師" },
+];
+const guest: Guest = { id: "g1", name: "Yuri", profession: "診所", targetProfession: "保險", bottlenecks: [] };
+
+registerMatchProvider({
+  id: "slow",
+  label: "Slow AI",
+  local: false,
+  timeoutMs: 50,
+  match: (_guest, _members, signal) =>
+    new Promise((resolve) => {
+      const timer = setTimeout(() => resolve({ matches: [] }), 10_000);
+      signal.addEventListener("abort", () => clearTimeout(timer));
+    }),
+});
+registerMatchProvider({
+  id: "sloppy",
+  label: "Sloppy AI",
+  local: false,
+  timeoutMs: 1000,
+  match: async () => ({ matches: [{ memberName: "Peter Chan", matchStrength: "Very High", reason: "x" }] }),
+});
+registerMatchProvider({
+  id: "good",
+  label: "Good AI",
+  local: false,
+  timeoutMs: 1000,
+  match: async () => ({ matches: [{ memberName: "amy  ng", matchStrength: "High", reason: "合約" }, { memberName: "Nobody", matchStrength: "Low", reason: "" }] }),
+});
+
+describe("validateJsonSchema", () => {
+  it("reports the path of each mismatch", () => {
+    expect(validateJsonSchema({ matches: [{ memberName: "A", matchStrength: "High", reason: "" }] }, MATCH_RESPONSE_SCHEMA)).toEqual([]);
+    expect(validateJsonSchema({ matches: [{ memberName: "", matchStrength: "Top" }] }, MATCH_RESPONSE_SCHEMA)).toEqual([
+      "$.matches[0].reason: required",
+      "$.matches[0].memberName: shorter than 1",
+      '$.matches[0].matchStrength: "Top" not in ["High","Medium","Low"]',
+    ]);
+    expect(validateJsonSchema("oops", MATCH_RESPONSE_SCHEMA)).toEqual(["$: expected object, got string"]);
+  });
+});
+
+describe("matchWithProviders", () => {
+  it("skips providers that time out or answer off-schema, and maps names back to members", async () => {
+    const result = await matchWithProviders(guest, members, ["slow", "sloppy", "good"]);
+    expect(result.provider?.id).toBe("good");
+    expect(result.matches).toEqual([{ member: members[1], matchStrength: "High", reason: "合約" }]);
+    expect(result.failures.map((f) => f.providerId)).toEqual(["slow", "sloppy"]);
+    expect(result.failures[0].error).toContain("逾時");
+    expect(result.failures[1].error).toContain("matchStrength");
+  });
+
+  it("falls back to the deterministic local provider offline", async () => {
+    const first = await matchWithProviders(guest, members, ["slow", "local"]);
+    const second = await matchWithProviders(guest, members, ["local"]);
+    expect(first.provider?.id).toBe("local");
+    expect(first.matches).toEqual(second.matches);
+    expect(first.matches[0]).toMatchObject({ member: members[0], matchStrength: "Medium" });
+    expect(matchProviderLabel("keyword")).toBe("🔍 本機規則配對");
+  });
+});
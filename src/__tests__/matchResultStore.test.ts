@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type { BatchGuestInfo, BatchMatchResult } from "../api";
+import {
+  buildRunResults,
+  compareMatchRuns,
+  guestProfileHash,
+  listMatchRuns,
+  memberRosterVersion,
+  planMatchRun,
+} from "../lib/matchResultStore";
+
+const roster = memberRosterVersion([
+  { name: "Vincent Woo", profession: "會計" },
+  { name: "Zoe Wu", profession: "設計" },
+]);
+
+const guests: BatchGuestInfo[] = [
+  { name: "Yuri Lo", profession: "醫務中心" },
+  { name: "Ken Ip", profession: "裝修", remarks: "想認識地產" },
+];
+
+const fresh: BatchMatchResult[] = [
+  {
+    guestName: "Yuri Lo",
+    guestProfession: "醫務中心",
+    matchedMembers: [{ memberName: "Vincent Woo", profession: "會計", matchStrength: "High", reason: "診所報稅" }],
+  },
+  {
+    guestName: "ken ip",
+    guestProfession: "裝修",
+    matchedMembers: [{ memberName: "Zoe Wu", profession: "設計", matchStrength: "Medium", reason: "室內設計" }],
+  },
+];
+
+const firstRun = buildRunResults(7, "run-1", "2026-03-01T10:00:00.000Z", roster, "deepseek", guests, fresh, []);
+
+describe("memberRosterVersion / guestProfileHash", () => {
+  it("ignores roster order and name spacing but not profession changes", () => {
+    expect(memberRosterVersion([{ name: " zoe wu", profession: "設計" }, { name: "Vincent Woo", profession: "會計" }])).toBe(roster);
+    expect(memberRosterVersion([{ name: "Vincent Woo", profession: "會計" }, { name: "Zoe Wu", profession: "品牌" }])).not.toBe(roster);
+    expect(guestProfileHash({ name: "YURI LO ", profession: "醫務中心" })).toBe(guestProfileHash(guests[0]));
+    expect(guestProfileHash({ ...guests[0], remarks: "想找會計" })).not.toBe(guestProfileHash(guests[0]));
+  });
+});
+
+describe("planMatchRun", () => {
+  it("reuses unchanged guests and reruns changed, new, or roster-stale ones", () => {
+    const changed = [{ ...guests[0] }, { ...guests[1], remarks: "想認識律師" }, { name: "Amy Ng", profession: "律師" }];
+    const plan = planMatchRun(changed, firstRun, roster);
+    expect(plan.reuse.map((r) => r.guestKey)).toEqual(["yuri lo"]);
+    expect(plan.rerun.map((g) => g.name)).toEqual(["Ken Ip", "Amy Ng"]);
+
+    expect(planMatchRun(guests, firstRun, "other-roster").rerun).toHaveLength(2);
+    expect(planMatchRun(guests, firstRun, roster, true).reuse).toEqual([]);
+  });
+});
+
+describe("buildRunResults / listMatchRuns / compareMatchRuns", () => {
+  const rerun: BatchMatchResult = {
+    guestName: "Ken Ip",
+    guestProfession: "裝修",
+    matchedMembers: [
+      { memberName: "Zoe Wu", profession: "設計", matchStrength: "High", reason: "室內設計" },
+      { memberName: "Vincent Woo", profession: "會計", matchStrength: "Low", reason: "" },
+    ],
+  };
+  const changedGuests = [guests[0], { ...guests[1], remarks: "想認識設計師" }];
+  const { reuse } = planMatchRun(changedGuests, firstRun, roster);
+  const secondRun = buildRunResults(7, "run-2", "2026-03-02T10:00:00.000Z", roster, "local", changedGuests, [rerun], reuse);
+  const stored = [...firstRun, ...secondRun];
+
+  it("stores every guest of the run, tagging reused ones with their source run", () => {
+    expect(firstRun.map((r) => r.guestKey)).toEqual(["yuri lo", "ken ip"]);
+    expect(secondRun[0]).toMatchObject({ runId: "run-2", reusedFromRunId: "run-1", provider: "deepseek" });
+    expect(secondRun[1]).toMatchObject({ runId: "run-2", provider: "local", guestRemarks: "想認識設計師" });
+    expect(secondRun[1].reusedFromRunId).toBeUndefined();
+  });
+
+  it("lists runs newest first with the provider of the guests actually re-matched", () => {
+    expect(listMatchRuns(stored)).toEqual([
+      { runId: "run-2", matchedAt: "2026-03-02T10:00:00.000Z", provider: "local", rosterVersion: roster, guestCount: 2, rematchedCount: 1 },
+      { runId: "run-1", matchedAt: "2026-03-01T10:00:00.000Z", provider: "deepseek", rosterVersion: roster, guestCount: 2, rematchedCount: 2 },
+    ]);
+  });
+
+  it("reports added, removed and re-graded members per guest", () => {
+    const rows = compareMatchRuns(stored, "run-1", "run-2");
+    expect(rows.find((r) => r.guestKey === "yuri lo")).toMatchObject({ added: [], removed: [], strengthChanges: [] });
+    expect(rows.find((r) => r.guestKey === "ken ip")).toMatchObject({
+      added: ["Vincent Woo"],
+      removed: [],
+      strengthChanges: ["Zoe Wu: Medium → High"],
+    });
+    expect(compareMatchRuns(stored, "run-2", "run-1").find((r) => r.guestKey === "ken ip")?.removed).toEqual(["Vincent Woo"]);
+  });
+});
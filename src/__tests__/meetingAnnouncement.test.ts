@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildWhatsAppMeetingMessage, findAnnouncementRoundTripIssues, type MeetingAnnouncementInput } from "../lib/meetingAnnouncement";
+import { parseWhatsAppMeetingMessage, resolveMeetingTemplate } from "../lib/parseWhatsAppMeetingMessage";
+
+const input: MeetingAnnouncementInput = {
+  event: { name: "VIP Day Visitors", date: "2026-08-13", startTime: "06:30", endTime: "09:00" },
+  guests: [
+    { name: "Yuri Lo", profession: "醫務中心", referrer: "Vincent" },
+    { name: "Vincent Woo", profession: "會計師樓老闆(上市策劃/收購合併)", referrer: "" },
+    { name: "Mary Lau", profession: "Family Lawyer", referrer: "Peter", role: "SPEAKER" },
+    { name: "Alice Yip", profession: "Director", referrer: "", role: "VIP" },
+  ],
+  observers: [{ id: 1, name: "Eddie Cheng", profession: "Marketing", eventDate: "2026-08-13", attended: false }],
+  substitutes: [{ substituteName: "Wendy Cheung", memberName: "Zoe" }],
+};
+
+describe("buildWhatsAppMeetingMessage", () => {
+  it.each(["anchor", "amax"])("round-trips through the parser in the %s template", (chapterTag) => {
+    const template = resolveMeetingTemplate(chapterTag);
+    const text = buildWhatsAppMeetingMessage(input, template);
+    const parsed = parseWhatsAppMeetingMessage(text, template);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.eventDate).toBe("2026-08-13");
+    expect(parsed.guests.map((g) => [g.name, g.profession, g.role])).toEqual([
+      ["Mary Lau", "Family Lawyer", "SPEAKER"],
+      ["Alice Yip", "Director", "VIP"],
+      ["Yuri Lo", "醫務中心", "GUEST"],
+      ["Vincent Woo", "會計師樓老闆(上市策劃/收購合併)", "GUEST"],
+    ]);
+    expect(findAnnouncementRoundTripIssues(text, input, template)).toEqual([]);
+  });
+
+  it("writes the chapter's headings and language, and flags entries that can't be read back", () => {
+    const text = buildWhatsAppMeetingMessage(input, resolveMeetingTemplate("amax"));
+    expect(text).toContain("📅 Date: Thursday, 13 Aug 2026");
+    expect(text).toContain("Visitors (Name / Profession / Invited by)\n1. Yuri Lo/醫務中心/Vincent");
+
+    const withoutProfession = { ...input, guests: [{ name: "Ken Chan", profession: "", referrer: "CK" }] };
+    const template = resolveMeetingTemplate("anchor");
+    const broken = buildWhatsAppMeetingMessage(withoutProfession, template);
+    expect(findAnnouncementRoundTripIssues(broken, withoutProfession, template)).toEqual(["嘉賓無法還原：Ken Chan（缺少專業領域）"]);
+  });
+});
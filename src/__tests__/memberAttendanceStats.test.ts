@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAttendanceHeatmap,
+  computeMemberAttendanceStats,
+  shiftIsoDateByMonths,
+} from "../lib/memberAttendanceStats";
+
+const row = (eventDate: string, status: string, substituteName?: string) => ({
+  eventName: "Weekly",
+  eventDate,
+  status,
+  substituteName,
+});
+
+describe("computeMemberAttendanceStats", () => {
+  const history = [
+    row("2025-01-07", "absent"), // outside 12 months
+    row("2025-07-01", "present"), // 12-month window only
+    row("2026-01-06", "absent"),
+    row("2026-01-13", "on-time"),
+    row("2026-01-20", "late"),
+    row("2026-01-27", "absent", "Sub Sam"),
+    row("2026-02-03", "present"),
+    row("2026-02-10", "on-time"), // future
+  ];
+
+  it("computes rolling rates, streak, late and covered vs uncovered absences", () => {
+    const stats = computeMemberAttendanceStats(history, "2026-02-05");
+    expect(stats.sixMonths).toEqual({ attended: 3, meetings: 5, rate: 0.6 });
+    expect(stats.twelveMonths).toEqual({ attended: 4, meetings: 6, rate: 4 / 6 });
+    expect(stats.currentStreak).toBe(3);
+    expect(stats.lateCount).toBe(1);
+    expect(stats.coveredAbsences).toBe(1);
+    expect(stats.uncoveredAbsences).toBe(1);
+  });
+
+  it("returns null rates with no meetings", () => {
+    expect(computeMemberAttendanceStats([], "2026-02-05").sixMonths.rate).toBeNull();
+  });
+});
+
+describe("attendance calendar helpers", () => {
+  it("clamps month shifts to the end of the month", () => {
+    expect(shiftIsoDateByMonths("2026-08-31", -6)).toBe("2026-02-28");
+  });
+
+  it("builds Sunday-first week columns ending with today's week", () => {
+    const weeks = buildAttendanceHeatmap([row("2026-02-03", "late")], "2026-02-05", 2);
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0][0].date).toBe("2026-01-25");
+    expect(weeks[1][2]).toMatchObject({ date: "2026-02-03", outcome: "late" });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { buildBadgeSheetEntries, buildBadgeSheetFilename, paginateBadgeSheet } from "../lib/memberBadgeSheet";
+import { groupMembersByCategory } from "../lib/memberCategories";
+
+describe("memberBadgeSheet", () => {
+  const members = [
+    { id: 1, name: "Zoe", domain: "IT", professionCode: "A" },
+    { id: 2, name: "Amy", domain: "Law", professionCode: "B" },
+    { id: 3, name: "Ben", domain: "Cloud", professionCode: "A" },
+    { name: "No Id", domain: "?", professionCode: "B" },
+  ];
+  const badge = (memberId: number) => ({ memberId, payload: `BNI2.x${memberId}.sig`, expiresAt: "2027-01-01T00:00:00Z" });
+
+  it("keeps category order and reports members without a signed badge", () => {
+    const { entries, skipped } = buildBadgeSheetEntries(groupMembersByCategory(members), [badge(1), badge(2), badge(3)]);
+    expect(entries.map((e) => [e.category.code, e.member.name])).toEqual([
+      ["A", "Ben"],
+      ["A", "Zoe"],
+      ["B", "Amy"],
+    ]);
+    expect(skipped.map((m) => m.name)).toEqual(["No Id"]);
+  });
+
+  it("paginates 8 badges per page and names the file after the chapter", () => {
+    expect(paginateBadgeSheet(Array.from({ length: 17 }, (_, i) => i)).map((p) => p.length)).toEqual([8, 8, 1]);
+    expect(buildBadgeSheetFilename("BNI Anchor", "2026-03-01")).toBe("BNI-Anchor-Badges-2026-03-01.pdf");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { logAttendance, updateAttendanceSubstitute, recordAttendance, checkIn, completeGuestIntroduction } = vi.hoisted(() => ({
+  logAttendance: vi.fn(),
+  updateAttendanceSubstitute: vi.fn(),
+  recordAttendance: vi.fn(),
+  checkIn: vi.fn(),
+  completeGuestIntroduction: vi.fn(),
+}));
+
+vi.mock("../api", () => {
+  class ApiHttpError extends Error {
+    status: number;
+    constructor(message: string, status: number) {
+      super(message);
+      this.status = status;
+    }
+  }
+  return { ApiHttpError, logAttendance, updateAttendanceSubstitute, recordAttendance, checkIn };
+});
+
+vi.mock("../lib/guestIntroduction", () => ({ completeGuestIntroduction }));
+
+import { ApiHttpError } from "../api";
+import {
+  enqueueOfflineAction,
+  flushOfflineQueue,
+  loadOfflineQueue,
+} from "../lib/offlineQueue";
+
+const logAction = (attendeeName: string) => ({
+  kind: "log" as const,
+  attendeeId: 1,
+  attendeeType: "member",
+  attendeeName,
+  attendeeProfession: "IT",
+  eventDate: "2026-02-10",
+  checkedInAt: "2026-02-10T07:10:00.000Z",
+  status: "late",
+  chapter: "anchor",
+});
+
+describe("offlineQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("replays queued actions in enqueue order", async () => {
+    const calls: string[] = [];
+    logAttendance.mockImplementation(async (_id: number, _t: string, name: string) => {
+      calls.push(`log:${name}`);
+      return { status: "success", message: "ok" };
+    });
+    updateAttendanceSubstitute.mockImplementation(async (_d: string, member: string) => {
+      calls.push(`sub:${member}`);
+      return { status: "success", message: "ok" };
+    });
+
+    await enqueueOfflineAction(logAction("Alice"));
+    await enqueueOfflineAction({ kind: "substitute", eventDate: "2026-02-10", memberName: "Alice", substituteName: "Bob" });
+    await enqueueOfflineAction(logAction("Carol"));
+
+    const result = await flushOfflineQueue();
+    expect(result).toEqual({ flushed: 3, failed: 0, remaining: 0 });
+    expect(calls).toEqual(["log:Alice", "sub:Alice", "log:Carol"]);
+  });
+
+  it("treats 409 already-checked-in as synced", async () => {
+    logAttendance.mockRejectedValue(new ApiHttpError("已經簽到", 409));
+    await enqueueOfflineAction(logAction("Alice"));
+    const result = await flushOfflineQueue();
+    expect(result.flushed).toBe(1);
+    expect(await loadOfflineQueue()).toHaveLength(0);
+  });
+
+  it("marks backend rejections failed and stops on network errors", async () => {
+    logAttendance
+      .mockRejectedValueOnce(new ApiHttpError("bad request", 400))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    await enqueueOfflineAction(logAction("Alice"));
+    await enqueueOfflineAction(logAction("Bob"));
+    await enqueueOfflineAction(logAction("Carol"));
+
+    const result = await flushOfflineQueue();
+    expect(result).toEqual({ flushed: 0, failed: 1, remaining: 3 });
+    expect(logAttendance).toHaveBeenCalledTimes(2);
+
+    const items = await loadOfflineQueue();
+    expect(items.map((i) => i.state)).toEqual(["failed", "pending", "pending"]);
+    expect(items[0].lastError).toBe("bad request");
+  });
+
+  it("fails a queued substitute when the member's check-in failed", async () => {
+    logAttendance.mockRejectedValueOnce(new ApiHttpError("bad request", 400)).mockResolvedValue({ status: "success", message: "ok" });
+    await enqueueOfflineAction(logAction("Alice"));
+    await enqueueOfflineAction({ kind: "substitute", eventDate: "2026-02-10", memberName: "Alice", substituteName: "Bob" });
+    await enqueueOfflineAction(logAction("Carol"));
+    await enqueueOfflineAction({ kind: "substitute", eventDate: "2026-02-10", memberName: "Carol", substituteName: "Dan" });
+
+    const result = await flushOfflineQueue();
+    expect(result).toEqual({ flushed: 2, failed: 2, remaining: 2 });
+    expect(updateAttendanceSubstitute).toHaveBeenCalledTimes(1);
+    expect(updateAttendanceSubstitute).toHaveBeenCalledWith("2026-02-10", "Carol", "Dan", undefined);
+    const items = await loadOfflineQueue();
+    expect(items.map((i) => [i.action.kind, i.state])).toEqual([
+      ["log", "failed"],
+      ["substitute", "failed"],
+    ]);
+  });
+
+  it("replays live-token check-ins with the time they were queued", async () => {
+    logAttendance.mockResolvedValue({ status: "success", message: "ok" });
+    const at = new Date("2026-02-10T07:10:05.000Z");
+    await enqueueOfflineAction({ ...logAction("Alice"), liveToken: "BNIE.token" }, at);
+    await enqueueOfflineAction(
+      { kind: "observer", observerId: 9, name: "Olive", profession: "Law", eventDate: "2026-02-10", chapter: "anchor", liveToken: "BNIE.token" },
+      at
+    );
+
+    await flushOfflineQueue();
+    const proof = { liveToken: "BNIE.token", queuedAt: at.toISOString() };
+    expect(logAttendance).toHaveBeenNthCalledWith(1, 1, "member", "Alice", "IT", "2026-02-10", "2026-02-10T07:10:00.000Z", "late", "anchor", proof, undefined);
+    expect(logAttendance).toHaveBeenNthCalledWith(2, 9, "observer", "Olive", "Law", "2026-02-10", "", "present", "anchor", proof);
+  });
+
+  it("sends a queued guest's card token and fills the card only while it is still empty", async () => {
+    logAttendance
+      .mockResolvedValueOnce({ status: "success", message: "ok", introductionReady: false })
+      .mockResolvedValueOnce({ status: "success", message: "ok", introductionReady: true });
+    completeGuestIntroduction.mockRejectedValueOnce(new Error("match failed"));
+    const guest = (name: string, token: string) => ({ ...logAction(name), attendeeType: "guest", introductionToken: token, eventId: 7 });
+    await enqueueOfflineAction(guest("Gina", "tok-gina"));
+    await enqueueOfflineAction(guest("Hugo", "tok-hugo"));
+
+    const result = await flushOfflineQueue();
+    expect(result).toMatchObject({ flushed: 2, failed: 0, remaining: 0 });
+    expect(logAttendance.mock.calls[0][9]).toBe("tok-gina");
+    expect(completeGuestIntroduction).toHaveBeenCalledTimes(1);
+    expect(completeGuestIntroduction).toHaveBeenCalledWith(7, "tok-gina", { name: "Gina", profession: "IT" }, "anchor");
+  });
+
+  it("fails a replay whose token the backend rejects instead of retrying it", async () => {
+    logAttendance.mockRejectedValueOnce(new ApiHttpError("簽到 QR 碼已過期", 403));
+    await enqueueOfflineAction({ ...logAction("Alice"), liveToken: "BNIE.old" });
+
+    const result = await flushOfflineQueue();
+    expect(result).toEqual({ flushed: 0, failed: 1, remaining: 1 });
+    expect((await loadOfflineQueue())[0]).toMatchObject({ state: "failed", lastError: "簽到 QR 碼已過期" });
+  });
+
+  it("migrates the legacy QR-only localStorage queue", async () => {
+    localStorage.setItem(
+      "anchor-checkin-queue",
+      JSON.stringify([{ id: "a", qrPayload: "{\"name\":\"x\"}", createdAt: "2026-02-10T07:00:00.000Z" }])
+    );
+    const items = await loadOfflineQueue();
+    expect(items).toHaveLength(1);
+    expect(items[0].action).toEqual({ kind: "scan", qrPayload: "{\"name\":\"x\"}" });
+    expect(localStorage.getItem("anchor-checkin-queue")).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import {
   splitPersonLine,
   splitSubstituteLine,
   parseMeetingEventDate,
+  resolveMeetingTemplate,
 } from "../lib/parseWhatsAppMeetingMessage";
 import { formatMemberCheckinLabel } from "../components/CheckinFormPanel";
 
@@ -37,10 +38,39 @@ Chan One
 替代人名單 (替代人姓名/會員姓名)
 1.⁠ ⁠Wendy Cheung / Zoe`;
 
+const AMAX_MESSAGE = `*BNI AMax Weekly Meeting*
+📅 Wednesday, 12 Aug 2026
+⏰ 7:00am - 9:00am
+
+*Speaker:* Mary Lau (Family Lawyer)
+
+Education Slot
+Peter Ho
+(Insurance Broker)
+
+*Visitors* (Name / Profession / Invited by)
+1. Tom Lee / Architect / Invited by Mary
+2. Sue Wong - Florist - Peter
+3. Ken Chan
+
+VIPs
+- Alice Yip / BNI Dynasty Director
+
+Substitutes
+1. Jason Ng for Henry Tse
+
+See you all there!`;
+
 describe("parseMeetingEventDate", () => {
   it("parses Chinese date format", () => {
     expect(parseMeetingEventDate("🗓️日期：2026年8月13日 (星期四)")).toBe("2026-08-13");
   });
+
+  it("parses English and day-first numeric dates", () => {
+    expect(parseMeetingEventDate("Wednesday, 13 Aug 2026")).toBe("2026-08-13");
+    expect(parseMeetingEventDate("Date: August 5th, 2026")).toBe("2026-08-05");
+    expect(parseMeetingEventDate("Meeting on 5/8/2026")).toBe("2026-08-05");
+  });
 });
 
 describe("splitPersonLine", () => {
@@ -135,3 +165,27 @@ describe("parseWhatsAppMeetingMessage", () => {
     expect(observerCsv).toContain("Eddie Cheng(Insight),Marketing 公司老闆,2026-08-13");
   });
 });
+
+describe("parseWhatsAppMeetingMessage (English template)", () => {
+  it("reads AMax sections, sets speaker / VIP roles and reports bad lines with their line number", () => {
+    const result = parseWhatsAppMeetingMessage(AMAX_MESSAGE, resolveMeetingTemplate("amax"));
+
+    expect(result.eventDate).toBe("2026-08-12");
+    expect(result.guests).toEqual([
+      { name: "Mary Lau", profession: "Family Lawyer", referrer: "", eventDate: "2026-08-12", role: "SPEAKER" },
+      { name: "Peter Ho", profession: "Insurance Broker", referrer: "", eventDate: "2026-08-12", role: "SPEAKER" },
+      { name: "Tom Lee", profession: "Architect", referrer: "Mary", eventDate: "2026-08-12", role: "GUEST" },
+      { name: "Sue Wong", profession: "Florist", referrer: "Peter", eventDate: "2026-08-12", role: "GUEST" },
+      { name: "Alice Yip", profession: "BNI Dynasty Director", referrer: "", eventDate: "2026-08-12", role: "VIP" },
+    ]);
+    expect(result.substitutes).toEqual([{ substituteName: "Jason Ng", memberName: "Henry Tse", eventDate: "2026-08-12" }]);
+    expect(result.errors).toEqual([{ line: 14, message: "無法解析嘉賓行：Ken Chan" }]);
+  });
+
+  it("adds a chapter's own aliases on top of its template", () => {
+    const text = "13 Aug 2026\nOur Guests This Week\n1. Ann Ho / Baker / CK";
+    expect(parseWhatsAppMeetingMessage(text, resolveMeetingTemplate("amax")).guests).toHaveLength(0);
+    const template = resolveMeetingTemplate("amax", { guests: ["Our Guests This Week"] });
+    expect(parseWhatsAppMeetingMessage(text, template).guests[0]).toMatchObject({ name: "Ann Ho", referrer: "CK" });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import type { Guest, Member } from "../types/seating";
+import { matchMembersByKeyword } from "../lib/keywordMatch";
+import { categoriesFromProfessionGroups } from "../lib/memberCategories";
+import { areConceptsRelated, conceptCategoryCodes, extractProfessionConcepts } from "../lib/professionOntology";
+
+describe("extractProfessionConcepts", () => {
+  it("finds concepts in unspaced Chinese and in English, without matching inside words", () => {
+    expect(extractProfessionConcepts("保險裝修")).toEqual(["insurance", "interior-design"]);
+    expect(extractProfessionConcepts("Chartered Accountant")).toEqual(["accounting"]);
+    expect(extractProfessionConcepts("IT support")).toEqual(["it"]);
+    expect(extractProfessionConcepts("Digital agency")).toEqual([]);
+  });
+
+  it("treats adjacency as symmetric and maps concepts onto the chapter's own group codes", () => {
+    expect(areConceptsRelated("insurance", "financial-planning")).toBe(true);
+    expect(areConceptsRelated("financial-planning", "insurance")).toBe(true);
+    expect(areConceptsRelated("insurance", "food")).toBe(false);
+    const amax = categoriesFromProfessionGroups([
+      { code: "A", name: "金融保險" },
+      { code: "B", name: "餐飲美食" },
+    ]);
+    expect([...conceptCategoryCodes(["insurance"], amax)]).toEqual(["A"]);
+  });
+});
+
+describe("matchMembersByKeyword", () => {
+  const members: Member[] = [
+    { id: "m1", name: "Peter Chan", profession: "Insurance Broker", category: "I" },
+    { id: "m2", name: "Amy Ng", profession: "財富管理", category: "I" },
+    { id: "m3", name: "Ken Ho", profession: "Interior Design 室內設計", category: "C" },
+    { id: "m4", name: "Mary Lau", profession: "Wedding Photographer", category: "E" },
+  ];
+  const guest: Guest = { id: "g1", name: "Yuri", profession: "診所", targetProfession: "保險", bottlenecks: ["保險裝修"] };
+
+  it("scores across languages, adjacent concepts and profession groups", () => {
+    const byId = new Map(matchMembersByKeyword(guest, members).map((m) => [m.member.id, m]));
+    expect(byId.get("m1")?.matchStrength).toBe("High");
+    expect(byId.get("m2")?.matchStrength).toBe("Medium");
+    expect(byId.get("m2")?.reason).toContain("保險");
+    expect(byId.get("m3")?.matchStrength).toBe("Medium");
+    expect(byId.get("m4")?.matchStrength).toBe("Low");
+  });
+
+  it("still matches words the ontology doesn't know literally", () => {
+    expect(matchMembersByKeyword({ ...guest, targetProfession: "風水", bottlenecks: [] }, [
+      { id: "m5", name: "Lee", profession: "風水顧問" },
+    ])[0].matchStrength).toBe("Medium");
+  });
+});
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  generateMemberPayload,
+  verifyBadgePayload,
+  verifyLiveEventToken,
+  type BadgeVerificationKey,
+  type LiveEventToken,
+  type MemberBadgeV2,
+} from "../qr-format";
+
+const toBase64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+let privateKey: CryptoKey;
+let key: BadgeVerificationKey;
+
+const NOW = new Date("2026-03-01T07:00:00Z");
+const nowSeconds = Math.floor(NOW.getTime() / 1000);
+
+async function sign(body: MemberBadgeV2 | LiveEventToken, signer: CryptoKey = privateKey): Promise<string> {
+  const prefix = body.t === "event" ? "BNIE" : "BNI2";
+  const head = `${prefix}.${toBase64Url(new TextEncoder().encode(JSON.stringify(body)))}`;
+  const signature = await crypto.subtle.sign({ name: "Ed25519" }, signer, new TextEncoder().encode(head));
+  return `${head}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+const badge = (overrides: Partial<MemberBadgeV2> = {}): MemberBadgeV2 => ({
+  v: 2,
+  t: "member",
+  mid: 42,
+  ch: 1,
+  n: "Alice",
+  iat: nowSeconds - 3600,
+  exp: nowSeconds + 3600,
+  kid: "k1",
+  ...overrides,
+});
+
+const liveToken = (overrides: Partial<LiveEventToken> = {}): LiveEventToken => ({
+  v: 1,
+  t: "event",
+  eid: 21,
+  ch: 1,
+  iat: nowSeconds - 10,
+  exp: nowSeconds + 20,
+  kid: "k1",
+  ...overrides,
+});
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair;
+  privateKey = pair.privateKey;
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey));
+  key = { chapterId: 1, publicKey: toBase64Url(raw), keyId: "k1", acceptLegacy: false };
+});
+
+describe("verifyBadgePayload", () => {
+  it("accepts a valid signed badge", async () => {
+    const result = await verifyBadgePayload(await sign(badge()), key, NOW);
+    expect(result).toMatchObject({ ok: true, version: 2, badge: { mid: 42 } });
+  });
+
+  it("rejects tampered, foreign, expired and wrong-chapter badges with a reason", async () => {
+    const valid = await sign(badge());
+    const [head, body, sig] = valid.split(".");
+    const forgedBody = toBase64Url(new TextEncoder().encode(JSON.stringify(badge({ mid: 7 }))));
+    expect(await verifyBadgePayload(`${head}.${forgedBody}.${sig}`, key, NOW)).toEqual({ ok: false, reason: "bad-signature" });
+    expect(await verifyBadgePayload(`${head}.${body}`, key, NOW)).toEqual({ ok: false, reason: "malformed" });
+
+    const other = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair;
+    expect(await verifyBadgePayload(await sign(badge(), other.privateKey), key, NOW)).toEqual({
+      ok: false,
+      reason: "bad-signature",
+    });
+    expect(await verifyBadgePayload(await sign(badge({ exp: nowSeconds - 600 })), key, NOW)).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(await verifyBadgePayload(await sign(badge({ ch: 2 })), key, NOW)).toEqual({ ok: false, reason: "wrong-chapter" });
+    expect(await verifyBadgePayload(await sign(badge({ kid: "old" })), key, NOW)).toEqual({ ok: false, reason: "unknown-key" });
+  });
+
+  it("gates legacy v1 JSON behind the chapter toggle and passes other tokens through", async () => {
+    const legacy = generateMemberPayload("Alice", "ANCHOR-001");
+    expect(await verifyBadgePayload(legacy, key, NOW)).toEqual({ ok: false, reason: "legacy-disabled" });
+    expect(await verifyBadgePayload(legacy, { ...key, acceptLegacy: true }, NOW)).toMatchObject({ ok: true, version: 1 });
+    expect(await verifyBadgePayload("evt-token-123", key, NOW)).toEqual({ ok: true, version: "opaque" });
+  });
+
+  it("refuses any JSON object while legacy is off and unknown formats always", async () => {
+    const looseV1 = JSON.stringify({ type: "Member", name: "Alice" });
+    expect(await verifyBadgePayload(looseV1, key, NOW)).toEqual({ ok: false, reason: "legacy-disabled" });
+    expect(await verifyBadgePayload("[1]", key, NOW)).toEqual({ ok: false, reason: "legacy-disabled" });
+    expect(await verifyBadgePayload(looseV1, { ...key, acceptLegacy: true }, NOW)).toEqual({ ok: false, reason: "malformed" });
+    expect(await verifyBadgePayload("name=Alice type=member", key, NOW)).toEqual({ ok: false, reason: "malformed" });
+  });
+});
+
+describe("verifyLiveEventToken", () => {
+  it("accepts a fresh token for the current event, with grace after the 30 s rotation", async () => {
+    expect(await verifyLiveEventToken(await sign(liveToken()), key, 21, NOW)).toMatchObject({ ok: true, token: { eid: 21 } });
+    const rotatedOneMinuteAgo = liveToken({ iat: nowSeconds - 90, exp: nowSeconds - 60 });
+    expect((await verifyLiveEventToken(await sign(rotatedOneMinuteAgo), key, 21, NOW)).ok).toBe(true);
+  });
+
+  it("rejects missing, stale, other-event and forged tokens", async () => {
+    expect(await verifyLiveEventToken(null, key, 21, NOW)).toEqual({ ok: false, reason: "missing" });
+    expect(await verifyLiveEventToken(await sign(badge()), key, 21, NOW)).toEqual({ ok: false, reason: "malformed" });
+    expect(await verifyLiveEventToken(await sign(liveToken({ exp: nowSeconds - 600 })), key, 21, NOW)).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(await verifyLiveEventToken(await sign(liveToken({ eid: 20 })), key, 21, NOW)).toEqual({
+      ok: false,
+      reason: "wrong-event",
+    });
+    const other = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair;
+    expect(await verifyLiveEventToken(await sign(liveToken(), other.privateKey), key, 21, NOW)).toEqual({
+      ok: false,
+      reason: "bad-signature",
+    });
+  });
+});
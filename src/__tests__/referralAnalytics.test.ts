@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import type { CheckInRecord, MemberInfo } from "../api";
+import { buildReferralReport, matchReferrerToMember, referralReportToCsv, type ReferralSources } from "../lib/referralAnalytics";
+
+const members: MemberInfo[] = [
+  { id: 1, name: "Vincent Woo", domain: "Accounting" },
+  { id: 2, name: "Zoe Wu", domain: "Design" },
+  { id: 3, name: "Peter Chan", domain: "Insurance" },
+  { id: 4, name: "陳大文", domain: "Law" },
+];
+
+const checkIn = (name: string, timestamp: string, referrer?: string): CheckInRecord => ({
+  id: `${name}-${timestamp}`,
+  name,
+  domain: "",
+  type: "guest",
+  timestamp,
+  receivedAt: timestamp,
+  role: "GUEST",
+  referrer,
+});
+
+const sources: ReferralSources = {
+  guests: [
+    { name: "Yuri Lo", profession: "醫務中心", referrer: "🤝 Vincent", eventDate: "2026-07-02" },
+    { name: "Yuri Lo", profession: "醫務中心", referrer: "Vincent Woo", eventDate: "2026-07-16" },
+    { name: "Ken Ho", profession: "IT", referrer: "Invited by Zoe", eventDate: "2026-07-02" },
+    { name: "Amy Ng", profession: "HR", referrer: "Peter", eventDate: "2026-05-01" },
+    { name: "Sam Ma", profession: "Chef", referrer: "Mystery Friend", eventDate: "2026-07-16" },
+  ],
+  records: [
+    // 06:50 in Hong Kong on 2 July.
+    checkIn("Yuri Lo", "2026-07-01T22:50:00Z"),
+    checkIn("Ken Ho", "2026-07-01T23:10:00Z"),
+    checkIn("Walk In", "2026-07-15T23:00:00Z", "Zoe"),
+  ],
+  observers: [{ id: 1, name: "Yuri Lo", profession: "醫務中心", eventDate: "2026-07-30", attended: true }],
+  members: [...members, { id: 9, name: "Ken Ho", domain: "IT" }],
+};
+
+describe("matchReferrerToMember", () => {
+  it("tolerates emoji, prefixes, first names and Chinese names", () => {
+    expect(matchReferrerToMember("🤝 Vincent ", members)?.id).toBe(1);
+    expect(matchReferrerToMember("Invited by: zoe wu", members)?.id).toBe(2);
+    expect(matchReferrerToMember("陳大文", members)?.id).toBe(4);
+    expect(matchReferrerToMember("Chan", [...members, { id: 5, name: "Mary Chan", domain: "" }])).toBeUndefined();
+  });
+});
+
+describe("buildReferralReport", () => {
+  const report = buildReferralReport(sources, { from: "2026-07-01", to: "2026-07-31" }, "Asia/Hong_Kong");
+  const byReferrer = new Map(report.referrers.map((r) => [r.referrer, r]));
+
+  it("counts invited, attended, no-shows and conversions per referrer in the range", () => {
+    expect(byReferrer.get("Vincent Woo")).toMatchObject({
+      invited: 2,
+      attended: 1,
+      noShows: 1,
+      becameObservers: 1,
+      becameMembers: 0,
+      conversionRate: 0,
+      meetings: [
+        { eventDate: "2026-07-02", invited: 1, attended: 1 },
+        { eventDate: "2026-07-16", invited: 1, attended: 0 },
+      ],
+    });
+    expect(byReferrer.get("Zoe Wu")).toMatchObject({ invited: 2, attended: 2, becameMembers: 1, conversionRate: 0.5 });
+    expect(byReferrer.get("Zoe Wu")?.visits.find((v) => v.walkIn)?.guestName).toBe("Walk In");
+    expect(byReferrer.get("Mystery Friend")).toMatchObject({ member: undefined, invited: 1, attended: 0 });
+    expect(byReferrer.has("Peter Chan")).toBe(false);
+    expect(report.referrers.map((r) => r.referrer)).toEqual(["Zoe Wu", "Vincent Woo", "Mystery Friend"]);
+  });
+
+  it("only counts observers registered on or after the guest's first referred visit", () => {
+    const earlyObserver = {
+      ...sources,
+      observers: [
+        { id: 1, name: "Yuri Lo", profession: "醫務中心", eventDate: "2026-06-18", attended: true },
+        { id: 2, name: "Ken Ho", profession: "IT", eventDate: "2026-07-02", attended: true },
+      ],
+    };
+    const stats = buildReferralReport(earlyObserver, { from: "2026-07-01", to: "2026-07-31" }, "Asia/Hong_Kong").referrers;
+    expect(stats.find((r) => r.referrer === "Vincent Woo")?.becameObservers).toBe(0);
+    expect(stats.find((r) => r.referrer === "Zoe Wu")?.becameObservers).toBe(1);
+  });
+
+  it("skips check-ins with an empty or unparseable timestamp", () => {
+    const withBadRecords = { ...sources, records: [...sources.records, checkIn("Ken Ho", ""), checkIn("Walk In", "not a date", "Zoe")] };
+    expect(buildReferralReport(withBadRecords, { from: "2026-07-01", to: "2026-07-31" }, "Asia/Hong_Kong")).toEqual(report);
+  });
+
+  it("summarises each meeting and exports both views as CSV", () => {
+    expect(report.meetings).toEqual([
+      { eventDate: "2026-07-02", invited: 2, attended: 2, noShows: 0, referrers: 2 },
+      { eventDate: "2026-07-16", invited: 3, attended: 1, noShows: 2, referrers: 3 },
+    ]);
+    const lines = referralReportToCsv(report).split(/\r?\n/);
+    expect(lines[0]).toBe("referrer,matched_member,event_date,invited,attended,no_shows,became_observers,became_members,conversion_rate");
+    expect(lines[1]).toBe("Zoe Wu,yes,,2,2,0,0,1,50%");
+    expect(lines).toContain("Vincent Woo,yes,2026-07-16,1,0,1,,,");
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../api", async (importOriginal) => ({
+  getReportWebSocketUrl: (scope: { chapterTag?: string }, since?: number | null) =>
+    `ws://test/ws/report?chapter=${scope.chapterTag}${since ? `&since=${since}` : ""}`,
+  // The real frame, so the assertions below pin the wire shape the backend reads.
+  buildReportSubscribeMessage: (await importOriginal<typeof import("../api")>()).buildReportSubscribeMessage,
+}));
+
+import type { ReportData } from "../api";
+import { applyRecordDelta, applyReportDelta } from "../lib/reportDeltas";
+import { openReportSocket, reportSocketBackoffMs } from "../lib/reportSocket";
+
+const baseReport = (): ReportData => ({
+  eventId: 7,
+  eventName: "Weekly",
+  eventDate: "2026-02-10",
+  onTimeCutoff: "07:05",
+  attendees: [{ memberName: "Alice", status: "on-time", checkInTime: "07:00", role: "MEMBER" }],
+  absentees: [{ memberName: "Bob", status: "absent", role: "MEMBER" }],
+  seq: 10,
+});
+
+describe("applyReportDelta", () => {
+  it("moves a checked-in member from absentees to attendees and recounts", () => {
+    const next = applyReportDelta(baseReport(), {
+      type: "attendee_checked_in",
+      seq: 11,
+      eventId: 7,
+      attendee: { memberName: "Bob", status: "late", checkInTime: "07:20", role: "MEMBER" },
+    });
+    expect(next?.attendees.map((a) => a.memberName)).toEqual(["Alice", "Bob"]);
+    expect(next?.absentees).toEqual([]);
+    expect(next?.stats).toMatchObject({ totalAttendees: 2, onTimeCount: 1, lateCount: 1, absentCount: 0 });
+    expect(next?.seq).toBe(11);
+  });
+
+  it("puts a removed roster member back under absentees", () => {
+    const next = applyReportDelta(baseReport(), {
+      type: "attendee_removed",
+      seq: 11,
+      eventId: 7,
+      memberName: "alice",
+      absentee: { memberName: "Alice", status: "absent", role: "MEMBER" },
+    });
+    expect(next?.attendees).toEqual([]);
+    expect(next?.absentees.map((a) => a.memberName)).toEqual(["Bob", "Alice"]);
+  });
+
+  it("ignores deltas for another event or an already-applied seq", () => {
+    const report = baseReport();
+    const attendee = { memberName: "Bob", status: "late" as const, role: "MEMBER" as const };
+    expect(applyReportDelta(report, { type: "attendee_checked_in", seq: 11, eventId: 8, attendee })).toBe(report);
+    expect(applyReportDelta(report, { type: "attendee_checked_in", seq: 10, eventId: 7, attendee })).toBe(report);
+  });
+
+  it("upserts records by id", () => {
+    const record = { id: "r1", name: "Bob", domain: "", type: "member", timestamp: "t", receivedAt: "t" };
+    const attendee = { memberName: "Bob", status: "late" as const };
+    const added = applyRecordDelta([], { type: "attendee_checked_in", seq: 1, eventId: 7, attendee, record });
+    expect(added).toEqual([record]);
+    expect(applyRecordDelta(added, { type: "attendee_removed", seq: 2, eventId: 7, memberName: "Bob", recordId: "r1" })).toEqual([]);
+  });
+});
+
+class FakeSocket {
+  static OPEN = 1;
+  static instances: FakeSocket[] = [];
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+  send(data: string) {
+    this.sent.push(data);
+  }
+  receive(data: object) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+  close() {
+    this.onclose?.();
+  }
+}
+
+describe("openReportSocket", () => {
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("drops replays, resyncs on a gap and resumes from the last seq after backoff", () => {
+    const onDelta = vi.fn();
+    const onResync = vi.fn();
+    const socket = openReportSocket({ subscription: { chapterTag: "anchor", chapterId: 1 }, onDelta, onResync });
+    socket.setSeq(10);
+
+    const first = FakeSocket.instances[0];
+    const removed = { type: "attendee_removed", eventId: 7, memberName: "Bob" };
+    first.receive({ ...removed, seq: 10 });
+    first.receive({ ...removed, seq: 11 });
+    first.receive({ type: "attendance_updated" });
+    expect(onDelta).toHaveBeenCalledTimes(1);
+
+    first.receive({ ...removed, seq: 14 });
+    expect(onResync).toHaveBeenCalledTimes(1);
+    expect(onDelta).toHaveBeenCalledTimes(1);
+
+    first.onclose?.();
+    expect(FakeSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(reportSocketBackoffMs(0, () => 1));
+    expect(FakeSocket.instances[1].url).toBe("ws://test/ws/report?chapter=anchor&since=14");
+
+    socket.close();
+    vi.advanceTimersByTime(60_000);
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it("keeps backing off when the server accepts and drops right away, and resets once a connection stays up", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const socket = openReportSocket({ subscription: { chapterTag: "anchor" }, onDelta: vi.fn(), onResync: vi.fn() });
+    const flap = (expectedDelay: number) => {
+      const ws = FakeSocket.instances[FakeSocket.instances.length - 1];
+      ws.open();
+      ws.onclose?.();
+      const before = FakeSocket.instances.length;
+      vi.advanceTimersByTime(expectedDelay - 1);
+      expect(FakeSocket.instances).toHaveLength(before);
+      vi.advanceTimersByTime(1);
+      expect(FakeSocket.instances).toHaveLength(before + 1);
+    };
+    flap(reportSocketBackoffMs(0, () => 0.5));
+    flap(reportSocketBackoffMs(1, () => 0.5));
+    flap(reportSocketBackoffMs(2, () => 0.5));
+
+    const stable = FakeSocket.instances[FakeSocket.instances.length - 1];
+    stable.open();
+    vi.advanceTimersByTime(10_000);
+    stable.onclose?.();
+    vi.advanceTimersByTime(reportSocketBackoffMs(0, () => 0.5));
+    expect(FakeSocket.instances).toHaveLength(5);
+    socket.close();
+    vi.restoreAllMocks();
+  });
+
+  it("resubscribes on the open connection when the chapter changes and drops the old chapter's frames", () => {
+    const onDelta = vi.fn();
+    const socket = openReportSocket({ subscription: { chapterTag: "anchor", chapterId: 1 }, onDelta, onResync: vi.fn() });
+    const ws = FakeSocket.instances[0];
+    ws.open();
+
+    socket.subscribe({ chapterTag: "amax", chapterId: 2 });
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(JSON.parse(ws.sent[0])).toEqual({ type: "subscribe", chapter: "amax", chapterId: 2, eventId: null });
+
+    const removed = { type: "attendee_removed", eventId: 7, memberName: "Bob" };
+    ws.receive({ ...removed, seq: 50, chapterId: 1 });
+    ws.receive({ ...removed, seq: 3, chapterId: 2 });
+    expect(onDelta).toHaveBeenCalledTimes(1);
+    expect(onDelta.mock.calls[0][0]).toMatchObject({ seq: 3, chapterId: 2 });
+    socket.close();
+  });
+
+  it("sends the subscription on open when the chapter changed while connecting", () => {
+    const onDelta = vi.fn();
+    const socket = openReportSocket({ subscription: { chapterTag: "anchor" }, onDelta, onResync: vi.fn() });
+    const ws = FakeSocket.instances[0];
+
+    socket.subscribe({ chapterTag: "amax", chapterId: 2 });
+    expect(ws.sent).toHaveLength(0);
+    ws.open();
+    expect(ws.sent).toHaveLength(1);
+    expect(JSON.parse(ws.sent[0])).toEqual({ type: "subscribe", chapter: "amax", chapterId: 2, eventId: null });
+
+    ws.receive({ type: "attendee_removed", eventId: 7, memberName: "Bob", seq: 1, chapterId: 2 });
+    expect(onDelta).toHaveBeenCalledTimes(1);
+    socket.close();
+  });
+
+  it("caps the backoff", () => {
+    expect(reportSocketBackoffMs(0, () => 0.5)).toBe(1000);
+    expect(reportSocketBackoffMs(3, () => 0.5)).toBe(8000);
+    expect(reportSocketBackoffMs(20, () => 0.5)).toBe(30000);
+  });
+});
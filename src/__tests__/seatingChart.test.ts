@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import type { Guest, Member, SeatingTable } from "../types/seating";
+import {
+  batchResultsToMatches,
+  checkSeatingConstraints,
+  guestsWithoutMatchData,
+  moveSeat,
+  refreshSeatingPlan,
+  toSeatingGuest,
+  withLiveRoster,
+} from "../lib/seatingChart";
+import { planSeating } from "../lib/seatingOptimizer";
+
+const members: Member[] = [
+  { id: "m1", name: "Vincent Woo", profession: "會計", category: "I", isLeadership: true },
+  { id: "m2", name: "Zoe Wu", profession: "設計", category: "E", isLeadership: true },
+  { id: "m3", name: "Peter Chan", profession: "保險", category: "I" },
+  { id: "m4", name: "Amy Ng", profession: "律師", category: "B" },
+];
+
+const guests: Guest[] = [toSeatingGuest({ name: " Yuri Lo ", profession: "醫務中心", referrer: "Amy" })];
+
+const tables: SeatingTable[] = [
+  { table: 1, hostMemberId: "m1", memberIds: ["m1", "m4"], guestIds: ["guest-yuri lo"] },
+  { table: 2, hostMemberId: "m2", memberIds: ["m2", "m3"], guestIds: [] },
+];
+
+describe("moveSeat", () => {
+  it("moves a person without touching the input and hands the host role over", () => {
+    const moved = moveSeat(tables, members, { kind: "member", id: "m1" }, 2);
+    expect(tables[0].memberIds).toEqual(["m1", "m4"]);
+    expect(moved[0]).toMatchObject({ hostMemberId: null, memberIds: ["m4"] });
+    expect(moved[1]).toMatchObject({ hostMemberId: "m2", memberIds: ["m2", "m3", "m1"] });
+    expect(moveSeat(moved, members, { kind: "member", id: "m1" }, 1)[0].hostMemberId).toBe("m1");
+    expect(moveSeat(tables, members, { kind: "guest", id: "guest-yuri lo" }, null)[0].guestIds).toEqual([]);
+  });
+});
+
+describe("checkSeatingConstraints", () => {
+  it("is clean for a valid layout", () => {
+    expect(checkSeatingConstraints(tables, guests, members, 4)).toEqual([]);
+  });
+
+  it("reports capacity, shared categories, missing hosts and a separated referrer", () => {
+    const moved = moveSeat(moveSeat(tables, members, { kind: "member", id: "m1" }, 2), members, { kind: "member", id: "m4" }, 2);
+    expect(checkSeatingConstraints(moved, guests, members, 3)).toEqual([
+      { kind: "host", table: 1, message: "第 1 桌沒有領導團隊成員主持" },
+      { kind: "capacity", table: 2, message: "第 2 桌超出座位（4／3）" },
+      { kind: "category", table: 2, message: "第 2 桌有同類別（I）會員：Peter Chan、Vincent Woo" },
+      { kind: "referrer", table: 1, message: "Yuri Lo 與介紹人 Amy Ng 不同桌" },
+    ]);
+  });
+});
+
+describe("refreshSeatingPlan", () => {
+  it("recomputes assignments from AI batch results after an edit", () => {
+    const matches = batchResultsToMatches(
+      [
+        {
+          guestName: "yuri lo",
+          guestProfession: "醫務中心",
+          matchedMembers: [{ memberName: "Peter Chan", profession: "保險", matchStrength: "High", reason: "保障" }],
+        },
+      ],
+      guests,
+      members
+    );
+    expect(matches["guest-yuri lo"]).toEqual([{ member: members[2], matchStrength: "High", reason: "保障" }]);
+
+    const plan = planSeating({ eventId: 1, guests, members, tableCount: 2, seatsPerTable: 4 }, { matches });
+    const edited = refreshSeatingPlan(plan, moveSeat(tables, members, { kind: "member", id: "m3" }, 1), guests, members, 4, matches);
+    expect(edited.assignments[0]).toMatchObject({ assignedTable: 1, matchStrength: "High", seatedWithMemberIds: ["m3"] });
+    expect(edited.warnings).toEqual(["第 1 桌有同類別（I）會員：Vincent Woo、Peter Chan"]);
+    expect(edited.planId).toBe(plan.planId);
+  });
+});
+
+describe("guestsWithoutMatchData", () => {
+  it("lists registered guests with neither a batch result nor keyword data", () => {
+    const ken = toSeatingGuest({ name: "Ken Ip", profession: "物流", referrer: "" });
+    const sample: Guest = { id: "guest-sample", name: "Sample", profession: "物流", targetProfession: "會計", bottlenecks: [] };
+    const matches = batchResultsToMatches(
+      [{ guestName: "yuri lo", guestProfession: "醫務中心", matchedMembers: [{ memberName: "Zoe Wu", profession: "設計", matchStrength: "High", reason: "" }] }],
+      [...guests, ken],
+      members
+    );
+    expect(guestsWithoutMatchData([...guests, ken, sample], matches).map((g) => g.id)).toEqual(["guest-ken ip"]);
+  });
+});
+
+describe("withLiveRoster", () => {
+  it("keeps the saved snapshot and adds people registered after it", () => {
+    const saved: Guest[] = [{ id: "guest-amy", name: "Amy", profession: "Saved profession", bottlenecks: [] }];
+    const live: Guest[] = [
+      { id: "guest-amy", name: "Amy", profession: "Live profession", bottlenecks: [] },
+      { id: "guest-walk in", name: "Walk In", profession: "物流", bottlenecks: [] },
+    ];
+    const roster = withLiveRoster(saved, live);
+    expect(roster.map((g) => [g.id, g.profession])).toEqual([
+      ["guest-amy", "Saved profession"],
+      ["guest-walk in", "物流"],
+    ]);
+    const violations = checkSeatingConstraints([{ table: 1, hostMemberId: null, memberIds: [], guestIds: ["guest-amy"] }], roster, [], 10);
+    expect(violations).toContainEqual(expect.objectContaining({ kind: "unseated", message: "嘉賓 Walk In 未安排座位" }));
+  });
+});
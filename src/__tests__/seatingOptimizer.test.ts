@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { Guest, Member, MemberMatch, SeatingPlanRequest } from "../types/seating";
+import { planSeating, toSeatingMember } from "../lib/seatingOptimizer";
+
+const members: Member[] = [
+  { id: "m1", name: "Vincent Woo", profession: "會計", category: "FIN", isLeadership: true },
+  { id: "m2", name: "Zoe Wu", profession: "設計", category: "CRE", isLeadership: true },
+  { id: "m3", name: "Peter Chan", profession: "保險", category: "FIN" },
+  { id: "m4", name: "Amy Ng", profession: "律師", category: "LAW" },
+  { id: "m5", name: "Ken Ho", profession: "IT", category: "TEC" },
+  { id: "m6", name: "Mary Lau", profession: "室內設計", category: "CRE" },
+];
+
+const guests: Guest[] = [
+  { id: "g1", name: "Yuri Lo", profession: "醫務中心", bottlenecks: [], referrer: "Amy" },
+  { id: "g2", name: "Sam Ma", profession: "餐廳", bottlenecks: [] },
+];
+
+const match = (id: string, matchStrength: MemberMatch["matchStrength"]): MemberMatch => ({
+  member: members.find((m) => m.id === id)!,
+  matchStrength,
+  reason: "",
+});
+
+const request: SeatingPlanRequest = { eventId: 7, guests, members, tableCount: 2, seatsPerTable: 5 };
+const matches = { g1: [match("m3", "High"), match("m5", "Medium")], g2: [match("m6", "High")] };
+const now = new Date("2026-10-19T00:00:00.000Z");
+
+describe("planSeating", () => {
+  const plan = planSeating(request, { matches, now });
+  const tableOf = (id: string) => plan.tables.find((t) => t.memberIds.includes(id) || t.guestIds.includes(id))?.table;
+
+  it("gives each table a leadership host and seats guests with their referrer and best matches", () => {
+    expect(plan.tables.map((t) => t.hostMemberId)).toEqual(["m1", "m2"]);
+    expect(tableOf("m4")).toBe(tableOf("g1"));
+    // Peter shares Vincent's category, so Yuri goes to Zoe's table to sit with him.
+    expect(tableOf("g1")).toBe(2);
+    expect(tableOf("m3")).toBe(2);
+    expect(plan.assignments[0]).toMatchObject({ guestId: "g1", assignedTable: 2, matchStrength: "High", seatedWithMemberIds: ["m3", "m5"] });
+    expect(plan.assignments[0].matchNote).toContain("Peter Chan（High）");
+  });
+
+  it("never seats two members of one category together and reports who is left out", () => {
+    for (const t of plan.tables) {
+      const categories = t.memberIds.map((id) => members.find((m) => m.id === id)!.category);
+      expect(new Set(categories).size).toBe(categories.length);
+    }
+    // Mary (CRE) can't join Zoe's table, so Sam sits with her at table 1.
+    expect(plan.assignments[1]).toMatchObject({ guestId: "g2", assignedTable: 1, matchStrength: "High" });
+    expect(plan.unseatedMemberIds).toEqual([]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("is deterministic for the same input regardless of order", () => {
+    const again = planSeating({ ...request, members: [...members].reverse(), guests: [...guests].reverse() }, { matches, now });
+    expect(again.tables).toEqual(plan.tables);
+    expect(again.planId).toBe(plan.planId);
+    expect(plan.planId).toMatch(/^seat-[0-9a-f]{8}$/);
+    expect(plan.createdAt).toBe("2026-10-19T00:00:00.000Z");
+  });
+
+  it("keeps seats for guests and warns when constraints can't be met", () => {
+    const tight = planSeating({ ...request, members: members.filter((m) => m.id !== "m2"), tableCount: 2, seatsPerTable: 2 }, { matches, now });
+    expect(tight.tables.flatMap((t) => t.guestIds).sort()).toEqual(["g1", "g2"]);
+    expect(tight.warnings).toContain("第 2 桌沒有領導團隊成員主持");
+    expect(tight.unseatedMemberIds.length).toBeGreaterThan(0);
+  });
+
+  it("falls back to keyword matching when no matches are given", () => {
+    const keyword = planSeating({ ...request, guests: [{ id: "g3", name: "Lee", profession: "物流", targetProfession: "保險", bottlenecks: ["保險"] }] }, { now });
+    expect(keyword.assignments[0]).toMatchObject({ assignedTable: expect.any(Number) });
+    expect(keyword.assignments[0].seatedWithMemberIds).toContain("m3");
+  });
+});
+
+describe("toSeatingMember", () => {
+  it("marks leadership from the position", () => {
+    expect(toSeatingMember({ id: 3, name: "Vincent", domain: "會計", position: "President" })).toMatchObject({
+      id: "member-3",
+      isLeadership: true,
+    });
+    expect(toSeatingMember({ id: 4, name: "Amy", domain: "律師" }).isLeadership).toBe(false);
+  });
+});
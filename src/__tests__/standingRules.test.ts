@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import type { MemberAttendance, StandingRuleSet } from "../api";
+import { DEFAULT_STANDING_RULE_SET, evaluateStanding, NO_STANDING_RULE_MATCHED, proposeStandingChanges } from "../lib/standingRules";
+
+const row = (eventDate: string, status: string, substituteName?: string): MemberAttendance => ({
+  eventName: "Weekly",
+  eventDate,
+  status,
+  substituteName,
+});
+
+const today = "2026-03-01";
+const threeAbsencesOneCovered = [
+  row("2026-01-06", "absent"),
+  row("2026-01-13", "absent"),
+  row("2026-01-20", "absent", "Sub Sam"),
+  row("2026-01-27", "present"),
+];
+
+describe("standing rules", () => {
+  it("lets the substitute toggle decide whether a covered meeting is an absence", () => {
+    expect(evaluateStanding(threeAbsencesOneCovered, DEFAULT_STANDING_RULE_SET, today).standing).toBe("GREEN");
+    const strict: StandingRuleSet = { ...DEFAULT_STANDING_RULE_SET, substituteCountsAsPresent: false };
+    const result = evaluateStanding(threeAbsencesOneCovered, strict, today);
+    expect(result.standing).toBe("YELLOW");
+    expect(result.reasons[0]).toContain("實際 3");
+  });
+
+  it("proposes only real changes, picks the most severe rule and never touches BLACK or members without history", () => {
+    const fiveAbsences = [1, 2, 3, 4, 5].map((d) => row(`2026-02-0${d}`, "absent"));
+    const members = [
+      { id: 1, name: "Amy", domain: "", standing: "GREEN" as const },
+      { id: 2, name: "Ben", domain: "", standing: "RED" as const },
+      { id: 3, name: "Cat", domain: "", standing: "BLACK" as const },
+      { id: 4, name: "Dan", domain: "", standing: "YELLOW" as const },
+    ];
+    const histories = new Map([
+      ["Amy", fiveAbsences],
+      ["Ben", fiveAbsences],
+      ["Cat", fiveAbsences],
+    ]);
+    const proposals = proposeStandingChanges(members, histories, DEFAULT_STANDING_RULE_SET, today);
+    expect(proposals.map((p) => [p.member.name, p.from, p.to])).toEqual([["Amy", "GREEN", "RED"]]);
+    expect(proposals[0].reasons).toHaveLength(2);
+  });
+
+  it("proposes a member who matches no rule any more back to GREEN", () => {
+    const members = [{ id: 4, name: "Dan", domain: "", standing: "YELLOW" as const }];
+    const proposals = proposeStandingChanges(members, new Map([["Dan", [row("2026-02-03", "present")]]]), DEFAULT_STANDING_RULE_SET, today);
+    expect(proposals.map((p) => [p.member.name, p.from, p.to, p.reasons])).toEqual([["Dan", "YELLOW", "GREEN", [NO_STANDING_RULE_MATCHED]]]);
+  });
+
+  it("proposes a manual RED who only matches a YELLOW rule down to YELLOW", () => {
+    const threeAbsences = [1, 2, 3].map((d) => row(`2026-02-0${d}`, "absent"));
+    const members = [{ id: 2, name: "Ben", domain: "", standing: "RED" as const }];
+    const proposals = proposeStandingChanges(members, new Map([["Ben", threeAbsences]]), DEFAULT_STANDING_RULE_SET, today);
+    expect(proposals.map((p) => [p.member.name, p.from, p.to])).toEqual([["Ben", "RED", "YELLOW"]]);
+    expect(proposals[0].reasons[0]).toContain("實際 3");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { PipelineEntry } from "../api";
+import { buildVisitorPipeline, pipelineTimeline, updatePipelineEntry, type VisitorPipelineSources } from "../lib/visitorPipeline";
+
+const sources: VisitorPipelineSources = {
+  guests: [
+    { name: "Yuri Lo", profession: "醫務中心", referrer: "Vincent", eventDate: "2026-07-02" },
+    { name: "Peter Chan", profession: "Insurance", referrer: "Amy", eventDate: "2026-07-02" },
+    { name: "Peter Chan", profession: "Insurance", referrer: "Amy", eventDate: "2026-07-16" },
+    { name: "Mary Lau", profession: "Lawyer", referrer: "Zoe", eventDate: "2026-06-04" },
+    { name: "Ken Ho", profession: "IT", referrer: "Zoe", eventDate: "2026-06-04" },
+  ],
+  observers: [{ id: 1, name: "Mary Lau", profession: "Lawyer", eventDate: "2026-06-18", attended: true }],
+  members: [{ id: 7, name: "Ken Ho", domain: "IT" }],
+  entries: [
+    {
+      prospectKey: "yuri lo",
+      name: "Yuri Lo",
+      stage: "declined",
+      ownerMemberName: "Vincent",
+      history: [{ stage: "declined", changedAt: "2026-07-10T02:00:00.000Z", note: "暫時唔考慮" }],
+    },
+  ],
+};
+
+describe("buildVisitorPipeline", () => {
+  const prospects = buildVisitorPipeline(sources);
+  const byKey = new Map(prospects.map((p) => [p.key, p]));
+
+  it("derives stages from attendance, member records and manual moves", () => {
+    expect(byKey.get("peter chan")).toMatchObject({ autoStage: "repeat", stage: "repeat" });
+    expect(byKey.get("mary lau")).toMatchObject({ autoStage: "observer", stage: "observer", observerDates: ["2026-06-18"] });
+    expect(byKey.get("ken ho")).toMatchObject({ stage: "member", member: { id: 7 } });
+    expect(byKey.get("yuri lo")).toMatchObject({ autoStage: "guest", stage: "declined" });
+    expect(prospects.map((p) => p.stage)).toEqual(["repeat", "observer", "member", "declined"]);
+  });
+
+  it("lets attendance move a prospect past an earlier manual stage", () => {
+    const entry: PipelineEntry = { prospectKey: "mary lau", name: "Mary Lau", stage: "guest", history: [] };
+    const [mary] = buildVisitorPipeline({ ...sources, entries: [entry] }).filter((p) => p.key === "mary lau");
+    expect(mary.stage).toBe("observer");
+  });
+
+  it("keeps a manual correction to an earlier stage until the next visit", () => {
+    const corrected: PipelineEntry = {
+      prospectKey: "mary lau",
+      name: "Mary Lau",
+      stage: "repeat",
+      history: [{ stage: "repeat", changedAt: "2026-06-20T03:00:00.000Z", note: "觀察員登記有誤" }],
+    };
+    const stageOf = (extra: VisitorPipelineSources["guests"]) =>
+      buildVisitorPipeline({ ...sources, guests: [...sources.guests, ...extra], entries: [corrected] }).find((p) => p.key === "mary lau")?.stage;
+    expect(stageOf([])).toBe("repeat");
+    expect(stageOf([{ name: "Mary Lau", profession: "Lawyer", referrer: "Zoe", eventDate: "2026-06-20" }])).toBe("repeat");
+    expect(stageOf([{ name: "Mary Lau", profession: "Lawyer", referrer: "Zoe", eventDate: "2026-07-02" }])).toBe("observer");
+  });
+
+  it("lists visits and stage changes in date order", () => {
+    expect(pipelineTimeline(byKey.get("yuri lo")!).map((item) => item.label)).toEqual(["首次以嘉賓到訪", "→ 已婉拒"]);
+  });
+});
+
+describe("updatePipelineEntry", () => {
+  it("records a stage move in the history and keeps the saved fields", () => {
+    const [peter] = buildVisitorPipeline(sources).filter((p) => p.key === "peter chan");
+    const entry = updatePipelineEntry(peter, { stage: "applicant", ownerMemberName: "Amy" }, "2026-08-01T00:00:00.000Z", "已交申請表");
+    expect(entry).toEqual({
+      prospectKey: "peter chan",
+      name: "Peter Chan",
+      stage: "applicant",
+      ownerMemberName: "Amy",
+      history: [{ stage: "applicant", changedAt: "2026-08-01T00:00:00.000Z", note: "已交申請表" }],
+    });
+    expect(updatePipelineEntry(peter, { stage: "repeat" }, "2026-08-01T00:00:00.000Z").history).toEqual([]);
+  });
+});
@@ -1,8 +1,14 @@
+import type { Guest, IntroductionStats, Member, SeatingPlanResponse } from "./types/seating";
+
 /** Attendance summary for a member across events. */
 export type MemberAttendance = {
   eventName: string;
   eventDate: string;
+  /** "present" / "absent", or a CheckInStatus ("on-time", "late", …) when the check-in was classified. */
   status: string;
+  checkInTime?: string;
+  /** Who attended in the member's place (absence covered by a substitute). */
+  substituteName?: string;
 };
 
 /** Single event attendance entry (member name, optional ID, status). */
@@ -12,8 +18,12 @@ export type EventAttendance = {
   status: string;
 };
 
-/** One check-in record (name, domain, type, timestamps, role, tags, referrer, substituteFor). */
+/** One check-in record (stable id, name, domain, type, timestamps, role, tags, referrer, substituteFor). */
 export type CheckInRecord = {
+  /** Stable backend id; never derive from list position. */
+  id: string;
+  /** Opaque concurrency token; changes whenever the row is edited. Sent back as If-Match. */
+  version?: string;
   name: string;
   domain: string;
   type: string;
@@ -38,6 +48,8 @@ export type CheckInRequest = {
   tags?: string[];
   referrer?: string;
   standing?: MemberStanding;
+  /** Client-classified arrival status for `currentTime` (chapter timezone). */
+  status?: CheckInStatus;
 };
 
 /** Member standing / status. */
@@ -64,8 +76,19 @@ export type ChapterInfo = {
   status: string;
   /** Preferred meeting weekday: 0=Sunday … 6=Saturday. */
   meetingWeekday?: number;
+  /** base64url raw Ed25519 public key that v2 member badges are verified against (see qr-format). */
+  badgePublicKey?: string;
+  /** Id of the current badge signing key (badge `kid`). */
+  badgeKeyId?: string;
+  /** Admin toggle: scanners still accept unsigned v1 JSON member/guest QR codes. */
+  acceptLegacyBadges?: boolean;
+  /** Extra WhatsApp announcement headings per section, on top of the built-in template (parseWhatsAppMeetingMessage). */
+  meetingSectionAliases?: Partial<Record<MeetingSectionKind, string[]>>;
 };
 
+/** Sections of a WhatsApp meeting announcement. */
+export type MeetingSectionKind = "guests" | "observers" | "substitutes" | "speakers" | "vips";
+
 // Backend API: in dev uses Vite proxy (''), in prod uses VITE_API_BASE
 const API_BASE = import.meta.env.DEV
   ? ""
@@ -118,12 +141,18 @@ export function getActiveApiChapterId(): number | null {
   return activeApiChapterId;
 }
 
-function withChapterQuery(url: string, chapter?: string | null, chapterId?: number | null): string {
+/** Explicit chapter, else the active API chapter. */
+function resolveChapterScope(chapter?: string | null, chapterId?: number | null): { tag?: string; id: number | null } {
   const tag = (chapter !== undefined && chapter !== null ? chapter : activeApiChapterTag)?.trim();
   const id =
     chapterId !== undefined && chapterId !== null
       ? chapterId
       : activeApiChapterId;
+  return { tag, id };
+}
+
+function withChapterQuery(url: string, chapter?: string | null, chapterId?: number | null): string {
+  const { tag, id } = resolveChapterScope(chapter, chapterId);
   const params = new URLSearchParams();
   if (id != null && id > 0) params.set("chapterId", String(id));
   if (tag) params.set("chapter", tag);
@@ -132,6 +161,73 @@ function withChapterQuery(url: string, chapter?: string | null, chapterId?: numb
   return `${url}${sep}${params.toString()}`;
 }
 
+/** Admin session token from ChapterProvider; attached to every admin call. */
+let adminSessionToken: string | null = null;
+/** Called once per rejected admin call (401/403) so ChapterProvider can drop the session. */
+let adminUnauthorizedHandler: (() => void) | null = null;
+
+/** Sync from ChapterProvider on login / logout / session restore. */
+export function setAdminSessionToken(token: string | null | undefined) {
+  const t = token?.trim();
+  adminSessionToken = t && t.length > 0 ? t : null;
+}
+
+export function getAdminSessionToken(): string | null {
+  return adminSessionToken;
+}
+
+/** Register the session-expiry callback (ChapterProvider). Pass null to unregister. */
+export function setAdminUnauthorizedHandler(handler: (() => void) | null) {
+  adminUnauthorizedHandler = handler;
+}
+
+/**
+ * Add `Authorization: Bearer` (and the legacy `X-Client-Token`) when an admin session exists. No side effects.
+ * @param {RequestInit} [options]
+ * @returns {RequestInit}
+ */
+function withAdminAuth(options: RequestInit = {}): RequestInit {
+  if (!adminSessionToken) return options;
+  const headers = new Headers(options.headers);
+  headers.set("Authorization", `Bearer ${adminSessionToken}`);
+  headers.set("X-Client-Token", adminSessionToken);
+  return { ...options, headers };
+}
+
+/**
+ * Notify the session-expiry handler when the backend rejected a token we sent.
+ * Public callers (no token) never trigger it, so kiosk 403s such as captcha_failed are unaffected.
+ */
+function checkAdminAuth(response: Response, sentToken: boolean): Response {
+  if (sentToken && (response.status === 401 || response.status === 403)) {
+    adminUnauthorizedHandler?.();
+  }
+  return response;
+}
+
+/**
+ * Authenticated fetch for admin endpoints: attaches the session token and centrally handles 401/403.
+ * Side effect: network; may clear the admin session via the registered handler. Does not throw on HTTP errors.
+ * @param {string} url
+ * @param {RequestInit} [options]
+ * @returns {Promise<Response>}
+ */
+async function adminFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const sentToken = adminSessionToken !== null;
+  return checkAdminAuth(await fetch(url, withAdminAuth(options)), sentToken);
+}
+
+/** adminFetch for endpoints that already go through fetchWithRetry (bulk imports). */
+async function adminFetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  timeoutMs = FETCH_TIMEOUT_MS,
+  maxAttempts = 3
+): Promise<Response> {
+  const sentToken = adminSessionToken !== null;
+  return checkAdminAuth(await fetchWithRetry(url, withAdminAuth(options), timeoutMs, maxAttempts), sentToken);
+}
+
 const FETCH_TIMEOUT_MS = 25000;
 
 /*
@@ -216,12 +312,23 @@ async function fetchWithRetry(
   throw (lastError instanceof Error ? lastError : new Error("Request failed after retries"));
 }
 
+/** HTTP error thrown by handleResponse; `status` lets callers tell 409 (already checked in) from real failures. */
+export class ApiHttpError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiHttpError";
+    this.status = status;
+  }
+}
+
 /**
- * Parse JSON from response; if !response.ok throws Error with backend message.
+ * Parse JSON from response; if !response.ok throws ApiHttpError with backend message and HTTP status.
  * Side effect: consumes response body.
  * @param {Response} response
  * @returns {Promise<T>} Parsed JSON
- * @throws {Error} When response.ok is false (message from body or status)
+ * @throws {ApiHttpError} When response.ok is false (message from body or status)
  */
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
@@ -235,26 +342,38 @@ async function handleResponse<T>(response: Response): Promise<T> {
         msg = text.length > 200 ? text.slice(0, 200) + "..." : text || msg;
       }
     }
-    throw new Error(msg);
+    throw new ApiHttpError(msg, response.status);
   }
   return response.json();
 }
 
+export type RecordAttendanceOptions = {
+  scannedAt?: string;
+  status?: CheckInStatus;
+  /** Event the scan belongs to; without it the backend uses the chapter's current event. */
+  eventId?: number | null;
+  /** Chapter tag (defaults to the active API chapter) */
+  chapter?: string | null;
+};
+
 /**
  * Record attendance using a QR scan payload. POST /api/attendance/scan.
  * Side effect: network call to backend.
  * @param {string} qrPayload - JSON string from QR (member or guest payload)
+ * @param {RecordAttendanceOptions} [options] - Original scan time (offline replays), its classified status and the chapter/event scope
  * @returns {Promise<{ message: string }>}
  * @throws {Error} On HTTP error or invalid payload (message from backend)
  * @example const res = await recordAttendance(JSON.stringify({ name: "Alice", type: "member", membershipId: "X" }));
  */
 export async function recordAttendance(
-  qrPayload: string
+  qrPayload: string,
+  options: RecordAttendanceOptions = {}
 ): Promise<{ message: string }> {
-  const response = await fetch(`${API_BASE}/api/attendance/scan`, {
+  const { chapter, ...body } = options;
+  const response = await fetch(withChapterQuery(`${API_BASE}/api/attendance/scan`, chapter), {
     method: "POST",
     headers: jsonHeaders,
-    body: JSON.stringify({ qrPayload }),
+    body: JSON.stringify({ qrPayload, ...body }),
     mode: "cors"
   });
   return handleResponse(response);
@@ -265,15 +384,17 @@ export async function recordAttendance(
  * Side effect: network call.
  * @param {string} name - Member name (query)
  * @param {AbortSignal} [signal] - Optional abort for request
+ * @param {string} [chapter] - Chapter tag (defaults to the active API chapter)
  * @returns {Promise<MemberAttendance[]>}
  * @throws {Error} On HTTP error
  */
 export async function searchMemberAttendance(
   name: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  chapter?: string | null
 ): Promise<MemberAttendance[]> {
   const response = await fetch(
-    `${API_BASE}/api/attendance/member?name=${encodeURIComponent(name)}`,
+    withChapterQuery(`${API_BASE}/api/attendance/member?name=${encodeURIComponent(name)}`, chapter),
     { signal, mode: "cors" }
   );
   return handleResponse(response);
@@ -397,7 +518,7 @@ export async function updateChapterAdminPassword(
   tag: string,
   adminPassword: string
 ): Promise<{ status: string; chapter: { tag: string; displayName: string } }> {
-  const response = await fetch(
+  const response = await adminFetch(
     `${API_BASE}/api/chapters/${encodeURIComponent(tag)}/admin-password`,
     {
       method: "PUT",
@@ -409,6 +530,24 @@ export async function updateChapterAdminPassword(
   return handleResponse(response);
 }
 
+/**
+ * Turn acceptance of unsigned v1 QR payloads on or off for a chapter. PUT /api/chapters/:tag/badge-settings.
+ * Side effect: network. Returns the updated chapter.
+ */
+export async function setLegacyBadgeAcceptance(tag: string, acceptLegacyBadges: boolean): Promise<ChapterInfo> {
+  const response = await adminFetch(`${API_BASE}/api/chapters/${encodeURIComponent(tag)}/badge-settings`, {
+    method: "PUT",
+    headers: jsonHeaders,
+    body: JSON.stringify({ acceptLegacyBadges }),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; chapter: ChapterInfo }>(response);
+  if (!data.chapter) {
+    throw new Error("Update succeeded but no chapter returned");
+  }
+  return data.chapter;
+}
+
 /**
  * Pre-registered guest item (name, profession, referrer, optional eventDate).
  * @typedef {Object} GuestInfo
@@ -419,6 +558,8 @@ export type GuestInfo = {
   referrer: string;
   eventDate?: string;
   phoneNumber?: string;
+  /** SPEAKER / VIP when imported from those announcement sections; GUEST or absent otherwise. */
+  role?: AttendeeRole;
 };
 
 /**
@@ -513,7 +654,7 @@ export async function getEventById(eventId: number): Promise<EventData> {
 export async function checkIn(
   request: CheckInRequest
 ): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/checkin`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/checkin`), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -539,33 +680,81 @@ export async function getRecords(chapter?: string | null): Promise<{ records: Ch
  * @throws {Error} On HTTP error
  */
 export async function clearRecords(): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/records`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/records`), {
     method: "DELETE",
     mode: "cors"
   });
   return handleResponse(response);
 }
 
+/** Identity + concurrency token of a record as it was loaded. */
+export type RecordRef = Pick<CheckInRecord, "id" | "version">;
+
+/** Editable fields of one check-in record. */
+export type UpdateRecordRequest = {
+  domain?: string;
+  timestamp?: string;
+  substituteFor?: string | null;
+};
+
+/**
+ * True when the backend refused a record write because the row changed since it was loaded (409/412), or because
+ * it requires a version the loaded row did not carry (428). Reloading the records resolves either.
+ */
+export function isRecordConflictError(error: unknown): boolean {
+  return error instanceof ApiHttpError && (error.status === 409 || error.status === 412 || error.status === 428);
+}
+
+function recordUrl(record: RecordRef): string {
+  return withChapterQuery(`${API_BASE}/api/records/${encodeURIComponent(record.id)}`);
+}
+
+/** If-Match for the loaded version; without one the backend decides (428 Precondition Required when it insists). */
+function recordConcurrencyHeaders(record: RecordRef): Record<string, string> {
+  return record.version ? { "If-Match": `"${record.version}"` } : {};
+}
+
 /**
- * Delete one record by index. DELETE /api/records/:index. Side effect: network.
- * @param {number} index - 0-based index in records list
+ * Delete one record by stable id. DELETE /api/records/:id with If-Match: "<version>" when the record has one.
+ * Side effect: network.
+ * @param {RecordRef} record - Record as loaded (id + version)
  * @returns {Promise<{ status: string; message: string }>}
- * @throws {Error} On HTTP error or 404
+ * @throws {ApiHttpError} 404 when gone; 409/412 when changed since loaded, 428 when a version is required (see isRecordConflictError)
  */
-export async function deleteRecord(index: number): Promise<{ status: string; message: string }> {
-  const response = await fetch(`${API_BASE}/api/records/${index}`, {
+export async function deleteRecord(record: RecordRef): Promise<{ status: string; message: string }> {
+  const response = await adminFetch(recordUrl(record), {
     method: "DELETE",
+    headers: recordConcurrencyHeaders(record),
     mode: "cors"
   });
   return handleResponse(response);
 }
 
+/**
+ * Edit one record by stable id. PUT /api/records/:id with If-Match: "<version>" when the record has one.
+ * Returns the updated record. Side effect: network.
+ * @throws {ApiHttpError} 409/412 when changed since loaded, 428 when a version is required (see isRecordConflictError)
+ */
+export async function updateRecord(record: RecordRef, patch: UpdateRecordRequest): Promise<CheckInRecord> {
+  const response = await adminFetch(recordUrl(record), {
+    method: "PUT",
+    headers: { ...jsonHeaders, ...recordConcurrencyHeaders(record) },
+    body: JSON.stringify(patch),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; record: CheckInRecord }>(response);
+  if (!data.record) {
+    throw new Error("Update succeeded but no record returned");
+  }
+  return data.record;
+}
+
 /** Mark attendee absent and clear check-in. POST /api/events/attendance-corrections */
 export async function markAttendanceAbsent(
   eventDate: string,
   name: string
 ): Promise<{ status: string; removed?: number; warnings?: string[] }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/events/attendance-corrections`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/attendance-corrections`), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify({
@@ -590,7 +779,7 @@ export async function exportRecords(
 ): Promise<Blob> {
   const id = normalizeApiEventId(eventId);
   const base = id !== undefined ? `${API_BASE}/api/export?eventId=${encodeURIComponent(String(id))}` : `${API_BASE}/api/export`;
-  const response = await fetch(withChapterQuery(base, chapter, chapterId), { mode: "cors" });
+  const response = await adminFetch(withChapterQuery(base, chapter, chapterId), { mode: "cors" });
   if (!response.ok) {
     throw new Error("Failed to export records");
   }
@@ -621,7 +810,7 @@ export async function sendAttendanceEmail(
   if (id === undefined) {
     throw new Error("Invalid event id");
   }
-  const response = await fetch(
+  const response = await adminFetch(
     withChapterQuery(`${API_BASE}/api/events/${encodeURIComponent(String(id))}/send-attendance-email?force=${force ? "true" : "false"}`),
     {
       method: "POST",
@@ -643,7 +832,7 @@ export async function resetAttendanceEmail(
   if (id === undefined) {
     throw new Error("Invalid event id");
   }
-  const response = await fetch(
+  const response = await adminFetch(
     withChapterQuery(`${API_BASE}/api/events/${encodeURIComponent(String(id))}/attendance-email`),
     {
       method: "DELETE",
@@ -675,7 +864,7 @@ export async function importAttendanceCsv(eventDate: string, file: File): Promis
   form.append("file", file);
   let response: Response;
   try {
-    response = await fetch(withChapterQuery(`${API_BASE}/api/events/import-attendance-csv`), {
+    response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/import-attendance-csv`), {
       method: "POST",
       body: form,
       mode: "cors"
@@ -736,7 +925,7 @@ export async function createEvent(
   chapterId?: number | null
 ): Promise<{ status: string; message: string; event?: unknown }> {
   try {
-    const response = await fetch(withChapterQuery(`${API_BASE}/api/events`, chapter, chapterId), {
+    const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events`, chapter, chapterId), {
       method: "POST",
       headers: jsonHeaders,
       body: JSON.stringify({
@@ -768,7 +957,7 @@ export async function createEvent(
  * @throws {Error} On HTTP error
  */
 export async function clearAllEventsAndAttendance(): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/events/clear-all`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/clear-all`), {
     method: "DELETE",
     mode: "cors"
   });
@@ -825,7 +1014,7 @@ export async function activateEvent(
   chapter?: string | null,
   chapterId?: number | null
 ): Promise<{ status: string; exclusive?: boolean; event?: unknown; message?: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/events/${eventId}/activate`, chapter, chapterId), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/${eventId}/activate`, chapter, chapterId), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify({ exclusive }),
@@ -842,7 +1031,7 @@ export async function deleteEvent(
   force = false
 ): Promise<{ status: string; message?: string }> {
   const q = force ? "?force=true" : "?force=false";
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/events/${eventId}${q}`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/${eventId}${q}`), {
     method: "DELETE",
     mode: "cors"
   });
@@ -854,7 +1043,7 @@ export async function updateEvent(
   eventId: number,
   patch: { name?: string; startTime?: string; endTime?: string }
 ): Promise<EventData> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/events/${eventId}`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/events/${eventId}`), {
     method: "PUT",
     headers: jsonHeaders,
     body: JSON.stringify(patch),
@@ -867,8 +1056,11 @@ export async function updateEvent(
   return data.event;
 }
 
+/** Outcome of one check-in against the event's registration / cutoff / end times (see lib/attendanceStatus). */
+export type CheckInStatus = "early" | "on-time" | "late" | "after-close";
+
 /** Report page: attendance status. */
-export type AttendanceStatus = "on-time" | "late" | "absent";
+export type AttendanceStatus = CheckInStatus | "absent";
 
 /**
  * Single attendee in report (name, status, checkInTime, role, tags, sessionId).
@@ -908,8 +1100,36 @@ export type ReportData = {
   attendees: ReportAttendance[];
   absentees: ReportAttendance[];
   stats?: ReportStats;
+  /** Last /ws/report delta sequence reflected in this snapshot; live updates resume after it. */
+  seq?: number;
 };
 
+type ReportDeltaBase = {
+  /** Per-chapter, strictly increasing; used to drop replays and detect gaps. */
+  seq: number;
+  eventId: number;
+  chapterId?: number;
+};
+
+/**
+ * Typed /ws/report message. Each delta carries the changed row so the dashboard applies it locally
+ * (see lib/reportDeltas). `resync_required` means the server cannot replay from the requested seq.
+ */
+export type ReportDeltaMessage =
+  | (ReportDeltaBase & { type: "attendee_checked_in"; attendee: ReportAttendance; record?: CheckInRecord })
+  | (ReportDeltaBase & {
+      type: "attendee_removed";
+      memberName: string;
+      recordId?: string;
+      /** Row to list under 缺席 again when the person is on the roster. */
+      absentee?: ReportAttendance;
+    })
+  | (ReportDeltaBase & { type: "substitute_set"; attendee: ReportAttendance; record?: CheckInRecord })
+  | (ReportDeltaBase & { type: "event_activated"; report: ReportData })
+  | { type: "resync_required"; seq: number };
+
+export type ReportDeltaType = ReportDeltaMessage["type"];
+
 /** Request for AI insights (eventId + analysisType). */
 export type AIInsightRequest = {
   eventId: number;
@@ -1029,6 +1249,15 @@ export async function checkEventThisWeek(): Promise<boolean> {
   return false;
 }
 
+/**
+ * What lets a public check-in through: the rotating token from the venue projector QR,
+ * or (admin session only) an explicit override.
+ * `queuedAt` marks the replay of a check-in queued offline: the backend judges the token at that time instead of on
+ * receipt, and only when it lies within the token's own `iat` … `exp` + grace window, is not in the future and falls
+ * on the event day; anything else is 403 like a stale token.
+ */
+export type AttendanceProof = { liveToken?: string | null; queuedAt?: string } | { adminOverride: true };
+
 /**
  * Log attendance directly (backend only). POST /api/attendance/log. Members → DB; guests → in-memory + DB `check_in_time` when a guest row resolves.
  * Side effect: network.
@@ -1038,9 +1267,16 @@ export async function checkEventThisWeek(): Promise<boolean> {
  * @param {string} attendeeProfession
  * @param {string} eventDate - YYYY-MM-DD
  * @param {string} checkedInAt - ISO or time
- * @param {string} status - e.g. "on-time" | "late"
- * @returns {Promise<{ status: string; message: string }>}
- * @throws {Error} On HTTP error; 409 for already checked in
+ * @param {string} status - CheckInStatus from lib/attendanceStatus, or "present" for observers
+ * @param {string | null} [chapter]
+ * @param {AttendanceProof} [proof] - Live event token from the venue QR (with `queuedAt` on offline replays), or an admin override
+ * @param {string | null} [introductionToken] - Guests only: unguessable token the kiosk proposes for the guest's
+ *   introduction card (lib/guestIntroduction newGuestIntroductionToken). The backend only links it to the guest's card,
+ *   never builds one: an empty card is reserved under it when the guest has none yet, otherwise it becomes another key
+ *   of the saved card, so a link shown before the response (or offline) always resolves.
+ * @returns {Promise<{ status: string; message: string; introductionReady?: boolean }>} `introductionReady` is false when
+ *   the card behind `introductionToken` is still empty; the caller then fills it (completeGuestIntroduction)
+ * @throws {Error} On HTTP error; 409 for already checked in; 403 when the live token is missing or stale
  */
 export async function logAttendance(
   attendeeId: number | null,
@@ -1050,9 +1286,13 @@ export async function logAttendance(
   eventDate: string,
   checkedInAt: string,
   status: string,
-  chapter?: string | null
-): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/attendance/log`, chapter), {
+  chapter?: string | null,
+  proof: AttendanceProof = {},
+  introductionToken?: string | null
+): Promise<{ status: string; message: string; introductionReady?: boolean }> {
+  const adminOverride = "adminOverride" in proof;
+  const send = adminOverride ? adminFetch : fetch;
+  const response = await send(withChapterQuery(`${API_BASE}/api/attendance/log`, chapter), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify({
@@ -1062,7 +1302,9 @@ export async function logAttendance(
       attendeeProfession,
       eventDate,
       checkedInAt,
-      status
+      status,
+      ...(adminOverride ? { adminOverride: true } : { liveToken: proof.liveToken ?? undefined, queuedAt: proof.queuedAt }),
+      introductionToken: introductionToken ?? undefined
     }),
     mode: "cors"
   });
@@ -1123,7 +1365,7 @@ export async function bulkSetPlannedSubstitutes(
     chapter,
     chapterId
   );
-  const response = await fetchWithRetry(
+  const response = await adminFetchWithRetry(
     url,
     {
       method: "POST",
@@ -1143,13 +1385,54 @@ export async function bulkSetPlannedSubstitutes(
   return handleResponse(response);
 }
 
+/** Remove one member's planned substitute for an event date. DELETE /api/attendance/planned-substitutes */
+export async function deletePlannedSubstitute(
+  eventDate: string,
+  memberName: string,
+  chapter?: string | null,
+  chapterId?: number | null
+): Promise<{ status: string; message: string }> {
+  const params = new URLSearchParams({ eventDate, memberName });
+  const url = withChapterQuery(`${API_BASE}/api/attendance/planned-substitutes?${params.toString()}`, chapter, chapterId);
+  const response = await adminFetch(url, { method: "DELETE", mode: "cors" });
+  return handleResponse(response);
+}
+
+/** Which chapter (and optionally which event) a /ws/report connection receives. Omitted fields fall back to the active API chapter. */
+export type ReportSubscription = {
+  chapterTag?: string | null;
+  chapterId?: number | null;
+  eventId?: number | null;
+};
+
 /**
- * Get WebSocket URL for report live updates (derived from API_BASE). No side effects.
- * @returns {string} e.g. ws://localhost:10000/ws/report
+ * Get WebSocket URL for report live updates (derived from API_BASE), scoped to one chapter. No side effects.
+ * @param {ReportSubscription} [scope]
+ * @param {number} [since] - Last applied delta seq; the server replays everything after it
+ * @returns {string} e.g. ws://localhost:10000/ws/report?chapterId=1&chapter=anchor&since=42
  */
-export function getReportWebSocketUrl(): string {
+export function getReportWebSocketUrl(scope: ReportSubscription = {}, since?: number | null): string {
   const wsBase = API_BASE.replace(/^http/, "ws");
-  return `${wsBase}/ws/report`;
+  const url = withChapterQuery(`${wsBase}/ws/report`, scope.chapterTag, scope.chapterId);
+  const params = new URLSearchParams();
+  if (scope.eventId != null && scope.eventId > 0) params.set("eventId", String(scope.eventId));
+  if (since != null && since > 0) params.set("since", String(since));
+  if ([...params.keys()].length === 0) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${params.toString()}`;
+}
+
+/**
+ * Client → server frame that replaces an open connection's subscription in place (chapter switch without reconnect).
+ * @returns {string} JSON text for WebSocket.send
+ */
+export function buildReportSubscribeMessage(scope: ReportSubscription = {}): string {
+  const { tag, id } = resolveChapterScope(scope.chapterTag, scope.chapterId);
+  return JSON.stringify({
+    type: "subscribe",
+    chapter: tag || null,
+    chapterId: id != null && id > 0 ? id : null,
+    eventId: scope.eventId ?? null
+  });
 }
 
 // ===== AI Insights API (Phase 2) =====
@@ -1163,7 +1446,7 @@ export function getReportWebSocketUrl(): string {
 export async function generateAIInsights(
   request: AIInsightRequest
 ): Promise<AIInsightResponse> {
-  const response = await fetch(`${API_BASE}/api/insights/generate`, {
+  const response = await adminFetch(`${API_BASE}/api/insights/generate`, {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1196,7 +1479,7 @@ export async function getEventInsights(
 export async function exportAIReadyData(
   eventId: number
 ): Promise<Record<string, unknown>> {
-  const response = await fetch(`${API_BASE}/api/insights/data-export/${eventId}`, {
+  const response = await adminFetch(`${API_BASE}/api/insights/data-export/${eventId}`, {
     mode: "cors"
   });
   return handleResponse(response);
@@ -1230,6 +1513,36 @@ export async function quickMatch(
   return handleResponse(response);
 }
 
+/** One guest against a member list. POST /api/matching/members body. */
+export type MemberMatchRequest = {
+  guestName: string;
+  guestProfession: string;
+  guestTargetProfession: string | null;
+  guestBottlenecks: string[];
+  guestRemarks: string | null;
+  /** `introductions` (past outcomes, when recorded) go into the prompt so converting members rank higher. */
+  members: { name: string; profession: string; introductions?: IntroductionStats }[];
+};
+
+/**
+ * AI match for one guest (backend DeepSeek). POST /api/matching/members. `matches` is the model's JSON, usually as a
+ * string; callers validate it. Side effect: network.
+ * @throws {Error} On HTTP error or abort
+ */
+export async function requestMemberMatches(
+  request: MemberMatchRequest,
+  signal?: AbortSignal
+): Promise<{ matches?: unknown }> {
+  const response = await fetch(`${API_BASE}/api/matching/members`, {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify(request),
+    mode: "cors",
+    signal
+  });
+  return handleResponse(response);
+}
+
 /** Single guest for batch match. */
 export type BatchGuestInfo = {
   name: string;
@@ -1252,6 +1565,11 @@ export type BatchMatchResult = {
   matchedMembers: MatchedMember[];
 };
 
+/** A member's recorded introduction outcomes, sent with batch matching as prompt context. */
+export type MemberIntroductionContext = IntroductionStats & {
+  memberName: string;
+};
+
 /** Batch match response (results + provider). */
 export type BatchMatchResponse = {
   results: BatchMatchResult[];
@@ -1261,21 +1579,268 @@ export type BatchMatchResponse = {
 /**
  * Batch matching for multiple guests. POST /api/matching/batch. Side effect: network (DeepSeek per guest).
  * @param {BatchGuestInfo[]} guests
+ * @param {MemberIntroductionContext[]} memberFeedback - past introduction outcomes (summarizeIntroductionFeedback)
  * @returns {Promise<BatchMatchResponse>}
  * @throws {Error} On HTTP error
  */
 export async function batchMatch(
-  guests: BatchGuestInfo[]
+  guests: BatchGuestInfo[],
+  memberFeedback?: MemberIntroductionContext[]
 ): Promise<BatchMatchResponse> {
-  const response = await fetch(`${API_BASE}/api/matching/batch`, {
+  const response = await adminFetch(`${API_BASE}/api/matching/batch`, {
     method: "POST",
     headers: jsonHeaders,
-    body: JSON.stringify({ guests }),
+    body: JSON.stringify(memberFeedback?.length ? { guests, memberFeedback } : { guests }),
     mode: "cors"
   });
   return handleResponse(response);
 }
 
+/** One guest's matches from one run, stored per (event, guest) so they can be reused and compared. */
+export type StoredMatchResult = {
+  eventId: number;
+  runId: string;
+  /** Normalized guest name. */
+  guestKey: string;
+  guestName: string;
+  guestProfession: string;
+  guestRemarks?: string;
+  /** Fingerprint of the profile sent for matching; a change means the guest must be re-matched. */
+  profileHash: string;
+  /** Fingerprint of the member roster the run matched against. */
+  rosterVersion: string;
+  provider: string | null;
+  matchedAt: string;
+  matchedMembers: MatchedMember[];
+  /** Run this result was copied from when the guest was not re-matched. */
+  reusedFromRunId?: string;
+};
+
+/** Every stored match result for an event (all runs). GET /api/matching/results?eventId=. Side effect: network. */
+export async function getStoredMatchResults(eventId: number, chapter?: string | null): Promise<StoredMatchResult[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/matching/results?eventId=${eventId}`, chapter), {
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; results?: StoredMatchResult[] }>(response);
+  return data.results ?? [];
+}
+
+/** Store one run's results. POST /api/matching/results. Side effect: network. */
+export async function saveStoredMatchResults(results: StoredMatchResult[], chapter?: string | null): Promise<void> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/matching/results`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ results }),
+    mode: "cors"
+  });
+  await handleResponse(response);
+}
+
+/**
+ * Admin adjustment of one member in a guest's recommendations: pinned (kept on top, added if the provider missed
+ * them), removed, re-graded or re-worded. An override with none of these set clears the adjustment.
+ */
+export type MatchOverride = {
+  eventId: number;
+  /** Normalized guest name. */
+  guestKey: string;
+  memberName: string;
+  /** Shown for pinned members the provider never suggested. */
+  profession: string;
+  pinned?: boolean;
+  removed?: boolean;
+  matchStrength?: string;
+  reason?: string;
+  updatedAt: string;
+};
+
+/** Match overrides for an event. GET /api/matching/overrides?eventId=. Side effect: network. */
+export async function getMatchOverrides(eventId: number, chapter?: string | null): Promise<MatchOverride[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/matching/overrides?eventId=${eventId}`, chapter), {
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; overrides?: MatchOverride[] }>(response);
+  return data.overrides ?? [];
+}
+
+/** Create or replace the override for (event, guest, member). POST /api/matching/overrides. Side effect: network. */
+export async function saveMatchOverride(override: MatchOverride, chapter?: string | null): Promise<void> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/matching/overrides`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ override }),
+    mode: "cors"
+  });
+  await handleResponse(response);
+}
+
+/** After the meeting: did the recommended introduction happen, and was it useful. One per (event, guest, member). */
+export type IntroductionFeedback = {
+  eventId: number;
+  guestKey: string;
+  guestName: string;
+  memberName: string;
+  happened: boolean;
+  /** null when the introduction did not happen. */
+  useful: boolean | null;
+  recordedAt: string;
+};
+
+/**
+ * Recorded introduction feedback. GET /api/matching/feedback (all events, for learning) or ?eventId= for one.
+ * Side effect: network.
+ */
+export async function getIntroductionFeedback(chapter?: string | null, eventId?: number): Promise<IntroductionFeedback[]> {
+  const url = eventId != null ? `${API_BASE}/api/matching/feedback?eventId=${eventId}` : `${API_BASE}/api/matching/feedback`;
+  const response = await adminFetch(withChapterQuery(url, chapter), { mode: "cors" });
+  const data = await handleResponse<{ status: string; feedback?: IntroductionFeedback[] }>(response);
+  return data.feedback ?? [];
+}
+
+/** Create or replace the feedback for (event, guest, member). POST /api/matching/feedback. Side effect: network. */
+export async function saveIntroductionFeedback(feedback: IntroductionFeedback, chapter?: string | null): Promise<void> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/matching/feedback`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ feedback }),
+    mode: "cors"
+  });
+  await handleResponse(response);
+}
+
+// ===== Seating Plans API =====
+
+/** One saved version of an event's seating plan, with the guests and members it seats (so it renders after roster changes). */
+export type SeatingPlanVersion = {
+  version: number;
+  label?: string;
+  savedAt: string;
+  seatsPerTable: number;
+  guests: Guest[];
+  members: Member[];
+  plan: SeatingPlanResponse;
+};
+
+/** Saved seating plan versions for an event, newest first. GET /api/seating-plans?eventId=. Side effect: network. */
+export async function getSeatingPlanVersions(eventId: number, chapter?: string | null): Promise<SeatingPlanVersion[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/seating-plans?eventId=${eventId}`, chapter), {
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; versions?: SeatingPlanVersion[] }>(response);
+  return data.versions ?? [];
+}
+
+/** Save the current plan as a new version (backend numbers it). POST /api/seating-plans. Side effect: network. */
+export async function saveSeatingPlanVersion(
+  version: Omit<SeatingPlanVersion, "version" | "savedAt">,
+  chapter?: string | null
+): Promise<SeatingPlanVersion> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/seating-plans`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify(version),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; version: SeatingPlanVersion }>(response);
+  return data.version;
+}
+
+// ===== Guest Introductions API =====
+
+/** One member on a guest's "who you should meet" card. */
+export type IntroductionMember = {
+  memberName: string;
+  profession: string;
+  matchStrength: string;
+  reason: string;
+  categoryName: string;
+  /** Category colour (MemberCategory.accent). */
+  accent: string;
+  tableNumber: number | null;
+};
+
+/**
+ * A guest's "who you should meet" card, read from the guest's phone. Always built client-side (lib/guestIntroduction):
+ * by the admin batch, or by the kiosk that checked the guest in when no card was saved yet.
+ */
+export type GuestIntroduction = {
+  eventId: number;
+  /** Normalized guest name. */
+  guestKey: string;
+  guestName: string;
+  guestProfession: string;
+  tableNumber: number | null;
+  provider: string | null;
+  generatedAt: string;
+  members: IntroductionMember[];
+  /**
+   * Unguessable id the backend assigns on first save (kept on replace), or the one a kiosk proposed at check-in;
+   * the only key the phone link carries.
+   */
+  token?: string;
+};
+
+/**
+ * A guest's card by its token, or null when there is none. GET /api/guest-introductions/{token} (public, for the
+ * phone link). Side effect: network.
+ */
+export async function getGuestIntroduction(token: string, chapter?: string | null): Promise<GuestIntroduction | null> {
+  const url = `${API_BASE}/api/guest-introductions/${encodeURIComponent(token)}`;
+  const response = await fetch(withChapterQuery(url, chapter), { mode: "cors" });
+  if (response.status === 404) {
+    return null;
+  }
+  const data = await handleResponse<{ status: string; introduction?: GuestIntroduction | null }>(response);
+  return data.introduction ?? null;
+}
+
+/** Every saved card of an event. GET /api/guest-introductions?eventId= (admin). Side effect: network. */
+export async function getGuestIntroductions(eventId: number, chapter?: string | null): Promise<GuestIntroduction[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guest-introductions?eventId=${eventId}`, chapter), {
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; introductions?: GuestIntroduction[] }>(response);
+  return data.introductions ?? [];
+}
+
+/**
+ * Save (replace) a guest's card. POST /api/guest-introductions (admin).
+ * Side effect: network.
+ * @returns {Promise<GuestIntroduction>} The saved card, with its token
+ */
+export async function saveGuestIntroduction(introduction: GuestIntroduction, chapter?: string | null): Promise<GuestIntroduction> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guest-introductions`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ introduction }),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; introduction?: GuestIntroduction }>(response);
+  return data.introduction ?? introduction;
+}
+
+/**
+ * Fill the empty card reserved under `token` at check-in. PUT /api/guest-introductions/{token} (public: the token is the
+ * authorization). The backend accepts only the first write; later edits go through saveGuestIntroduction (409 otherwise).
+ * Side effect: network.
+ * @returns {Promise<GuestIntroduction>} The saved card
+ */
+export async function fillGuestIntroduction(
+  token: string,
+  introduction: GuestIntroduction,
+  chapter?: string | null
+): Promise<GuestIntroduction> {
+  const url = `${API_BASE}/api/guest-introductions/${encodeURIComponent(token)}`;
+  const response = await fetch(withChapterQuery(url, chapter), {
+    method: "PUT",
+    headers: jsonHeaders,
+    body: JSON.stringify({ introduction }),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; introduction?: GuestIntroduction }>(response);
+  return data.introduction ?? { ...introduction, token };
+}
+
 // ===== Bulk Import API =====
 
 /** Single row for bulk import (member or guest fields). */
@@ -1292,6 +1857,8 @@ export type ImportRecord = {
   eventDate?: string;
   /** Chapter tag; empty uses logged-in chapter (anchor default) or ?chapter= query. */
   chapter?: string;
+  /** Guest imports: VIP / SPEAKER from the announcement's speaker and VIP sections (GUEST when omitted). */
+  role?: AttendeeRole;
 };
 
 /** Bulk import request (type + records). */
@@ -1326,7 +1893,7 @@ export async function bulkImport(
       request.type === "member"
         ? withChapterQuery(`${API_BASE}/api/bulk-import-members`, chapter, chapterId)
         : withChapterQuery(`${API_BASE}/api/bulk-import-guest`, chapter, chapterId);
-    const response = await fetchWithRetry(endpoint, {
+    const response = await adminFetchWithRetry(endpoint, {
       method: "POST",
       headers: jsonHeaders,
       // Dedicated endpoints accept List<ImportRecord>
@@ -1351,7 +1918,7 @@ export async function bulkImportObservers(
   chapterId?: number | null
 ): Promise<ImportResult> {
   try {
-    const response = await fetchWithRetry(
+    const response = await adminFetchWithRetry(
       withChapterQuery(`${API_BASE}/api/bulk-import-observers`, chapter, chapterId),
       {
         method: "POST",
@@ -1381,6 +1948,38 @@ export type UpdateMemberRequest = {
   professionCode?: string;
 };
 
+/** Attendance measure a standing rule tests (see lib/standingRules). */
+export type StandingRuleMetric = "absences" | "lateCount" | "attendanceRatePercent";
+
+/** "When <metric> over the last <windowMonths> months is <comparator> <threshold> → <standing>". */
+export type StandingRule = {
+  id: string;
+  metric: StandingRuleMetric;
+  windowMonths: number;
+  comparator: ">=" | "<";
+  threshold: number;
+  standing: MemberStanding;
+};
+
+/** Chapter's standing policy. */
+export type StandingRuleSet = {
+  /** A substitute covering the meeting counts as present for every rule. */
+  substituteCountsAsPresent: boolean;
+  rules: StandingRule[];
+};
+
+/** One applied standing change (audit trail). */
+export type StandingChangeLogEntry = {
+  id?: number;
+  memberId?: number;
+  memberName: string;
+  fromStanding?: MemberStanding;
+  toStanding: MemberStanding;
+  reasons: string[];
+  appliedAt: string;
+  appliedBy?: string;
+};
+
 export type CreateMemberRequest = {
   name: string;
   profession: string;
@@ -1398,7 +1997,7 @@ export async function createMember(
   request: CreateMemberRequest,
   chapter?: string | null
 ): Promise<{ status: string; message: string; member?: MemberInfo }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/members`, chapter), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/members`, chapter), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1423,7 +2022,7 @@ export async function updateMember(
 ): Promise<{ status: string; message: string }> {
   const body = JSON.stringify(request);
   const putMember = (params: URLSearchParams) =>
-    fetch(`${API_BASE}/api/members?${params.toString()}`, {
+    adminFetch(`${API_BASE}/api/members?${params.toString()}`, {
       method: "PUT",
       headers: jsonHeaders,
       body,
@@ -1474,7 +2073,7 @@ export async function updateGuest(
   if (currentEventDate?.trim()) {
     params.set("currentEventDate", currentEventDate.trim());
   }
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/guests?${params.toString()}`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guests?${params.toString()}`), {
     method: "PUT",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1490,7 +2089,7 @@ export async function updateGuest(
 export async function createGuest(
   request: CreateGuestRequest
 ): Promise<{ status: string; message: string; guest?: GuestInfo }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/guests`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guests`), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1507,7 +2106,7 @@ export async function deleteMember(
   memberId?: number
 ): Promise<{ status: string; message: string }> {
   const deleteMemberRequest = (params: URLSearchParams) =>
-    fetch(`${API_BASE}/api/members?${params.toString()}`, {
+    adminFetch(`${API_BASE}/api/members?${params.toString()}`, {
       method: "DELETE",
       mode: "cors"
     });
@@ -1523,22 +2122,245 @@ export async function deleteMember(
   return handleResponse(await deleteMemberRequest(new URLSearchParams({ name })));
 }
 
+/** Signed v2 member badge issued by the backend (payload is the QR text). */
+export type MemberBadge = {
+  memberId: number;
+  payload: string;
+  expiresAt: string;
+};
+
+/**
+ * Issue (or reissue) a signed v2 badge for one member; the chapter's private key never leaves the backend.
+ * POST /api/members/:id/badge. Side effect: network.
+ * @throws {Error} On HTTP error
+ */
+export async function issueMemberBadge(memberId: number, chapter?: string | null): Promise<MemberBadge> {
+  const response = await adminFetch(
+    withChapterQuery(`${API_BASE}/api/members/${encodeURIComponent(String(memberId))}/badge`, chapter),
+    { method: "POST", mode: "cors" }
+  );
+  const data = await handleResponse<{ status: string; badge: MemberBadge }>(response);
+  if (!data.badge) {
+    throw new Error("Badge issue succeeded but no badge returned");
+  }
+  return data.badge;
+}
+
+/**
+ * Issue signed v2 badges for many members in one call (badge sheet). POST /api/members/badges. Side effect: network.
+ * Members the backend cannot sign for are simply absent from the result.
+ */
+export async function issueMemberBadges(memberIds: number[], chapter?: string | null): Promise<MemberBadge[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/members/badges`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ memberIds }),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; badges?: MemberBadge[] }>(response);
+  return data.badges ?? [];
+}
+
+/** Short-lived signed token for the projector QR (`BNIE.<body>.<sig>`, see qr-format). */
+export type LiveEventTokenGrant = {
+  token: string;
+  expiresAt: string;
+};
+
+/**
+ * Issue a fresh live event token for the projector; called every LIVE_EVENT_TOKEN_ROTATE_SECONDS.
+ * POST /api/events/:id/live-token. Side effect: network.
+ * @throws {Error} On HTTP error (e.g. chapter has no signing key)
+ */
+export async function issueLiveEventToken(eventId: number, chapter?: string | null): Promise<LiveEventTokenGrant> {
+  const response = await adminFetch(
+    withChapterQuery(`${API_BASE}/api/events/${encodeURIComponent(String(eventId))}/live-token`, chapter),
+    { method: "POST", mode: "cors" }
+  );
+  const data = await handleResponse<{ status: string; grant: LiveEventTokenGrant }>(response);
+  if (!data.grant?.token) {
+    throw new Error("Live token issue succeeded but no token returned");
+  }
+  return data.grant;
+}
+
+/**
+ * Chapter standing rules. GET /api/standing-rules. Returns null when the chapter has none saved yet.
+ * Side effect: network.
+ */
+export async function getStandingRules(chapter?: string | null): Promise<StandingRuleSet | null> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/standing-rules`, chapter), { mode: "cors" });
+  if (response.status === 404) return null;
+  const data = await handleResponse<{ status: string; ruleSet?: StandingRuleSet | null }>(response);
+  return data.ruleSet ?? null;
+}
+
+/** Save chapter standing rules. PUT /api/standing-rules. Side effect: network. */
+export async function saveStandingRules(ruleSet: StandingRuleSet, chapter?: string | null): Promise<StandingRuleSet> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/standing-rules`, chapter), {
+    method: "PUT",
+    headers: jsonHeaders,
+    body: JSON.stringify(ruleSet),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; ruleSet?: StandingRuleSet }>(response);
+  return data.ruleSet ?? ruleSet;
+}
+
+/** Applied standing changes, newest first. GET /api/standing-changes. Side effect: network. */
+export async function getStandingChangeLog(chapter?: string | null): Promise<StandingChangeLogEntry[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/standing-changes`, chapter), { mode: "cors" });
+  const data = await handleResponse<{ status: string; changes?: StandingChangeLogEntry[] }>(response);
+  return data.changes ?? [];
+}
+
+/**
+ * Set a member's standing and record the change in one backend transaction. POST /api/standing-changes: the member
+ * row and the log entry are written together, so a failure leaves neither. Side effect: network.
+ * @returns {Promise<StandingChangeLogEntry>} The logged change
+ */
+export async function applyStandingChange(
+  entry: Omit<StandingChangeLogEntry, "id" | "appliedBy">,
+  chapter?: string | null
+): Promise<StandingChangeLogEntry> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/standing-changes`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify(entry),
+    mode: "cors"
+  });
+  const data = await handleResponse<{ status: string; change?: StandingChangeLogEntry }>(response);
+  return data.change ?? entry;
+}
+
+/** Visitor-to-member pipeline stage (see lib/visitorPipeline). */
+export type PipelineStage = "guest" | "repeat" | "observer" | "applicant" | "member" | "declined";
+
+/** One manual stage move of a prospect. */
+export type PipelineStageChange = {
+  stage: PipelineStage;
+  changedAt: string;
+  changedBy?: string;
+  note?: string;
+};
+
+/** Saved follow-up state for one prospect; prospects without one follow their attendance. */
+export type PipelineEntry = {
+  /** normalizeGuestName() of the prospect (the guest identity key). */
+  prospectKey: string;
+  name: string;
+  /** Last manually chosen stage; absent while the stage comes from attendance alone. */
+  stage?: PipelineStage;
+  /** Member responsible for following up. */
+  ownerMemberName?: string;
+  notes?: string;
+  /** YYYY-MM-DD */
+  nextFollowUpDate?: string;
+  /** Set once converted: the MemberInfo created for this prospect. */
+  memberId?: number;
+  history: PipelineStageChange[];
+  updatedAt?: string;
+};
+
+/** Saved pipeline entries. GET /api/pipeline. Side effect: network. */
+export async function getPipelineEntries(chapter?: string | null): Promise<PipelineEntry[]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/pipeline`, chapter), { mode: "cors" });
+  const data = await handleResponse<{ status: string; entries?: PipelineEntry[] }>(response);
+  return data.entries ?? [];
+}
+
+/** Create or replace one prospect's entry. PUT /api/pipeline/:prospectKey. Side effect: network. */
+export async function savePipelineEntry(entry: PipelineEntry, chapter?: string | null): Promise<PipelineEntry> {
+  const response = await adminFetch(
+    withChapterQuery(`${API_BASE}/api/pipeline/${encodeURIComponent(entry.prospectKey)}`, chapter),
+    {
+      method: "PUT",
+      headers: jsonHeaders,
+      body: JSON.stringify(entry),
+      mode: "cors"
+    }
+  );
+  const data = await handleResponse<{ status: string; entry?: PipelineEntry }>(response);
+  return data.entry ?? entry;
+}
+
 /**
  * Delete guest by name. DELETE /api/guests/:name. Side effect: network; backend DB delete.
  * @param {string} name - Guest name (path)
+ * @param {string} [eventDate] - Only remove the registration for this event date (YYYY-MM-DD)
+ * @param {string | null} [chapter] - Defaults to the active API chapter
+ * @param {number | null} [chapterId]
  * @returns {Promise<{ status: string; message: string }>}
  * @throws {Error} On HTTP error
  */
 export async function deleteGuest(
-  name: string
+  name: string,
+  eventDate?: string,
+  chapter?: string | null,
+  chapterId?: number | null
 ): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/guests/${encodeURIComponent(name)}`), {
+  const dateQuery = eventDate?.trim() ? `?eventDate=${encodeURIComponent(eventDate.trim())}` : "";
+  const url = withChapterQuery(`${API_BASE}/api/guests/${encodeURIComponent(name)}${dateQuery}`, chapter, chapterId);
+  const response = await adminFetch(url, {
     method: "DELETE",
     mode: "cors"
   });
   return handleResponse(response);
 }
 
+/** One guest registration: guests are keyed by name per event date. */
+export type GuestVisitRef = {
+  name: string;
+  eventDate: string;
+};
+
+/** Merge duplicate guest registrations into one canonical profile. */
+export type GuestMergeRequest = {
+  /** Profile every merged visit ends up with; each visit keeps its own referrer (referral analytics credit per visit). */
+  canonical: {
+    name: string;
+    profession: string;
+    phoneNumber?: string;
+  };
+  /** Visits to rename to the canonical name; a visit on a date the canonical name already has is dropped. */
+  visits: GuestVisitRef[];
+};
+
+/**
+ * Merge guest registrations into one profile. POST /api/guests/merge.
+ * Side effect: network; backend renames (and de-duplicates) the visits.
+ */
+export async function mergeGuests(
+  request: GuestMergeRequest,
+  chapter?: string | null
+): Promise<{ status: string; message: string; merged?: number }> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guests/merge`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify(request),
+    mode: "cors"
+  });
+  return handleResponse(response);
+}
+
+/** Guest identity pairs marked as different people (normalized names, see lib/guestIdentity). GET /api/guests/distinct-pairs */
+export async function getGuestDistinctPairs(chapter?: string | null): Promise<[string, string][]> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guests/distinct-pairs`, chapter), { mode: "cors" });
+  const data = await handleResponse<{ status: string; pairs?: [string, string][] }>(response);
+  return data.pairs ?? [];
+}
+
+/** Record that these guest identities are different people, so they're no longer proposed. POST /api/guests/distinct-pairs */
+export async function markGuestsDistinct(pairs: [string, string][], chapter?: string | null): Promise<void> {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/guests/distinct-pairs`, chapter), {
+    method: "POST",
+    headers: jsonHeaders,
+    body: JSON.stringify({ pairs }),
+    mode: "cors"
+  });
+  await handleResponse(response);
+}
+
 export type ObserverInfo = {
   id: number;
   name: string;
@@ -1570,7 +2392,7 @@ export async function getObservers(
 export async function createObserver(
   request: CreateObserverRequest
 ): Promise<{ status: string; message: string; observer?: ObserverInfo }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/observers`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/observers`), {
     method: "POST",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1583,7 +2405,7 @@ export async function updateObserver(
   name: string,
   request: UpdateObserverRequest
 ): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/observers/${encodeURIComponent(name)}`), {
+  const response = await adminFetch(withChapterQuery(`${API_BASE}/api/observers/${encodeURIComponent(name)}`), {
     method: "PUT",
     headers: jsonHeaders,
     body: JSON.stringify(request),
@@ -1592,10 +2414,16 @@ export async function updateObserver(
   return handleResponse(response);
 }
 
+/** Delete observer by name. DELETE /api/observers/:name; `eventDate` limits it to that event's registration. */
 export async function deleteObserver(
-  name: string
+  name: string,
+  eventDate?: string,
+  chapter?: string | null,
+  chapterId?: number | null
 ): Promise<{ status: string; message: string }> {
-  const response = await fetch(withChapterQuery(`${API_BASE}/api/observers/${encodeURIComponent(name)}`), {
+  const dateQuery = eventDate?.trim() ? `?eventDate=${encodeURIComponent(eventDate.trim())}` : "";
+  const url = withChapterQuery(`${API_BASE}/api/observers/${encodeURIComponent(name)}${dateQuery}`, chapter, chapterId);
+  const response = await adminFetch(url, {
     method: "DELETE",
     mode: "cors"
   });
@@ -1603,7 +2431,7 @@ export async function deleteObserver(
 }
 
 export async function exportObservers(eventDate: string): Promise<Blob> {
-  const response = await fetch(
+  const response = await adminFetch(
     withChapterQuery(`${API_BASE}/api/observers/export?eventDate=${encodeURIComponent(eventDate)}`),
     { mode: "cors" }
   );
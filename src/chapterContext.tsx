@@ -13,6 +13,8 @@ import {
   clientLogout,
   fetchClientSession,
   setActiveApiChapter,
+  setAdminSessionToken,
+  setAdminUnauthorizedHandler,
   ANCHOR_CHAPTER_ID,
   CHAPTER_TAG_TO_ID,
   type ChapterInfo
@@ -67,7 +69,12 @@ function readStoredSession(): StoredSession | null {
   }
 }
 
+/** Shown on ClientAdminLoginPanel after an admin call came back 401/403. */
+export const SESSION_EXPIRED_MESSAGE = "登入已過期或權限不足，請重新登入";
+
 function writeStoredSession(session: StoredSession | null) {
+  // Keep api.ts in step so every admin call carries the current bearer token.
+  setAdminSessionToken(session?.token ?? null);
   localStorage.removeItem(LEGACY_SESSION_KEY);
   if (!session) {
     localStorage.removeItem(SESSION_KEY);
@@ -83,20 +90,25 @@ export function ChapterProvider({ children }: { children: ReactNode }) {
   /** Report page should also honor the logged-in admin chapter when ?chapter= is missing. */
   const usesAdminSession = isAdminRoute || location.pathname.startsWith("/report");
 
-  const [session, setSession] = useState<StoredSession | null>(() =>
-    usesAdminSession ? readStoredSession() : null
-  );
+  const [session, setSession] = useState<StoredSession | null>(() => {
+    const stored = usesAdminSession ? readStoredSession() : null;
+    // Set before children mount so their first admin fetch is already authenticated.
+    setAdminSessionToken(stored?.token ?? null);
+    return stored;
+  });
   const [authReady, setAuthReady] = useState(!usesAdminSession);
   const [loginError, setLoginError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!usesAdminSession) {
+      setAdminSessionToken(null);
       setSession(null);
       setAuthReady(true);
       return;
     }
     let cancelled = false;
     const stored = readStoredSession();
+    setAdminSessionToken(stored?.token ?? null);
     if (!stored) {
       setSession(null);
       setAuthReady(true);
@@ -131,6 +143,17 @@ export function ChapterProvider({ children }: { children: ReactNode }) {
     };
   }, [usesAdminSession, location.pathname]);
 
+  // Central 401/403 handling: drop the session but stay on the current route, so the
+  // auth gate swaps in ClientAdminLoginPanel and the same page returns after re-login.
+  useEffect(() => {
+    setAdminUnauthorizedHandler(() => {
+      writeStoredSession(null);
+      setSession(null);
+      setLoginError(SESSION_EXPIRED_MESSAGE);
+    });
+    return () => setAdminUnauthorizedHandler(null);
+  }, []);
+
   const login = useCallback(async (adminLogin: string, adminPassword: string) => {
     setLoginError(null);
     try {
@@ -12,8 +12,15 @@ import {
   GuestInfo,
   ObserverInfo,
   AttendeeRole,
+  type CheckInRequest,
+  type CheckInStatus,
   type EventData,
 } from "../api";
+import { useChapter } from "../chapterContext";
+import { useOfflineQueue } from "../hooks/useOfflineQueue";
+import { isOfflineError } from "../lib/offlineQueue";
+import { OfflineQueuePanel } from "./OfflineQueuePanel";
+import { classifyWallClock, parseWallClock, toChapterWallClock } from "../lib/attendanceStatus";
 
 type AdminManualEntryPanelProps = {
   onNotify: (message: string, type: "success" | "error" | "info") => void;
@@ -35,13 +42,19 @@ type BatchRowPerson = BatchPerson & {
   attended?: boolean;
 };
 
-const formatDateTimeLocal = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  const hours = String(date.getHours()).padStart(2, "0");
-  const minutes = String(date.getMinutes()).padStart(2, "0");
-  return `${year}-${month}-${day}T${hours}:${minutes}`;
+/** `datetime-local` value for `date` as seen on the chapter's wall clock (not the admin browser's). */
+const formatDateTimeLocal = (date: Date, timeZone?: string | null): string => {
+  const { date: ymd, secondsOfDay } = toChapterWallClock(date, timeZone);
+  const hours = String(Math.floor(secondsOfDay / 3600)).padStart(2, "0");
+  const minutes = String(Math.floor((secondsOfDay % 3600) / 60)).padStart(2, "0");
+  return `${ymd}T${hours}:${minutes}`;
+};
+
+/** Custom times are entered as chapter-local wall clock, so classify them without timezone conversion. */
+const statusForEnteredTime = (event: EventData | null, timeString: string): CheckInStatus | undefined => {
+  if (!event?.date) return undefined;
+  const wallClock = parseWallClock(timeString);
+  return wallClock ? classifyWallClock(event, wallClock) : undefined;
 };
 
 const personKey = (type: AttendeeKind, name: string) => `${type}:${name}`;
@@ -91,6 +104,8 @@ const BatchPersonRow = memo(function BatchPersonRow({
 });
 
 export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps) => {
+  const { chapter } = useChapter();
+  const timezone = chapter?.timezone;
   const [mode, setMode] = useState<"single" | "batch">("batch");
   const [members, setMembers] = useState<MemberInfo[]>([]);
   const [guests, setGuests] = useState<GuestInfo[]>([]);
@@ -107,12 +122,18 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
   const [guestRole, setGuestRole] = useState<GuestRole>("GUEST");
   const [referrer, setReferrer] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [customTime, setCustomTime] = useState(formatDateTimeLocal(new Date()));
+  const [customTime, setCustomTime] = useState(() => formatDateTimeLocal(new Date(), timezone));
   const [selectedPeople, setSelectedPeople] = useState<Set<string>>(new Set());
   const [batchSubmitting, setBatchSubmitting] = useState(false);
   const [noCurrentEvent, setNoCurrentEvent] = useState(false);
   const [loadingEvent, setLoadingEvent] = useState(true);
   const [listLoading, setListLoading] = useState(false);
+  const {
+    items: queuedItems,
+    enqueue: enqueueOffline,
+    retryFailed: retryFailedOffline,
+    discard: discardOffline,
+  } = useOfflineQueue({ event: currentEvent, timeZone: timezone });
 
   const reloadLists = useCallback(async () => {
     try {
@@ -262,7 +283,9 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
             submitDomain,
             eventDate,
             "",
-            "present"
+            "present",
+            undefined,
+            { adminOverride: true }
           );
           onNotify(`✅ ${submitName} (觀察員) 已標記出席`, "success");
         }
@@ -289,19 +312,36 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
         setGuestRole("GUEST");
         setReferrer("");
         setWalkInCheckIn(true);
-        setCustomTime(formatDateTimeLocal(new Date()));
+        setCustomTime(formatDateTimeLocal(new Date(), timezone));
         void reloadLists();
         return;
       }
 
-      const result = await checkIn({
+      const request: CheckInRequest = {
         name: submitName,
         type: singleType === "guest" ? "guest" : "member",
         domain: submitDomain,
         currentTime: timeString,
         role: singleType === "guest" ? (guestRole as AttendeeRole) : "MEMBER",
         referrer: singleType === "guest" && referrer.trim() ? referrer.trim() : undefined,
-      });
+        status: statusForEnteredTime(currentEvent, timeString),
+      };
+      let result: Awaited<ReturnType<typeof checkIn>>;
+      try {
+        result = await checkIn(request);
+      } catch (error) {
+        if (singleType !== "guest" || !isOfflineError(error)) throw error;
+        // Walk-in guest at the door while offline: keep it and replay once connected.
+        await enqueueOffline({ kind: "walk-in-guest", request }, selectedTime);
+        onNotify(`📶 ${submitName} (嘉賓) 已離線儲存，連線恢復後自動簽到`, "info");
+        setName("");
+        setDomain("");
+        setGuestRole("GUEST");
+        setReferrer("");
+        setWalkInCheckIn(true);
+        setCustomTime(formatDateTimeLocal(new Date(), timezone));
+        return;
+      }
 
       if (result.status === "success") {
         const typeLabel =
@@ -318,7 +358,7 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
         setGuestRole("GUEST");
         setReferrer("");
         setWalkInCheckIn(true);
-        setCustomTime(formatDateTimeLocal(new Date()));
+        setCustomTime(formatDateTimeLocal(new Date(), timezone));
         void reloadLists();
       } else {
         throw new Error(result.message);
@@ -380,6 +420,7 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
     let failCount = 0;
     const selectedTime = new Date(customTime);
     const timeString = `${selectedTime.getFullYear()}-${String(selectedTime.getMonth() + 1).padStart(2, "0")}-${String(selectedTime.getDate()).padStart(2, "0")}T${String(selectedTime.getHours()).padStart(2, "0")}:${String(selectedTime.getMinutes()).padStart(2, "0")}:${String(selectedTime.getSeconds()).padStart(2, "0")}`;
+    const batchStatus = statusForEnteredTime(currentEvent, timeString);
 
     for (const key of selectedPeople) {
       try {
@@ -396,7 +437,9 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
             person.domain,
             eventDate,
             "",
-            "present"
+            "present",
+            undefined,
+            { adminOverride: true }
           );
         } else {
           await checkIn({
@@ -406,6 +449,7 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
             currentTime: timeString,
             role: person.type === "member" ? "MEMBER" : "GUEST",
             referrer: person.referrer,
+            status: batchStatus,
           });
         }
         successCount++;
@@ -475,11 +519,17 @@ export const AdminManualEntryPanel = ({ onNotify }: AdminManualEntryPanelProps)
       <div className="section-header">
         <h2>✍️ 管理員手動輸入</h2>
         <p className="hint">
-          直接新增簽到記錄
+          直接新增簽到記錄，毋須現場簽到 QR 碼
           {currentEvent?.date ? `（當前活動：${currentEvent.name} · ${currentEvent.date}）` : ""}
         </p>
       </div>
 
+      <OfflineQueuePanel
+        items={queuedItems}
+        onRetryFailed={() => void retryFailedOffline()}
+        onDiscard={(id) => void discardOffline(id)}
+      />
+
       <div className="mode-toggle-group">
         <button type="button" className={`mode-toggle-btn ${mode === "single" ? "active" : ""}`} onClick={() => setMode("single")}>
           單筆輸入
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { setLegacyBadgeAcceptance } from "../api";
+import { useChapter } from "../chapterContext";
+
+type BadgeSettingsPanelProps = {
+  onNotify: (message: string, type: "success" | "error" | "info") => void;
+};
+
+/** Chapter admin: badge signing key status and the legacy (unsigned v1) QR toggle. */
+export function BadgeSettingsPanel({ onNotify }: BadgeSettingsPanelProps) {
+  const { chapter } = useChapter();
+  const [acceptLegacy, setAcceptLegacy] = useState(chapter?.acceptLegacyBadges === true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAcceptLegacy(chapter?.acceptLegacyBadges === true);
+  }, [chapter?.tag, chapter?.acceptLegacyBadges]);
+
+  if (!chapter) {
+    return (
+      <section className="section admin-panel">
+        <p className="error-text">請先登入 chapter 管理員。</p>
+      </section>
+    );
+  }
+
+  const toggleLegacy = async (next: boolean) => {
+    setSaving(true);
+    try {
+      const updated = await setLegacyBadgeAcceptance(chapter.tag, next);
+      setAcceptLegacy(updated.acceptLegacyBadges === true);
+      onNotify(next ? "⚠️ 已允許舊版（未簽署）QR Code" : "✅ 已停用舊版 QR Code，只接受簽署徽章", next ? "info" : "success");
+    } catch (e) {
+      onNotify(`❌ 更新失敗: ${e instanceof Error ? e.message : "錯誤"}`, "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="section admin-panel">
+      <div className="section-header">
+        <h2>🛡️ 會員 QR 徽章</h2>
+        <p className="hint">
+          新版（v2）徽章由後端以 chapter 私鑰簽署，掃描器會核對簽名、chapter 及有效期。
+        </p>
+      </div>
+      <p>
+        簽署金鑰：
+        {chapter.badgePublicKey ? (
+          <strong>已設定{chapter.badgeKeyId ? `（${chapter.badgeKeyId}）` : ""}</strong>
+        ) : (
+          <span className="error-text">未設定 — 掃描器無法驗證 v2 徽章</span>
+        )}
+      </p>
+      <label style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+        <input
+          type="checkbox"
+          checked={acceptLegacy}
+          disabled={saving}
+          onChange={(e) => void toggleLegacy(e.target.checked)}
+        />
+        接受舊版（v1）未簽署 QR Code
+      </label>
+      <p className="hint">舊版 QR 只係純文字 JSON，任何人都可以偽造；換晒新徽章之後請關閉。</p>
+    </section>
+  );
+}
@@ -1,15 +1,43 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from "react";
-import { getEventForDate, getMembers, getGuests, getObservers, getCurrentEvent, logAttendance, getReportWebSocketUrl, updateAttendanceSubstitute, getPlannedSubstitutes } from "../api";
+import { useSearchParams } from "react-router-dom";
+import { QRCodeSVG } from "qrcode.react";
+import { getEventById, getEventForDate, getMembers, getGuests, getObservers, getCurrentEvent, logAttendance, getReportWebSocketUrl, updateAttendanceSubstitute, getPlannedSubstitutes } from "../api";
+import type { CheckInStatus, EventData } from "../api";
+import {
+  CHECK_IN_STATUS_LABELS,
+  classifyCheckIn,
+  DEFAULT_CHAPTER_TIMEZONE,
+  type EventTiming,
+} from "../lib/attendanceStatus";
+import { buildGuestIntroductionUrl, completeGuestIntroduction, newGuestIntroductionToken } from "../lib/guestIntroduction";
+import { isOfflineError, type QueuedCheckInAction } from "../lib/offlineQueue";
+import { useOfflineQueue } from "../hooks/useOfflineQueue";
+import { OfflineQueuePanel } from "./OfflineQueuePanel";
+import {
+  LIVE_EVENT_TOKEN_REJECT_MESSAGES,
+  verifyLiveEventToken,
+  type BadgeVerificationKey,
+  type LiveEventTokenVerification,
+} from "../qr-format";
 
 type CheckinType = "member" | "guest" | "observer";
 
 /** Resolved event for check-in UI: always from backend (current event or 3-day fallback), never from URL. */
-type EventSnapshot = { id: number; date: string; name: string };
+type EventSnapshot = EventTiming & { id: number; name: string };
+
+const toEventSnapshot = (event: EventData, date: string = event.date): EventSnapshot => ({
+  id: event.id,
+  date,
+  name: event.name,
+  registrationStartTime: event.registrationStartTime,
+  onTimeCutoff: event.onTimeCutoff,
+  endTime: event.endTime,
+});
 
 async function resolveActiveEventForCheckin(chapterTag?: string | null): Promise<EventSnapshot | null> {
   const current = await getCurrentEvent(chapterTag);
   if (current?.date) {
-    return { id: current.id, date: current.date, name: current.name };
+    return toEventSnapshot(current);
   }
   const base = new Date();
   for (let delta = 0; delta <= 2; delta++) {
@@ -18,7 +46,9 @@ async function resolveActiveEventForCheckin(chapterTag?: string | null): Promise
     const dateStr = d.toISOString().split("T")[0];
     const evt = await getEventForDate(dateStr, chapterTag);
     if (evt) {
-      return { id: evt.id, date: dateStr, name: evt.name };
+      // for-date only returns id + name; the full event carries the chapter's check-in timing.
+      const full = await getEventById(evt.id).catch(() => null);
+      return full ? toEventSnapshot(full, dateStr) : { id: evt.id, date: dateStr, name: evt.name };
     }
   }
   return null;
@@ -36,6 +66,10 @@ const CHECKIN_FORM_WS_TYPES = new Set([
   "observer_registry_updated",
   "current_event_changed",
   "member_registry_updated",
+  "attendee_checked_in",
+  "attendee_removed",
+  "substitute_set",
+  "event_activated",
 ]);
 
 type Member = {
@@ -65,21 +99,29 @@ type CheckinFormPanelProps = {
   onNotify: (message: string, type: "success" | "error" | "info") => void;
   /** Public check-in chapter tag (from `/?chapter=`). Defaults to anchor. */
   chapterTag?: string;
+  /** IANA zone from `ChapterInfo.timezone`; used for the event-day gate and on-time/late status. */
+  timezone?: string;
+  /** Chapter key (badgeKeyFromChapter) for checking the live event token in `?t=`; signature is left to the backend without it. */
+  liveTokenKey?: BadgeVerificationKey | null;
 };
 
-/** YYYY-MM-DD in Hong Kong time (matches backend event dates). */
-export function getHktDateString(date: Date = new Date()): string {
+/** YYYY-MM-DD in the chapter timezone, Hong Kong by default (matches backend event dates). */
+export function getHktDateString(date: Date = new Date(), timeZone: string = DEFAULT_CHAPTER_TIMEZONE): string {
   return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "Asia/Hong_Kong",
+    timeZone,
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
   }).format(date);
 }
 
-export function isSameCalendarDayAsEvent(eventDate: string, now: Date = new Date()): boolean {
+export function isSameCalendarDayAsEvent(
+  eventDate: string,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_CHAPTER_TIMEZONE
+): boolean {
   const normalizedEvent = eventDate.trim().slice(0, 10);
-  return getHktDateString(now) === normalizedEvent;
+  return getHktDateString(now, timeZone) === normalizedEvent;
 }
 
 /** Display label for member with optional planned substitute (WhatsApp 替代人名單). */
@@ -88,7 +130,17 @@ export function formatMemberCheckinLabel(memberName: string, substituteName?: st
   return sub ? `${memberName} (${sub})` : memberName;
 }
 
-export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFormPanelProps) => {
+export const CheckinFormPanel = ({
+  onNotify,
+  chapterTag = "anchor",
+  timezone = DEFAULT_CHAPTER_TIMEZONE,
+  liveTokenKey,
+}: CheckinFormPanelProps) => {
+  const [searchParams] = useSearchParams();
+  const liveToken = searchParams.get("t");
+  // Freshness is judged when the page was opened from the projector QR, not when the form is submitted.
+  const openedAtRef = useRef(new Date());
+  const [liveTokenCheck, setLiveTokenCheck] = useState<LiveEventTokenVerification | null>(null);
   const [checkinType, setCheckinType] = useState<CheckinType>("member");
   const [members, setMembers] = useState<Member[]>([]);
   const [guests, setGuests] = useState<Guest[]>([]);
@@ -100,7 +152,10 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [checkInSuccess, setCheckInSuccess] = useState(false);
   const [successCheckInTime, setSuccessCheckInTime] = useState<Date | null>(null);
+  const [successStatus, setSuccessStatus] = useState<CheckInStatus | null>(null);
+  const [successQueuedOffline, setSuccessQueuedOffline] = useState(false);
   const [substituteName, setSubstituteName] = useState("");
+  const [introUrl, setIntroUrl] = useState<string | null>(null);
   const [plannedByMember, setPlannedByMember] = useState<Record<string, string>>({});
   const [alreadyCheckedIn, setAlreadyCheckedIn] = useState(false);
   const [noEventForDate, setNoEventForDate] = useState(false);
@@ -118,6 +173,25 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
 
   const eventContextKey = eventSnapshot ? `${eventSnapshot.id}:${eventSnapshot.date}` : "";
 
+  useEffect(() => {
+    if (!eventSnapshot) return;
+    let cancelled = false;
+    void verifyLiveEventToken(liveToken, liveTokenKey ?? { chapterId: 0 }, eventSnapshot.id, openedAtRef.current).then(
+      (result) => {
+        if (!cancelled) setLiveTokenCheck(result);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [eventSnapshot, liveToken, liveTokenKey]);
+  const {
+    items: queuedItems,
+    enqueue: enqueueOffline,
+    retryFailed: retryFailedOffline,
+    discard: discardOffline,
+  } = useOfflineQueue({ event: eventSnapshot, timeZone: timezone });
+
   // Fetch members from backend (bni-anchor-checkin-backend /api/members)
   const fetchMembers = useCallback(async () => {
     setIsLoading(true);
@@ -269,7 +343,7 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
 
   // WebSocket：嘉賓／當前活動／簽到等變更時，合併為一次刷新（等同手動按 🔄）
   useEffect(() => {
-    const ws = new WebSocket(getReportWebSocketUrl());
+    const ws = new WebSocket(getReportWebSocketUrl({ chapterTag }));
     ws.onopen = () => setWsConnected(true);
     ws.onclose = () => setWsConnected(false);
     ws.onmessage = (e) => {
@@ -330,7 +404,7 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
   };
 
   const handleConfirmCheckIn = async () => {
-    if (!selectedId || !selectedName || !eventSnapshot?.date) return;
+    if (!selectedId || !selectedName || !eventSnapshot?.date || !liveTokenCheck?.ok) return;
 
     if (checkinType === "guest" && guests.length === 0) {
       onNotify("此活動沒有嘉賓名單，無法簽到", "error");
@@ -338,8 +412,8 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
     }
 
     const now = new Date();
-    if (!isSameCalendarDayAsEvent(eventSnapshot.date, now)) {
-      const todayHkt = getHktDateString(now);
+    if (!isSameCalendarDayAsEvent(eventSnapshot.date, now, timezone)) {
+      const todayHkt = getHktDateString(now, timezone);
       onNotify(
         `今日 (${todayHkt}) 並非活動日期 (${eventSnapshot.date.slice(0, 10)})，無法簽到`,
         "error"
@@ -349,17 +423,54 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
 
     setIsSubmitting(true);
 
-    // Determine on-time vs late (can be enhanced with event cutoff logic)
-    const status = "on-time";
+    const status = classifyCheckIn(eventSnapshot, now, timezone);
+    const selected =
+      checkinType === "member"
+        ? members.find((m) => m.id === selectedId)
+        : checkinType === "guest"
+          ? guests.find((g) => g.id === selectedId)
+          : observers.find((o) => o.id === selectedId);
+    // Proposed before sending so the phone link works online and offline alike (see logAttendance).
+    const introductionToken = checkinType === "guest" ? newGuestIntroductionToken() : null;
+    const checkInAction: QueuedCheckInAction =
+      checkinType === "observer"
+        ? {
+            kind: "observer",
+            observerId: selectedId,
+            name: selectedName,
+            profession: selected?.profession ?? "",
+            eventDate: eventSnapshot.date,
+            chapter: chapterTag,
+            liveToken,
+          }
+        : {
+            kind: "log",
+            attendeeId: selectedId,
+            attendeeType: checkinType,
+            attendeeName: selectedName,
+            attendeeProfession: selected?.profession ?? "",
+            eventDate: eventSnapshot.date,
+            checkedInAt: now.toISOString(),
+            status,
+            chapter: chapterTag,
+            liveToken,
+            ...(introductionToken ? { introductionToken, eventId: eventSnapshot.id } : {}),
+          };
+    const sub =
+      checkinType === "member"
+        ? substituteName.trim() || plannedByMember[selectedName.trim().toLowerCase()]?.trim() || ""
+        : "";
+    const substituteAction: QueuedCheckInAction | null = sub
+      ? { kind: "substitute", eventDate: eventSnapshot.date, memberName: selectedName, substituteName: sub, chapter: chapterTag }
+      : null;
 
+    let logged = false;
+    let queuedOffline = false;
     try {
-      const selected =
-        checkinType === "member"
-          ? members.find((m) => m.id === selectedId)
-          : checkinType === "guest"
-            ? guests.find((g) => g.id === selectedId)
-            : observers.find((o) => o.id === selectedId);
-      await logAttendance(
+      if (!navigator.onLine) {
+        throw new TypeError("Failed to fetch");
+      }
+      const logResult = await logAttendance(
         selectedId,
         checkinType,
         selectedName,
@@ -367,38 +478,76 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
         eventSnapshot.date,
         checkinType === "observer" ? "" : now.toISOString(),
         checkinType === "observer" ? "present" : status,
-        chapterTag
+        chapterTag,
+        { liveToken },
+        introductionToken
       );
-      if (checkinType === "member" && eventSnapshot.date) {
-        const sub =
-          substituteName.trim() ||
-          plannedByMember[selectedName.trim().toLowerCase()]?.trim() ||
-          "";
-        if (sub) {
-          await updateAttendanceSubstitute(eventSnapshot.date, selectedName, sub, chapterTag);
-        }
+      logged = true;
+      if (introductionToken && logResult.introductionReady === false) {
+        // No card saved for this guest yet: build it here while the guest opens the link (the page retries until it lands).
+        void completeGuestIntroduction(
+          eventSnapshot.id,
+          introductionToken,
+          { name: selectedName, profession: selected?.profession ?? "" },
+          chapterTag
+        ).catch(() => undefined);
+      }
+      if (substituteAction) {
+        await updateAttendanceSubstitute(eventSnapshot.date, selectedName, sub, chapterTag);
       }
-      setSuccessCheckInTime(now);
-      setSubstituteName(
-        checkinType === "member"
-          ? plannedByMember[selectedName.trim().toLowerCase()] ?? ""
-          : ""
-      );
-      setCheckInSuccess(true);
     } catch (error) {
       if (error instanceof Error && error.message.includes("已經簽到")) {
         setAlreadyCheckedIn(true);
-      } else {
+        setIsSubmitting(false);
+        return;
+      }
+      if (!isOfflineError(error)) {
         onNotify(`簽到失敗: ${error instanceof Error ? error.message : "Unknown error"}`, "error");
+        setIsSubmitting(false);
+        return;
+      }
+      // Venue Wi‑Fi dropped: keep the kiosk moving and replay in order once back online.
+      // Only queue while the token still holds now; the replay is judged against this time, not the sync time.
+      if (!logged) {
+        const tokenNow = await verifyLiveEventToken(liveToken, liveTokenKey ?? { chapterId: 0 }, eventSnapshot.id, now);
+        if (!tokenNow.ok) {
+          onNotify(`簽到失敗：${LIVE_EVENT_TOKEN_REJECT_MESSAGES[tokenNow.reason]}`, "error");
+          setIsSubmitting(false);
+          return;
+        }
+      }
+      try {
+        if (!logged) await enqueueOffline(checkInAction, now);
+        if (substituteAction) await enqueueOffline(substituteAction, now);
+        queuedOffline = true;
+      } catch {
+        onNotify("簽到失敗：無法連線，亦未能離線儲存", "error");
+        setIsSubmitting(false);
+        return;
       }
     }
 
+    setSuccessCheckInTime(now);
+    setSuccessStatus(checkinType === "observer" ? null : status);
+    setSuccessQueuedOffline(queuedOffline);
+    setSubstituteName(
+      checkinType === "member"
+        ? plannedByMember[selectedName.trim().toLowerCase()] ?? ""
+        : ""
+    );
+    // The card's token is the only key the phone link carries; offline, the card is built once the check-in syncs.
+    setIntroUrl(
+      checkinType === "guest" && introductionToken
+        ? buildGuestIntroductionUrl(window.location.origin, introductionToken, chapterTag)
+        : null
+    );
+    setCheckInSuccess(true);
     setIsSubmitting(false);
   };
 
   const formatCheckInTimeHkt = (date: Date) =>
     date.toLocaleTimeString("zh-HK", {
-      timeZone: "Asia/Hong_Kong",
+      timeZone: timezone,
       hour: "2-digit",
       minute: "2-digit",
       second: "2-digit",
@@ -408,16 +557,32 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
   const dismissCheckInSuccess = async () => {
     if (checkinType === "member" && eventSnapshot?.date && selectedName && substituteName.trim()) {
       try {
+        if (!navigator.onLine) {
+          throw new TypeError("Failed to fetch");
+        }
         await updateAttendanceSubstitute(eventSnapshot.date, selectedName, substituteName, chapterTag);
       } catch (error) {
-        onNotify(
-          `替代人未能儲存: ${error instanceof Error ? error.message : "Unknown error"}`,
-          "error"
-        );
+        if (isOfflineError(error)) {
+          await enqueueOffline({
+            kind: "substitute",
+            eventDate: eventSnapshot.date,
+            memberName: selectedName,
+            substituteName: substituteName.trim(),
+            chapter: chapterTag,
+          }).catch(() => undefined);
+        } else {
+          onNotify(
+            `替代人未能儲存: ${error instanceof Error ? error.message : "Unknown error"}`,
+            "error"
+          );
+        }
       }
     }
     setCheckInSuccess(false);
     setSuccessCheckInTime(null);
+    setSuccessStatus(null);
+    setSuccessQueuedOffline(false);
+    setIntroUrl(null);
     setSubstituteName("");
     setSelectedId(null);
     setSelectedName("");
@@ -476,6 +641,41 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
     );
   }
 
+  if (!liveTokenCheck) {
+    return (
+      <section className="section checkin-form-panel">
+        <div style={{ textAlign: "center", padding: "3rem", color: "var(--text-muted)" }}>
+          <p>驗證簽到 QR 碼...</p>
+        </div>
+      </section>
+    );
+  }
+
+  if (!liveTokenCheck.ok) {
+    return (
+      <section className="section checkin-form-panel">
+        <div
+          style={{
+            background: "#fffbeb",
+            border: "2px solid #f59e0b",
+            borderRadius: "16px",
+            padding: "2rem",
+            textAlign: "center",
+            marginBottom: "1.5rem",
+          }}
+        >
+          <div style={{ fontSize: "3rem", marginBottom: "0.75rem" }}>📷</div>
+          <h2 style={{ margin: "0 0 0.5rem 0", color: "#b45309" }}>
+            {LIVE_EVENT_TOKEN_REJECT_MESSAGES[liveTokenCheck.reason]}
+          </h2>
+          <p style={{ margin: 0, fontSize: "0.9rem", color: "#92400e" }}>
+            Check-in is only open to people at the venue: scan the live QR code on the screen ({eventSnapshot.name}).
+          </p>
+        </div>
+      </section>
+    );
+  }
+
   const typeLabel =
     checkinType === "member" ? "會員" : checkinType === "guest" ? "嘉賓" : "觀察員";
   const typeAccent =
@@ -490,9 +690,9 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
       : checkinType === "guest"
         ? guests.length
         : observers.length;
-  const canCheckInToday = isSameCalendarDayAsEvent(eventSnapshot.date);
+  const canCheckInToday = isSameCalendarDayAsEvent(eventSnapshot.date, new Date(), timezone);
   const eventDateLabel = eventSnapshot.date.slice(0, 10);
-  const todayHktLabel = getHktDateString();
+  const todayHktLabel = getHktDateString(new Date(), timezone);
 
   return (
     <section className="section checkin-form-panel">
@@ -515,6 +715,12 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
         </p>
       </div>
 
+      <OfflineQueuePanel
+        items={queuedItems}
+        onRetryFailed={() => void retryFailedOffline()}
+        onDiscard={(id) => void discardOffline(id)}
+      />
+
       {!canCheckInToday && (
         <div
           style={{
@@ -529,7 +735,7 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
             今日 ({todayHktLabel}) 並非活動日期 ({eventDateLabel})，無法簽到
           </p>
           <p style={{ margin: "0.35rem 0 0 0", color: "#991b1b", fontSize: "0.9rem" }}>
-            Check-in is only allowed on the event day (HKT).
+            Check-in is only allowed on the event day ({timezone}).
           </p>
         </div>
       )}
@@ -944,11 +1150,24 @@ export const CheckinFormPanel = ({ onNotify, chapterTag = "anchor" }: CheckinFor
             {checkinType !== "observer" && successCheckInTime && (
               <p className="checkin-success-time">
                 {typeLabel} · 簽到時間 {formatCheckInTimeHkt(successCheckInTime)}
+                {successStatus && ` · ${CHECK_IN_STATUS_LABELS[successStatus]}`}
               </p>
             )}
             {checkinType === "observer" && (
               <p className="checkin-success-time">觀察員 · 不記錄簽到時間</p>
             )}
+            {successQueuedOffline && (
+              <p className="checkin-success-time">📶 離線已儲存，連線恢復後自動同步</p>
+            )}
+            {checkinType === "guest" && introUrl && (
+              <div className="checkin-success-intro" style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: "0.5rem" }}>
+                <p className="checkin-success-time">📇 用手機掃描，查看今日建議認識的會員</p>
+                <QRCodeSVG value={introUrl} size={140} level="M" />
+                <a href={introUrl} target="_blank" rel="noreferrer">
+                  開啟交流推薦卡 Who you should meet
+                </a>
+              </div>
+            )}
             {checkinType === "member" && (
               <label className="checkin-success-substitute">
                 <span>替代人 Substitute (optional)</span>
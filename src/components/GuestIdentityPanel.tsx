@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from "react";
+import { getGuestDistinctPairs, markGuestsDistinct, mergeGuests, type GuestInfo } from "../api";
+import {
+  distinctPairKey,
+  groupGuestIdentities,
+  proposeGuestDuplicates,
+  repeatVisitors,
+  type GuestDuplicateProposal,
+  type GuestDuplicateSignal,
+  type GuestIdentity,
+} from "../lib/guestIdentity";
+
+const SIGNAL_LABELS: Record<GuestDuplicateSignal, string> = {
+  phone: "📞 電話相同",
+  name: "🔤 姓名相似",
+  referrer: "🤝 同一邀請人",
+};
+
+type GuestIdentityPanelProps = {
+  guests: GuestInfo[];
+  chapterTag: string;
+  onMerged: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+/** Repeat visitors across events and proposed duplicate guests, merged into one profile per person. */
+export function GuestIdentityPanel({ guests, chapterTag, onMerged, onError }: GuestIdentityPanelProps) {
+  const [distinctPairs, setDistinctPairs] = useState<Set<string>>(new Set());
+  const [busyProposal, setBusyProposal] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getGuestDistinctPairs(chapterTag)
+      .then((pairs) => {
+        if (!cancelled) setDistinctPairs(new Set(pairs.map(([a, b]) => distinctPairKey(a, b))));
+      })
+      .catch(() => {
+        // No saved decisions yet; every candidate is proposed.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag]);
+
+  const identities = useMemo(() => groupGuestIdentities(guests), [guests]);
+  const repeats = useMemo(() => repeatVisitors(identities), [identities]);
+  const proposals = useMemo(() => proposeGuestDuplicates(identities, distinctPairs), [identities, distinctPairs]);
+
+  const handleMerge = async (proposal: GuestDuplicateProposal, canonical: GuestIdentity, name: string, profession: string) => {
+    setBusyProposal(proposal.id);
+    try {
+      const visits = proposal.identities.flatMap((identity) =>
+        identity.visits.map((v) => ({ name: v.name, eventDate: v.eventDate ?? "" }))
+      );
+      await mergeGuests(
+        {
+          canonical: {
+            name: name.trim(),
+            profession: profession.trim(),
+            phoneNumber: canonical.phoneNumber || proposal.identities.find((i) => i.phoneNumber)?.phoneNumber,
+          },
+          visits,
+        },
+        chapterTag
+      );
+      onMerged(`已合併為 ${name.trim()}（${visits.length} 次到訪）`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "合併失敗");
+    } finally {
+      setBusyProposal(null);
+    }
+  };
+
+  const handleDismiss = async (proposal: GuestDuplicateProposal) => {
+    const keys = proposal.identities.map((identity) => identity.key);
+    const pairs = keys.flatMap((a, i) => keys.slice(i + 1).map((b) => [a, b] as [string, string]));
+    setBusyProposal(proposal.id);
+    try {
+      await markGuestsDistinct(pairs, chapterTag);
+      setDistinctPairs((current) => new Set([...current, ...pairs.map(([a, b]) => distinctPairKey(a, b))]));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "儲存失敗");
+    } finally {
+      setBusyProposal(null);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        background: "var(--card-bg)",
+        padding: "1.5rem",
+        borderRadius: "12px",
+        marginBottom: "2rem",
+        border: "1px solid var(--border-color)",
+      }}
+    >
+      <h3 style={{ marginTop: 0 }}>🔁 重複到訪嘉賓 Repeat Visitors ({repeats.length})</h3>
+      {repeats.length === 0 ? (
+        <p className="hint">暫無多次到訪的嘉賓</p>
+      ) : (
+        <div className="table-container">
+          <table aria-label="重複到訪嘉賓" style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.875rem" }}>
+            <thead>
+              <tr style={{ borderBottom: "2px solid var(--border-color)" }}>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>姓名</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>專業領域</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>邀請人</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>到訪</th>
+              </tr>
+            </thead>
+            <tbody>
+              {repeats.map((identity) => (
+                <tr key={identity.key} style={{ borderBottom: "1px solid var(--border-color)" }}>
+                  <td style={{ padding: "0.5rem", fontWeight: 500 }}>{identity.name}</td>
+                  <td style={{ padding: "0.5rem" }}>{identity.profession || "-"}</td>
+                  <td style={{ padding: "0.5rem" }}>{identity.referrers.join("、") || "-"}</td>
+                  <td style={{ padding: "0.5rem" }}>
+                    <strong>{identity.visits.length} 次</strong>
+                    <span className="hint"> · {identity.visits.map((v) => v.eventDate || "?").join("、")}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3>🧩 可能重複 Possible Duplicates ({proposals.length})</h3>
+      <p className="hint">按電話號碼、中英文姓名相似度及邀請人配對；合併後所有到訪記錄歸入同一嘉賓</p>
+      {proposals.length === 0 && <p className="hint">沒有疑似重複的嘉賓</p>}
+      {proposals.map((proposal) => (
+        <DuplicateProposalCard
+          key={proposal.id}
+          proposal={proposal}
+          busy={busyProposal === proposal.id}
+          onMerge={(canonical, name, profession) => void handleMerge(proposal, canonical, name, profession)}
+          onDismiss={() => void handleDismiss(proposal)}
+        />
+      ))}
+    </div>
+  );
+}
+
+type DuplicateProposalCardProps = {
+  proposal: GuestDuplicateProposal;
+  busy: boolean;
+  onMerge: (canonical: GuestIdentity, name: string, profession: string) => void;
+  onDismiss: () => void;
+};
+
+function DuplicateProposalCard({ proposal, busy, onMerge, onDismiss }: DuplicateProposalCardProps) {
+  const [canonicalKey, setCanonicalKey] = useState(proposal.identities[0].key);
+  const canonical = proposal.identities.find((i) => i.key === canonicalKey) ?? proposal.identities[0];
+  const [name, setName] = useState(canonical.name);
+  const [profession, setProfession] = useState(canonical.profession);
+
+  const chooseCanonical = (identity: GuestIdentity) => {
+    setCanonicalKey(identity.key);
+    setName(identity.name);
+    setProfession(identity.profession);
+  };
+
+  return (
+    <div
+      style={{ border: "1px solid var(--border-color)", borderRadius: "8px", padding: "1rem", marginBottom: "1rem" }}
+    >
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginBottom: "0.75rem" }}>
+        {proposal.signals.map((signal) => (
+          <span key={signal} className="hint" style={{ background: "rgba(0,0,0,0.05)", borderRadius: "999px", padding: "0.1rem 0.6rem" }}>
+            {SIGNAL_LABELS[signal]}
+            {signal === "name" && ` ${Math.round(proposal.nameSimilarity * 100)}%`}
+          </span>
+        ))}
+      </div>
+
+      {proposal.identities.map((identity) => (
+        <label key={identity.key} style={{ display: "flex", gap: "0.5rem", alignItems: "baseline", marginBottom: "0.4rem" }}>
+          <input
+            type="radio"
+            name={`canonical-${proposal.id}`}
+            checked={identity.key === canonical.key}
+            onChange={() => chooseCanonical(identity)}
+          />
+          <span>
+            <strong>{identity.name}</strong> · {identity.profession || "-"}
+            {identity.phoneNumber && ` · ${identity.phoneNumber}`}
+            <span className="hint">
+              {" "}
+              · 邀請人 {identity.referrers.join("、") || "-"} · {identity.visits.map((v) => v.eventDate || "?").join("、")}
+            </span>
+          </span>
+        </label>
+      ))}
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginTop: "0.75rem", alignItems: "center" }}>
+        <input
+          className="input-field"
+          aria-label="合併後姓名"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          style={{ flex: "1 1 10rem" }}
+        />
+        <input
+          className="input-field"
+          aria-label="合併後專業領域"
+          value={profession}
+          onChange={(e) => setProfession(e.target.value)}
+          style={{ flex: "1 1 10rem" }}
+        />
+        <button type="button" className="button" disabled={busy || !name.trim()} onClick={() => onMerge(canonical, name, profession)}>
+          {busy ? "處理中…" : "🔗 合併"}
+        </button>
+        <button type="button" className="ghost-button" disabled={busy} onClick={onDismiss}>
+          不是同一人
+        </button>
+      </div>
+    </div>
+  );
+}
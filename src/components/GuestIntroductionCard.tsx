@@ -0,0 +1,115 @@
+import type { GuestIntroduction } from "../api";
+import { chapterPdfLogoSrc } from "../lib/chapterBranding";
+import { INTRODUCTION_CARDS_PER_PAGE } from "../lib/guestIntroduction";
+import { paginateBadgeSheet } from "../lib/memberBadgeSheet";
+import { PDF_CAPTURE_WIDTH_PX } from "./QrFlyerContent";
+
+/** A4 printable area (190 × 277 mm) at the flyer's capture width. */
+const PAGE_HEIGHT_PX = Math.round((PDF_CAPTURE_WIDTH_PX * 277) / 190);
+
+const STRENGTH_LABELS: Record<string, string> = { High: "🔥 強烈推薦", Medium: "⚡ 推薦", Low: "💡 可交流" };
+
+type GuestIntroductionCardProps = {
+  introduction: GuestIntroduction;
+  chapterTag?: string | null;
+  chapterDisplayName: string;
+};
+
+/** "Who you should meet" card: the guest's table, then each recommended member with category colour, table and reason. */
+export function GuestIntroductionCard({ introduction, chapterTag, chapterDisplayName }: GuestIntroductionCardProps) {
+  const logoSrc = chapterPdfLogoSrc(chapterTag);
+  return (
+    <div
+      className="guest-intro-card"
+      style={{
+        background: "#ffffff",
+        color: "#111827",
+        borderRadius: "12px",
+        border: "1px solid #e5e7eb",
+        padding: "20px",
+        fontFamily: "Arial, 'Noto Sans TC', sans-serif",
+        boxSizing: "border-box"
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "12px" }}>
+        {logoSrc ? (
+          <img src={logoSrc} alt={`${chapterDisplayName} logo`} crossOrigin="anonymous" style={{ height: "28px", width: "auto" }} />
+        ) : (
+          <span style={{ fontWeight: 900, color: "#C32529" }}>{chapterDisplayName}</span>
+        )}
+        {introduction.tableNumber != null && (
+          <span style={{ fontWeight: 900, fontSize: "20px" }}>第 {introduction.tableNumber} 桌</span>
+        )}
+      </div>
+      <h2 style={{ margin: "12px 0 2px", fontSize: "22px" }}>{introduction.guestName}</h2>
+      <p style={{ margin: 0, color: "#6b7280", fontSize: "14px" }}>{introduction.guestProfession}</p>
+      <h3 style={{ margin: "16px 0 8px", fontSize: "16px" }}>🤝 今日建議認識 Who you should meet</h3>
+      {introduction.members.length === 0 ? (
+        <p style={{ color: "#6b7280", fontSize: "14px" }}>暫時未有推薦，歡迎向領導團隊查詢。</p>
+      ) : (
+        introduction.members.map((m) => (
+          <div
+            key={m.memberName}
+            style={{ borderLeft: `6px solid ${m.accent}`, padding: "6px 10px", marginBottom: "8px", background: "#f9fafb", borderRadius: "6px" }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", gap: "8px", alignItems: "baseline" }}>
+              <strong style={{ fontSize: "16px" }}>{m.memberName}</strong>
+              <span style={{ fontSize: "13px", whiteSpace: "nowrap" }}>
+                {m.tableNumber != null ? `第 ${m.tableNumber} 桌` : ""}
+              </span>
+            </div>
+            <div style={{ fontSize: "13px", color: "#374151" }}>
+              {m.profession}
+              {m.categoryName && <span style={{ color: m.accent, fontWeight: 700 }}> · {m.categoryName}</span>}
+              {" · "}
+              {STRENGTH_LABELS[m.matchStrength] ?? m.matchStrength}
+            </div>
+            {m.reason && <div style={{ fontSize: "13px", color: "#4b5563", marginTop: "2px" }}>{m.reason}</div>}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+type GuestIntroductionSheetProps = {
+  introductions: GuestIntroduction[];
+  /** Off-screen root id that downloadGuestIntroductionPdf captures. */
+  rootId: string;
+  chapterTag?: string | null;
+  chapterDisplayName: string;
+};
+
+/** Off-screen, fixed-width printout for PDF capture: INTRODUCTION_CARDS_PER_PAGE cards per A4 page. */
+export function GuestIntroductionSheet({ introductions, rootId, chapterTag, chapterDisplayName }: GuestIntroductionSheetProps) {
+  return (
+    <div className="qr-pdf-capture-root" id={rootId} aria-hidden="true">
+      {paginateBadgeSheet(introductions, INTRODUCTION_CARDS_PER_PAGE).map((page, pageIndex) => (
+        <div
+          key={pageIndex}
+          className="guest-intro-page"
+          style={{
+            width: `${PDF_CAPTURE_WIDTH_PX}px`,
+            height: `${PAGE_HEIGHT_PX}px`,
+            boxSizing: "border-box",
+            background: "#ffffff",
+            display: "grid",
+            gridTemplateRows: `repeat(${INTRODUCTION_CARDS_PER_PAGE}, 1fr)`,
+            gap: "16px",
+            padding: "16px",
+            overflow: "hidden"
+          }}
+        >
+          {page.map((introduction) => (
+            <GuestIntroductionCard
+              key={introduction.guestKey}
+              introduction={introduction}
+              chapterTag={chapterTag}
+              chapterDisplayName={chapterDisplayName}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import type { ImportDiffEntity, ImportDiffRow, ImportDiffStatus } from "../lib/importReconciliation";
+
+const ENTITY_LABELS: Record<ImportDiffEntity, string> = {
+  guest: "嘉賓",
+  observer: "觀察員",
+  substitute: "替代人",
+};
+
+const STATUS_LABELS: Record<ImportDiffStatus, { label: string; color: string }> = {
+  new: { label: "🆕 新增", color: "#15803d" },
+  changed: { label: "✏️ 更改", color: "#b45309" },
+  unchanged: { label: "未變更", color: "#6b7280" },
+  removed: { label: "🗑️ 已從名單移除", color: "#b91c1c" },
+};
+
+type ImportDiffPreviewProps = {
+  rows: ImportDiffRow[];
+  selected: Set<string>;
+  /** Heading override, e.g. the event date when an import spans several. */
+  title?: string;
+  onSelectedChange: (selected: Set<string>) => void;
+};
+
+/** Import reconciliation table: status and field changes per row, with a tick box for every row that would write something. */
+export function ImportDiffPreview({ rows, selected, title = "變更預覽", onSelectedChange }: ImportDiffPreviewProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const actionable = rows.filter((r) => r.status !== "unchanged");
+  const visible = showUnchanged ? rows : actionable;
+  const counts = rows.reduce<Record<ImportDiffStatus, number>>(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, removed: 0 }
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    onSelectedChange(next);
+  };
+
+  return (
+    <div style={{ marginTop: "1.5rem" }}>
+      <h3 style={{ fontSize: "1rem" }}>{title}</h3>
+      <p className="hint" style={{ marginBottom: "0.75rem" }}>
+        新增 {counts.new}、更改 {counts.changed}、未變更 {counts.unchanged}、已從名單移除 {counts.removed}
+        ；只會套用已勾選的項目（刪除需手動勾選）
+      </p>
+      <label className="hint" style={{ display: "inline-flex", gap: "0.4rem", marginBottom: "0.75rem" }}>
+        <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+        顯示未變更
+      </label>
+      {visible.length === 0 ? (
+        <p className="hint">資料庫已與匯入內容一致，沒有需要套用的變更。</p>
+      ) : (
+        <div className="table-container">
+          <table aria-label="匯入變更預覽" style={{ width: "100%", fontSize: "0.875rem", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ borderBottom: "2px solid var(--border-color)" }}>
+                <th style={{ padding: "0.5rem" }}>
+                  <input
+                    type="checkbox"
+                    aria-label="全選"
+                    checked={actionable.length > 0 && actionable.every((r) => selected.has(r.id))}
+                    onChange={(e) => {
+                      // Only this table's rows: several previews (one per event date) may share one selection.
+                      const next = new Set(selected);
+                      for (const r of actionable) {
+                        if (e.target.checked) next.add(r.id);
+                        else next.delete(r.id);
+                      }
+                      onSelectedChange(next);
+                    }}
+                  />
+                </th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>類別</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>姓名</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>狀態</th>
+                <th style={{ padding: "0.5rem", textAlign: "left" }}>變更</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((row) => (
+                <tr key={row.id} style={{ borderBottom: "1px solid var(--border-color)" }}>
+                  <td style={{ padding: "0.5rem" }}>
+                    {row.status !== "unchanged" && (
+                      <input
+                        type="checkbox"
+                        aria-label={`選擇 ${ENTITY_LABELS[row.entity]} ${row.name}`}
+                        checked={selected.has(row.id)}
+                        onChange={() => toggle(row.id)}
+                      />
+                    )}
+                  </td>
+                  <td style={{ padding: "0.5rem" }}>{ENTITY_LABELS[row.entity]}</td>
+                  <td style={{ padding: "0.5rem" }}>{row.name}</td>
+                  <td style={{ padding: "0.5rem", color: STATUS_LABELS[row.status].color }}>
+                    {STATUS_LABELS[row.status].label}
+                  </td>
+                  <td style={{ padding: "0.5rem" }}>
+                    {row.changes.map((change) => (
+                      <div key={change.field}>
+                        {change.label}：<s>{change.from || "（空）"}</s> → <strong>{change.to || "（空）"}</strong>
+                      </div>
+                    ))}
+                    {row.status === "new" && row.record && (
+                      <span className="hint">
+                        {[row.record.profession, row.record.referrer].filter(Boolean).join(" / ") || "-"}
+                      </span>
+                    )}
+                    {row.status === "new" && row.substitute && (
+                      <span className="hint">替代人：{row.substitute.substituteName}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
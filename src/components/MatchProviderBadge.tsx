@@ -0,0 +1,22 @@
+import { getMatchProvider, matchProviderLabel } from "../lib/matchProviders";
+
+/** Pill naming the provider behind a set of matches (AI vs local rules), so admins know how much to trust them. */
+export function MatchProviderBadge({ providerId }: { providerId: string | null | undefined }) {
+  const local = getMatchProvider(providerId)?.local ?? false;
+  return (
+    <span
+      className="match-provider-badge"
+      title={local ? "離線規則配對（未經 AI）" : "後端 AI 配對"}
+      style={{
+        padding: "0.2rem 0.6rem",
+        borderRadius: "999px",
+        fontSize: "0.8rem",
+        fontWeight: 600,
+        border: "1px solid var(--border)",
+        background: local ? "rgba(148, 163, 184, 0.15)" : "rgba(99, 102, 241, 0.15)"
+      }}
+    >
+      {matchProviderLabel(providerId)}
+    </span>
+  );
+}
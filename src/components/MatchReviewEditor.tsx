@@ -0,0 +1,168 @@
+import { useState } from "react";
+import type { IntroductionFeedback, MatchOverride, MatchedMember } from "../api";
+import { normalizeGuestName } from "../lib/guestIdentity";
+import type { Member } from "../types/seating";
+
+/** What the admin changed for one member; the panel fills in event, guest and timestamp. */
+export type MatchOverrideChange = Pick<MatchOverride, "memberName" | "profession" | "pinned" | "removed" | "matchStrength" | "reason">;
+
+/** Recorded outcome for one member, or null to leave it unrecorded. */
+export type IntroductionOutcome = "useful" | "not-useful" | "not-happened";
+
+type MatchReviewEditorProps = {
+  /** The provider's recommendations, before overrides. */
+  matchedMembers: MatchedMember[];
+  overrides: MatchOverride[];
+  feedback: IntroductionFeedback[];
+  /** Chapter roster, for pinning members the provider missed. */
+  members: Member[];
+  onOverride: (change: MatchOverrideChange) => void;
+  onFeedback: (memberName: string, outcome: IntroductionOutcome) => void;
+};
+
+const outcomeOf = (f: IntroductionFeedback | undefined): IntroductionOutcome | "" =>
+  !f ? "" : !f.happened ? "not-happened" : f.useful ? "useful" : "not-useful";
+
+const cellStyle = { padding: "0.25rem", verticalAlign: "middle" as const };
+
+/**
+ * Per-guest review of recommendations: pin, remove, re-grade and re-word each member, and after the meeting record
+ * whether the introduction happened and helped.
+ */
+export function MatchReviewEditor({ matchedMembers, overrides, feedback, members, onOverride, onFeedback }: MatchReviewEditorProps) {
+  const [pinName, setPinName] = useState("");
+  const overrideFor = (name: string) => overrides.find((o) => normalizeGuestName(o.memberName) === normalizeGuestName(name));
+  const feedbackFor = (name: string) => feedback.find((f) => normalizeGuestName(f.memberName) === normalizeGuestName(name));
+
+  const suggested = new Set(matchedMembers.map((m) => normalizeGuestName(m.memberName)));
+  const rows: MatchedMember[] = [
+    ...matchedMembers,
+    ...overrides
+      .filter((o) => o.pinned && !suggested.has(normalizeGuestName(o.memberName)))
+      .map((o) => ({ memberName: o.memberName, profession: o.profession, matchStrength: "High", reason: "" })),
+  ];
+  const listed = new Set(rows.map((m) => normalizeGuestName(m.memberName)));
+  const pinnable = members.filter((m) => !listed.has(normalizeGuestName(m.name)));
+
+  /** Save this member's override with `patch` applied on top of what is stored. */
+  const change = (row: MatchedMember, patch: Partial<MatchOverrideChange>) => {
+    const current = overrideFor(row.memberName);
+    onOverride({
+      memberName: row.memberName,
+      profession: row.profession,
+      pinned: current?.pinned,
+      removed: current?.removed,
+      matchStrength: current?.matchStrength,
+      reason: current?.reason,
+      ...patch,
+    });
+  };
+
+  const pinMember = () => {
+    const member = members.find((m) => m.name === pinName);
+    if (!member) return;
+    onOverride({ memberName: member.name, profession: member.profession, pinned: true });
+    setPinName("");
+  };
+
+  return (
+    <div className="match-review-editor" style={{ marginTop: "0.5rem", borderTop: "1px solid var(--border)", paddingTop: "0.5rem" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.85rem" }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, textAlign: "left" }}>會員</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>配對度</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>理由</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>調整</th>
+            <th style={{ ...cellStyle, textAlign: "left" }}>會後回饋</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const o = overrideFor(row.memberName);
+            return (
+              <tr key={row.memberName} style={{ opacity: o?.removed ? 0.5 : 1, borderTop: "1px solid var(--border)" }}>
+                <td style={cellStyle}>
+                  {o?.pinned && "📌 "}
+                  {row.memberName}
+                  <div className="hint">{row.profession}</div>
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={o?.matchStrength || row.matchStrength}
+                    onChange={(e) => change(row, { matchStrength: e.target.value === row.matchStrength ? undefined : e.target.value })}
+                    aria-label={`${row.memberName} 配對度`}
+                  >
+                    <option value="High">🔥 High</option>
+                    <option value="Medium">⚡ Medium</option>
+                    <option value="Low">💡 Low</option>
+                  </select>
+                </td>
+                <td style={cellStyle}>
+                  <input
+                    key={o?.updatedAt ?? "provider"}
+                    className="input-field"
+                    defaultValue={o?.reason || row.reason}
+                    placeholder="自訂理由"
+                    aria-label={`${row.memberName} 理由`}
+                    onBlur={(e) => {
+                      const reason = e.target.value.trim();
+                      if (reason !== (o?.reason || row.reason)) change(row, { reason: reason && reason !== row.reason ? reason : undefined });
+                    }}
+                  />
+                </td>
+                <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                  <button
+                    type="button"
+                    className="ghost-button small"
+                    title={o?.pinned ? "取消置頂" : "置頂推薦"}
+                    onClick={() => change(row, { pinned: !o?.pinned || undefined, removed: undefined })}
+                  >
+                    {o?.pinned ? "📍" : "📌"}
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost-button small"
+                    title={o?.removed ? "恢復推薦" : "移除推薦"}
+                    onClick={() => change(row, { removed: !o?.removed || undefined, pinned: undefined })}
+                  >
+                    {o?.removed ? "↩️" : "✕"}
+                  </button>
+                </td>
+                <td style={cellStyle}>
+                  <select
+                    value={outcomeOf(feedbackFor(row.memberName))}
+                    onChange={(e) => e.target.value && onFeedback(row.memberName, e.target.value as IntroductionOutcome)}
+                    aria-label={`${row.memberName} 會後回饋`}
+                  >
+                    <option value="" disabled>
+                      未記錄
+                    </option>
+                    <option value="useful">✅ 已介紹・有幫助</option>
+                    <option value="not-useful">👌 已介紹・沒有幫助</option>
+                    <option value="not-happened">❌ 未有介紹</option>
+                  </select>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {pinnable.length > 0 && (
+        <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+          <select value={pinName} onChange={(e) => setPinName(e.target.value)} style={{ flex: 1 }} aria-label="加入推薦會員">
+            <option value="">加入其他會員…</option>
+            {pinnable.map((m) => (
+              <option key={m.id} value={m.name}>
+                {m.name}（{m.profession}）
+              </option>
+            ))}
+          </select>
+          <button type="button" className="ghost-button small" onClick={pinMember} disabled={!pinName}>
+            📌 置頂加入
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useMemo, useState } from "react";
+import type { StoredMatchResult } from "../api";
+import { compareMatchRuns, listMatchRuns, type MatchRunSummary } from "../lib/matchResultStore";
+import { MatchProviderBadge } from "./MatchProviderBadge";
+
+type MatchRunComparisonProps = {
+  stored: StoredMatchResult[];
+};
+
+const strengthIcon = (strength: string) => (strength === "High" ? "🔥" : strength === "Medium" ? "⚡" : "💡");
+
+const runLabel = (run: MatchRunSummary) =>
+  `${new Date(run.matchedAt).toLocaleString("zh-HK")}（${run.guestCount} 位，重新配對 ${run.rematchedCount} 位）`;
+
+const cellStyle = { padding: "0.35rem", verticalAlign: "top" as const, borderBottom: "1px solid var(--border)" };
+
+function MatchList({ result }: { result?: StoredMatchResult }) {
+  if (!result) return <span className="hint">—</span>;
+  if (result.matchedMembers.length === 0) return <span className="hint">無匹配</span>;
+  return (
+    <>
+      {result.matchedMembers.map((m) => (
+        <div key={m.memberName} style={{ fontSize: "0.85rem" }}>
+          {strengthIcon(m.matchStrength)} {m.memberName}
+        </div>
+      ))}
+      {result.reusedFromRunId && <div className="hint" style={{ fontSize: "0.75rem" }}>沿用之前結果</div>}
+    </>
+  );
+}
+
+/** Two stored runs of an event side by side, guest by guest, with what changed between them. */
+export function MatchRunComparison({ stored }: MatchRunComparisonProps) {
+  const runs = useMemo(() => listMatchRuns(stored), [stored]);
+  const [runA, setRunA] = useState(runs[1]?.runId ?? "");
+  const [runB, setRunB] = useState(runs[0]?.runId ?? "");
+  const rows = useMemo(() => compareMatchRuns(stored, runA, runB), [stored, runA, runB]);
+  const summaryA = runs.find((r) => r.runId === runA);
+  const summaryB = runs.find((r) => r.runId === runB);
+
+  if (runs.length < 2) return null;
+
+  const runSelect = (value: string, onChange: (runId: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={{ flex: 1 }}>
+      {runs.map((run) => (
+        <option key={run.runId} value={run.runId}>
+          {runLabel(run)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="match-run-comparison" style={{ marginTop: "1.5rem" }}>
+      <h4 style={{ margin: "0 0 0.5rem 0" }}>🆚 比較配對紀錄</h4>
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "0.75rem", flexWrap: "wrap" }}>
+        {runSelect(runA, setRunA)}
+        {runSelect(runB, setRunB)}
+      </div>
+      {summaryA && summaryB && summaryA.rosterVersion !== summaryB.rosterVersion && (
+        <p className="hint" style={{ marginBottom: "0.5rem" }}>
+          ⚠️ 兩次配對的會員名單不同
+        </p>
+      )}
+      <div style={{ maxHeight: "400px", overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: "left" }}>來賓</th>
+              <th style={{ ...cellStyle, textAlign: "left" }}>
+                A <MatchProviderBadge providerId={summaryA?.provider} />
+              </th>
+              <th style={{ ...cellStyle, textAlign: "left" }}>
+                B <MatchProviderBadge providerId={summaryB?.provider} />
+              </th>
+              <th style={{ ...cellStyle, textAlign: "left" }}>變化</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const unchanged = row.added.length === 0 && row.removed.length === 0 && row.strengthChanges.length === 0;
+              return (
+                <tr key={row.guestKey}>
+                  <td style={cellStyle}>
+                    <strong>{row.guestName}</strong>
+                  </td>
+                  <td style={cellStyle}>
+                    <MatchList result={row.a} />
+                  </td>
+                  <td style={cellStyle}>
+                    <MatchList result={row.b} />
+                  </td>
+                  <td style={{ ...cellStyle, fontSize: "0.85rem" }}>
+                    {unchanged && <span className="hint">沒有變化</span>}
+                    {row.added.length > 0 && <div style={{ color: "var(--success)" }}>＋ {row.added.join("、")}</div>}
+                    {row.removed.length > 0 && <div style={{ color: "var(--error)" }}>－ {row.removed.join("、")}</div>}
+                    {row.strengthChanges.map((change) => (
+                      <div key={change}>↕ {change}</div>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
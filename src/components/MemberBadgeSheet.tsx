@@ -0,0 +1,101 @@
+import { QRCodeSVG } from "qrcode.react";
+import { chapterPdfLogoSrc } from "../lib/chapterBranding";
+import { paginateBadgeSheet, type BadgeSheetEntry } from "../lib/memberBadgeSheet";
+import { PDF_CAPTURE_WIDTH_PX } from "./QrFlyerContent";
+
+/** A4 printable area (190 × 277 mm) at the flyer's capture width. */
+const PAGE_HEIGHT_PX = Math.round((PDF_CAPTURE_WIDTH_PX * 277) / 190);
+const BADGE_QR_SIZE = 128;
+
+type MemberBadgeSheetProps = {
+  entries: BadgeSheetEntry[];
+  /** Off-screen root id that downloadMemberBadgeSheetPdf captures. */
+  rootId: string;
+  chapterTag?: string | null;
+  chapterDisplayName: string;
+};
+
+const formatExpiry = (iso: string) => (iso || "").slice(0, 10);
+
+function BadgeHeader({ chapterTag, chapterDisplayName }: { chapterTag?: string | null; chapterDisplayName: string }) {
+  const logoSrc = chapterPdfLogoSrc(chapterTag);
+  if (logoSrc) {
+    return (
+      <img
+        src={logoSrc}
+        alt={`${chapterDisplayName} logo`}
+        crossOrigin="anonymous"
+        style={{ height: "28px", width: "auto", display: "block" }}
+      />
+    );
+  }
+  return (
+    <span style={{ fontWeight: 900, fontSize: "15px", color: "#C32529", letterSpacing: "0.02em" }}>
+      {chapterDisplayName}
+    </span>
+  );
+}
+
+/**
+ * Off-screen, fixed-width badge sheet for PDF capture: 2 × 4 dashed cut-out badges per page, in category order,
+ * each with chapter branding, name, profession, category accent and the member's signed check-in QR.
+ */
+export function MemberBadgeSheet({ entries, rootId, chapterTag, chapterDisplayName }: MemberBadgeSheetProps) {
+  const pages = paginateBadgeSheet(entries);
+  return (
+    <div className="qr-pdf-capture-root" id={rootId} aria-hidden="true">
+      {pages.map((page, pageIndex) => (
+        <div
+          key={pageIndex}
+          className="badge-sheet-page"
+          style={{
+            width: `${PDF_CAPTURE_WIDTH_PX}px`,
+            height: `${PAGE_HEIGHT_PX}px`,
+            boxSizing: "border-box",
+            background: "#ffffff",
+            display: "grid",
+            gridTemplateColumns: "1fr 1fr",
+            gridTemplateRows: "repeat(4, 1fr)"
+          }}
+        >
+          {page.map(({ member, category, badge }) => (
+            <div
+              key={badge.memberId}
+              className="member-badge"
+              style={{
+                border: "1px dashed #9ca3af",
+                boxSizing: "border-box",
+                display: "flex",
+                flexDirection: "column",
+                padding: "14px 16px 12px",
+                borderTop: `8px solid ${category.accent}`,
+                color: "#111827",
+                fontFamily: "Arial, 'Noto Sans TC', sans-serif"
+              }}
+            >
+              <BadgeHeader chapterTag={chapterTag} chapterDisplayName={chapterDisplayName} />
+              <div style={{ display: "flex", flex: 1, alignItems: "center", gap: "12px", marginTop: "8px" }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: "24px", fontWeight: 800, lineHeight: 1.15, wordBreak: "break-word" }}>
+                    {member.name}
+                  </div>
+                  <div style={{ fontSize: "14px", marginTop: "6px", color: "#374151", wordBreak: "break-word" }}>
+                    {member.domain}
+                  </div>
+                  <div style={{ fontSize: "11px", marginTop: "8px", color: category.accent, fontWeight: 700 }}>
+                    {category.code !== "OTHER" ? `${category.code} · ` : ""}
+                    {category.nameZh}
+                  </div>
+                </div>
+                <QRCodeSVG value={badge.payload} size={BADGE_QR_SIZE} level="M" />
+              </div>
+              <div style={{ fontSize: "9px", color: "#6b7280", textAlign: "right" }}>
+                有效至 {formatExpiry(badge.expiresAt)}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
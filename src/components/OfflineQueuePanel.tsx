@@ -0,0 +1,73 @@
+import { describeOfflineAction, type QueuedCheckIn } from "../lib/offlineQueue";
+
+type OfflineQueuePanelProps = {
+  items: QueuedCheckIn[];
+  onRetryFailed: () => void;
+  onDiscard: (id: string) => void;
+};
+
+const formatQueuedTime = (iso: string) => {
+  try {
+    return new Date(iso).toLocaleTimeString("zh-HK", { hour: "2-digit", minute: "2-digit", hour12: false });
+  } catch {
+    return iso;
+  }
+};
+
+/** Pending / failed offline check-ins. Renders nothing when the queue is empty. */
+export const OfflineQueuePanel = ({ items, onRetryFailed, onDiscard }: OfflineQueuePanelProps) => {
+  if (!items.length) return null;
+  const pending = items.filter((item) => item.state === "pending");
+  const failed = items.filter((item) => item.state === "failed");
+
+  return (
+    <div
+      className="offline-queue-panel"
+      role="status"
+      style={{
+        background: "#fffbeb",
+        border: "1px solid #f59e0b",
+        borderRadius: "12px",
+        padding: "0.75rem 1rem",
+        marginBottom: "1rem",
+        color: "#78350f",
+        fontSize: "0.9rem",
+      }}
+    >
+      <p style={{ margin: 0, fontWeight: 600 }}>
+        📶 離線佇列：{pending.length} 項待同步
+        {failed.length > 0 && ` · ${failed.length} 項失敗`}
+      </p>
+      {pending.length > 0 && (
+        <p style={{ margin: "0.25rem 0 0 0", opacity: 0.85 }}>連線恢復後會按次序自動同步。</p>
+      )}
+      <ul style={{ margin: "0.5rem 0 0 0", paddingLeft: "1.1rem" }}>
+        {items.map((item) => (
+          <li key={item.id} style={{ marginBottom: "0.25rem" }}>
+            <span>{formatQueuedTime(item.createdAt)} · {describeOfflineAction(item.action)}</span>
+            {item.state === "failed" ? (
+              <>
+                <span style={{ color: "#b91c1c", marginLeft: "0.5rem" }}>失敗：{item.lastError || "未知錯誤"}</span>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => onDiscard(item.id)}
+                  style={{ marginLeft: "0.5rem", padding: "0.1rem 0.5rem" }}
+                >
+                  移除
+                </button>
+              </>
+            ) : (
+              <span style={{ marginLeft: "0.5rem", opacity: 0.7 }}>⏳ 待同步</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {failed.length > 0 && (
+        <button type="button" className="ghost-button" onClick={onRetryFailed} style={{ marginTop: "0.5rem" }}>
+          🔄 重試失敗項目
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { exportRecords, getRecords, clearRecords, deleteRecord, CheckInRecord } from "../api";
+import { exportRecords, getRecords, clearRecords, deleteRecord, isRecordConflictError, CheckInRecord } from "../api";
 
 type RecordsPanelProps = {
   onNotify: (message: string, type: "success" | "error" | "info") => void;
@@ -70,12 +70,17 @@ export const RecordsPanel = ({ onNotify }: RecordsPanelProps) => {
     }
   };
 
-  const handleDeleteRecord = async (index: number, name: string) => {
+  const handleDeleteRecord = async (record: CheckInRecord) => {
     try {
-      await deleteRecord(index);
-      setRecords((prev) => prev.filter((_, i) => i !== index));
-      onNotify(`✅ 已刪除 ${name}`, "success");
-    } catch {
+      await deleteRecord(record);
+      setRecords((prev) => prev.filter((r) => r.id !== record.id));
+      onNotify(`✅ 已刪除 ${record.name}`, "success");
+    } catch (error) {
+      if (isRecordConflictError(error)) {
+        onNotify(`⚠️ ${record.name} 的記錄已被其他裝置更改，已重新載入，請再確認`, "error");
+        void fetchRecords();
+        return;
+      }
       onNotify("❌ 刪除失敗", "error");
     }
   };
@@ -208,9 +213,8 @@ export const RecordsPanel = ({ onNotify }: RecordsPanelProps) => {
               </tr>
             )}
             {filteredRecords.map((record, index) => {
-              const originalIndex = records.indexOf(record);
               return (
-                <tr key={`${record.name}-${record.timestamp}-${index}`}>
+                <tr key={record.id}>
                   <td className="row-number">{filteredRecords.length - index}</td>
                   <td className="name-cell">{record.name}</td>
                   <td className="name-cell">{record.domain}</td>
@@ -226,7 +230,7 @@ export const RecordsPanel = ({ onNotify }: RecordsPanelProps) => {
                     <button
                       type="button"
                       className="delete-btn"
-                      onClick={() => handleDeleteRecord(originalIndex, record.name)}
+                      onClick={() => handleDeleteRecord(record)}
                       title={`刪除 ${record.name}`}
                     >
                       🗑️
@@ -1,7 +1,17 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { recordAttendance } from "../api";
 import { useOfflineQueue } from "../hooks/useOfflineQueue";
-import { TEST_PAYLOADS } from "../qr-format";
+import {
+  BADGE_REJECT_MESSAGES,
+  TEST_PAYLOADS,
+  verifyBadgePayload,
+  type BadgeVerification,
+  type BadgeVerificationKey
+} from "../qr-format";
+import { classifyCheckIn, type EventTiming } from "../lib/attendanceStatus";
+import { createScanDebouncer, playScanCue } from "../lib/doorScanner";
+import { isAlreadyCheckedInError, isOfflineError } from "../lib/offlineQueue";
+import { OfflineQueuePanel } from "./OfflineQueuePanel";
 
 interface BarcodeDetectorOptions {
   formats?: string[];
@@ -24,11 +34,57 @@ export type NotificationEntry = {
 
 type ScanPanelProps = {
   onNotify: (notification: NotificationEntry) => void;
+  /** Active event; enables on-time/late classification for live and queued scans, and scopes scans to it when it has an id. */
+  event?: (EventTiming & { id?: number }) | null;
+  /** Chapter timezone (ChapterInfo.timezone). */
+  timezone?: string | null;
+  /** Chapter badge key + legacy toggle (badgeKeyFromChapter). Without it signed badges are rejected as "no key". */
+  badgeKey?: BadgeVerificationKey | null;
+  /** Chapter tag scans are recorded under (defaults to the active API chapter). */
+  chapterTag?: string | null;
+  /** Door mode: keep detecting frames without a button press, with sound / vibration cues. */
+  continuous?: boolean;
+  /** Same payload is not submitted again within this many seconds (continuous mode). */
+  debounceSeconds?: number;
 };
 
 type ScanStatus = "Ready" | "Scanning…" | "Success" | "Error";
 
-export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
+type ScanOutcome = "success" | "duplicate" | "queued" | "rejected";
+
+type RecentScan = {
+  id: string;
+  at: Date;
+  label: string;
+  outcome: ScanOutcome;
+};
+
+const RECENT_SCAN_LIMIT = 10;
+const CONTINUOUS_SCAN_INTERVAL_MS = 350;
+
+const OUTCOME_LABELS: Record<ScanOutcome, string> = {
+  success: "Checked in",
+  duplicate: "Already in",
+  queued: "Queued offline",
+  rejected: "Rejected"
+};
+
+/** Who the payload claims to be, for the recent-scans list (opaque tokens have no name). */
+function scannedLabel(verification: BadgeVerification): string {
+  if (verification.ok && verification.version === 2) return verification.badge.n;
+  if (verification.ok && verification.version === 1) return verification.data.name;
+  return verification.ok ? "Attendance token" : "Unknown badge";
+}
+
+export const ScanPanel = ({
+  onNotify,
+  event,
+  timezone,
+  badgeKey,
+  chapterTag,
+  continuous = false,
+  debounceSeconds = 5
+}: ScanPanelProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const detectorRef = useRef<BarcodeDetector | null>(null);
@@ -36,7 +92,12 @@ export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
   const [hint, setHint] = useState("Move closer/farther if QR isn’t detected.");
   const [manualValue, setManualValue] = useState("");
   const [supportsDetector, setSupportsDetector] = useState(false);
-  const { enqueue, pendingCount, flushQueue } = useOfflineQueue();
+  const [recentScans, setRecentScans] = useState<RecentScan[]>([]);
+  const debouncer = useMemo(() => createScanDebouncer(debounceSeconds * 1000), [debounceSeconds]);
+  const { items, enqueue, pendingCount, flushQueue, retryFailed, discard } = useOfflineQueue({
+    event,
+    timeZone: timezone
+  });
 
   const initCamera = useCallback(async () => {
     if (!navigator.mediaDevices?.getUserMedia) {
@@ -72,13 +133,28 @@ export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
     }
   }, []);
 
-  const submitScan = useCallback(
-    async (payload: string) => {
+  const recordScan = useCallback(
+    async (payload: string, verification: BadgeVerification, scannedAt: Date): Promise<ScanOutcome> => {
+      if (!verification.ok) {
+        setScanStatus("Error");
+        setHint(BADGE_REJECT_MESSAGES[verification.reason]);
+        onNotify({
+          id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2),
+          type: "error",
+          message: `Badge rejected: ${BADGE_REJECT_MESSAGES[verification.reason]}`
+        });
+        return "rejected";
+      }
       try {
         if (!navigator.onLine) {
           throw new Error("offline");
         }
-        await recordAttendance(payload);
+        await recordAttendance(payload, {
+          scannedAt: scannedAt.toISOString(),
+          status: event ? classifyCheckIn(event, scannedAt, timezone) : undefined,
+          eventId: event?.id,
+          chapter: chapterTag
+        });
         setScanStatus("Success");
         setHint("Attendance Recorded. Thanks!");
         onNotify({
@@ -99,8 +175,29 @@ export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
             });
           }
         }
+        return "success";
       } catch (error) {
-        enqueue(payload);
+        if (isAlreadyCheckedInError(error)) {
+          setScanStatus("Success");
+          setHint("Already checked in.");
+          onNotify({
+            id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2),
+            type: "info",
+            message: "Already checked in."
+          });
+          return "duplicate";
+        }
+        if (!isOfflineError(error) && !(error instanceof Error && error.message === "offline")) {
+          setScanStatus("Error");
+          setHint("Scan was rejected. Check the QR code.");
+          onNotify({
+            id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2),
+            type: "error",
+            message: error instanceof Error ? error.message : "Scan was rejected."
+          });
+          return "rejected";
+        }
+        await enqueue({ kind: "scan", qrPayload: payload, eventId: event?.id, chapter: chapterTag }, scannedAt);
         setScanStatus("Error");
         setHint("Queued scan for sync. Check network before retrying.");
         onNotify({
@@ -108,11 +205,72 @@ export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
           type: "error",
           message: "Scan couldn’t reach the server. Saved locally."
         });
+        return "queued";
       }
     },
-    [enqueue, flushQueue, onNotify, pendingCount]
+    [chapterTag, enqueue, event, flushQueue, onNotify, pendingCount, timezone]
   );
 
+  const submitScan = useCallback(
+    async (payload: string): Promise<ScanOutcome> => {
+      const scannedAt = new Date();
+      // Verified locally so forged / expired badges are refused even while offline (and never queued).
+      const verification = await verifyBadgePayload(payload, badgeKey ?? { chapterId: 0 }, scannedAt);
+      const outcome = await recordScan(payload, verification, scannedAt);
+      if (continuous) playScanCue(outcome === "rejected" ? "error" : "success");
+      setRecentScans((current) =>
+        [
+          {
+            id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2),
+            at: scannedAt,
+            label: scannedLabel(verification),
+            outcome
+          },
+          ...current
+        ].slice(0, RECENT_SCAN_LIMIT)
+      );
+      return outcome;
+    },
+    [badgeKey, continuous, recordScan]
+  );
+
+  const submitScanRef = useRef(submitScan);
+  submitScanRef.current = submitScan;
+
+  // Door mode: detect a frame, submit anything not seen within the debounce window, wait, repeat.
+  useEffect(() => {
+    if (!continuous || !supportsDetector) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const canvas = document.createElement("canvas");
+    const tick = async () => {
+      const video = videoRef.current;
+      const detector = detectorRef.current;
+      if (video?.videoWidth && video.videoHeight && detector) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        try {
+          const barcodes = await detector.detect(canvas);
+          for (const { rawValue } of barcodes) {
+            if (cancelled) break;
+            if (debouncer.shouldSubmit(rawValue)) await submitScanRef.current(rawValue.trim());
+          }
+        } catch {
+          // Frame not decodable; try the next one.
+        }
+      }
+      if (!cancelled) timer = setTimeout(() => void tick(), CONTINUOUS_SCAN_INTERVAL_MS);
+    };
+    setScanStatus("Scanning…");
+    setHint("Scanning continuously. Hold the badge inside the dashed box.");
+    void tick();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [continuous, debouncer, supportsDetector]);
+
   const handleScan = async () => {
     if (!supportsDetector || !detectorRef.current || !videoRef.current) {
       setScanStatus("Error");
@@ -174,14 +332,39 @@ export const ScanPanel = ({ onNotify }: ScanPanelProps) => {
         <span className="hint">{pendingCount ? `${pendingCount} scan${pendingCount > 1 ? "s" : ""} waiting to sync.` : "Ready to start scanning."}</span>
       </div>
       <p className="hint">{hint}</p>
+      <OfflineQueuePanel items={items} onRetryFailed={() => void retryFailed()} onDiscard={(id) => void discard(id)} />
       <div className="status-row">
-        <button className="button" type="button" onClick={handleScan}>
-          Scan QR Code
-        </button>
+        {!continuous && (
+          <button className="button" type="button" onClick={handleScan}>
+            Scan QR Code
+          </button>
+        )}
         <button className="ghost-button button" type="button" onClick={initCamera}>
           Try focusing
         </button>
       </div>
+      {recentScans.length > 0 && (
+        <div className="table-container">
+          <table aria-label="Last scanned">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Name</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recentScans.map((scan) => (
+                <tr key={scan.id}>
+                  <td>{scan.at.toLocaleTimeString([], { timeZone: timezone || undefined, hour12: false })}</td>
+                  <td>{scan.label}</td>
+                  <td className={scan.outcome === "rejected" ? "error-text" : undefined}>{OUTCOME_LABELS[scan.outcome]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
       <p className="hint">Manual payload (copy QR data if auto-scan fails)</p>
       <div className="status-row">
         <input
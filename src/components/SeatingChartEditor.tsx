@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getCurrentEvent,
+  getEventById,
+  getGuests,
+  getMembers,
+  getProfessionGroups,
+  getSeatingPlanVersions,
+  saveSeatingPlanVersion,
+  type BatchMatchResult,
+  type EventData,
+  type SeatingPlanVersion
+} from "../api";
+import { useChapter } from "../chapterContext";
+import type { Guest, Member, MatchStrength, SeatingPlanResponse, SeatingTable } from "../types/seating";
+import { MEMBER_CATEGORIES, categoriesFromProfessionGroups, type MemberCategory } from "../lib/memberCategories";
+import {
+  batchResultsToMatches,
+  buildSeatingPdfFilename,
+  checkSeatingConstraints,
+  downloadSeatingChartPdf,
+  memberStrengthAtTable,
+  moveSeat,
+  refreshSeatingPlan,
+  guestsWithoutMatchData,
+  toSeatingGuest,
+  withLiveRoster,
+  type SeatRef
+} from "../lib/seatingChart";
+import { planSeating, toSeatingMember } from "../lib/seatingOptimizer";
+import { SeatingPrintSheet } from "./SeatingPrintSheet";
+
+const SEATING_SHEET_ROOT_ID = "seating-sheet-capture";
+
+const STRENGTH_BACKGROUNDS: Record<MatchStrength, string> = {
+  High: "rgba(34, 197, 94, 0.18)",
+  Medium: "rgba(234, 179, 8, 0.18)",
+  Low: "rgba(148, 163, 184, 0.12)"
+};
+
+type SeatingChartEditorProps = {
+  onNotify: (message: string, type: "success" | "error" | "info") => void;
+  /** Event to seat; the chapter's current event when omitted. */
+  eventId?: number;
+  /** AI batch results for this event's guests; guests without one are keyword-matched. */
+  matchResults: BatchMatchResult[];
+};
+
+/**
+ * Seating chart for one event: auto-plan (planSeating), drag people between tables, live constraint warnings,
+ * saved versions, and an A4 PDF of tent cards plus the master seating sheet.
+ */
+export function SeatingChartEditor({ onNotify, eventId, matchResults }: SeatingChartEditorProps) {
+  const { chapter, chapterTag, chapterId } = useChapter();
+  const [event, setEvent] = useState<EventData | null>(null);
+  // Live roster (registrations and members as of load); auto-plan always seats these.
+  const [liveGuests, setLiveGuests] = useState<Guest[]>([]);
+  const [liveMembers, setLiveMembers] = useState<Member[]>([]);
+  // Roster of the plan on screen: a loaded version's snapshot plus live newcomers.
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [categories, setCategories] = useState<MemberCategory[]>(MEMBER_CATEGORIES);
+  const [versions, setVersions] = useState<SeatingPlanVersion[]>([]);
+  const [plan, setPlan] = useState<SeatingPlanResponse | null>(null);
+  const [tableCount, setTableCount] = useState(4);
+  const [seatsPerTable, setSeatsPerTable] = useState(10);
+  const [versionLabel, setVersionLabel] = useState("");
+  const [dragging, setDragging] = useState<SeatRef | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const loadVersion = useCallback((version: SeatingPlanVersion, live: { guests: Guest[]; members: Member[] }) => {
+    const nextGuests = withLiveRoster(version.guests, live.guests);
+    const nextMembers = withLiveRoster(version.members, live.members);
+    const seated = new Set(version.plan.tables.flatMap((t) => t.memberIds));
+    setGuests(nextGuests);
+    setMembers(nextMembers);
+    setSeatsPerTable(version.seatsPerTable);
+    setTableCount(version.plan.tables.length);
+    setPlan({ ...version.plan, unseatedMemberIds: nextMembers.filter((m) => !seated.has(m.id)).map((m) => m.id) });
+  }, []);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [ev, { members: memberInfos }, groups] = await Promise.all([
+        eventId != null ? getEventById(eventId) : getCurrentEvent(chapterTag, chapterId),
+        getMembers(chapterTag),
+        getProfessionGroups(chapterTag, chapterId).catch(() => null)
+      ]);
+      const chapterCategories = categoriesFromProfessionGroups(groups?.professionGroups ?? []);
+      const nextCategories = chapterCategories.length > 0 ? chapterCategories : MEMBER_CATEGORIES;
+      setCategories(nextCategories);
+      setEvent(ev);
+      const nextMembers = (memberInfos ?? []).map((m) => toSeatingMember(m, nextCategories));
+      setLiveMembers(nextMembers);
+      setMembers(nextMembers);
+      if (!ev) {
+        setLiveGuests([]);
+        setGuests([]);
+        return;
+      }
+      const [{ guests: guestInfos }, saved] = await Promise.all([
+        getGuests(ev.date.slice(0, 10), chapterTag),
+        getSeatingPlanVersions(ev.id, chapterTag).catch(() => [])
+      ]);
+      const nextGuests = (guestInfos ?? []).map(toSeatingGuest);
+      setLiveGuests(nextGuests);
+      setGuests(nextGuests);
+      setVersions(saved);
+      setTableCount(Math.max(1, Math.ceil((nextGuests.length + nextMembers.length) / 10)));
+      if (saved[0]) loadVersion(saved[0], { guests: nextGuests, members: nextMembers });
+    } catch (error) {
+      onNotify("無法載入座位資料: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, chapterTag, chapterId, onNotify, loadVersion]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const matches = useMemo(() => batchResultsToMatches(matchResults, guests, members), [matchResults, guests, members]);
+  const unmatchedGuests = useMemo(
+    () => guestsWithoutMatchData(liveGuests, batchResultsToMatches(matchResults, liveGuests, liveMembers)),
+    [matchResults, liveGuests, liveMembers]
+  );
+  const violations = useMemo(
+    () => (plan ? checkSeatingConstraints(plan.tables, guests, members, seatsPerTable) : []),
+    [plan, guests, members, seatsPerTable]
+  );
+  const memberById = useMemo(() => new Map(members.map((m) => [m.id, m])), [members]);
+  const guestById = useMemo(() => new Map(guests.map((g) => [g.id, g])), [guests]);
+  const accentOf = (member: Member) => categories.find((c) => c.code === member.category)?.accent ?? "#64748b";
+
+  const handleAutoPlan = () => {
+    if (!event) return;
+    const liveMatches = batchResultsToMatches(matchResults, liveGuests, liveMembers);
+    const next = planSeating(
+      { eventId: event.id, guests: liveGuests, members: liveMembers, tableCount, seatsPerTable },
+      { matches: liveMatches, categories }
+    );
+    setGuests(liveGuests);
+    setMembers(liveMembers);
+    setPlan(next);
+    onNotify(`已自動編排 ${next.tables.length} 桌`, "success");
+  };
+
+  const handleDrop = (toTable: number | null) => {
+    if (!plan || !dragging) return;
+    const tables = moveSeat(plan.tables, members, dragging, toTable);
+    setPlan(refreshSeatingPlan(plan, tables, guests, members, seatsPerTable, matches, categories));
+    setDragging(null);
+  };
+
+  const handleSave = async () => {
+    if (!plan) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveSeatingPlanVersion(
+        { label: versionLabel.trim() || undefined, seatsPerTable, guests, members, plan },
+        chapterTag
+      );
+      setVersions((current) => [saved, ...current]);
+      setVersionLabel("");
+      onNotify(`已儲存座位表版本 ${saved.version}`, "success");
+    } catch (error) {
+      onNotify("儲存失敗: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Capture once the off-screen sheet has rendered, then unmount it.
+  useEffect(() => {
+    if (!isPrinting || !event) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        await downloadSeatingChartPdf(
+          SEATING_SHEET_ROOT_ID,
+          buildSeatingPdfFilename(chapter?.displayName || chapterTag || "BNI", event.date)
+        );
+        if (!cancelled) onNotify("座位表 PDF 已下載", "success");
+      } catch (error) {
+        if (!cancelled) onNotify(error instanceof Error ? error.message : "PDF 生成失敗", "error");
+      } finally {
+        if (!cancelled) setIsPrinting(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isPrinting, event, chapter?.displayName, chapterTag, onNotify]);
+
+  const dropZoneProps = (toTable: number | null) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(toTable);
+    }
+  });
+
+  const chip = (ref: SeatRef, label: string, style: React.CSSProperties) => (
+    <div
+      key={`${ref.kind}:${ref.id}`}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", `${ref.kind}:${ref.id}`);
+        setDragging(ref);
+      }}
+      onDragEnd={() => setDragging(null)}
+      style={{ padding: "0.3rem 0.5rem", borderRadius: "4px", marginBottom: "0.25rem", cursor: "grab", fontSize: "0.9rem", ...style }}
+    >
+      {label}
+    </div>
+  );
+
+  const memberChip = (member: Member, table?: SeatingTable) => {
+    const strength = plan && table ? memberStrengthAtTable(plan, table, member.id) : null;
+    return chip(
+      { kind: "member", id: member.id },
+      `${table?.hostMemberId === member.id ? "👑 " : ""}${member.name}${member.category ? ` · ${member.category}` : ""}`,
+      { borderLeft: `4px solid ${accentOf(member)}`, background: strength ? STRENGTH_BACKGROUNDS[strength] : "var(--card-bg)" }
+    );
+  };
+
+  const guestChip = (guest: Guest) => {
+    const strength = plan?.assignments.find((a) => a.guestId === guest.id)?.matchStrength ?? "Low";
+    return chip({ kind: "guest", id: guest.id }, `⭐ ${guest.name}（${guest.profession}）`, {
+      background: STRENGTH_BACKGROUNDS[strength],
+      fontWeight: 600
+    });
+  };
+
+  const seatedIds = new Set(plan?.tables.flatMap((t) => [...t.memberIds, ...t.guestIds]) ?? []);
+  const unseatedGuests = guests.filter((g) => !seatedIds.has(g.id));
+  const unseatedMembers = members.filter((m) => !seatedIds.has(m.id));
+
+  if (isLoading) return <p className="hint">⏳ 正在載入座位資料...</p>;
+  if (!event) return <p className="hint">未有進行中的活動，請先在活動管理建立或啟用活動</p>;
+
+  return (
+    <div className="guest-form-card">
+      <div className="form-header">
+        <h3>🪑 座位編排 Seating Chart</h3>
+        <p className="hint">
+          {event.name} · {event.date.slice(0, 10)} · {guests.length} 位嘉賓 · {members.length} 位會員
+          {matchResults.length > 0 && " · 使用 AI 批量配對結果"}
+        </p>
+        {unmatchedGuests.length > 0 && (
+          <p className="hint" style={{ color: "#b45309" }}>
+            ⚠️ {unmatchedGuests.length === liveGuests.length ? "所有" : `${unmatchedGuests.length} 位`}
+            嘉賓未有配對結果，自動編排只會按類別及邀請人分桌，不會考慮他們與會員的配對。請先執行 AI 批量配對。
+          </p>
+        )}
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "flex-end", marginBottom: "1rem" }}>
+        <label className="form-group">
+          枱數
+          <input
+            type="number"
+            min={1}
+            className="input-field"
+            value={tableCount}
+            onChange={(e) => setTableCount(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </label>
+        <label className="form-group">
+          每枱座位
+          <input
+            type="number"
+            min={1}
+            className="input-field"
+            value={seatsPerTable}
+            onChange={(e) => setSeatsPerTable(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </label>
+        <button type="button" className="button primary" onClick={handleAutoPlan}>
+          🪄 自動編排
+        </button>
+        <button type="button" className="ghost-button" onClick={() => setIsPrinting(true)} disabled={!plan || isPrinting}>
+          {isPrinting ? "⏳ 生成中..." : "🖨️ 匯出桌卡及座位表 PDF"}
+        </button>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", alignItems: "center", marginBottom: "1rem" }}>
+        <input
+          className="input-field"
+          placeholder="版本備註（選填）"
+          value={versionLabel}
+          onChange={(e) => setVersionLabel(e.target.value)}
+          style={{ maxWidth: "240px" }}
+        />
+        <button type="button" className="button" onClick={handleSave} disabled={!plan || isSaving}>
+          {isSaving ? "⏳ 儲存中..." : "💾 儲存版本"}
+        </button>
+        {versions.length > 0 && (
+          <select
+            className="input-field"
+            style={{ maxWidth: "280px" }}
+            value=""
+            onChange={(e) => {
+              const version = versions.find((v) => String(v.version) === e.target.value);
+              if (version) loadVersion(version, { guests: liveGuests, members: liveMembers });
+            }}
+          >
+            <option value="">載入已儲存版本（{versions.length}）</option>
+            {versions.map((v) => (
+              <option key={v.version} value={v.version}>
+                v{v.version} · {v.savedAt.slice(0, 16).replace("T", " ")}
+                {v.label ? ` · ${v.label}` : ""}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {violations.length > 0 && (
+        <div style={{ border: "1px solid var(--warning)", borderRadius: "8px", padding: "0.5rem 0.75rem", marginBottom: "1rem" }}>
+          <strong>⚠️ {violations.length} 項編排提示</strong>
+          <ul style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem" }}>
+            {violations.map((v, index) => (
+              <li key={index} className="hint">
+                {v.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {plan && (
+        <>
+          <div
+            {...dropZoneProps(null)}
+            style={{ border: "2px dashed var(--border)", borderRadius: "8px", padding: "0.5rem", marginBottom: "1rem", minHeight: "3rem" }}
+          >
+            <div className="hint" style={{ marginBottom: "0.25rem" }}>
+              未安排（拖放到此處可移出座位）
+            </div>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.25rem 0.5rem" }}>
+              {unseatedGuests.map((g) => guestChip(g))}
+              {unseatedMembers.map((m) => memberChip(m))}
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: "0.75rem" }}>
+            {plan.tables.map((t) => {
+              const seated = t.memberIds.length + t.guestIds.length;
+              const hasViolation = violations.some((v) => v.table === t.table);
+              return (
+                <div
+                  key={t.table}
+                  {...dropZoneProps(t.table)}
+                  style={{
+                    border: `2px solid ${hasViolation ? "var(--warning)" : "var(--border)"}`,
+                    borderRadius: "8px",
+                    padding: "0.5rem",
+                    minHeight: "8rem"
+                  }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "0.5rem" }}>
+                    <strong>第 {t.table} 桌</strong>
+                    <span className={seated > seatsPerTable ? "error-text" : "hint"}>
+                      {seated}／{seatsPerTable}
+                    </span>
+                  </div>
+                  {t.guestIds.map((id) => {
+                    const guest = guestById.get(id);
+                    return guest ? guestChip(guest) : null;
+                  })}
+                  {t.memberIds.map((id) => {
+                    const member = memberById.get(id);
+                    return member ? memberChip(member, t) : null;
+                  })}
+                </div>
+              );
+            })}
+          </div>
+          <p className="hint" style={{ marginTop: "0.5rem" }}>
+            綠色＝高度匹配，黃色＝中度匹配；會員左邊色條為專業類別，👑 為主持該桌的領導團隊成員
+          </p>
+        </>
+      )}
+
+      {isPrinting && plan && (
+        <SeatingPrintSheet
+          plan={plan}
+          guests={guests}
+          members={members}
+          categories={categories}
+          rootId={SEATING_SHEET_ROOT_ID}
+          chapterTag={chapterTag}
+          chapterDisplayName={chapter?.displayName || chapterTag || "BNI"}
+          eventDate={event.date.slice(0, 10)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import type { Guest, Member, SeatingPlanResponse, SeatingTable } from "../types/seating";
+import { chapterPdfLogoSrc } from "../lib/chapterBranding";
+import { paginateBadgeSheet } from "../lib/memberBadgeSheet";
+import { MEMBER_CATEGORIES, type MemberCategory } from "../lib/memberCategories";
+import { MASTER_SHEET_TABLES_PER_PAGE } from "../lib/seatingChart";
+import { PDF_CAPTURE_WIDTH_PX } from "./QrFlyerContent";
+
+/** A4 printable area (190 × 277 mm) at the flyer's capture width. */
+const PAGE_HEIGHT_PX = Math.round((PDF_CAPTURE_WIDTH_PX * 277) / 190);
+
+const STRENGTH_COLORS = { High: "#16a34a", Medium: "#ca8a04", Low: "#94a3b8" } as const;
+
+type SeatingPrintSheetProps = {
+  plan: SeatingPlanResponse;
+  guests: Guest[];
+  members: Member[];
+  categories?: MemberCategory[];
+  /** Off-screen root id that downloadSeatingChartPdf captures. */
+  rootId: string;
+  chapterTag?: string | null;
+  chapterDisplayName: string;
+  eventDate: string;
+};
+
+const pageStyle = {
+  width: `${PDF_CAPTURE_WIDTH_PX}px`,
+  height: `${PAGE_HEIGHT_PX}px`,
+  boxSizing: "border-box",
+  background: "#ffffff",
+  color: "#111827",
+  fontFamily: "Arial, 'Noto Sans TC', sans-serif"
+} as const;
+
+function TentCardFace({ table, names, chapterTag, chapterDisplayName }: {
+  table: SeatingTable;
+  names: string[];
+  chapterTag?: string | null;
+  chapterDisplayName: string;
+}) {
+  const logoSrc = chapterPdfLogoSrc(chapterTag);
+  return (
+    <div style={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", gap: "12px" }}>
+      {logoSrc ? (
+        <img src={logoSrc} alt={`${chapterDisplayName} logo`} crossOrigin="anonymous" style={{ height: "32px", width: "auto" }} />
+      ) : (
+        <span style={{ fontWeight: 900, fontSize: "16px", color: "#C32529" }}>{chapterDisplayName}</span>
+      )}
+      <div style={{ fontSize: "96px", fontWeight: 900, lineHeight: 1 }}>第 {table.table} 桌</div>
+      <div style={{ fontSize: "16px", color: "#374151", textAlign: "center", padding: "0 32px" }}>{names.join("　")}</div>
+    </div>
+  );
+}
+
+/**
+ * Off-screen, fixed-width seating printout for PDF capture: one fold-in-half tent card per table (top half upside
+ * down so both sides read correctly), then a master sheet of every table with hosts, category accents and guests
+ * coloured by match strength.
+ */
+export function SeatingPrintSheet({
+  plan,
+  guests,
+  members,
+  categories = MEMBER_CATEGORIES,
+  rootId,
+  chapterTag,
+  chapterDisplayName,
+  eventDate
+}: SeatingPrintSheetProps) {
+  const memberById = new Map(members.map((m) => [m.id, m]));
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+  const assignmentByGuest = new Map(plan.assignments.map((a) => [a.guestId, a]));
+  const accentOf = (member: Member) => categories.find((c) => c.code === member.category)?.accent ?? "#64748b";
+  const namesAt = (t: SeatingTable) => [
+    ...t.memberIds.map((id) => memberById.get(id)?.name ?? id),
+    ...t.guestIds.map((id) => guestById.get(id)?.name ?? id)
+  ];
+
+  return (
+    <div className="qr-pdf-capture-root" id={rootId} aria-hidden="true">
+      {plan.tables.map((t) => (
+        <div key={`tent-${t.table}`} className="seating-sheet-page" style={{ ...pageStyle, display: "flex", flexDirection: "column" }}>
+          <div style={{ flex: 1, display: "flex", transform: "rotate(180deg)" }}>
+            <TentCardFace table={t} names={namesAt(t)} chapterTag={chapterTag} chapterDisplayName={chapterDisplayName} />
+          </div>
+          <div style={{ borderTop: "1px dashed #9ca3af" }} />
+          <div style={{ flex: 1, display: "flex" }}>
+            <TentCardFace table={t} names={namesAt(t)} chapterTag={chapterTag} chapterDisplayName={chapterDisplayName} />
+          </div>
+        </div>
+      ))}
+      {paginateBadgeSheet(plan.tables, MASTER_SHEET_TABLES_PER_PAGE).map((page, pageIndex) => (
+        <div key={`master-${pageIndex}`} className="seating-sheet-page" style={{ ...pageStyle, padding: "16px" }}>
+          <div style={{ fontSize: "20px", fontWeight: 800, marginBottom: "12px" }}>
+            {chapterDisplayName} 座位表 · {eventDate}
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "12px" }}>
+            {page.map((t) => (
+              <div key={t.table} style={{ border: "1px solid #d1d5db", borderRadius: "6px", padding: "10px", fontSize: "13px" }}>
+                <div style={{ fontSize: "18px", fontWeight: 800, marginBottom: "6px" }}>第 {t.table} 桌</div>
+                {t.memberIds.map((id) => {
+                  const member = memberById.get(id);
+                  if (!member) return null;
+                  return (
+                    <div key={id} style={{ borderLeft: `4px solid ${accentOf(member)}`, paddingLeft: "6px", marginBottom: "3px" }}>
+                      {id === t.hostMemberId ? "👑 " : ""}
+                      {member.name}
+                      <span style={{ color: "#6b7280" }}>
+                        {" "}
+                        {member.category ? `${member.category} · ` : ""}
+                        {member.profession}
+                      </span>
+                    </div>
+                  );
+                })}
+                {t.guestIds.map((id) => {
+                  const strength = assignmentByGuest.get(id)?.matchStrength ?? "Low";
+                  return (
+                    <div key={id} style={{ marginTop: "3px", color: STRENGTH_COLORS[strength], fontWeight: 700 }}>
+                      ⭐ {guestById.get(id)?.name ?? id}
+                      <span style={{ color: "#6b7280", fontWeight: 400 }}> 嘉賓 · {guestById.get(id)?.profession}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  applyStandingChange,
+  getStandingChangeLog,
+  getStandingRules,
+  saveStandingRules,
+  searchMemberAttendance,
+  type MemberAttendance,
+  type MemberInfo,
+  type MemberStanding,
+  type StandingChangeLogEntry,
+  type StandingRule,
+  type StandingRuleMetric,
+  type StandingRuleSet
+} from "../api";
+import { toChapterWallClock } from "../lib/attendanceStatus";
+import {
+  DEFAULT_STANDING_RULE_SET,
+  STANDING_RULE_METRIC_LABELS,
+  proposeStandingChanges,
+  type StandingProposal
+} from "../lib/standingRules";
+
+type StandingReviewPanelProps = {
+  members: MemberInfo[];
+  chapterTag: string;
+  timezone?: string | null;
+  onNotify: (message: string, type: "success" | "error" | "info") => void;
+  /** Called after standings were written so the member list can reload. */
+  onApplied: () => void;
+};
+
+/** Parallel attendance lookups while evaluating (keeps a cold backend responsive). */
+const HISTORY_CONCURRENCY = 4;
+
+const STANDINGS: MemberStanding[] = ["GREEN", "YELLOW", "RED", "BLACK"];
+
+const newRuleId = () => (crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2));
+
+async function loadHistories(members: MemberInfo[], chapterTag: string): Promise<Map<string, MemberAttendance[]>> {
+  const result = new Map<string, MemberAttendance[]>();
+  let next = 0;
+  const worker = async () => {
+    while (next < members.length) {
+      const member = members[next++];
+      result.set(member.name, await searchMemberAttendance(member.name, undefined, chapterTag));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HISTORY_CONCURRENCY, members.length) }, worker));
+  return result;
+}
+
+/** Chapter standing rules, the proposed standing diff (accept one / selected) and the applied-change log. */
+export function StandingReviewPanel({ members, chapterTag, timezone, onNotify, onApplied }: StandingReviewPanelProps) {
+  const [ruleSet, setRuleSet] = useState<StandingRuleSet>(DEFAULT_STANDING_RULE_SET);
+  const [rulesDirty, setRulesDirty] = useState(false);
+  const [proposals, setProposals] = useState<StandingProposal[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [log, setLog] = useState<StandingChangeLogEntry[]>([]);
+  const [busy, setBusy] = useState<"idle" | "evaluating" | "applying" | "saving">("idle");
+  const notifyRef = useRef(onNotify);
+  notifyRef.current = onNotify;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [saved, changes] = await Promise.all([getStandingRules(chapterTag), getStandingChangeLog(chapterTag)]);
+        if (cancelled) return;
+        setRuleSet(saved ?? DEFAULT_STANDING_RULE_SET);
+        setLog(changes);
+      } catch (e) {
+        if (!cancelled) notifyRef.current(`無法載入狀態規則: ${e instanceof Error ? e.message : "錯誤"}`, "error");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag]);
+
+  const updateRule = (id: string, patch: Partial<StandingRule>) => {
+    setRuleSet((prev) => ({ ...prev, rules: prev.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) }));
+    setRulesDirty(true);
+  };
+
+  const handleSaveRules = async () => {
+    setBusy("saving");
+    try {
+      setRuleSet(await saveStandingRules(ruleSet, chapterTag));
+      setRulesDirty(false);
+      onNotify("✅ 已儲存狀態規則", "success");
+    } catch (e) {
+      onNotify(`❌ 儲存失敗: ${e instanceof Error ? e.message : "錯誤"}`, "error");
+    } finally {
+      setBusy("idle");
+    }
+  };
+
+  const handleEvaluate = useCallback(async () => {
+    setBusy("evaluating");
+    try {
+      const candidates = members.filter((m) => (m.standing ?? "GREEN") !== "BLACK");
+      const histories = await loadHistories(candidates, chapterTag);
+      const today = toChapterWallClock(new Date(), timezone).date;
+      const next = proposeStandingChanges(candidates, histories, ruleSet, today);
+      setProposals(next);
+      setSelected(new Set(next.map((p) => p.member.name)));
+      onNotify(next.length ? `共有 ${next.length} 項狀態建議` : "所有會員狀態與規則一致", "info");
+    } catch (e) {
+      onNotify(`❌ 評估失敗: ${e instanceof Error ? e.message : "錯誤"}`, "error");
+    } finally {
+      setBusy("idle");
+    }
+  }, [members, chapterTag, timezone, ruleSet, onNotify]);
+
+  const applyProposals = async (toApply: StandingProposal[]) => {
+    if (!toApply.length) return;
+    setBusy("applying");
+    const applied: string[] = [];
+    try {
+      for (const proposal of toApply) {
+        const { member, from, to, reasons } = proposal;
+        const entry = await applyStandingChange(
+          {
+            memberId: member.id,
+            memberName: member.name,
+            fromStanding: from,
+            toStanding: to,
+            reasons,
+            appliedAt: new Date().toISOString()
+          },
+          chapterTag
+        );
+        applied.push(member.name);
+        setLog((prev) => [entry, ...prev]);
+      }
+      onNotify(`✅ 已更新 ${applied.length} 位會員狀態`, "success");
+    } catch (e) {
+      onNotify(
+        `❌ 已更新 ${applied.length} 位，其餘失敗: ${e instanceof Error ? e.message : "錯誤"}`,
+        "error"
+      );
+    } finally {
+      setProposals((prev) => prev?.filter((p) => !applied.includes(p.member.name)) ?? null);
+      setSelected((prev) => new Set([...prev].filter((name) => !applied.includes(name))));
+      setBusy("idle");
+      if (applied.length) onApplied();
+    }
+  };
+
+  const toggleSelected = (name: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  const selectedProposals = proposals?.filter((p) => selected.has(p.member.name)) ?? [];
+
+  return (
+    <section className="section standing-review-panel" style={{ border: "1px solid var(--border-color)", borderRadius: "12px" }}>
+      <div className="section-header">
+        <h2>⚖️ 會員狀態建議</h2>
+        <p className="hint">按出席規則計算建議狀態；逐項或批量接受，每次變更都會記錄。建議可升可降：未觸發任何規則的會員會建議回復 GREEN。</p>
+      </div>
+
+      <h3>規則</h3>
+      <label style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.5rem" }}>
+        <input
+          type="checkbox"
+          checked={ruleSet.substituteCountsAsPresent}
+          onChange={(e) => {
+            setRuleSet((prev) => ({ ...prev, substituteCountsAsPresent: e.target.checked }));
+            setRulesDirty(true);
+          }}
+        />
+        有替代人出席視作出席
+      </label>
+      {ruleSet.rules.map((rule) => (
+        <div key={rule.id} style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.4rem", marginBottom: "0.4rem" }}>
+          <span>近</span>
+          <select
+            className="input-field"
+            value={rule.windowMonths}
+            onChange={(e) => updateRule(rule.id, { windowMonths: Number(e.target.value) })}
+          >
+            {[3, 6, 12].map((m) => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <span>個月</span>
+          <select
+            className="input-field"
+            value={rule.metric}
+            onChange={(e) => updateRule(rule.id, { metric: e.target.value as StandingRuleMetric })}
+          >
+            {(Object.keys(STANDING_RULE_METRIC_LABELS) as StandingRuleMetric[]).map((metric) => (
+              <option key={metric} value={metric}>{STANDING_RULE_METRIC_LABELS[metric]}</option>
+            ))}
+          </select>
+          <select
+            className="input-field"
+            value={rule.comparator}
+            onChange={(e) => updateRule(rule.id, { comparator: e.target.value as StandingRule["comparator"] })}
+          >
+            <option value=">=">≥</option>
+            <option value="<">&lt;</option>
+          </select>
+          <input
+            className="input-field"
+            type="number"
+            min={0}
+            value={rule.threshold}
+            onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) })}
+            style={{ width: "5rem" }}
+          />
+          <span>→</span>
+          <select
+            className="input-field"
+            value={rule.standing}
+            onChange={(e) => updateRule(rule.id, { standing: e.target.value as MemberStanding })}
+          >
+            {STANDINGS.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => {
+              setRuleSet((prev) => ({ ...prev, rules: prev.rules.filter((r) => r.id !== rule.id) }));
+              setRulesDirty(true);
+            }}
+          >
+            移除
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={() => {
+            setRuleSet((prev) => ({
+              ...prev,
+              rules: [
+                ...prev.rules,
+                { id: newRuleId(), metric: "absences", windowMonths: 6, comparator: ">=", threshold: 3, standing: "YELLOW" }
+              ]
+            }));
+            setRulesDirty(true);
+          }}
+        >
+          ➕ 新增規則
+        </button>
+        <button type="button" className="button" onClick={() => void handleSaveRules()} disabled={!rulesDirty || busy !== "idle"}>
+          {busy === "saving" ? "儲存中…" : "💾 儲存規則"}
+        </button>
+        <button type="button" className="button" onClick={() => void handleEvaluate()} disabled={busy !== "idle" || !members.length}>
+          {busy === "evaluating" ? "⏳ 計算中…" : "🔍 計算建議"}
+        </button>
+      </div>
+
+      {proposals && (
+        <>
+          <h3 style={{ marginTop: "1.5rem" }}>建議變更（{proposals.length}）</h3>
+          {proposals.length === 0 ? (
+            <p className="hint">沒有需要變更的會員。</p>
+          ) : (
+            <>
+              <div className="table-container">
+                <table aria-label="會員狀態建議">
+                  <thead>
+                    <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          aria-label="全選"
+                          checked={selected.size === proposals.length}
+                          onChange={(e) =>
+                            setSelected(e.target.checked ? new Set(proposals.map((p) => p.member.name)) : new Set())
+                          }
+                        />
+                      </th>
+                      <th>會員</th>
+                      <th>變更</th>
+                      <th>原因</th>
+                      <th>操作</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {proposals.map((proposal) => (
+                      <tr key={proposal.member.name}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            aria-label={`選擇 ${proposal.member.name}`}
+                            checked={selected.has(proposal.member.name)}
+                            onChange={() => toggleSelected(proposal.member.name)}
+                          />
+                        </td>
+                        <td>{proposal.member.name}</td>
+                        <td>
+                          {proposal.from} → <strong>{proposal.to}</strong>
+                        </td>
+                        <td>
+                          {proposal.reasons.map((reason) => (
+                            <div key={reason} className="hint">{reason}</div>
+                          ))}
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            disabled={busy !== "idle"}
+                            onClick={() => void applyProposals([proposal])}
+                          >
+                            ✅ 接受
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                type="button"
+                className="button"
+                style={{ marginTop: "0.75rem" }}
+                disabled={busy !== "idle" || selectedProposals.length === 0}
+                onClick={() => void applyProposals(selectedProposals)}
+              >
+                {busy === "applying" ? "套用中…" : `✅ 接受已選（${selectedProposals.length}）`}
+              </button>
+            </>
+          )}
+        </>
+      )}
+
+      <h3 style={{ marginTop: "1.5rem" }}>變更紀錄</h3>
+      {log.length === 0 ? (
+        <p className="hint">暫無紀錄</p>
+      ) : (
+        <ul style={{ paddingLeft: "1.1rem" }}>
+          {log.map((entry, index) => (
+            <li key={entry.id ?? `${entry.memberName}-${entry.appliedAt}-${index}`} style={{ marginBottom: "0.35rem" }}>
+              <span className="hint">{entry.appliedAt.slice(0, 16).replace("T", " ")}</span>{" "}
+              <strong>{entry.memberName}</strong> {entry.fromStanding ?? "—"} → {entry.toStanding}
+              {entry.appliedBy ? ` · ${entry.appliedBy}` : ""}
+              <div className="hint">{entry.reasons.join("；")}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
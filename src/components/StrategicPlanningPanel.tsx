@@ -1,7 +1,42 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import type { Guest, Member, MatchResult, MemberMatch } from "../types/seating";
 import { sampleGuests } from "../lib/sampleData";
-import { getMembers, batchMatch, BatchGuestInfo, BatchMatchResult } from "../api";
+import {
+  getMembers,
+  batchMatch,
+  getCurrentEvent,
+  getStoredMatchResults,
+  saveStoredMatchResults,
+  getMatchOverrides,
+  saveMatchOverride,
+  getIntroductionFeedback,
+  saveIntroductionFeedback,
+  BatchGuestInfo,
+  BatchMatchResult,
+  IntroductionFeedback,
+  MatchOverride,
+  StoredMatchResult
+} from "../api";
+import { useChapter } from "../chapterContext";
+import { normalizeGuestName } from "../lib/guestIdentity";
+import {
+  applyMatchOverrides,
+  summarizeIntroductionFeedback,
+  upsertIntroductionFeedback,
+  upsertMatchOverride
+} from "../lib/matchFeedback";
+import { matchProviderLabel } from "../lib/matchProviders";
+import {
+  buildRunResults,
+  latestResultsByGuest,
+  memberRosterVersion,
+  planMatchRun,
+  toBatchMatchResult
+} from "../lib/matchResultStore";
+import { MatchProviderBadge } from "./MatchProviderBadge";
+import { MatchReviewEditor, type IntroductionOutcome, type MatchOverrideChange } from "./MatchReviewEditor";
+import { MatchRunComparison } from "./MatchRunComparison";
+import { SeatingChartEditor } from "./SeatingChartEditor";
 
 type StrategicPlanningPanelProps = {
   onNotify: (message: string, type: "success" | "error" | "info") => void;
@@ -15,6 +50,8 @@ const strengthStyles: Record<MatchResult["matchStrength"], string> = {
 };
 
 export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningPanelProps) => {
+  const { chapterTag, chapterId } = useChapter();
+
   // Guest form state
   const [guestName, setGuestName] = useState("");
   const [guestProfession, setGuestProfession] = useState("");
@@ -27,19 +64,31 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
   const [isLoadingMembers, setIsLoadingMembers] = useState(true);
 
   // Match result state
-  const [matchResult, setMatchResult] = useState<(MatchResult & { provider?: "deepseek" | "gemini" | "keyword" | null }) | null>(null);
+  const [matchResult, setMatchResult] = useState<(MatchResult & { provider?: string | null }) | null>(null);
   const [currentGuest, setCurrentGuest] = useState<Guest | null>(null);
   const [isMatching, setIsMatching] = useState(false);
   const [showValidation, setShowValidation] = useState(false);
 
   // Batch matching state
-  const [showBatchMode, setShowBatchMode] = useState(false);
+  const [mode, setMode] = useState<"single" | "batch" | "seating">("single");
+  const showBatchMode = mode === "batch";
   const [batchGuests, setBatchGuests] = useState<BatchGuestInfo[]>([]);
   const [batchResults, setBatchResults] = useState<BatchMatchResult[]>([]);
+  const [batchProvider, setBatchProvider] = useState<string | null>(null);
   const [isBatchProcessing, setIsBatchProcessing] = useState(false);
   const [batchProgress, setBatchProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Stored match runs for the event (the prop, else the chapter's current event)
+  const [matchEventId, setMatchEventId] = useState<number | null>(eventId ?? null);
+  const [storedResults, setStoredResults] = useState<StoredMatchResult[]>([]);
+  const [forceRematch, setForceRematch] = useState(false);
+
+  // Admin overrides for this event, and introduction feedback across all events (it feeds future matching)
+  const [overrides, setOverrides] = useState<MatchOverride[]>([]);
+  const [feedback, setFeedback] = useState<IntroductionFeedback[]>([]);
+  const [reviewGuestKey, setReviewGuestKey] = useState<string | null>(null);
+
   // Load real members from backend
   useEffect(() => {
     const loadMembers = async () => {
@@ -66,6 +115,71 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     loadMembers();
   }, [onNotify]);
 
+  // Reload the event's stored runs and show the latest result per guest
+  useEffect(() => {
+    let cancelled = false;
+    const loadStoredResults = async () => {
+      const id = eventId ?? (await getCurrentEvent(chapterTag, chapterId))?.id ?? null;
+      if (cancelled) return;
+      setMatchEventId(id);
+      if (id == null) return;
+      try {
+        const [stored, eventOverrides, allFeedback] = await Promise.all([
+          getStoredMatchResults(id, chapterTag),
+          getMatchOverrides(id, chapterTag).catch(() => []),
+          getIntroductionFeedback(chapterTag).catch(() => [])
+        ]);
+        if (cancelled) return;
+        setStoredResults(stored);
+        setOverrides(eventOverrides);
+        setFeedback(allFeedback);
+        const latest = [...latestResultsByGuest(stored).values()];
+        if (latest.length > 0) {
+          setBatchGuests(latest.map((r) => ({ name: r.guestName, profession: r.guestProfession, remarks: r.guestRemarks })));
+          setBatchResults(latest.map(toBatchMatchResult));
+          setBatchProvider(latest.find((r) => !r.reusedFromRunId)?.provider ?? latest[0].provider);
+        }
+      } catch {
+        if (!cancelled) onNotify("無法載入之前的配對結果", "error");
+      }
+    };
+    loadStoredResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, chapterTag, chapterId, onNotify]);
+
+  /**
+   * Match `guests`, reusing the stored result of every guest whose profile and the member roster are unchanged
+   * (unless `force`), and store the run when the event is known. Results come back in `guests` order.
+   */
+  const runMatching = async (guests: BatchGuestInfo[], force: boolean) => {
+    const rosterVersion = memberRosterVersion(members);
+    const { rerun, reuse } = planMatchRun(guests, storedResults, rosterVersion, force);
+    const response = rerun.length > 0 ? await batchMatch(rerun, summarizeIntroductionFeedback(feedback)) : null;
+    const provider = response?.provider ?? reuse[0]?.provider ?? null;
+    if (matchEventId == null) {
+      return { results: response?.results ?? [], provider, reusedCount: 0 };
+    }
+    const run = buildRunResults(
+      matchEventId,
+      `run-${Date.now()}`,
+      new Date().toISOString(),
+      rosterVersion,
+      response?.provider ?? null,
+      guests,
+      response?.results ?? [],
+      reuse
+    );
+    try {
+      await saveStoredMatchResults(run, chapterTag);
+      setStoredResults((prev) => [...prev, ...run]);
+    } catch (error) {
+      onNotify("配對結果未能儲存: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    }
+    return { results: run.map(toBatchMatchResult), provider, reusedCount: reuse.length };
+  };
+
   const handleMatch = async () => {
     // Improved validation with specific field checks (Target Profession is now optional)
     setShowValidation(true);
@@ -97,12 +211,12 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     setIsMatching(true);
     setCurrentGuest(guest);
     try {
-      // Use batchMatch API (same as 批量配對) - calls DeepSeek
-      const response = await batchMatch([{
+      // Same matching as 批量配對 - reuses the stored result when the guest and roster are unchanged
+      const response = await runMatching([{
         name: guest.name,
         profession: guest.profession,
         remarks: guest.remarks
-      }]);
+      }], forceRematch);
       const batchResult = response.results[0];
       if (!batchResult) {
         throw new Error("No match result returned");
@@ -121,14 +235,19 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
       let overallMatchStrength: "High" | "Medium" | "Low" = "Low";
       if (highCount >= 2) overallMatchStrength = "High";
       else if (highCount >= 1 || mediumCount >= 3) overallMatchStrength = "Medium";
-      const result: MatchResult & { provider?: "deepseek" | "gemini" | "keyword" | null } = {
+      const result: MatchResult & { provider?: string | null } = {
         matchStrength: overallMatchStrength,
-        matchNote: `${response.provider === "deepseek" ? "🤖 DeepSeek AI" : "🤖 AI"}: 找到 ${recommendedMembers.length} 位推薦會員`,
+        matchNote: `${matchProviderLabel(response.provider)}: 找到 ${recommendedMembers.length} 位推薦會員`,
         recommendedMembers,
-        provider: response.provider === "deepseek" ? "deepseek" : "keyword"
+        provider: response.provider
       };
       setMatchResult(result);
-      onNotify(`配對完成！使用 ${response.provider?.toUpperCase()} AI 配對。CSV 已下載`, "success");
+      onNotify(
+        response.reusedCount > 0
+          ? "沿用之前的配對結果（來賓資料及會員名單未有變更）。CSV 已下載"
+          : `配對完成！使用 ${matchProviderLabel(response.provider)} 配對。CSV 已下載`,
+        "success"
+      );
       // Auto-download CSV (batching_single-{name}.csv), stay on page
       const safeName = guest.name.replace(/[/\\?%*:|"<>]/g, "_");
       exportBatchResultsCsvFromResults([batchResult], `batching_single-${safeName}.csv`);
@@ -166,6 +285,52 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     onNotify("已重置表單", "info");
   };
 
+  // Overrides apply to everything downstream: cards, CSV export and the seating editor
+  const adjustedBatchResults = useMemo(
+    () =>
+      batchResults.map((result) => {
+        const guestKey = normalizeGuestName(result.guestName);
+        const guestOverrides = overrides.filter((o) => o.eventId === matchEventId && o.guestKey === guestKey);
+        return { ...result, matchedMembers: applyMatchOverrides(result.matchedMembers, guestOverrides) };
+      }),
+    [batchResults, overrides, matchEventId]
+  );
+
+  const handleOverride = async (result: BatchMatchResult, change: MatchOverrideChange) => {
+    if (matchEventId == null) return;
+    const override: MatchOverride = {
+      ...change,
+      eventId: matchEventId,
+      guestKey: normalizeGuestName(result.guestName),
+      updatedAt: new Date().toISOString()
+    };
+    try {
+      await saveMatchOverride(override, chapterTag);
+      setOverrides((prev) => upsertMatchOverride(prev, override));
+    } catch (error) {
+      onNotify("調整未能儲存: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    }
+  };
+
+  const handleFeedback = async (result: BatchMatchResult, memberName: string, outcome: IntroductionOutcome) => {
+    if (matchEventId == null) return;
+    const entry: IntroductionFeedback = {
+      eventId: matchEventId,
+      guestKey: normalizeGuestName(result.guestName),
+      guestName: result.guestName,
+      memberName,
+      happened: outcome !== "not-happened",
+      useful: outcome === "not-happened" ? null : outcome === "useful",
+      recordedAt: new Date().toISOString()
+    };
+    try {
+      await saveIntroductionFeedback(entry, chapterTag);
+      setFeedback((prev) => upsertIntroductionFeedback(prev, entry));
+    } catch (error) {
+      onNotify("回饋未能儲存: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    }
+  };
+
   // Batch matching functions
   // Download CSV template
   const downloadCsvTemplate = () => {
@@ -239,10 +404,15 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     setBatchResults([]);
 
     try {
-      const response = await batchMatch(batchGuests);
+      const response = await runMatching(batchGuests, forceRematch);
       setBatchResults(response.results);
+      setBatchProvider(response.provider);
       setShowLoadingDialog(false);
-      onNotify(`批量配對完成！已處理 ${response.results.length} 位來賓`, "success");
+      onNotify(
+        `批量配對完成！已處理 ${response.results.length} 位來賓` +
+          (response.reusedCount > 0 ? `（${response.reusedCount} 位沿用之前結果）` : ""),
+        "success"
+      );
       
       // Auto-export CSV on success
       if (response.results.length > 0) {
@@ -314,7 +484,7 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
   };
 
   const exportBatchResultsCsv = () => {
-    if (batchResults.length === 0) {
+    if (adjustedBatchResults.length === 0) {
       onNotify("沒有可匯出的結果", "error");
       return;
     }
@@ -322,7 +492,7 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     const csvLines: string[] = [];
     csvLines.push("姓名(Name),專業領域(Profession),可配對會友,理由");
 
-    for (const result of batchResults) {
+    for (const result of adjustedBatchResults) {
       // Sort matches: High first, then Medium, then Low
       const sortedMatches = [...result.matchedMembers].sort((a, b) => {
         const order = { High: 0, Medium: 1, Low: 2 };
@@ -376,6 +546,13 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
     setBatchProgress(0);
   };
 
+  const forceRematchToggle = (
+    <label className="checkbox-label" style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', margin: '0.5rem 0' }}>
+      <input type="checkbox" checked={forceRematch} onChange={(e) => setForceRematch(e.target.checked)} />
+      <span className="checkbox-text">🔁 全部重新配對（不沿用之前結果）</span>
+    </label>
+  );
+
   return (
     <section className="section strategic-planning-panel">
       <div className="section-header">
@@ -399,8 +576,8 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
       <div className="mode-toggle" style={{ marginBottom: '1rem', display: 'flex', gap: '0.5rem' }}>
         <button
           type="button"
-          className={`button ${!showBatchMode ? 'primary' : 'ghost-button'}`}
-          onClick={() => setShowBatchMode(false)}
+          className={`button ${mode === "single" ? 'primary' : 'ghost-button'}`}
+          onClick={() => setMode("single")}
           style={{ flex: 1 }}
         >
           👤 單一來賓配對
@@ -408,11 +585,19 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
         <button
           type="button"
           className={`button ${showBatchMode ? 'primary' : 'ghost-button'}`}
-          onClick={() => setShowBatchMode(true)}
+          onClick={() => setMode("batch")}
           style={{ flex: 1 }}
         >
           📋 批量配對
         </button>
+        <button
+          type="button"
+          className={`button ${mode === "seating" ? 'primary' : 'ghost-button'}`}
+          onClick={() => setMode("seating")}
+          style={{ flex: 1 }}
+        >
+          🪑 座位編排
+        </button>
       </div>
 
       {/* Batch Matching Section */}
@@ -494,7 +679,8 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
                   </table>
                 </div>
 
-                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                {forceRematchToggle}
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
                   <button
                     type="button"
                     className="button primary"
@@ -520,7 +706,9 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
             {batchResults.length > 0 && (
               <div className="batch-results" style={{ marginTop: '1rem' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
-                  <h4>配對結果 ({batchResults.length} 位來賓)</h4>
+                  <h4>
+                    配對結果 ({batchResults.length} 位來賓) <MatchProviderBadge providerId={batchProvider} />
+                  </h4>
                   <button
                     type="button"
                     className="button"
@@ -531,10 +719,12 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
                 </div>
                 
                 <div style={{ maxHeight: '400px', overflow: 'auto' }}>
-                  {batchResults.map((result, idx) => {
+                  {adjustedBatchResults.map((result, idx) => {
+                    const guestKey = normalizeGuestName(result.guestName);
                     const sortedMatches = [...result.matchedMembers].sort((a, b) => {
                       const order = { High: 0, Medium: 1, Low: 2 };
-                      return (order[a.matchStrength as keyof typeof order] || 2) - (order[b.matchStrength as keyof typeof order] || 2);
+                      return Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) ||
+                        (order[a.matchStrength as keyof typeof order] || 2) - (order[b.matchStrength as keyof typeof order] || 2);
                     });
                     
                     return (
@@ -545,9 +735,21 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
                         marginBottom: '0.5rem',
                         border: '1px solid var(--border)'
                       }}>
-                        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
                           <strong>{result.guestName}</strong>
-                          <span className="hint">{result.guestProfession}</span>
+                          <span className="hint">
+                            {result.guestProfession}
+                            {matchEventId != null && (
+                              <button
+                                type="button"
+                                className="ghost-button small"
+                                style={{ marginLeft: '0.5rem' }}
+                                onClick={() => setReviewGuestKey(reviewGuestKey === guestKey ? null : guestKey)}
+                              >
+                                {reviewGuestKey === guestKey ? '收起' : '✏️ 調整／回饋'}
+                              </button>
+                            )}
+                          </span>
                         </div>
                         {sortedMatches.length > 0 ? (
                           <div>
@@ -566,25 +768,45 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
                                 }}>
                                   {match.matchStrength === 'High' ? '🔥' : match.matchStrength === 'Medium' ? '⚡' : '💡'}
                                 </span>
-                                {' '}{match.memberName} ({match.profession})
+                                {' '}{match.pinned && '📌 '}{match.memberName} ({match.profession})
+                                {match.edited && <span className="hint"> · 已調整</span>}
                               </div>
                             ))}
                           </div>
                         ) : (
                           <span className="hint">無匹配</span>
                         )}
+                        {reviewGuestKey === guestKey && (
+                          <MatchReviewEditor
+                            matchedMembers={batchResults[idx].matchedMembers}
+                            overrides={overrides.filter((o) => o.eventId === matchEventId && o.guestKey === guestKey)}
+                            feedback={feedback.filter((f) => f.eventId === matchEventId && f.guestKey === guestKey)}
+                            members={members}
+                            onOverride={(change) => handleOverride(result, change)}
+                            onFeedback={(memberName, outcome) => handleFeedback(result, memberName, outcome)}
+                          />
+                        )}
                       </div>
                     );
                   })}
                 </div>
               </div>
             )}
+
+            <MatchRunComparison key={storedResults.length} stored={storedResults} />
           </div>
         </div>
       )}
 
-      {/* Guest Input Form - Only show when not in batch mode */}
-      {!showBatchMode && (
+      {/* Seating chart - uses the batch results above when they exist */}
+      {mode === "seating" && (
+        <div style={{ marginBottom: '2rem' }}>
+          <SeatingChartEditor onNotify={onNotify} eventId={eventId} matchResults={adjustedBatchResults} />
+        </div>
+      )}
+
+      {/* Guest Input Form - Only show in single mode */}
+      {mode === "single" && (
       <div className="guest-form-card">
         <div className="form-header">
           <h3>來賓資料 Guest Profile</h3>
@@ -690,6 +912,7 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
           </div>
         </div>
 
+        {forceRematchToggle}
         <button
           type="button"
           className="button match-btn"
@@ -707,11 +930,13 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
       </div>
       )}
 
-      {/* Match Result Summary - Only show when not in batch mode */}
-      {!showBatchMode && matchResult && currentGuest && (
+      {/* Match Result Summary - Only show in single mode */}
+      {mode === "single" && matchResult && currentGuest && (
         <div className="match-result-card">
           <div className="result-header">
-            <h3>配對結果</h3>
+            <h3>
+              配對結果 <MatchProviderBadge providerId={matchResult.provider} />
+            </h3>
             <span className={strengthStyles[matchResult.matchStrength]}>
               {matchResult.matchStrength === "High" ? "高度匹配" : 
                matchResult.matchStrength === "Medium" ? "中度匹配" : "低度匹配"}
@@ -723,8 +948,8 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
         </div>
       )}
 
-      {/* Recommended Member Combinations - Grouped by Match Strength - Only show when not in batch mode */}
-      {!showBatchMode && matchResult && matchResult.recommendedMembers && matchResult.recommendedMembers.length > 0 && (() => {
+      {/* Recommended Member Combinations - Grouped by Match Strength - Only show in single mode */}
+      {mode === "single" && matchResult && matchResult.recommendedMembers && matchResult.recommendedMembers.length > 0 && (() => {
         const highMatches = matchResult.recommendedMembers.filter(m => m.matchStrength === "High");
         const mediumMatches = matchResult.recommendedMembers.filter(m => m.matchStrength === "Medium");
         const lowMatches = matchResult.recommendedMembers.filter(m => m.matchStrength === "Low");
@@ -833,12 +1058,12 @@ export const StrategicPlanningPanel = ({ onNotify, eventId }: StrategicPlanningP
 
       {/* Configuration Info */}
       <div className="config-info">
-        <h4>⚙️ API 配置說明</h4>
+        <h4>⚙️ 配對來源說明</h4>
         <p className="hint">
-          請在專案根目錄建立 <code>.env.local</code> 檔案並添加以下環境變數：
+          AI 配對只經後端執行（DeepSeek 金鑰設定於後端），前端不會保存任何 AI 金鑰。
         </p>
         <p className="hint">
-          系統會優先使用 DeepSeek AI，失敗時自動切換至 Gemini，兩者都失敗則使用關鍵字匹配。
+          後端 AI 逾時或回應格式不符時，會自動改用本機規則配對（中英專業詞庫）；結果旁的標籤會顯示實際使用的來源。
         </p>
       </div>
 
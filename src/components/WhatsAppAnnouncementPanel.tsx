@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { getGuests, getObservers, getPlannedSubstitutes, type ChapterInfo, type EventData } from "../api";
+import { buildWhatsAppMeetingMessage, findAnnouncementRoundTripIssues } from "../lib/meetingAnnouncement";
+import { resolveMeetingTemplate } from "../lib/parseWhatsAppMeetingMessage";
+
+type WhatsAppAnnouncementPanelProps = {
+  /** Event the announcement is for (ImportPage's target / current event). */
+  event: EventData | null;
+  chapterTag: string;
+  chapterId: number;
+  sectionAliases?: ChapterInfo["meetingSectionAliases"];
+};
+
+/** Builds the WhatsApp meeting announcement from the event's guests, observers and planned substitutes. */
+export function WhatsAppAnnouncementPanel({ event, chapterTag, chapterId, sectionAliases }: WhatsAppAnnouncementPanelProps) {
+  const [text, setText] = useState("");
+  const [issues, setIssues] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [notification, setNotification] = useState<string | null>(null);
+
+  const showNotice = (message: string) => {
+    setNotification(message);
+    window.setTimeout(() => setNotification(null), 5000);
+  };
+
+  const handleGenerate = async () => {
+    if (!event?.date) return;
+    setIsWorking(true);
+    try {
+      const eventDate = event.date.slice(0, 10);
+      const [{ guests }, { observers }, { substitutes }] = await Promise.all([
+        getGuests(eventDate, chapterTag),
+        getObservers(eventDate, chapterTag),
+        getPlannedSubstitutes(eventDate, chapterTag, chapterId),
+      ]);
+      const input = { event, guests: guests ?? [], observers: observers ?? [], substitutes: substitutes ?? [] };
+      const template = resolveMeetingTemplate(chapterTag, sectionAliases);
+      const message = buildWhatsAppMeetingMessage(input, template);
+      setText(message);
+      setIssues(findAnnouncementRoundTripIssues(message, input, template));
+    } catch (error) {
+      showNotice(`產生公告失敗：${error instanceof Error ? error.message : "未知錯誤"}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      showNotice("✅ 已複製公告");
+    } catch {
+      showNotice("複製失敗，請手動複製");
+    }
+  };
+
+  // Native share sheet where available (phones); otherwise open WhatsApp with the text prefilled.
+  const handleShare = async () => {
+    if (typeof navigator.share === "function") {
+      try {
+        await navigator.share({ text });
+      } catch {
+        // Share sheet dismissed.
+      }
+      return;
+    }
+    window.open(`https://wa.me/?text=${encodeURIComponent(text)}`, "_blank", "noopener,noreferrer");
+  };
+
+  return (
+    <section className="section" style={{ marginTop: "2rem" }}>
+      <div className="section-header">
+        <h2>📣 產生 WhatsApp 會議公告</h2>
+        <p className="hint">
+          按當前活動的嘉賓、講者／VIP、觀察員與替代人，以本分會格式產生公告；貼回上方匯入可完整還原（chapter={chapterTag}）
+        </p>
+      </div>
+
+      {notification && (
+        <p className="hint" style={{ color: "#15803d", marginBottom: "1rem" }}>
+          {notification}
+        </p>
+      )}
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", marginBottom: "1rem" }}>
+        <button type="button" className="button" onClick={() => void handleGenerate()} disabled={!event || isWorking}>
+          {isWorking ? "⏳ 產生中…" : event ? `📝 產生公告（${event.name}）` : "未有當前活動"}
+        </button>
+        {text && (
+          <>
+            <button type="button" className="ghost-button" onClick={() => void handleCopy()}>
+              📋 複製
+            </button>
+            <button type="button" className="ghost-button" onClick={() => void handleShare()}>
+              📤 分享
+            </button>
+          </>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <div
+          style={{
+            padding: "1rem",
+            marginBottom: "1rem",
+            background: "#fffbeb",
+            border: "1px solid #fde68a",
+            borderRadius: "8px",
+            fontSize: "0.875rem",
+          }}
+        >
+          <strong>以下資料貼回匯入時無法還原，請先補充：</strong>
+          <ul style={{ margin: "0.5rem 0 0", paddingLeft: "1.25rem" }}>
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {text && (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={14}
+          aria-label="WhatsApp 會議公告"
+          style={{
+            width: "100%",
+            padding: "1rem",
+            borderRadius: "12px",
+            border: "1px solid var(--border-color)",
+            fontFamily: "inherit",
+            fontSize: "0.95rem",
+            lineHeight: 1.6,
+            resize: "vertical",
+          }}
+        />
+      )}
+    </section>
+  );
+}
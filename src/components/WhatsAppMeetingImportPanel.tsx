@@ -1,25 +1,54 @@
 import { useState } from "react";
-import {
-  bulkImport,
-  bulkImportObservers,
-  activateEvent,
-  bulkSetPlannedSubstitutes,
-  type ImportRecord,
-} from "../api";
+import { activateEvent, type ChapterInfo } from "../api";
 import { ensureEventForDate } from "../lib/meetingEventImport";
+import {
+  applyImportDiff,
+  defaultSelectedDiffRows,
+  loadExistingRegistrations,
+  reconcileImport,
+  type ImportDiffRow,
+} from "../lib/importReconciliation";
+import { ImportDiffPreview } from "./ImportDiffPreview";
 import {
   parseWhatsAppMeetingMessage,
   guestListToCsv,
   observerListToCsv,
   substituteListToCsv,
   downloadCsv,
+  resolveMeetingTemplate,
   type ParsedMeetingMessage,
 } from "../lib/parseWhatsAppMeetingMessage";
 
+const hasParsedRows = (p: ParsedMeetingMessage) =>
+  p.guests.length > 0 || p.observers.length > 0 || p.substitutes.length > 0;
+
+/** The whole announcement for its date: everyone listed, so anyone missing shows up as removed. */
+const draftFromMessage = (parsed: ParsedMeetingMessage, chapterTag: string) => ({
+  guests: parsed.guests.map((g) => ({
+    name: g.name,
+    profession: g.profession,
+    phoneNumber: "",
+    referrer: g.referrer,
+    eventDate: g.eventDate,
+    chapter: chapterTag,
+    role: g.role,
+  })),
+  observers: parsed.observers.map((o) => ({ name: o.name, profession: o.profession, eventDate: o.eventDate })),
+  substitutes: parsed.substitutes.map((s) => ({ memberName: s.memberName, substituteName: s.substituteName })),
+});
+
+const ROLE_LABELS: Record<string, string> = {
+  GUEST: "嘉賓",
+  SPEAKER: "🎤 講者",
+  VIP: "⭐ VIP",
+};
+
 type WhatsAppMeetingImportPanelProps = {
   chapterTag: string;
   chapterId: number;
   chapterLabel: string;
+  /** Chapter's own section headings (ChapterInfo.meetingSectionAliases). */
+  sectionAliases?: ChapterInfo["meetingSectionAliases"];
   onImported?: () => void;
 };
 
@@ -27,10 +56,13 @@ export function WhatsAppMeetingImportPanel({
   chapterTag,
   chapterId,
   chapterLabel,
+  sectionAliases,
   onImported,
 }: WhatsAppMeetingImportPanelProps) {
   const [message, setMessage] = useState("");
   const [parsed, setParsed] = useState<ParsedMeetingMessage | null>(null);
+  const [diffRows, setDiffRows] = useState<ImportDiffRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
   const [isWorking, setIsWorking] = useState(false);
   const [notification, setNotification] = useState<string | null>(null);
 
@@ -40,13 +72,15 @@ export function WhatsAppMeetingImportPanel({
   };
 
   const handleExtract = () => {
-    const result = parseWhatsAppMeetingMessage(message);
+    const result = parseWhatsAppMeetingMessage(message, resolveMeetingTemplate(chapterTag, sectionAliases));
     setParsed(result);
+    setDiffRows(null);
     if (result.errors.length > 0 && result.guests.length === 0 && result.observers.length === 0 && result.substitutes.length === 0) {
-      showNotice(result.errors[0] ?? "解析失敗");
+      showNotice(result.errors[0]?.message ?? "解析失敗");
     } else {
+      const withRole = result.guests.filter((g) => g.role !== "GUEST").length;
       showNotice(
-        `已解析：嘉賓 ${result.guests.length} 位、觀察員 ${result.observers.length} 位、替代 ${result.substitutes.length} 對` +
+        `已解析：嘉賓 ${result.guests.length} 位${withRole ? `（含講者／VIP ${withRole} 位）` : ""}、觀察員 ${result.observers.length} 位、替代 ${result.substitutes.length} 對` +
           (result.eventDate ? `（${result.eventDate}）` : "")
       );
     }
@@ -73,13 +107,29 @@ export function WhatsAppMeetingImportPanel({
     );
   };
 
-  const handleImportAll = async () => {
+  const handlePreviewDiff = async () => {
     if (!parsed?.eventDate) {
-      showNotice("缺少活動日期，無法匯入");
+      showNotice("缺少活動日期，無法比對");
       return;
     }
-    if (parsed.guests.length === 0 && parsed.observers.length === 0 && parsed.substitutes.length === 0) {
-      showNotice("沒有可匯入的嘉賓、觀察員或替代人");
+    setIsWorking(true);
+    try {
+      const existing = await loadExistingRegistrations(parsed.eventDate, chapterTag, chapterId);
+      const rows = reconcileImport(draftFromMessage(parsed, chapterTag), existing);
+      setDiffRows(rows);
+      setSelected(defaultSelectedDiffRows(rows));
+    } catch (error) {
+      showNotice(`比對失敗：${error instanceof Error ? error.message : "未知錯誤"}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApplySelected = async () => {
+    if (!parsed?.eventDate || !diffRows) return;
+    const rows = diffRows.filter((r) => selected.has(r.id));
+    if (rows.length === 0) {
+      showNotice("未勾選任何變更");
       return;
     }
 
@@ -93,54 +143,19 @@ export function WhatsAppMeetingImportPanel({
       );
       await activateEvent(event.id, true, chapterTag, chapterId);
 
-      let guestSummary = "";
-      if (parsed.guests.length > 0) {
-        const guestRecords: ImportRecord[] = parsed.guests.map((g) => ({
-          name: g.name,
-          profession: g.profession,
-          phoneNumber: "",
-          referrer: g.referrer,
-          eventDate: g.eventDate,
-          chapter: chapterTag,
-        }));
-        const guestResult = await bulkImport(
-          { type: "guest", records: guestRecords },
-          chapterTag,
-          chapterId
-        );
-        guestSummary = `嘉賓 新增 ${guestResult.inserted}、更新 ${guestResult.updated}`;
-      }
-
-      let observerSummary = "";
-      if (parsed.observers.length > 0) {
-        const observerRecords: ImportRecord[] = parsed.observers.map((o) => ({
-          name: o.name,
-          profession: o.profession,
-          eventDate: o.eventDate,
-        }));
-        const observerResult = await bulkImportObservers(observerRecords, chapterTag, chapterId);
-        observerSummary = `觀察員 新增 ${observerResult.inserted}、更新 ${observerResult.updated}`;
-      }
+      const result = await applyImportDiff(parsed.eventDate, rows, chapterTag, chapterId);
+      const summary = [
+        result.guests && `嘉賓 新增 ${result.guests.inserted}、更新 ${result.guests.updated}`,
+        result.observers && `觀察員 新增 ${result.observers.inserted}、更新 ${result.observers.updated}`,
+        result.substitutes && `替代人 設定 ${result.substitutes.updated} 對`,
+        result.deletions && result.deletions.deleted > 0 && `刪除 ${result.deletions.deleted} 項`,
+        result.deletions && result.deletions.failed > 0 && `刪除失敗 ${result.deletions.failed} 項（${result.deletions.errors.join("；")}）`,
+      ].filter(Boolean);
 
-      let substituteSummary = "";
-      if (parsed.substitutes.length > 0) {
-        const subResult = await bulkSetPlannedSubstitutes(
-          parsed.eventDate,
-          parsed.substitutes.map((s) => ({
-            memberName: s.memberName,
-            substituteName: s.substituteName,
-          })),
-          chapterTag,
-          chapterId
-        );
-        substituteSummary = `替代人 設定 ${subResult.updated} 對`;
-      }
-
-      showNotice(
-        `✅ 已匯入 ${parsed.eventDate}：${[guestSummary, observerSummary, substituteSummary].filter(Boolean).join("；")}`
-      );
+      showNotice(`✅ 已匯入 ${parsed.eventDate}：${summary.join("；")}`);
       setMessage("");
       setParsed(null);
+      setDiffRows(null);
       onImported?.();
     } catch (error) {
       showNotice(`匯入失敗：${error instanceof Error ? error.message : "未知錯誤"}`);
@@ -154,7 +169,7 @@ export function WhatsAppMeetingImportPanel({
       <div className="section-header">
         <h2>📱 WhatsApp 訊息批量匯入</h2>
         <p className="hint">
-          貼上 Anchor 正式會議 WhatsApp 公告，自動提取嘉賓名單與觀察員、匯出 CSV、寫入資料庫（chapter={chapterTag}）
+          貼上正式會議 WhatsApp 公告（中文或英文格式），自動提取嘉賓、講者／VIP、觀察員與替代人，匯出 CSV，與資料庫比對後勾選要套用的變更（chapter={chapterTag}）
         </p>
       </div>
 
@@ -167,7 +182,7 @@ export function WhatsAppMeetingImportPanel({
       <textarea
         value={message}
         onChange={(e) => setMessage(e.target.value)}
-        placeholder="貼上 WhatsApp 會議公告（含 嘉賓名單、觀察員 段落）…"
+        placeholder="貼上 WhatsApp 會議公告（含 嘉賓名單／Visitors、觀察員／Observers、替代人／Substitutes 等段落）…"
         rows={12}
         style={{
           width: "100%",
@@ -200,14 +215,24 @@ export function WhatsAppMeetingImportPanel({
             📥 下載替代人 CSV
           </button>
         )}
-        {parsed && (parsed.guests.length > 0 || parsed.observers.length > 0 || parsed.substitutes.length > 0) && (
+        {parsed && hasParsedRows(parsed) && !diffRows && (
           <button
             type="button"
-            className="button submit-button"
-            onClick={() => void handleImportAll()}
+            className="button"
+            onClick={() => void handlePreviewDiff()}
             disabled={isWorking || !parsed.eventDate}
           >
-            {isWorking ? "⏳ 匯入中…" : "🚀 匯入資料庫（嘉賓 + 觀察員 + 替代人）"}
+            {isWorking ? "⏳ 比對中…" : "🔎 與資料庫比對（預覽變更）"}
+          </button>
+        )}
+        {parsed && diffRows && (
+          <button
+            type="button"
+            className="button submit-button"
+            onClick={() => void handleApplySelected()}
+            disabled={isWorking || selected.size === 0}
+          >
+            {isWorking ? "⏳ 匯入中…" : `🚀 套用已選變更（${selected.size}）`}
           </button>
         )}
       </div>
@@ -227,8 +252,11 @@ export function WhatsAppMeetingImportPanel({
             >
               <strong>解析提示：</strong>
               <ul style={{ margin: "0.5rem 0 0", paddingLeft: "1.25rem" }}>
-                {parsed.errors.map((err) => (
-                  <li key={err}>{err}</li>
+                {parsed.errors.map((err, index) => (
+                  <li key={`${err.line ?? "message"}-${index}`}>
+                    {err.line !== null && <strong>第 {err.line} 行：</strong>}
+                    {err.message}
+                  </li>
                 ))}
               </ul>
             </div>
@@ -240,6 +268,8 @@ export function WhatsAppMeetingImportPanel({
             </p>
           )}
 
+          {diffRows && <ImportDiffPreview rows={diffRows} selected={selected} onSelectedChange={setSelected} />}
+
           {parsed.guests.length > 0 && (
             <>
               <h3 style={{ fontSize: "1rem" }}>嘉賓預覽 ({parsed.guests.length})</h3>
@@ -249,14 +279,16 @@ export function WhatsAppMeetingImportPanel({
                     <th style={{ padding: "0.5rem", textAlign: "left" }}>姓名</th>
                     <th style={{ padding: "0.5rem", textAlign: "left" }}>專業</th>
                     <th style={{ padding: "0.5rem", textAlign: "left" }}>介紹人</th>
+                    <th style={{ padding: "0.5rem", textAlign: "left" }}>角色</th>
                   </tr>
                 </thead>
                 <tbody>
                   {parsed.guests.map((g) => (
-                    <tr key={g.name} style={{ borderBottom: "1px solid var(--border-color)" }}>
+                    <tr key={`${g.role}-${g.name}`} style={{ borderBottom: "1px solid var(--border-color)" }}>
                       <td style={{ padding: "0.5rem" }}>{g.name}</td>
-                      <td style={{ padding: "0.5rem" }}>{g.profession}</td>
+                      <td style={{ padding: "0.5rem" }}>{g.profession || "-"}</td>
                       <td style={{ padding: "0.5rem" }}>{g.referrer || "-"}</td>
+                      <td style={{ padding: "0.5rem" }}>{ROLE_LABELS[g.role] ?? g.role}</td>
                     </tr>
                   ))}
                 </tbody>
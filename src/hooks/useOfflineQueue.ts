@@ -1,105 +1,78 @@
-import { useCallback, useEffect, useState } from "react";
-import { recordAttendance } from "../api";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { classifyCheckIn, type EventTiming } from "../lib/attendanceStatus";
+import {
+  discardOfflineAction,
+  enqueueOfflineAction,
+  flushOfflineQueue,
+  loadOfflineQueue,
+  retryFailedOfflineActions,
+  subscribeOfflineQueue,
+  type QueuedCheckIn,
+  type QueuedCheckInAction
+} from "../lib/offlineQueue";
 
-type PendingScan = {
-  id: string;
-  qrPayload: string;
-  createdAt: string;
+type OfflineQueueOptions = {
+  /** Active event; when set, QR replays are classified early/on-time/late/after-close from the queued time. */
+  event?: EventTiming | null;
+  /** Chapter timezone (ChapterInfo.timezone) used for that classification. */
+  timeZone?: string | null;
 };
 
-const QUEUE_KEY = "anchor-checkin-queue";
-
 /**
- * Load pending scans from localStorage. Returns [] if missing/invalid or SSR. Side effect: may remove invalid key.
- * @returns {PendingScan[]}
+ * Offline queue for check-in actions (QR scan, log, substitute, walk-in guest, observer).
+ * Actions persist in IndexedDB, replay in enqueue order when the connection returns, and keep their original
+ * timestamp so late status stays accurate. All hook instances share the same queue.
+ * Side effects: IndexedDB / localStorage read/write; network on flush; subscribes to the "online" event.
+ * @param {OfflineQueueOptions} [options]
+ * @returns {{ items: QueuedCheckIn[]; pendingCount: number; failedCount: number; enqueue: (action: QueuedCheckInAction, at?: Date) => Promise<void>; flushQueue: () => Promise<{ flushed: number; failed: number; remaining: number }>; retryFailed: () => Promise<void>; discard: (id: string) => Promise<void> }}
+ * @example const { pendingCount, enqueue, flushQueue } = useOfflineQueue({ event, timeZone }); await enqueue({ kind: "scan", qrPayload }); await flushQueue();
  */
-const loadQueue = (): PendingScan[] => {
-  if (typeof window === "undefined") {
-    return [];
-  }
-  const stored = window.localStorage.getItem(QUEUE_KEY);
-  if (!stored) {
-    return [];
-  }
-  try {
-    const parsed = JSON.parse(stored);
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
-  } catch {
-    window.localStorage.removeItem(QUEUE_KEY);
-  }
-  return [];
-};
+export const useOfflineQueue = (options: OfflineQueueOptions = {}) => {
+  const [items, setItems] = useState<QueuedCheckIn[]>([]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
-/**
- * Persist queue to localStorage. No-op on SSR. Side effect: localStorage write.
- * @param {PendingScan[]} queue
- */
-const persistQueue = (queue: PendingScan[]) => {
-  if (typeof window === "undefined") {
-    return;
-  }
-  window.localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
-};
+  const reload = useCallback(async () => {
+    try {
+      setItems(await loadOfflineQueue());
+    } catch {
+      setItems([]);
+    }
+  }, []);
 
-/**
- * Create a pending scan with new id (crypto.randomUUID or fallback). No side effects.
- * @param {string} qrPayload
- * @returns {PendingScan}
- */
-const createPendingScan = (qrPayload: string): PendingScan => ({
-  id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2),
-  qrPayload,
-  createdAt: new Date().toISOString()
-});
+  useEffect(() => {
+    void reload();
+    return subscribeOfflineQueue(() => void reload());
+  }, [reload]);
 
-/**
- * Offline queue for QR scans: enqueue when offline, flush when online. State synced to localStorage.
- * Side effects: localStorage read/write; network (recordAttendance) on flush; subscribes to "online" event.
- * @returns {{ pendingCount: number; enqueue: (qrPayload: string) => void; flushQueue: () => Promise<{ flushed: number }> }}
- * @example const { pendingCount, enqueue, flushQueue } = useOfflineQueue(); enqueue(qrPayload); await flushQueue();
- */
-export const useOfflineQueue = () => {
-  const [queue, setQueue] = useState<PendingScan[]>(() => loadQueue());
+  const enqueue = useCallback(async (action: QueuedCheckInAction, at?: Date) => {
+    await enqueueOfflineAction(action, at);
+  }, []);
 
-  const enqueue = useCallback(
-    (qrPayload: string) => {
-      const next = [...loadQueue(), createPendingScan(qrPayload)];
-      setQueue(next);
-      persistQueue(next);
-    },
+  const flushQueue = useCallback(
+    () =>
+      flushOfflineQueue((scannedAt) => {
+        const { event, timeZone } = optionsRef.current;
+        return event ? classifyCheckIn(event, scannedAt, timeZone) : undefined;
+      }),
     []
   );
 
-  const flushQueue = useCallback(async () => {
-    if (typeof window === "undefined" || !navigator.onLine) {
-      return { flushed: 0 };
-    }
-    const stored = loadQueue();
-    if (!stored.length) {
-      return { flushed: 0 };
-    }
-    const remaining: PendingScan[] = [];
-    let flushed = 0;
-    for (const item of stored) {
-      try {
-        await recordAttendance(item.qrPayload);
-        flushed += 1;
-      } catch {
-        remaining.push(item);
-      }
-    }
-    setQueue(remaining);
-    persistQueue(remaining);
-    return { flushed };
-  }, []);
+  const retryFailed = useCallback(async () => {
+    await retryFailedOfflineActions();
+    await flushQueue();
+  }, [flushQueue]);
+
+  const discard = useCallback((id: string) => discardOfflineAction(id), []);
+
+  const pendingCount = items.filter((item) => item.state === "pending").length;
+  const failedCount = items.length - pendingCount;
 
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
     }
-    if (navigator.onLine && queue.length) {
+    if (navigator.onLine && pendingCount) {
       void flushQueue();
     }
     const handleOnline = () => {
@@ -107,12 +80,15 @@ export const useOfflineQueue = () => {
     };
     window.addEventListener("online", handleOnline);
     return () => window.removeEventListener("online", handleOnline);
-  }, [flushQueue, queue.length]);
+  }, [flushQueue, pendingCount]);
 
   return {
-    pendingCount: queue.length,
+    items,
+    pendingCount,
+    failedCount,
     enqueue,
-    flushQueue
+    flushQueue,
+    retryFailed,
+    discard
   };
 };
-
@@ -1,37 +1,23 @@
 import type { Guest, MatchResult, Member } from "../types/seating";
-import { matchMembersWithAI } from "./aiClient";
-import { matchMembersByKeyword, buildKeywordNote } from "./keywordMatch";
+import { buildKeywordNote } from "./keywordMatch";
+import { matchWithProviders } from "./matchProviders";
 
 /**
- * Match guest with recommended members for networking (AI first, keyword fallback). No table assignment.
- * Side effects: network (AI); console logging.
+ * Match guest with recommended members for networking through the provider registry (backend AI first, local rules
+ * last). Tables are assigned by planSeating (lib/seatingOptimizer).
+ * Side effects: network (backend AI); console logging.
  * @param {Guest} guest
  * @param {Member[]} members
- * @returns {Promise<MatchResult & { provider?: "deepseek" | "gemini" | "keyword" | null }>}
+ * @returns {Promise<MatchResult & { provider: string | null }>} provider is the registry id that answered, or null
  * @example const result = await matchGuestWithMembers(guest, members); result.recommendedMembers; result.matchNote;
  */
 export async function matchGuestWithMembers(
   guest: Guest,
   members: Member[]
-): Promise<MatchResult & { provider?: "deepseek" | "gemini" | "keyword" | null }> {
-  
-  console.log("🎯 Starting member matching for guest:", guest.name, guest.profession);
-  console.log("📊 Total members available:", members.length);
-  
-  // Try AI matching first (DeepSeek or Gemini)
-  const aiResult = await matchMembersWithAI(guest, members);
-  let recommendedMembers = aiResult.matches;
-  let matchNote = "";
-  let provider = aiResult.provider;
-
-  console.log(`🤖 AI Result - Provider: ${provider}, Matches: ${recommendedMembers.length}`);
-
-  // Fallback to keyword matching if AI fails
-  if (!recommendedMembers || recommendedMembers.length === 0) {
-    console.log("⚠️ AI matching failed, falling back to keyword matching");
-    recommendedMembers = matchMembersByKeyword(guest, members);
-    matchNote = buildKeywordNote(guest, recommendedMembers);
-    provider = "keyword";
+): Promise<MatchResult & { provider: string | null }> {
+  const { matches: recommendedMembers, provider, failures } = await matchWithProviders(guest, members);
+  for (const failure of failures) {
+    console.warn(`⚠️ Match provider ${failure.providerId} skipped: ${failure.error}`);
   }
 
   // Determine overall match strength
@@ -45,24 +31,19 @@ export async function matchGuestWithMembers(
     overallMatchStrength = "Medium";
   }
 
-  // Generate match note if not already set
-  if (!matchNote) {
-    const providerLabel = 
-      provider === "deepseek" ? "🤖 DeepSeek AI" :
-      provider === "gemini" ? "🤖 Gemini AI" :
-      "🔍 關鍵字配對";
-    
-    if (recommendedMembers.length === 0) {
-      matchNote = `${providerLabel}: 未找到高度匹配的會員。建議提供更具體的目標職業或瓶頸資訊。`;
-    } else {
-      matchNote = `${providerLabel}: 找到 ${recommendedMembers.length} 位推薦會員（${highCount} 位高度匹配、${mediumCount} 位中度匹配）。建議優先與高度匹配的會員深入交流。`;
-    }
+  let matchNote: string;
+  if (!provider) {
+    matchNote = "未找到合適的配對會員。建議提供更具體的目標職業或瓶頸資訊。";
+  } else if (provider.local) {
+    matchNote = buildKeywordNote(guest, recommendedMembers);
+  } else {
+    matchNote = `${provider.label}: 找到 ${recommendedMembers.length} 位推薦會員（${highCount} 位高度匹配、${mediumCount} 位中度匹配）。建議優先與高度匹配的會員深入交流。`;
   }
 
   return {
     matchStrength: overallMatchStrength,
     matchNote,
     recommendedMembers,
-    provider,
+    provider: provider?.id ?? null,
   };
 }
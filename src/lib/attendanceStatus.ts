@@ -0,0 +1,114 @@
+import type { CheckInStatus, EventData } from "../api";
+
+/** Fallback when `ChapterInfo.timezone` is missing (all seeded chapters meet in HK). */
+export const DEFAULT_CHAPTER_TIMEZONE = "Asia/Hong_Kong";
+
+/** Subset of EventData needed to classify arrivals; blank times fall back to the backend defaults. */
+export type EventTiming = Pick<EventData, "date"> &
+  Partial<Pick<EventData, "registrationStartTime" | "onTimeCutoff" | "endTime">>;
+
+/** Calendar date + seconds since midnight in the chapter's own timezone. */
+export type ChapterWallClock = {
+  date: string;
+  secondsOfDay: number;
+};
+
+/** Same fallbacks the backend applies in POST /api/events when a time is blank. */
+const DEFAULT_TIMES = {
+  registrationStartTime: "06:30",
+  onTimeCutoff: "07:05",
+  endTime: "09:00"
+};
+
+/** "HH:mm" or "HH:mm:ss" → seconds since midnight; null when malformed. */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec((value ?? "").trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  const s = m[3] ? Number(m[3]) : 0;
+  if (h > 23 || min > 59 || s > 59) return null;
+  return h * 3600 + min * 60 + s;
+}
+
+/** Valid IANA zone or the chapter default (Intl throws RangeError on unknown zones). */
+export function resolveChapterTimezone(timeZone?: string | null): string {
+  const tz = timeZone?.trim();
+  if (!tz) return DEFAULT_CHAPTER_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return tz;
+  } catch {
+    return DEFAULT_CHAPTER_TIMEZONE;
+  }
+}
+
+/** Instant → wall clock in `timeZone` (DST-safe via Intl, no manual offsets). */
+export function toChapterWallClock(at: Date, timeZone?: string | null): ChapterWallClock {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: resolveChapterTimezone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    secondsOfDay: Number(get("hour")) * 3600 + Number(get("minute")) * 60 + Number(get("second"))
+  };
+}
+
+/**
+ * Parse an admin-entered wall-clock string (`datetime-local` / CheckInRequest.currentTime, no offset)
+ * as chapter-local time. Returns null when it cannot be read.
+ */
+export function parseWallClock(value: string): ChapterWallClock | null {
+  const m = /^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}:\d{2}(?::\d{2})?)/.exec(value.trim());
+  if (!m) return null;
+  const secondsOfDay = parseTimeOfDay(m[2]);
+  if (secondsOfDay === null) return null;
+  return { date: m[1], secondsOfDay };
+}
+
+/**
+ * Classify a chapter-local arrival time:
+ * before registration opens (or an earlier day) → early; up to and including onTimeCutoff → on-time;
+ * up to and including endTime → late; after endTime (or a later day) → after-close.
+ */
+export function classifyWallClock(event: EventTiming, at: ChapterWallClock): CheckInStatus {
+  const eventDate = event.date.trim().slice(0, 10);
+  if (at.date < eventDate) return "early";
+  if (at.date > eventDate) return "after-close";
+
+  const registrationStart =
+    parseTimeOfDay(event.registrationStartTime) ?? parseTimeOfDay(DEFAULT_TIMES.registrationStartTime)!;
+  const cutoff = parseTimeOfDay(event.onTimeCutoff) ?? parseTimeOfDay(DEFAULT_TIMES.onTimeCutoff)!;
+  const end = parseTimeOfDay(event.endTime) ?? parseTimeOfDay(DEFAULT_TIMES.endTime)!;
+
+  if (at.secondsOfDay < registrationStart) return "early";
+  if (at.secondsOfDay <= cutoff) return "on-time";
+  if (at.secondsOfDay <= end) return "late";
+  return "after-close";
+}
+
+/** Classify an instant (kiosk / QR / offline replay) in the chapter's timezone. */
+export function classifyCheckIn(event: EventTiming, at: Date, timeZone?: string | null): CheckInStatus {
+  return classifyWallClock(event, toChapterWallClock(at, timeZone));
+}
+
+/** zh-HK labels for kiosk / report badges. */
+export const CHECK_IN_STATUS_LABELS: Record<CheckInStatus, string> = {
+  early: "提早",
+  "on-time": "準時",
+  late: "遲到",
+  "after-close": "散會後"
+};
+
+/** True when the status should count toward the report's 遲到 column. */
+export function isLateStatus(status: string | null | undefined): boolean {
+  return status === "late" || status === "after-close";
+}
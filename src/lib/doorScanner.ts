@@ -0,0 +1,66 @@
+/** Door scanner helpers: per-payload debounce and audible / haptic cues. */
+
+export type ScanCue = "success" | "error";
+
+export type ScanDebouncer = {
+  /** True (and remembers the payload) unless the same payload was accepted within the window. */
+  shouldSubmit: (payload: string, now?: number) => boolean;
+  reset: () => void;
+};
+
+/**
+ * Continuous scanning sees the same badge on many consecutive frames; only the first sighting within
+ * `windowMs` is submitted. Different payloads are never blocked by each other.
+ */
+export function createScanDebouncer(windowMs: number): ScanDebouncer {
+  const lastSeen = new Map<string, number>();
+  return {
+    shouldSubmit: (payload, now = Date.now()) => {
+      const key = payload.trim();
+      for (const [seen, at] of lastSeen) {
+        if (now - at >= windowMs) lastSeen.delete(seen);
+      }
+      if (lastSeen.has(key)) return false;
+      lastSeen.set(key, now);
+      return true;
+    },
+    reset: () => lastSeen.clear()
+  };
+}
+
+let audioContext: AudioContext | null = null;
+
+function beep(ctx: AudioContext, frequency: number, startAt: number, durationSeconds: number) {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = "sine";
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.2, startAt);
+  gain.gain.exponentialRampToValueAtTime(0.001, startAt + durationSeconds);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(startAt);
+  oscillator.stop(startAt + durationSeconds);
+}
+
+/**
+ * Rising double beep + short buzz for success; low long tone + triple buzz for failure.
+ * Silently does nothing where Web Audio / vibration are unavailable (or audio is still locked before a tap).
+ */
+export function playScanCue(cue: ScanCue): void {
+  if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") {
+    navigator.vibrate(cue === "success" ? 80 : [120, 60, 120, 60, 120]);
+  }
+  if (typeof window === "undefined" || typeof window.AudioContext !== "function") return;
+  try {
+    audioContext ??= new window.AudioContext();
+    const now = audioContext.currentTime;
+    if (cue === "success") {
+      beep(audioContext, 880, now, 0.09);
+      beep(audioContext, 1320, now + 0.1, 0.12);
+    } else {
+      beep(audioContext, 220, now, 0.45);
+    }
+  } catch {
+    // Audio blocked; the haptic / visual cue still fires.
+  }
+}
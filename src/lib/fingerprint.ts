@@ -0,0 +1,9 @@
+/** FNV-1a, 8 hex digits: a stable fingerprint of `text` for change detection and ids (not for security). */
+export function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
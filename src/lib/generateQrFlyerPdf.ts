@@ -57,6 +57,48 @@ function prepareClonedCaptureTree(clonedEl: HTMLElement): void {
   }
 }
 
+/** Wait for paint + images, then rasterise one fixed-width capture element. */
+async function captureElementPng(element: HTMLElement): Promise<{ imgData: string; aspectRatio: number }> {
+  // Let SVG/QR/logo paint before rasterising (helps mobile WebKit + chapter JPG logos).
+  await new Promise<void>((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+  });
+  const imgs = Array.from(element.querySelectorAll("img"));
+  await Promise.all(
+    imgs.map(
+      (img) =>
+        img.complete
+          ? Promise.resolve()
+          : new Promise<void>((resolve) => {
+              img.addEventListener("load", () => resolve(), { once: true });
+              img.addEventListener("error", () => resolve(), { once: true });
+            })
+    )
+  );
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    useCORS: true,
+    logging: false,
+    backgroundColor: "#ffffff",
+    allowTaint: false,
+    windowWidth: PDF_CAPTURE_WIDTH_PX,
+    onclone: (_doc, clonedEl) => {
+      prepareClonedCaptureTree(clonedEl);
+    }
+  });
+
+  if (canvas.width === 0 || canvas.height === 0) {
+    throw new Error("PDF capture failed: empty canvas");
+  }
+
+  const imgData = canvas.toDataURL("image/png");
+  if (!imgData || imgData === "data:,") {
+    throw new Error("PDF capture failed: empty image data");
+  }
+  return { imgData, aspectRatio: canvas.width / canvas.height };
+}
+
 /**
  * Rasterise the fixed-width `#qr-pdf` DOM with html2canvas, then pack into an A4 PDF blob.
  * Capture width is device-independent so mobile and desktop produce identical PDFs.
@@ -65,43 +107,7 @@ export async function generateQrFlyerPdfBlob(element: HTMLElement): Promise<Blob
   const restoreCaptureRoot = prepareCaptureRootForHtml2Canvas(element);
 
   try {
-    // Let SVG/QR/logo paint before rasterising (helps mobile WebKit + chapter JPG logos).
-    await new Promise<void>((resolve) => {
-      requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
-    });
-    const imgs = Array.from(element.querySelectorAll("img"));
-    await Promise.all(
-      imgs.map(
-        (img) =>
-          img.complete
-            ? Promise.resolve()
-            : new Promise<void>((resolve) => {
-                img.addEventListener("load", () => resolve(), { once: true });
-                img.addEventListener("error", () => resolve(), { once: true });
-              })
-      )
-    );
-
-    const canvas = await html2canvas(element, {
-      scale: 2,
-      useCORS: true,
-      logging: false,
-      backgroundColor: "#ffffff",
-      allowTaint: false,
-      windowWidth: PDF_CAPTURE_WIDTH_PX,
-      onclone: (_doc, clonedEl) => {
-        prepareClonedCaptureTree(clonedEl);
-      }
-    });
-
-    if (canvas.width === 0 || canvas.height === 0) {
-      throw new Error("PDF capture failed: empty canvas");
-    }
-
-    const imgData = canvas.toDataURL("image/png");
-    if (!imgData || imgData === "data:,") {
-      throw new Error("PDF capture failed: empty image data");
-    }
+    const { imgData, aspectRatio } = await captureElementPng(element);
 
     const pdf = new jsPDF({
       orientation: "portrait",
@@ -111,10 +117,9 @@ export async function generateQrFlyerPdfBlob(element: HTMLElement): Promise<Blob
 
     const availableWidth = A4_PAGE_WIDTH_MM - PDF_MARGIN_MM * 2;
     const availableHeight = A4_PAGE_HEIGHT_MM - PDF_MARGIN_MM * 2;
-    const imgAspectRatio = canvas.width / canvas.height;
 
     const imgWidth = availableWidth;
-    const imgHeight = imgWidth / imgAspectRatio;
+    const imgHeight = imgWidth / aspectRatio;
     const xPosition = PDF_MARGIN_MM;
     const yPosition = PDF_MARGIN_MM + Math.max(0, (availableHeight - imgHeight) / 2);
 
@@ -125,3 +130,35 @@ export async function generateQrFlyerPdfBlob(element: HTMLElement): Promise<Blob
     restoreCaptureRoot();
   }
 }
+
+/**
+ * One A4 page per capture element (same fixed-width capture as the flyer), top-aligned so cut lines
+ * land in the same place on every sheet. Used for the member badge sheet.
+ */
+export async function generatePagedPdfBlob(pages: HTMLElement[]): Promise<Blob> {
+  if (!pages.length) {
+    throw new Error("PDF capture failed: no pages");
+  }
+  const restoreCaptureRoot = prepareCaptureRootForHtml2Canvas(pages[0]);
+
+  try {
+    const pdf = new jsPDF({
+      orientation: "portrait",
+      unit: "mm",
+      format: "a4"
+    });
+    const availableWidth = A4_PAGE_WIDTH_MM - PDF_MARGIN_MM * 2;
+    const availableHeight = A4_PAGE_HEIGHT_MM - PDF_MARGIN_MM * 2;
+
+    for (const [index, page] of pages.entries()) {
+      const { imgData, aspectRatio } = await captureElementPng(page);
+      if (index > 0) pdf.addPage("a4", "portrait");
+      const imgHeight = Math.min(availableHeight, availableWidth / aspectRatio);
+      pdf.addImage(imgData, "PNG", PDF_MARGIN_MM, PDF_MARGIN_MM, imgHeight * aspectRatio, imgHeight);
+    }
+
+    return pdf.output("blob");
+  } finally {
+    restoreCaptureRoot();
+  }
+}
@@ -0,0 +1,207 @@
+import type { GuestInfo } from "../api";
+
+/**
+ * One person across events: every guest registration (visit) whose name normalizes to the same key.
+ * Registrations are keyed by name per event date, so after a merge renames the visits they group here.
+ */
+export type GuestIdentity = {
+  /** normalizeGuestName(name) */
+  key: string;
+  /** Spelling from the latest visit. */
+  name: string;
+  /** Latest non-empty profession. */
+  profession: string;
+  /** Latest phone number, normalized; "" when none was given. */
+  phoneNumber: string;
+  referrers: string[];
+  /** Oldest first. */
+  visits: GuestInfo[];
+};
+
+export type GuestDuplicateSignal = "phone" | "name" | "referrer";
+
+/** Identities that look like one person, with what links them. */
+export type GuestDuplicateProposal = {
+  /** Sorted identity keys joined with "|" — stable across reloads. */
+  id: string;
+  identities: GuestIdentity[];
+  signals: GuestDuplicateSignal[];
+  /** Highest name similarity between linked identities (0–1). */
+  nameSimilarity: number;
+};
+
+/** Name similarity at or above which two identities are proposed on the name alone. */
+export const NAME_MATCH_THRESHOLD = 0.9;
+/** Lower bar when both were brought by the same referrer (one wrong character in a three-character Chinese name). */
+export const NAME_MATCH_WITH_REFERRER_THRESHOLD = 0.65;
+
+const NAME_TITLES = new Set(["mr", "mrs", "ms", "miss", "dr", "prof", "sir", "madam"]);
+const HAN = /\p{Script=Han}/u;
+
+/**
+ * Digits only, without the +852 / 00852 prefix, so "+852 9123 4567" and "91234567" match.
+ * Returns "" for anything too short to identify a person.
+ */
+export function normalizePhoneNumber(raw: string | undefined): string {
+  let digits = (raw ?? "").replace(/\D/g, "");
+  if (digits.startsWith("00")) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith("852")) digits = digits.slice(3);
+  return digits.length >= 6 ? digits : "";
+}
+
+/** Lower-case, full-width folded, titles and punctuation dropped: "Mr. Peter  CHAN" → "peter chan". */
+export function normalizeGuestName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((token) => token && !NAME_TITLES.has(token))
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+const editSimilarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+/** Chinese characters and Latin tokens of a normalized name ("陳大文 peter chan" → "陳大文", ["chan", "peter"]). */
+function nameParts(normalized: string) {
+  const han = [...normalized].filter((ch) => HAN.test(ch)).join("");
+  const latin = normalized
+    .split(" ")
+    .map((token) => [...token].filter((ch) => !HAN.test(ch)).join(""))
+    .filter(Boolean)
+    .sort();
+  return { han, latin };
+}
+
+/**
+ * 0–1 similarity of two guest names. Chinese characters compare by edit distance; English names compare
+ * word-order-insensitively ("Chan Tai Man" = "Tai Man Chan"), and a two-word name contained in a longer one
+ * ("Peter Chan" in "Peter Chan Tai Man") scores 0.9. When both names have Chinese characters, the English part
+ * can never score above them ("陳大文 Peter Chan" vs "李小明 Peter Chan" stays low). Names sharing no script score 0.
+ */
+export function guestNameSimilarity(a: string, b: string): number {
+  const left = nameParts(normalizeGuestName(a));
+  const right = nameParts(normalizeGuestName(b));
+  const han = left.han && right.han ? editSimilarity(left.han, right.han) : null;
+  let latin: number | null = null;
+  if (left.latin.length > 0 && right.latin.length > 0) {
+    latin = editSimilarity(left.latin.join(" "), right.latin.join(" "));
+    const [shorter, longer] = left.latin.length <= right.latin.length ? [left.latin, right.latin] : [right.latin, left.latin];
+    if (shorter.length >= 2 && shorter.length < longer.length && shorter.every((token) => longer.includes(token))) {
+      latin = Math.max(latin, 0.9);
+    }
+  }
+  if (han !== null && latin !== null) return Math.min(han, latin);
+  return han ?? latin ?? 0;
+}
+
+/** Group registrations into identities by normalized name; latest visit wins for the profile fields. */
+export function groupGuestIdentities(guests: GuestInfo[]): GuestIdentity[] {
+  const byKey = new Map<string, GuestInfo[]>();
+  for (const guest of guests) {
+    const key = normalizeGuestName(guest.name);
+    if (!key) continue;
+    byKey.set(key, [...(byKey.get(key) ?? []), guest]);
+  }
+  return [...byKey].map(([key, visits]) => {
+    const sorted = [...visits].sort((x, y) => (x.eventDate ?? "").localeCompare(y.eventDate ?? ""));
+    const latestWith = (pick: (g: GuestInfo) => string) =>
+      [...sorted].reverse().map(pick).find((value) => value.trim()) ?? "";
+    return {
+      key,
+      name: sorted[sorted.length - 1].name.trim(),
+      profession: latestWith((g) => g.profession ?? ""),
+      phoneNumber: latestWith((g) => normalizePhoneNumber(g.phoneNumber)),
+      referrers: [...new Set(sorted.map((g) => (g.referrer ?? "").trim()).filter(Boolean))],
+      visits: sorted,
+    };
+  });
+}
+
+/** Key for "these two are different people" decisions, independent of order. */
+export const distinctPairKey = (a: string, b: string) => [a, b].sort().join("|");
+
+/**
+ * Propose identities that are probably one person: same phone number, a near-identical name, or a similar
+ * name brought by the same referrer. Linked identities are grouped transitively.
+ * @param {GuestIdentity[]} identities - groupGuestIdentities(guests)
+ * @param {Set<string>} [distinctPairs] - distinctPairKey()s the committee marked as different people
+ */
+export function proposeGuestDuplicates(
+  identities: GuestIdentity[],
+  distinctPairs: Set<string> = new Set()
+): GuestDuplicateProposal[] {
+  const parent = identities.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const links: { a: number; b: number; signals: GuestDuplicateSignal[]; similarity: number }[] = [];
+
+  for (let i = 0; i < identities.length; i++) {
+    for (let j = i + 1; j < identities.length; j++) {
+      const a = identities[i];
+      const b = identities[j];
+      if (distinctPairs.has(distinctPairKey(a.key, b.key))) continue;
+      const samePhone = Boolean(a.phoneNumber) && a.phoneNumber === b.phoneNumber;
+      const similarity = guestNameSimilarity(a.name, b.name);
+      const referrerKeys = new Set(a.referrers.map(normalizeGuestName));
+      const sameReferrer = b.referrers.some((r) => referrerKeys.has(normalizeGuestName(r)));
+      const nameMatch =
+        similarity >= NAME_MATCH_THRESHOLD || (sameReferrer && similarity >= NAME_MATCH_WITH_REFERRER_THRESHOLD);
+      if (!samePhone && !nameMatch) continue;
+
+      const signals: GuestDuplicateSignal[] = [];
+      if (samePhone) signals.push("phone");
+      if (nameMatch) signals.push("name");
+      if (sameReferrer) signals.push("referrer");
+      links.push({ a: i, b: j, signals, similarity });
+      parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, { members: Set<number>; signals: Set<GuestDuplicateSignal>; similarity: number }>();
+  for (const link of links) {
+    const root = find(link.a);
+    const group = groups.get(root) ?? { members: new Set<number>(), signals: new Set<GuestDuplicateSignal>(), similarity: 0 };
+    group.members.add(link.a).add(link.b);
+    link.signals.forEach((s) => group.signals.add(s));
+    group.similarity = Math.max(group.similarity, link.similarity);
+    groups.set(root, group);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const members = [...group.members].map((i) => identities[i]);
+      // Most visits first: that's usually the profile to keep.
+      members.sort((x, y) => y.visits.length - x.visits.length || x.name.localeCompare(y.name));
+      return {
+        id: members.map((m) => m.key).sort().join("|"),
+        identities: members,
+        signals: (["phone", "name", "referrer"] as const).filter((s) => group.signals.has(s)),
+        nameSimilarity: group.similarity,
+      };
+    })
+    .sort((x, y) => Number(y.signals.includes("phone")) - Number(x.signals.includes("phone")) || y.nameSimilarity - x.nameSimilarity);
+}
+
+/** Identities with more than one visit, most visits first (the membership committee's follow-up list). */
+export function repeatVisitors(identities: GuestIdentity[]): GuestIdentity[] {
+  return identities
+    .filter((identity) => identity.visits.length > 1)
+    .sort((a, b) => b.visits.length - a.visits.length || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,218 @@
+import {
+  fillGuestIntroduction,
+  getIntroductionFeedback,
+  getMatchOverrides,
+  getMembers,
+  getProfessionGroups,
+  getSeatingPlanVersions,
+  getStoredMatchResults,
+  type GuestIntroduction,
+  type IntroductionMember,
+  type MatchOverride,
+  type MatchedMember,
+  type MemberInfo,
+  type MemberIntroductionContext,
+  type SeatingPlanVersion,
+  type StoredMatchResult,
+} from "../api";
+import { matchGuestWithMembers } from "./assignGuestToTable";
+import { buildChapterPdfFilename } from "./chapterBranding";
+import { generatePagedPdfBlob } from "./generateQrFlyerPdf";
+import { normalizeGuestName } from "./guestIdentity";
+import { applyMatchOverrides, summarizeIntroductionFeedback, withIntroductionStats, type AdjustedMatchedMember } from "./matchFeedback";
+import { latestResultsByGuest } from "./matchResultStore";
+import { categoriesFromProfessionGroups, getMemberCategory, MEMBER_CATEGORIES, type MemberCategory } from "./memberCategories";
+import { toSeatingMember } from "./seatingOptimizer";
+
+/** Members listed on one card. */
+export const INTRODUCTION_MEMBER_LIMIT = 5;
+
+/** Cards per page of the printed batch. */
+export const INTRODUCTION_CARDS_PER_PAGE = 2;
+
+/** What a card is built from; loaded once per event (loadGuestIntroductionSources) and shared across guests. */
+export type GuestIntroductionSources = {
+  members: MemberInfo[];
+  categories: MemberCategory[];
+  stored: StoredMatchResult[];
+  overrides: MatchOverride[];
+  feedback: MemberIntroductionContext[];
+  /** Latest saved seating plan, for table numbers. */
+  seating: SeatingPlanVersion | null;
+};
+
+export type IntroductionGuest = {
+  name: string;
+  profession: string;
+  remarks?: string;
+};
+
+/** Phone link to a guest's card: `/guest/intro?id=` (the card's token, never the name) plus `chapter` outside Anchor. */
+export function buildGuestIntroductionUrl(origin: string, token: string, chapterTag?: string | null): string {
+  const url = new URL("/guest/intro", origin);
+  url.searchParams.set("id", token);
+  if (chapterTag && chapterTag !== "anchor") url.searchParams.set("chapter", chapterTag);
+  return url.toString();
+}
+
+/** "{Display-Name}-Guest-Introductions-{YYYY-MM-DD}.pdf" */
+export function buildGuestIntroductionPdfFilename(displayName: string, date: string): string {
+  return buildChapterPdfFilename(`${displayName} Guest Introductions`, date);
+}
+
+const STRENGTH_ORDER: Record<string, number> = { High: 0, Medium: 1, Low: 2 };
+
+/** Pinned first, then by strength; Low ones only when nothing stronger was found. */
+function pickIntroductionMatches(matched: AdjustedMatchedMember[]): AdjustedMatchedMember[] {
+  const sorted = [...matched].sort(
+    (a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || (STRENGTH_ORDER[a.matchStrength] ?? 2) - (STRENGTH_ORDER[b.matchStrength] ?? 2)
+  );
+  const strong = sorted.filter((m) => m.pinned || m.matchStrength !== "Low");
+  return (strong.length > 0 ? strong : sorted.slice(0, 3)).slice(0, INTRODUCTION_MEMBER_LIMIT);
+}
+
+/** Table of a seated person in a saved seating plan, found by name. */
+function tableInPlan(seating: SeatingPlanVersion | null, kind: "member" | "guest", name: string): number | null {
+  if (!seating) return null;
+  const people = kind === "member" ? seating.members : seating.guests;
+  const person = people.find((p) => normalizeGuestName(p.name) === normalizeGuestName(name));
+  if (!person) return null;
+  const table = seating.plan.tables.find((t) => (kind === "member" ? t.memberIds : t.guestIds).includes(person.id));
+  return table?.table ?? null;
+}
+
+/** A guest's card from their (already adjusted) matches: category colour and table per member. Pure. */
+export function buildGuestIntroduction(
+  eventId: number,
+  guest: IntroductionGuest,
+  matched: AdjustedMatchedMember[],
+  provider: string | null,
+  sources: Pick<GuestIntroductionSources, "members" | "categories" | "seating">,
+  now: Date = new Date()
+): GuestIntroduction {
+  const memberByName = new Map(sources.members.map((m) => [normalizeGuestName(m.name), m]));
+  const members = pickIntroductionMatches(matched).map((m): IntroductionMember => {
+    const info = memberByName.get(normalizeGuestName(m.memberName));
+    const category = info ? getMemberCategory(info, sources.categories) : undefined;
+    return {
+      memberName: m.memberName,
+      profession: m.profession || info?.domain || "",
+      matchStrength: m.matchStrength,
+      reason: m.reason,
+      categoryName: category && category.code !== "OTHER" ? category.nameZh : "",
+      accent: category?.accent ?? "#64748b",
+      tableNumber: tableInPlan(sources.seating, "member", m.memberName),
+    };
+  });
+  return {
+    eventId,
+    guestKey: normalizeGuestName(guest.name),
+    guestName: guest.name.trim(),
+    guestProfession: guest.profession,
+    tableNumber: tableInPlan(sources.seating, "guest", guest.name),
+    provider,
+    generatedAt: now.toISOString(),
+    members,
+  };
+}
+
+/**
+ * Everything cards for an event are built from. Stored matches, overrides, feedback and seating that fail to load
+ * (e.g. on the kiosk, without an admin session) are left empty, so cards fall back to a fresh match.
+ * Side effect: network.
+ */
+export async function loadGuestIntroductionSources(
+  eventId: number,
+  chapterTag?: string | null,
+  chapterId?: number | null
+): Promise<GuestIntroductionSources> {
+  const [{ members }, groups, stored, overrides, feedback, seating] = await Promise.all([
+    getMembers(chapterTag),
+    getProfessionGroups(chapterTag, chapterId).catch(() => null),
+    getStoredMatchResults(eventId, chapterTag).catch(() => []),
+    getMatchOverrides(eventId, chapterTag).catch(() => []),
+    getIntroductionFeedback(chapterTag).catch(() => []),
+    getSeatingPlanVersions(eventId, chapterTag).catch(() => []),
+  ]);
+  const chapterCategories = categoriesFromProfessionGroups(groups?.professionGroups ?? []);
+  return {
+    members: members ?? [],
+    categories: chapterCategories.length > 0 ? chapterCategories : MEMBER_CATEGORIES,
+    stored,
+    overrides,
+    feedback: summarizeIntroductionFeedback(feedback),
+    seating: seating[0] ?? null,
+  };
+}
+
+/**
+ * A guest's card from their latest stored matches (with admin overrides), or from a fresh matchGuestWithMembers call
+ * when none are stored. Side effect: network (fresh match only).
+ */
+export async function prepareGuestIntroduction(
+  eventId: number,
+  guest: IntroductionGuest,
+  sources: GuestIntroductionSources
+): Promise<GuestIntroduction> {
+  const guestKey = normalizeGuestName(guest.name);
+  const stored = latestResultsByGuest(sources.stored).get(guestKey);
+  if (stored) {
+    const overrides = sources.overrides.filter((o) => o.eventId === eventId && o.guestKey === guestKey);
+    return buildGuestIntroduction(eventId, guest, applyMatchOverrides(stored.matchedMembers, overrides), stored.provider, sources);
+  }
+
+  const members = withIntroductionStats(
+    sources.members.map((m) => toSeatingMember(m, sources.categories)),
+    sources.feedback
+  );
+  const result = await matchGuestWithMembers(
+    { id: `guest-${guestKey}`, name: guest.name.trim(), profession: guest.profession, bottlenecks: [], remarks: guest.remarks },
+    members
+  );
+  const matched: MatchedMember[] = result.recommendedMembers.map((m) => ({
+    memberName: m.member.name,
+    profession: m.member.profession,
+    matchStrength: m.matchStrength,
+    reason: m.reason,
+  }));
+  return buildGuestIntroduction(eventId, guest, matched, result.provider, sources);
+}
+
+/** Token a kiosk proposes for a guest's card at check-in (logAttendance); unguessable, since it is the card's only key. */
+export function newGuestIntroductionToken(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Build a guest's card (prepareGuestIntroduction) and fill the empty one reserved under `token` at check-in.
+ * Side effect: network.
+ */
+export async function completeGuestIntroduction(
+  eventId: number,
+  token: string,
+  guest: IntroductionGuest,
+  chapterTag?: string | null,
+  chapterId?: number | null
+): Promise<GuestIntroduction> {
+  const sources = await loadGuestIntroductionSources(eventId, chapterTag, chapterId);
+  return fillGuestIntroduction(token, await prepareGuestIntroduction(eventId, guest, sources), chapterTag);
+}
+
+/**
+ * Capture every `.guest-intro-page` under `rootElementId` into one A4 PDF and download it. The sheet must already be
+ * rendered (see GuestIntroductionSheet). Side effects: DOM capture, file download.
+ */
+export async function downloadGuestIntroductionPdf(rootElementId: string, filename: string): Promise<void> {
+  const root = document.getElementById(rootElementId);
+  const pages = root ? Array.from(root.querySelectorAll<HTMLElement>(".guest-intro-page")) : [];
+  if (!pages.length) {
+    throw new Error("Guest introduction sheet not found");
+  }
+  const pdfBlob = await generatePagedPdfBlob(pages);
+  const url = URL.createObjectURL(pdfBlob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,262 @@
+import {
+  bulkImport,
+  bulkImportObservers,
+  bulkSetPlannedSubstitutes,
+  deleteGuest,
+  deleteObserver,
+  deletePlannedSubstitute,
+  getGuests,
+  getObservers,
+  getPlannedSubstitutes,
+  type GuestInfo,
+  type ImportRecord,
+  type ImportResult,
+  type ObserverInfo,
+  type PlannedSubstitute,
+} from "../api";
+
+export type ImportDiffEntity = "guest" | "observer" | "substitute";
+export type ImportDiffStatus = "new" | "changed" | "unchanged" | "removed";
+
+export type ImportFieldChange = {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+};
+
+/** One person (or substitute pair) of an import compared with what the event already holds. */
+export type ImportDiffRow = {
+  /** Stable across re-renders: entity + normalized name (member name for substitutes). */
+  id: string;
+  entity: ImportDiffEntity;
+  status: ImportDiffStatus;
+  /** Guest / observer name; the member being substituted for substitutes. */
+  name: string;
+  changes: ImportFieldChange[];
+  /** Guest / observer record written when a new or changed row is applied. */
+  record?: ImportRecord;
+  /** Substitute pair written when a new or changed row is applied. */
+  substitute?: PlannedSubstitute;
+};
+
+/** Rows about to be imported for one event date; an omitted list isn't reconciled (no "removed" rows for it). */
+export type ImportDraft = {
+  guests?: ImportRecord[];
+  observers?: ImportRecord[];
+  substitutes?: PlannedSubstitute[];
+};
+
+/** What the backend already holds for the event date. */
+export type ExistingRegistrations = {
+  guests: GuestInfo[];
+  observers: ObserverInfo[];
+  substitutes: PlannedSubstitute[];
+};
+
+type ComparedField<T> = {
+  field: string;
+  label: string;
+  value: (item: T) => string | undefined;
+  /** A blank import value means "not given" rather than "cleared". */
+  skipBlank?: boolean;
+};
+
+const GUEST_FIELDS: ComparedField<ImportRecord | GuestInfo>[] = [
+  { field: "profession", label: "專業", value: (g) => g.profession },
+  { field: "referrer", label: "介紹人", value: (g) => g.referrer ?? "" },
+  { field: "role", label: "角色", value: (g) => g.role, skipBlank: true },
+  { field: "phoneNumber", label: "電話", value: (g) => g.phoneNumber, skipBlank: true },
+];
+
+const OBSERVER_FIELDS: ComparedField<ImportRecord | ObserverInfo>[] = [
+  { field: "profession", label: "專業", value: (o) => o.profession },
+];
+
+const SUBSTITUTE_FIELDS: ComparedField<PlannedSubstitute>[] = [
+  { field: "substituteName", label: "替代人", value: (s) => s.substituteName },
+];
+
+const normalizeKey = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+/** Existing guests without a role are plain guests. */
+const existingGuestRole = (guest: GuestInfo) => guest.role ?? "GUEST";
+
+function fieldChanges<T>(fields: ComparedField<T>[], incoming: T, existing: T): ImportFieldChange[] {
+  const changes: ImportFieldChange[] = [];
+  for (const { field, label, value, skipBlank } of fields) {
+    const to = (value(incoming) ?? "").trim();
+    if (skipBlank && !to) continue;
+    const from = (value(existing) ?? "").trim();
+    if (from !== to) changes.push({ field, label, from, to });
+  }
+  return changes;
+}
+
+function reconcileList<In, Ex>(
+  entity: ImportDiffEntity,
+  incoming: In[],
+  existing: Ex[],
+  keyOf: (item: In | Ex) => string,
+  compare: (incoming: In, existing: Ex) => ImportFieldChange[],
+  toRow: (item: In) => Pick<ImportDiffRow, "name" | "record" | "substitute">,
+  nameOf: (item: Ex) => string
+): ImportDiffRow[] {
+  // A name listed twice is written twice by the bulk upsert, so the last occurrence is what sticks.
+  const incomingByKey = new Map<string, In>();
+  for (const item of incoming) {
+    const key = keyOf(item);
+    if (key) incomingByKey.set(key, item);
+  }
+  const existingByKey = new Map(existing.map((item) => [keyOf(item), item] as const));
+
+  const rows: ImportDiffRow[] = [];
+  for (const [key, item] of incomingByKey) {
+    const current = existingByKey.get(key);
+    const changes = current ? compare(item, current) : [];
+    rows.push({
+      id: `${entity}:${key}`,
+      entity,
+      status: !current ? "new" : changes.length > 0 ? "changed" : "unchanged",
+      changes,
+      ...toRow(item),
+    });
+  }
+  for (const [key, item] of existingByKey) {
+    if (incomingByKey.has(key)) continue;
+    rows.push({ id: `${entity}:${key}`, entity, status: "removed", name: nameOf(item), changes: [] });
+  }
+  return rows;
+}
+
+/**
+ * Compare an import with the event's current guests, observers and planned substitutes.
+ * People match by name (case / spacing-insensitive); substitutes match by the member they stand in for.
+ * @param {ImportDraft} draft - Parsed announcement or CSV rows for one event date
+ * @param {ExistingRegistrations} existing - loadExistingRegistrations(eventDate, …)
+ * @returns {ImportDiffRow[]} Guests, then observers, then substitutes; removed rows after each list's imports
+ */
+export function reconcileImport(draft: ImportDraft, existing: ExistingRegistrations): ImportDiffRow[] {
+  const rows: ImportDiffRow[] = [];
+  if (draft.guests) {
+    rows.push(
+      ...reconcileList<ImportRecord, GuestInfo>(
+        "guest",
+        draft.guests,
+        existing.guests,
+        (g) => normalizeKey(g.name),
+        (g, current) => fieldChanges(GUEST_FIELDS, g, { ...current, role: existingGuestRole(current) }),
+        (g) => ({ name: g.name.trim(), record: g }),
+        (g) => g.name
+      )
+    );
+  }
+  if (draft.observers) {
+    rows.push(
+      ...reconcileList<ImportRecord, ObserverInfo>(
+        "observer",
+        draft.observers,
+        existing.observers,
+        (o) => normalizeKey(o.name),
+        (o, current) => fieldChanges(OBSERVER_FIELDS, o, current),
+        (o) => ({ name: o.name.trim(), record: o }),
+        (o) => o.name
+      )
+    );
+  }
+  if (draft.substitutes) {
+    rows.push(
+      ...reconcileList<PlannedSubstitute, PlannedSubstitute>(
+        "substitute",
+        draft.substitutes,
+        existing.substitutes,
+        (s) => normalizeKey(s.memberName),
+        (s, current) => fieldChanges(SUBSTITUTE_FIELDS, s, current),
+        (s) => ({ name: s.memberName.trim(), substitute: s }),
+        (s) => s.memberName
+      )
+    );
+  }
+  return rows;
+}
+
+/** Rows ticked by default: everything that adds or updates data. Deletions are opt-in. */
+export const defaultSelectedDiffRows = (rows: ImportDiffRow[]): Set<string> =>
+  new Set(rows.filter((r) => r.status === "new" || r.status === "changed").map((r) => r.id));
+
+/** Current guests, observers and planned substitutes for an event date. */
+export async function loadExistingRegistrations(
+  eventDate: string,
+  chapterTag: string,
+  chapterId: number
+): Promise<ExistingRegistrations> {
+  const [{ guests }, { observers }, { substitutes }] = await Promise.all([
+    getGuests(eventDate, chapterTag),
+    getObservers(eventDate, chapterTag),
+    getPlannedSubstitutes(eventDate, chapterTag, chapterId),
+  ]);
+  return { guests: guests ?? [], observers: observers ?? [], substitutes: substitutes ?? [] };
+}
+
+/** Outcome of the row-by-row deletions, reported like the bulk ImportResult: one error per failed row. */
+export type ImportDeleteResult = {
+  total: number;
+  deleted: number;
+  failed: number;
+  errors: string[];
+};
+
+export type ImportApplyResult = {
+  guests: ImportResult | null;
+  observers: ImportResult | null;
+  substitutes: ImportResult | null;
+  deletions: ImportDeleteResult | null;
+};
+
+/**
+ * Write the selected rows: new / changed ones through the bulk imports, removed ones as deletions for that date.
+ * Unchanged rows are skipped. A failed deletion is reported in `deletions.errors` and the rest still run.
+ * The event for `eventDate` must already exist.
+ */
+export async function applyImportDiff(
+  eventDate: string,
+  rows: ImportDiffRow[],
+  chapterTag: string,
+  chapterId: number
+): Promise<ImportApplyResult> {
+  const upserts = rows.filter((r) => r.status === "new" || r.status === "changed");
+  const guestRecords = upserts.filter((r) => r.entity === "guest" && r.record).map((r) => r.record as ImportRecord);
+  const observerRecords = upserts.filter((r) => r.entity === "observer" && r.record).map((r) => r.record as ImportRecord);
+  const substitutePairs = upserts
+    .filter((r) => r.entity === "substitute" && r.substitute)
+    .map((r) => r.substitute as PlannedSubstitute);
+
+  const result: ImportApplyResult = { guests: null, observers: null, substitutes: null, deletions: null };
+  if (guestRecords.length > 0) {
+    result.guests = await bulkImport({ type: "guest", records: guestRecords }, chapterTag, chapterId);
+  }
+  if (observerRecords.length > 0) {
+    result.observers = await bulkImportObservers(observerRecords, chapterTag, chapterId);
+  }
+  if (substitutePairs.length > 0) {
+    result.substitutes = await bulkSetPlannedSubstitutes(eventDate, substitutePairs, chapterTag, chapterId);
+  }
+
+  const removals = rows.filter((r) => r.status === "removed");
+  if (removals.length > 0) {
+    const deletions: ImportDeleteResult = { total: removals.length, deleted: 0, failed: 0, errors: [] };
+    for (const row of removals) {
+      try {
+        if (row.entity === "guest") await deleteGuest(row.name, eventDate, chapterTag, chapterId);
+        else if (row.entity === "observer") await deleteObserver(row.name, eventDate, chapterTag, chapterId);
+        else await deletePlannedSubstitute(eventDate, row.name, chapterTag, chapterId);
+        deletions.deleted += 1;
+      } catch (error) {
+        deletions.failed += 1;
+        deletions.errors.push(`${row.name}: ${error instanceof Error ? error.message : "未知錯誤"}`);
+      }
+    }
+    result.deletions = deletions;
+  }
+  return result;
+}
@@ -1,57 +1,103 @@
 import type { Guest, Member, MemberMatch } from "../types/seating";
+import { MEMBER_CATEGORIES, type MemberCategory } from "./memberCategories";
+import {
+  areConceptsRelated,
+  conceptCategoryCodes,
+  conceptLabel,
+  extractProfessionConcepts,
+  normalizeProfessionText,
+} from "./professionOntology";
+
+/** Points per target / bottleneck hit: same concept (or literal word), adjacent concept. */
+const TARGET_SCORE = { direct: 5, related: 3 };
+const BOTTLENECK_SCORE = { direct: 3, related: 2 };
+/** Member's profession group is one the guest's concepts belong to. */
+const CATEGORY_SCORE = 1;
+/** Per useful past introduction (Member.introductions), capped; only added to members already relevant. */
+const FEEDBACK_SCORE = { perUseful: 1, max: 2 };
+
+/** Words the ontology doesn't know; they still match member professions literally. */
+const literalKeywords = (text: string) =>
+  normalizeProfessionText(text)
+    .split(/[\s,，、;；/]+/)
+    .filter((word) => word && extractProfessionConcepts(word).length === 0);
+
+/** Guest concepts the member covers directly, and the rest that are adjacent to one of the member's concepts. */
+const conceptOverlap = (wanted: string[], offered: string[]) => {
+  const direct = wanted.filter((id) => offered.includes(id));
+  const related = wanted.filter((id) => !direct.includes(id) && offered.some((o) => areConceptsRelated(id, o)));
+  return { direct, related };
+};
 
 /**
- * Keyword-based member matching fallback: scores members by targetProfession and bottlenecks keywords; returns top 10.
- * No side effects. Purely synchronous.
+ * Keyword-based member matching fallback: maps targetProfession, bottlenecks and member professions onto the
+ * bilingual profession ontology (so "保險" meets "Insurance Broker"), then scores same-concept hits, adjacent
+ * concepts (insurance ↔ financial planning) and the chapter profession group; unknown words still match literally.
+ * Relevant members whose past introductions were useful get a small boost.
+ * Returns top 10. No side effects. Purely synchronous.
  * @param {Guest} guest - targetProfession and bottlenecks used for scoring
- * @param {Member[]} members
+ * @param {Member[]} members - `category` (chapter group code) enables the group bonus; `introductions` the feedback boost
+ * @param {MemberCategory[]} categories - chapter profession groups (categoriesFromProfessionGroups)
  * @returns {MemberMatch[]} Up to 10 matches sorted by score (High ≥8, Medium ≥3)
  * @example const matches = matchMembersByKeyword(guest, members);
  */
 export const matchMembersByKeyword = (
   guest: Guest,
-  members: Member[]
+  members: Member[],
+  categories: MemberCategory[] = MEMBER_CATEGORIES
 ): MemberMatch[] => {
-  const targetKeywords = guest.targetProfession 
-    ? guest.targetProfession.toLowerCase().split(/\s+/)
-    : [];
-  const bottleneckKeywords = guest.bottlenecks
-    .join(" ")
-    .toLowerCase()
-    .split(/\s+/);
+  const targetText = guest.targetProfession ?? "";
+  const bottleneckText = guest.bottlenecks.join(" ");
+  const targetConcepts = extractProfessionConcepts(targetText);
+  const bottleneckConcepts = extractProfessionConcepts(bottleneckText);
+  const targetKeywords = literalKeywords(targetText);
+  const bottleneckKeywords = literalKeywords(bottleneckText);
+  const wantedCategories = conceptCategoryCodes([...targetConcepts, ...bottleneckConcepts], categories);
 
   const scored = members.map((member) => {
-    let score = 0;
-    const profession = member.profession.toLowerCase();
-
-    // Check target profession match (if specified)
-    targetKeywords.forEach((keyword) => {
-      if (profession.includes(keyword)) score += 5;
-    });
+    const profession = normalizeProfessionText(member.profession);
+    const memberConcepts = extractProfessionConcepts(member.profession);
+    const target = conceptOverlap(targetConcepts, memberConcepts);
+    const bottleneck = conceptOverlap(bottleneckConcepts, memberConcepts);
+    const targetMatches = targetKeywords.filter((kw) => profession.includes(kw));
+    const bottleneckMatches = bottleneckKeywords.filter((kw) => profession.includes(kw));
+    const inWantedCategory = Boolean(member.category && wantedCategories.has(member.category));
 
-    // Check bottleneck resolution potential
-    bottleneckKeywords.forEach((keyword) => {
-      if (profession.includes(keyword)) score += 3;
-    });
+    const relevance =
+      (target.direct.length + targetMatches.length) * TARGET_SCORE.direct +
+      target.related.length * TARGET_SCORE.related +
+      (bottleneck.direct.length + bottleneckMatches.length) * BOTTLENECK_SCORE.direct +
+      bottleneck.related.length * BOTTLENECK_SCORE.related +
+      (inWantedCategory ? CATEGORY_SCORE : 0);
+    const useful = member.introductions?.useful ?? 0;
+    const feedbackBoost = relevance > 0 ? Math.min(FEEDBACK_SCORE.max, useful * FEEDBACK_SCORE.perUseful) : 0;
+    const score = relevance + feedbackBoost;
 
     let matchStrength: "High" | "Medium" | "Low" = "Low";
     if (score >= 8) matchStrength = "High";
     else if (score >= 3) matchStrength = "Medium";
 
-    // Build reason based on matches
-    const targetMatches = targetKeywords.filter((kw) => profession.includes(kw));
-    const bottleneckMatches = bottleneckKeywords.filter((kw) => profession.includes(kw));
+    const targetHit = target.direct.length + targetMatches.length > 0;
+    const bottleneckHit = bottleneck.direct.length + bottleneckMatches.length > 0;
+    const related = [...target.related, ...bottleneck.related];
 
     let reason = "";
-    if (targetMatches.length > 0 && bottleneckMatches.length > 0) {
+    if (targetHit && bottleneckHit) {
       reason = `${member.name} (${member.profession}) 的專業領域符合你的目標對接需求，並且可能協助解決你的瓶頸。`;
-    } else if (targetMatches.length > 0) {
+    } else if (targetHit) {
       reason = `${member.name} (${member.profession}) 是你的目標對接對象，值得深入交流。`;
-    } else if (bottleneckMatches.length > 0) {
+    } else if (bottleneckHit) {
       reason = `${member.name} (${member.profession}) 可能協助解決你提到的瓶頸問題。`;
+    } else if (related.length > 0) {
+      reason = `${member.name} (${member.profession}) 的領域與你關注的${related.map(conceptLabel).join("、")}相關，值得交流。`;
+    } else if (inWantedCategory) {
+      reason = `${member.name} (${member.profession}) 屬於與你需求相關的專業類別。`;
     } else {
       reason = `${member.name} (${member.profession}) 可提供一般人脈拓展機會。`;
     }
+    if (feedbackBoost > 0) {
+      reason += `過往有 ${useful} 次引薦獲評為有幫助。`;
+    }
 
     return {
       member,
@@ -0,0 +1,86 @@
+import type { IntroductionFeedback, MatchOverride, MatchedMember, MemberIntroductionContext } from "../api";
+import type { Member } from "../types/seating";
+import { normalizeGuestName } from "./guestIdentity";
+
+/** A recommendation after admin overrides; `pinned` ones come first, `edited` marks a changed strength or reason. */
+export type AdjustedMatchedMember = MatchedMember & {
+  pinned?: boolean;
+  edited?: boolean;
+};
+
+const overrideKey = (o: Pick<MatchOverride, "eventId" | "guestKey" | "memberName">) =>
+  `${o.eventId}|${o.guestKey}|${normalizeGuestName(o.memberName)}`;
+
+const feedbackKey = (f: Pick<IntroductionFeedback, "eventId" | "guestKey" | "memberName">) =>
+  `${f.eventId}|${f.guestKey}|${normalizeGuestName(f.memberName)}`;
+
+/** `list` with `override` replacing the one for the same (event, guest, member). */
+export const upsertMatchOverride = (list: MatchOverride[], override: MatchOverride) => [
+  ...list.filter((o) => overrideKey(o) !== overrideKey(override)),
+  override,
+];
+
+/** `list` with `feedback` replacing the one for the same (event, guest, member). */
+export const upsertIntroductionFeedback = (list: IntroductionFeedback[], feedback: IntroductionFeedback) => [
+  ...list.filter((f) => feedbackKey(f) !== feedbackKey(feedback)),
+  feedback,
+];
+
+/**
+ * A guest's recommendations with their overrides applied: removed members dropped, strength and reason replaced,
+ * pinned members moved to the top (and added when the provider never suggested them). Pure.
+ */
+export function applyMatchOverrides(matched: MatchedMember[], overrides: MatchOverride[]): AdjustedMatchedMember[] {
+  const byMember = new Map(overrides.map((o) => [normalizeGuestName(o.memberName), o]));
+  const adjust = (m: MatchedMember, o: MatchOverride | undefined): AdjustedMatchedMember => {
+    if (!o) return m;
+    const matchStrength = o.matchStrength || m.matchStrength;
+    const reason = o.reason?.trim() || m.reason;
+    return {
+      ...m,
+      matchStrength,
+      reason,
+      pinned: o.pinned || undefined,
+      edited: matchStrength !== m.matchStrength || reason !== m.reason || undefined,
+    };
+  };
+
+  const adjusted = matched
+    .filter((m) => !byMember.get(normalizeGuestName(m.memberName))?.removed)
+    .map((m) => adjust(m, byMember.get(normalizeGuestName(m.memberName))));
+  const suggested = new Set(matched.map((m) => normalizeGuestName(m.memberName)));
+  const added = overrides
+    .filter((o) => o.pinned && !o.removed && !suggested.has(normalizeGuestName(o.memberName)))
+    .map((o) => ({
+      ...adjust({ memberName: o.memberName, profession: o.profession, matchStrength: "High", reason: "" }, o),
+      edited: undefined,
+    }));
+  return [...adjusted.filter((m) => m.pinned), ...added, ...adjusted.filter((m) => !m.pinned)];
+}
+
+/** Per-member outcome counts from recorded feedback (latest entry per event, guest and member). */
+export function summarizeIntroductionFeedback(feedback: IntroductionFeedback[]): MemberIntroductionContext[] {
+  const latest = new Map<string, IntroductionFeedback>();
+  for (const f of [...feedback].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))) {
+    latest.set(feedbackKey(f), f);
+  }
+  const byMember = new Map<string, MemberIntroductionContext>();
+  for (const f of latest.values()) {
+    const key = normalizeGuestName(f.memberName);
+    const stats = byMember.get(key) ?? { memberName: f.memberName.trim(), recorded: 0, happened: 0, useful: 0 };
+    stats.recorded += 1;
+    if (f.happened) stats.happened += 1;
+    if (f.happened && f.useful) stats.useful += 1;
+    byMember.set(key, stats);
+  }
+  return [...byMember.values()];
+}
+
+/** Members with their introduction stats attached (matched by normalized name), for the match providers. */
+export function withIntroductionStats(members: Member[], summary: MemberIntroductionContext[]): Member[] {
+  const byName = new Map(summary.map((s) => [normalizeGuestName(s.memberName), s]));
+  return members.map((m) => {
+    const stats = byName.get(normalizeGuestName(m.name));
+    return stats ? { ...m, introductions: { recorded: stats.recorded, happened: stats.happened, useful: stats.useful } } : m;
+  });
+}
@@ -10,9 +10,9 @@ export type MatchGuestRequest = {
   members: Member[];
 };
 
-/** Response: MatchResult plus optional provider. */
+/** Response: MatchResult plus optional provider (a lib/matchProviders id, e.g. "deepseek"). */
 export type MatchGuestResponse = MatchResult & {
-  provider?: "deepseek" | "gemini" | "keyword" | null;
+  provider?: string | null;
 };
 
 const API_BASE = import.meta.env.VITE_API_BASE || window.location.origin;
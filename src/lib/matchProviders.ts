@@ -0,0 +1,191 @@
+import { requestMemberMatches } from "../api";
+import type { Guest, Member, MemberMatch } from "../types/seating";
+import { normalizeGuestName } from "./guestIdentity";
+import { matchMembersByKeyword } from "./keywordMatch";
+
+/**
+ * A source of member recommendations. `match` returns the provider's raw response, which must satisfy
+ * MATCH_RESPONSE_SCHEMA; the registry handles timeouts, validation and mapping names back to members.
+ * AI providers run on the backend only, so no API key ever ships in the bundle.
+ */
+export type MatchProvider = {
+  id: string;
+  /** Badge text. */
+  label: string;
+  /** Rule-based and offline; always answers. */
+  local: boolean;
+  timeoutMs: number;
+  /** Other ids the backend reports for this provider (batch responses say "keyword"). */
+  aliases?: string[];
+  match: (guest: Guest, members: Member[], signal: AbortSignal) => Promise<unknown>;
+};
+
+export type ProviderMatchResult = {
+  matches: MemberMatch[];
+  /** Provider whose matches were used; null when every provider failed or found nobody. */
+  provider: MatchProvider | null;
+  /** Providers tried before it, with why they were skipped. */
+  failures: { providerId: string; error: string }[];
+};
+
+/** The subset of JSON Schema the match responses need. */
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "boolean";
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+};
+
+export const MATCH_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["matches"],
+  properties: {
+    matches: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["memberName", "matchStrength", "reason"],
+        properties: {
+          memberName: { type: "string", minLength: 1 },
+          matchStrength: { type: "string", enum: ["High", "Medium", "Low"] },
+          reason: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+type MatchResponse = {
+  matches: { memberName: string; matchStrength: MemberMatch["matchStrength"]; reason: string }[];
+};
+
+const typeOf = (value: unknown) => (Array.isArray(value) ? "array" : value === null ? "null" : typeof value);
+
+/** Errors ("$.matches[0].matchStrength: …") for `value` against `schema`; empty when it conforms. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (schema.type && typeOf(value) !== schema.type) return [`${path}: expected ${schema.type}, got ${typeOf(value)}`];
+  if (schema.enum && !schema.enum.includes(value)) return [`${path}: ${JSON.stringify(value)} not in ${JSON.stringify(schema.enum)}`];
+  if (schema.minLength != null && typeof value === "string" && value.trim().length < schema.minLength) {
+    return [`${path}: shorter than ${schema.minLength}`];
+  }
+  const errors: string[] = [];
+  if (schema.type === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (key in record) errors.push(...validateJsonSchema(record[key], child, `${path}.${key}`));
+    }
+  }
+  if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+  return errors;
+}
+
+const registry = new Map<string, MatchProvider>();
+
+/** Add (or replace) a provider; providers are tried in registration order. */
+export function registerMatchProvider(provider: MatchProvider): void {
+  registry.delete(provider.id);
+  registry.set(provider.id, provider);
+}
+
+export const getMatchProviders = (): MatchProvider[] => [...registry.values()];
+
+export const getMatchProvider = (id: string | null | undefined): MatchProvider | undefined =>
+  id ? registry.get(id) ?? [...registry.values()].find((p) => p.aliases?.includes(id)) : undefined;
+
+export const matchProviderLabel = (id: string | null | undefined) => getMatchProvider(id)?.label ?? (id ? id.toUpperCase() : "—");
+
+async function runWithTimeout(provider: MatchProvider, guest: Guest, members: Member[]): Promise<unknown> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`逾時（${provider.timeoutMs / 1000}s）`));
+    }, provider.timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.match(guest, members, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Try providers in order (all registered, or `providerIds`) until one returns a schema-valid, non-empty list whose
+ * names resolve to members. Never throws; failures are reported per provider.
+ */
+export async function matchWithProviders(guest: Guest, members: Member[], providerIds?: string[]): Promise<ProviderMatchResult> {
+  const providers = providerIds
+    ? providerIds.map(getMatchProvider).filter((p): p is MatchProvider => Boolean(p))
+    : getMatchProviders();
+  const memberByName = new Map(members.map((m) => [normalizeGuestName(m.name), m]));
+  const failures: ProviderMatchResult["failures"] = [];
+
+  for (const provider of providers) {
+    try {
+      const response = await runWithTimeout(provider, guest, members);
+      const errors = validateJsonSchema(response, MATCH_RESPONSE_SCHEMA);
+      if (errors.length > 0) throw new Error(`回應格式不符：${errors.slice(0, 3).join("; ")}`);
+      const matches = (response as MatchResponse).matches.flatMap((m) => {
+        const member = memberByName.get(normalizeGuestName(m.memberName));
+        return member ? [{ member, matchStrength: m.matchStrength, reason: m.reason }] : [];
+      });
+      if (matches.length === 0) throw new Error("沒有可用的配對會員");
+      return { matches, provider, failures };
+    } catch (error) {
+      failures.push({ providerId: provider.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { matches: [], provider: null, failures };
+}
+
+/** Backend DeepSeek (POST /api/matching/members); its `matches` arrives as a JSON string of the array. */
+export const deepSeekBackendProvider: MatchProvider = {
+  id: "deepseek",
+  label: "🤖 DeepSeek AI",
+  local: false,
+  timeoutMs: 45000,
+  async match(guest, members, signal) {
+    const data = await requestMemberMatches(
+      {
+        guestName: guest.name,
+        guestProfession: guest.profession,
+        guestTargetProfession: guest.targetProfession || null,
+        guestBottlenecks: guest.bottlenecks || [],
+        guestRemarks: guest.remarks || null,
+        members: members.map((m) => ({ name: m.name, profession: m.profession, introductions: m.introductions })),
+      },
+      signal
+    );
+    const matches = typeof data.matches === "string" ? JSON.parse(data.matches) : data.matches;
+    return Array.isArray(matches) ? { matches } : matches;
+  },
+};
+
+/** Profession-ontology keyword matching; deterministic, offline, and the last resort. */
+export const localRuleProvider: MatchProvider = {
+  id: "local",
+  label: "🔍 本機規則配對",
+  local: true,
+  timeoutMs: 2000,
+  aliases: ["keyword"],
+  async match(guest, members) {
+    return {
+      matches: matchMembersByKeyword(guest, members).map((m) => ({
+        memberName: m.member.name,
+        matchStrength: m.matchStrength,
+        reason: m.reason,
+      })),
+    };
+  },
+};
+
+registerMatchProvider(deepSeekBackendProvider);
+registerMatchProvider(localRuleProvider);
@@ -0,0 +1,178 @@
+import type { BatchGuestInfo, BatchMatchResult, MatchedMember, StoredMatchResult } from "../api";
+import { fingerprint } from "./fingerprint";
+import { normalizeGuestName } from "./guestIdentity";
+
+/** One stored run: when it ran, who answered and against which roster. */
+export type MatchRunSummary = {
+  runId: string;
+  matchedAt: string;
+  provider: string | null;
+  rosterVersion: string;
+  guestCount: number;
+  /** Guests actually sent to the provider in this run (the rest were reused). */
+  rematchedCount: number;
+};
+
+/** The guests a new run must send to the provider, and the stored results still valid for the others. */
+export type MatchRunPlan = {
+  rerun: BatchGuestInfo[];
+  reuse: StoredMatchResult[];
+};
+
+/** One guest in a side-by-side comparison of two runs. */
+export type MatchRunComparisonRow = {
+  guestKey: string;
+  guestName: string;
+  a?: StoredMatchResult;
+  b?: StoredMatchResult;
+  /** Members recommended only in B / only in A. */
+  added: string[];
+  removed: string[];
+  /** Members in both runs whose strength changed, as "name: A → B". */
+  strengthChanges: string[];
+};
+
+/** Fingerprint of exactly what batch matching sends for a guest. */
+export const guestProfileHash = (guest: BatchGuestInfo) =>
+  fingerprint(
+    [normalizeGuestName(guest.name), guest.profession.trim().toLowerCase(), (guest.remarks ?? "").trim().toLowerCase()].join("|")
+  );
+
+/** Roster version: changes whenever a member joins, leaves or changes profession (order-independent). */
+export const memberRosterVersion = (members: { name: string; profession: string }[]) =>
+  fingerprint(
+    members
+      .map((m) => `${normalizeGuestName(m.name)}:${m.profession.trim().toLowerCase()}`)
+      .sort()
+      .join("|")
+  );
+
+const byNewest = (a: StoredMatchResult, b: StoredMatchResult) =>
+  b.matchedAt.localeCompare(a.matchedAt) || b.runId.localeCompare(a.runId);
+
+/** Latest stored result per guest key. */
+export function latestResultsByGuest(stored: StoredMatchResult[]): Map<string, StoredMatchResult> {
+  const latest = new Map<string, StoredMatchResult>();
+  for (const result of [...stored].sort(byNewest)) {
+    if (!latest.has(result.guestKey)) latest.set(result.guestKey, result);
+  }
+  return latest;
+}
+
+/**
+ * Split guests into those to re-match (new, profile changed, or matched against another roster) and those whose
+ * latest stored result can be reused. `force` re-matches everyone.
+ */
+export function planMatchRun(
+  guests: BatchGuestInfo[],
+  stored: StoredMatchResult[],
+  rosterVersion: string,
+  force = false
+): MatchRunPlan {
+  const latest = latestResultsByGuest(stored);
+  const plan: MatchRunPlan = { rerun: [], reuse: [] };
+  for (const guest of guests) {
+    const previous = latest.get(normalizeGuestName(guest.name));
+    if (!force && previous && previous.profileHash === guestProfileHash(guest) && previous.rosterVersion === rosterVersion) {
+      plan.reuse.push(previous);
+    } else {
+      plan.rerun.push(guest);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Results of one run to store: fresh provider results for re-matched guests plus copies of the reused ones
+ * (tagged reusedFromRunId), so every run holds a full set and any two can be compared.
+ */
+export function buildRunResults(
+  eventId: number,
+  runId: string,
+  matchedAt: string,
+  rosterVersion: string,
+  provider: string | null,
+  guests: BatchGuestInfo[],
+  fresh: BatchMatchResult[],
+  reused: StoredMatchResult[]
+): StoredMatchResult[] {
+  const freshByKey = new Map(fresh.map((r) => [normalizeGuestName(r.guestName), r]));
+  const reusedByKey = new Map(reused.map((r) => [r.guestKey, r]));
+  return guests.flatMap((guest): StoredMatchResult[] => {
+    const guestKey = normalizeGuestName(guest.name);
+    const previous = reusedByKey.get(guestKey);
+    if (previous) {
+      return [{ ...previous, runId, reusedFromRunId: previous.reusedFromRunId ?? previous.runId }];
+    }
+    const result = freshByKey.get(guestKey);
+    if (!result) return [];
+    return [
+      {
+        eventId,
+        runId,
+        guestKey,
+        guestName: guest.name.trim(),
+        guestProfession: guest.profession,
+        guestRemarks: guest.remarks,
+        profileHash: guestProfileHash(guest),
+        rosterVersion,
+        provider,
+        matchedAt,
+        matchedMembers: result.matchedMembers,
+      },
+    ];
+  });
+}
+
+/** Stored results back in the panel's batch-result shape. */
+export const toBatchMatchResult = (stored: StoredMatchResult): BatchMatchResult => ({
+  guestName: stored.guestName,
+  guestProfession: stored.guestProfession,
+  matchedMembers: stored.matchedMembers,
+});
+
+/** Runs, newest first. */
+export function listMatchRuns(stored: StoredMatchResult[]): MatchRunSummary[] {
+  const runs = new Map<string, MatchRunSummary>();
+  for (const result of stored) {
+    const run = runs.get(result.runId) ?? {
+      runId: result.runId,
+      matchedAt: result.matchedAt,
+      provider: null,
+      rosterVersion: result.rosterVersion,
+      guestCount: 0,
+      rematchedCount: 0,
+    };
+    run.guestCount += 1;
+    if (!result.reusedFromRunId) {
+      run.rematchedCount += 1;
+      run.provider = result.provider;
+      if (result.matchedAt > run.matchedAt) run.matchedAt = result.matchedAt;
+    }
+    runs.set(result.runId, run);
+  }
+  return [...runs.values()].sort((a, b) => b.matchedAt.localeCompare(a.matchedAt) || b.runId.localeCompare(a.runId));
+}
+
+const strengthByName = (members: MatchedMember[] = []) => new Map(members.map((m) => [normalizeGuestName(m.memberName), m]));
+
+/** Guest-by-guest differences between run A and run B, in A's guest order then B's new guests. */
+export function compareMatchRuns(stored: StoredMatchResult[], runA: string, runB: string): MatchRunComparisonRow[] {
+  const rows = new Map<string, MatchRunComparisonRow>();
+  const row = (result: StoredMatchResult) =>
+    rows.get(result.guestKey) ??
+    rows.set(result.guestKey, { guestKey: result.guestKey, guestName: result.guestName, added: [], removed: [], strengthChanges: [] }).get(result.guestKey)!;
+  for (const result of stored.filter((r) => r.runId === runA)) row(result).a = result;
+  for (const result of stored.filter((r) => r.runId === runB)) row(result).b = result;
+
+  for (const r of rows.values()) {
+    const a = strengthByName(r.a?.matchedMembers);
+    const b = strengthByName(r.b?.matchedMembers);
+    r.added = [...b].filter(([key]) => !a.has(key)).map(([, m]) => m.memberName);
+    r.removed = [...a].filter(([key]) => !b.has(key)).map(([, m]) => m.memberName);
+    r.strengthChanges = [...a]
+      .filter(([key, m]) => b.has(key) && b.get(key)!.matchStrength !== m.matchStrength)
+      .map(([key, m]) => `${m.memberName}: ${m.matchStrength} → ${b.get(key)!.matchStrength}`);
+  }
+  return [...rows.values()];
+}
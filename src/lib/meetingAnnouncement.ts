@@ -0,0 +1,141 @@
+import type { EventData, GuestInfo, MeetingSectionKind, ObserverInfo, PlannedSubstitute } from "../api";
+import { WEEKDAY_OPTIONS } from "./chapterMeetingDefaults";
+import {
+  parseWhatsAppMeetingMessage,
+  type MeetingMessageTemplate,
+  type ParsedMeetingMessage,
+} from "./parseWhatsAppMeetingMessage";
+
+/** Everything the announcement lists for one meeting. */
+export type MeetingAnnouncementInput = {
+  event: Pick<EventData, "name" | "date" | "startTime" | "endTime">;
+  guests: GuestInfo[];
+  observers: ObserverInfo[];
+  substitutes: PlannedSubstitute[];
+};
+
+const SECTION_FORMAT_HINTS: Record<MeetingMessageTemplate["language"], Record<MeetingSectionKind, string>> = {
+  zh: {
+    speakers: "(姓名/專業領域)",
+    vips: "(姓名/專業領域)",
+    guests: "(姓名/專業領域/介紹人)",
+    observers: "(姓名/專業領域)",
+    substitutes: "(替代人姓名/會員姓名)",
+  },
+  en: {
+    speakers: "(Name / Profession)",
+    vips: "(Name / Profession)",
+    guests: "(Name / Profession / Invited by)",
+    observers: "(Name / Profession)",
+    substitutes: "(Substitute / Member)",
+  },
+};
+
+/** Order sections appear in the announcement. */
+const SECTION_ORDER: MeetingSectionKind[] = ["speakers", "vips", "guests", "observers", "substitutes"];
+
+const MONTH_ABBREVIATIONS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function formatAnnouncementDate(date: string, language: MeetingMessageTemplate["language"]): string {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  const weekday = WEEKDAY_OPTIONS[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+  return language === "zh"
+    ? `${y}年${m}月${d}日 (${weekday.labelZh})`
+    : `${weekday.labelEn}, ${d} ${MONTH_ABBREVIATIONS[m - 1]} ${y}`;
+}
+
+/**
+ * "Name/Profession/Referrer". A profession containing a slash gets a trailing slash even without a referrer,
+ * so the parser (which splits on the first and last slash) reads it back unchanged.
+ */
+function formatPersonFields(name: string, profession: string, referrer = ""): string {
+  const fields = [name.trim(), profession.trim()];
+  if (referrer.trim() || /[/／]/.test(profession)) fields.push(referrer.trim());
+  return fields.join("/");
+}
+
+/** Announcement role of a guest: speakers and VIPs have their own sections, everyone else is a guest. */
+const guestRole = (guest: Pick<GuestInfo, "role">) => (guest.role === "SPEAKER" || guest.role === "VIP" ? guest.role : "GUEST");
+
+function sectionLines(kind: MeetingSectionKind, input: MeetingAnnouncementInput): string[] {
+  const byRole = (role: ReturnType<typeof guestRole>) => input.guests.filter((g) => guestRole(g) === role);
+  switch (kind) {
+    case "speakers":
+      return byRole("SPEAKER").map((g) => formatPersonFields(g.name, g.profession));
+    case "vips":
+      return byRole("VIP").map((g) => formatPersonFields(g.name, g.profession));
+    case "guests":
+      return byRole("GUEST").map((g) => formatPersonFields(g.name, g.profession, g.referrer));
+    case "observers":
+      return input.observers.map((o) => formatPersonFields(o.name, o.profession));
+    case "substitutes":
+      return input.substitutes.map((s) => `${s.substituteName.trim()} / ${s.memberName.trim()}`);
+  }
+}
+
+/**
+ * WhatsApp announcement for one meeting in the chapter's template (the reverse of parseWhatsAppMeetingMessage).
+ * Headings are each section's first alias; empty sections are left out.
+ * @param {MeetingAnnouncementInput} input - Current event, its guests (role picks the section), observers and planned substitutes
+ * @param {MeetingMessageTemplate} template - resolveMeetingTemplate(chapterTag, chapter.meetingSectionAliases)
+ */
+export function buildWhatsAppMeetingMessage(input: MeetingAnnouncementInput, template: MeetingMessageTemplate): string {
+  const { event } = input;
+  const zh = template.language === "zh";
+  const time = `${event.startTime.slice(0, 5)}–${event.endTime.slice(0, 5)}`;
+  // Event name is quoted so a name starting or ending with a section heading isn't read back as one.
+  const lines = zh
+    ? [`📣 會議：「${event.name}」`, `🗓️日期：${formatAnnouncementDate(event.date, "zh")}`, `⏰時間：${time}`]
+    : [`📣 Meeting: “${event.name}”`, `📅 Date: ${formatAnnouncementDate(event.date, "en")}`, `⏰ Time: ${time}`];
+
+  for (const kind of SECTION_ORDER) {
+    const entries = sectionLines(kind, input);
+    if (entries.length === 0) continue;
+    lines.push("", `${template.sections[kind][0]} ${SECTION_FORMAT_HINTS[template.language][kind]}`);
+    entries.forEach((entry, index) => lines.push(`${index + 1}. ${entry}`));
+  }
+  return lines.join("\n");
+}
+
+const personKey = (...fields: Array<string | undefined>) => fields.map((f) => (f ?? "").trim().toLowerCase()).join("|");
+
+/** Items of `expected` with no counterpart (by key, counting duplicates) among the parsed ones. */
+function missingFrom<T, P>(expected: T[], parsed: P[], key: (item: T | P) => string): T[] {
+  const remaining = parsed.map(key);
+  return expected.filter((item) => {
+    const index = remaining.indexOf(key(item));
+    if (index < 0) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Parse the generated text back and list every entry that doesn't survive (e.g. a guest without a profession),
+ * so the admin can fix the data before posting. Empty when the announcement round-trips exactly.
+ */
+export function findAnnouncementRoundTripIssues(
+  text: string,
+  input: MeetingAnnouncementInput,
+  template: MeetingMessageTemplate
+): string[] {
+  const parsed: ParsedMeetingMessage = parseWhatsAppMeetingMessage(text, template);
+  const issues: string[] = [];
+  if (parsed.eventDate !== input.event.date.slice(0, 10)) issues.push(`活動日期無法還原（${input.event.date}）`);
+
+  // Speaker / VIP lines carry no referrer.
+  const guestKey = (g: Pick<GuestInfo, "name" | "profession" | "referrer" | "role">) =>
+    personKey(g.name, g.profession, guestRole(g) === "GUEST" ? g.referrer : "", guestRole(g));
+  for (const guest of missingFrom(input.guests, parsed.guests, guestKey)) {
+    issues.push(`嘉賓無法還原：${guest.name}${guest.profession.trim() ? "" : "（缺少專業領域）"}`);
+  }
+  const observerKey = (o: Pick<ObserverInfo, "name" | "profession">) => personKey(o.name, o.profession);
+  for (const observer of missingFrom(input.observers, parsed.observers, observerKey)) {
+    issues.push(`觀察員無法還原：${observer.name}`);
+  }
+  const substituteKey = (s: PlannedSubstitute) => personKey(s.substituteName, s.memberName);
+  for (const substitute of missingFrom(input.substitutes, parsed.substitutes, substituteKey)) {
+    issues.push(`替代人無法還原：${substitute.substituteName} / ${substitute.memberName}`);
+  }
+  return issues;
+}
@@ -0,0 +1,126 @@
+import type { MemberAttendance } from "../api";
+import { isLateStatus } from "./attendanceStatus";
+
+/** How one meeting went for the member. */
+export type MeetingOutcome = "attended" | "late" | "covered" | "absent";
+
+/** Attended meetings / meetings held in the window (rate is 0–1, null when no meetings). */
+export type AttendanceWindow = {
+  attended: number;
+  meetings: number;
+  rate: number | null;
+};
+
+/**
+ * Numbers the standing review (GREEN/YELLOW/RED/BLACK) looks at.
+ * Rates count in-person attendance; a substitute covers an absence but does not count as attending.
+ * Late and absence counts are over the 12-month window.
+ */
+export type MemberAttendanceStats = {
+  sixMonths: AttendanceWindow;
+  twelveMonths: AttendanceWindow;
+  /** Consecutive meetings attended, counting back from the latest; covered absences pause it, uncovered ones end it. */
+  currentStreak: number;
+  lateCount: number;
+  coveredAbsences: number;
+  uncoveredAbsences: number;
+};
+
+export type HeatmapCell = {
+  date: string;
+  outcome: MeetingOutcome | null;
+  eventName?: string;
+};
+
+/** Statuses the backend / check-in classifier use for a member who showed up. */
+const ATTENDED_STATUSES = new Set(["present", "attended", "early", "on-time", "late", "after-close"]);
+
+/** Classify one history row; unknown statuses count as absences. */
+export function meetingOutcome(row: MemberAttendance): MeetingOutcome {
+  const status = row.status.trim().toLowerCase();
+  if (ATTENDED_STATUSES.has(status)) return isLateStatus(status) ? "late" : "attended";
+  return row.substituteName?.trim() ? "covered" : "absent";
+}
+
+const attendedOutcome = (outcome: MeetingOutcome) => outcome === "attended" || outcome === "late";
+
+/** "YYYY-MM-DD" shifted by whole months (day clamped to the target month). */
+export function shiftIsoDateByMonths(isoDate: string, months: number): string {
+  const [y, m, d] = isoDate.slice(0, 10).split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function shiftIsoDateByDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Meetings up to `today`, one row per date (latest row wins), oldest first. */
+function pastMeetings(history: MemberAttendance[], today: string): MemberAttendance[] {
+  const byDate = new Map<string, MemberAttendance>();
+  for (const row of history) {
+    const date = row.eventDate.slice(0, 10);
+    if (date && date <= today) byDate.set(date, row);
+  }
+  return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row);
+}
+
+function windowStats(meetings: MemberAttendance[], sinceExclusive: string): AttendanceWindow {
+  const inWindow = meetings.filter((row) => row.eventDate.slice(0, 10) > sinceExclusive);
+  const attended = inWindow.filter((row) => attendedOutcome(meetingOutcome(row))).length;
+  return { attended, meetings: inWindow.length, rate: inWindow.length ? attended / inWindow.length : null };
+}
+
+/**
+ * Rolling 6/12-month rates, current streak, late count and covered vs uncovered absences.
+ * @param {MemberAttendance[]} history - From searchMemberAttendance (any order; future meetings ignored)
+ * @param {string} today - "YYYY-MM-DD" in the chapter timezone
+ */
+export function computeMemberAttendanceStats(history: MemberAttendance[], today: string): MemberAttendanceStats {
+  const meetings = pastMeetings(history, today);
+  const yearAgo = shiftIsoDateByMonths(today, -12);
+  const lastYear = meetings.filter((row) => row.eventDate.slice(0, 10) > yearAgo);
+  const outcomes = lastYear.map(meetingOutcome);
+
+  let currentStreak = 0;
+  for (let i = meetings.length - 1; i >= 0; i -= 1) {
+    const outcome = meetingOutcome(meetings[i]);
+    if (outcome === "covered") continue;
+    if (outcome === "absent") break;
+    currentStreak += 1;
+  }
+
+  return {
+    sixMonths: windowStats(meetings, shiftIsoDateByMonths(today, -6)),
+    twelveMonths: windowStats(meetings, yearAgo),
+    currentStreak,
+    lateCount: outcomes.filter((o) => o === "late").length,
+    coveredAbsences: outcomes.filter((o) => o === "covered").length,
+    uncoveredAbsences: outcomes.filter((o) => o === "absent").length
+  };
+}
+
+/**
+ * Calendar heatmap: `weeks` columns of 7 days (Sunday first) ending with the week containing `today`.
+ * Days without a meeting have outcome null.
+ */
+export function buildAttendanceHeatmap(history: MemberAttendance[], today: string, weeks = 53): HeatmapCell[][] {
+  const byDate = new Map(pastMeetings(history, today).map((row) => [row.eventDate.slice(0, 10), row]));
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const start = shiftIsoDateByDays(today, -weekday - (weeks - 1) * 7);
+  const columns: HeatmapCell[][] = [];
+  for (let w = 0; w < weeks; w += 1) {
+    const column: HeatmapCell[] = [];
+    for (let d = 0; d < 7; d += 1) {
+      const date = shiftIsoDateByDays(start, w * 7 + d);
+      const row = byDate.get(date);
+      column.push({ date, outcome: row ? meetingOutcome(row) : null, eventName: row?.eventName });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
@@ -0,0 +1,68 @@
+import type { MemberBadge, MemberInfo } from "../api";
+import { buildChapterPdfFilename } from "./chapterBranding";
+import { generatePagedPdfBlob } from "./generateQrFlyerPdf";
+import type { MemberCategory, MemberCategoryGroup } from "./memberCategories";
+
+/** 2 × 4 cut-out badges per A4 page (≈95 × 69 mm each, business-card holder size). */
+export const BADGES_PER_PAGE = 8;
+
+/** One badge on the sheet: member, its category (accent + label) and the signed QR payload. */
+export type BadgeSheetEntry = {
+  member: MemberInfo;
+  category: MemberCategory;
+  badge: MemberBadge;
+};
+
+/**
+ * Flatten category groups (already sorted by groupMembersByCategory) into sheet order, keeping only members
+ * that received a badge. Returns the members that were skipped (no id, or not signed by the backend).
+ */
+export function buildBadgeSheetEntries(
+  groups: MemberCategoryGroup[],
+  badges: MemberBadge[]
+): { entries: BadgeSheetEntry[]; skipped: MemberInfo[] } {
+  const byMemberId = new Map(badges.map((badge) => [badge.memberId, badge]));
+  const entries: BadgeSheetEntry[] = [];
+  const skipped: MemberInfo[] = [];
+  for (const { category, members } of groups) {
+    for (const member of members) {
+      const badge = member.id != null ? byMemberId.get(member.id) : undefined;
+      if (badge) entries.push({ member, category, badge });
+      else skipped.push(member);
+    }
+  }
+  return { entries, skipped };
+}
+
+/** Split entries into printed pages. */
+export function paginateBadgeSheet<T>(entries: T[], perPage = BADGES_PER_PAGE): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < entries.length; i += perPage) {
+    pages.push(entries.slice(i, i + perPage));
+  }
+  return pages;
+}
+
+/** "{Display-Name}-Badges-{YYYY-MM-DD}.pdf" */
+export function buildBadgeSheetFilename(displayName: string, date: string): string {
+  return buildChapterPdfFilename(`${displayName} Badges`, date);
+}
+
+/**
+ * Capture every `.badge-sheet-page` under `rootElementId` into one A4 PDF and download it.
+ * The sheet must already be rendered (see MemberBadgeSheet). Side effects: DOM capture, file download.
+ */
+export async function downloadMemberBadgeSheetPdf(rootElementId: string, filename: string): Promise<void> {
+  const root = document.getElementById(rootElementId);
+  const pages = root ? Array.from(root.querySelectorAll<HTMLElement>(".badge-sheet-page")) : [];
+  if (!pages.length) {
+    throw new Error("Badge sheet not found");
+  }
+  const pdfBlob = await generatePagedPdfBlob(pages);
+  const url = URL.createObjectURL(pdfBlob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,433 @@
+import {
+  ApiHttpError,
+  checkIn,
+  logAttendance,
+  recordAttendance,
+  updateAttendanceSubstitute,
+  type CheckInRequest,
+  type CheckInStatus
+} from "../api";
+import { completeGuestIntroduction } from "./guestIntroduction";
+
+/** One check-in action captured while offline; replayed through the same API call it stands for. */
+export type QueuedCheckInAction =
+  | { kind: "scan"; qrPayload: string; eventId?: number | null; chapter?: string | null }
+  | {
+      kind: "log";
+      attendeeId: number | null;
+      attendeeType: string;
+      attendeeName: string;
+      attendeeProfession: string;
+      eventDate: string;
+      checkedInAt: string;
+      status: string;
+      chapter?: string | null;
+      /**
+       * Live event token the check-in page was opened with; only queued once it still verified at `createdAt`.
+       * Replayed with `queuedAt` so the backend bounds that time against the token's own window.
+       */
+      liveToken?: string | null;
+      /** Guests: card token proposed at check-in (logAttendance) and the event it belongs to, to fill the card on replay. */
+      introductionToken?: string | null;
+      eventId?: number;
+    }
+  | {
+      kind: "substitute";
+      eventDate: string;
+      memberName: string;
+      substituteName?: string;
+      chapter?: string | null;
+    }
+  | { kind: "walk-in-guest"; request: CheckInRequest }
+  | {
+      kind: "observer";
+      observerId: number | null;
+      name: string;
+      profession: string;
+      eventDate: string;
+      chapter?: string | null;
+      liveToken?: string | null;
+    };
+
+export type QueuedItemState = "pending" | "failed";
+
+export type QueuedCheckIn = {
+  id: string;
+  /** Monotonic replay order (enqueue order, also across reloads). */
+  seq: number;
+  action: QueuedCheckInAction;
+  /** ISO time the action happened at the kiosk, not when it syncs. */
+  createdAt: string;
+  attempts: number;
+  state: QueuedItemState;
+  lastError?: string;
+};
+
+export type FlushResult = {
+  flushed: number;
+  failed: number;
+  remaining: number;
+};
+
+/** Status for scan replays; the hook supplies it from the active event + chapter timezone. */
+export type ScanStatusResolver = (scannedAt: Date) => CheckInStatus | undefined;
+
+const DB_NAME = "anchor-checkin";
+const DB_VERSION = 1;
+const STORE_NAME = "offline-queue";
+/** Used when IndexedDB is unavailable (private mode, jsdom). */
+const FALLBACK_KEY = "anchor-checkin-queue-v2";
+/** QR-only queue from before typed actions; migrated on first load. */
+const LEGACY_QUEUE_KEY = "anchor-checkin-queue";
+
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let flushInFlight: Promise<FlushResult> | null = null;
+let lastSeq = 0;
+
+const createId = () =>
+  crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+
+/** Strictly increasing even when two actions land in the same millisecond. */
+const nextSeq = () => {
+  lastSeq = Math.max(lastSeq + 1, Date.now());
+  return lastSeq;
+};
+
+/**
+ * Open (or create) the queue database. Resolves null when IndexedDB is missing or blocked.
+ * Side effect: IndexedDB open/upgrade.
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = op(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function readFallback(): QueuedCheckIn[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(FALLBACK_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    window.localStorage.removeItem(FALLBACK_KEY);
+    return [];
+  }
+}
+
+function writeFallback(items: QueuedCheckIn[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(FALLBACK_KEY, JSON.stringify(items));
+}
+
+/** Convert the old `{ id, qrPayload, createdAt }[]` localStorage queue into scan actions (once). */
+function takeLegacyScans(): QueuedCheckIn[] {
+  if (typeof window === "undefined") return [];
+  const raw = window.localStorage.getItem(LEGACY_QUEUE_KEY);
+  if (!raw) return [];
+  window.localStorage.removeItem(LEGACY_QUEUE_KEY);
+  try {
+    const parsed = JSON.parse(raw) as Array<{ id?: string; qrPayload?: string; createdAt?: string }>;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p) => typeof p.qrPayload === "string")
+      .map((p) => ({
+        id: p.id || createId(),
+        seq: nextSeq(),
+        action: { kind: "scan" as const, qrPayload: p.qrPayload as string },
+        createdAt: p.createdAt || new Date().toISOString(),
+        attempts: 0,
+        state: "pending" as const
+      }));
+  } catch {
+    return [];
+  }
+}
+
+async function putItems(items: QueuedCheckIn[]) {
+  if (!items.length) return;
+  const db = await openDb();
+  if (!db) {
+    const byId = new Map(readFallback().map((item) => [item.id, item]));
+    for (const item of items) byId.set(item.id, item);
+    writeFallback([...byId.values()]);
+    return;
+  }
+  for (const item of items) {
+    await runTransaction(db, "readwrite", (store) => store.put(item));
+  }
+}
+
+async function deleteItem(id: string) {
+  const db = await openDb();
+  if (!db) {
+    writeFallback(readFallback().filter((item) => item.id !== id));
+    return;
+  }
+  await runTransaction(db, "readwrite", (store) => store.delete(id));
+}
+
+function emitChange() {
+  listeners.forEach((listener) => listener());
+}
+
+/** Subscribe to queue changes (enqueue / replay / discard). Returns the unsubscribe function. */
+export function subscribeOfflineQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * All queued actions in replay order. Side effect: migrates the legacy localStorage scan queue.
+ * @returns {Promise<QueuedCheckIn[]>}
+ */
+export async function loadOfflineQueue(): Promise<QueuedCheckIn[]> {
+  await putItems(takeLegacyScans());
+  const db = await openDb();
+  const items = db
+    ? await runTransaction<QueuedCheckIn[]>(db, "readonly", (store) => store.getAll())
+    : readFallback();
+  const sorted = [...items].sort((a, b) => a.seq - b.seq);
+  if (sorted.length) lastSeq = Math.max(lastSeq, sorted[sorted.length - 1].seq);
+  return sorted;
+}
+
+/**
+ * Persist one action for later replay. Side effect: IndexedDB (or localStorage) write; notifies subscribers.
+ * @param {QueuedCheckInAction} action
+ * @param {Date} [at] - When the action happened (defaults to now)
+ */
+export async function enqueueOfflineAction(
+  action: QueuedCheckInAction,
+  at: Date = new Date()
+): Promise<QueuedCheckIn> {
+  const item: QueuedCheckIn = {
+    id: createId(),
+    seq: nextSeq(),
+    action,
+    createdAt: at.toISOString(),
+    attempts: 0,
+    state: "pending"
+  };
+  await putItems([item]);
+  emitChange();
+  return item;
+}
+
+/** Drop one item (e.g. admin dismisses a failed entry). */
+export async function discardOfflineAction(id: string): Promise<void> {
+  await deleteItem(id);
+  emitChange();
+}
+
+/** Move failed items back to pending so the next flush retries them. */
+export async function retryFailedOfflineActions(): Promise<void> {
+  const failed = (await loadOfflineQueue()).filter((item) => item.state === "failed");
+  await putItems(failed.map((item) => ({ ...item, state: "pending" as const, lastError: undefined })));
+  emitChange();
+}
+
+/** 409 or the backend's 已經簽到 message: the action already took effect, so it counts as synced. */
+export function isAlreadyCheckedInError(error: unknown): boolean {
+  if (error instanceof ApiHttpError && error.status === 409) return true;
+  return error instanceof Error && error.message.includes("已經簽到");
+}
+
+/** Connectivity failure (worth retrying later) as opposed to a rejection from the backend. */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (error instanceof ApiHttpError) return error.status >= 500 || error.status === 429;
+  if (!(error instanceof Error)) return false;
+  return (
+    error instanceof TypeError ||
+    error.name === "AbortError" ||
+    error.message.includes("Failed to fetch") ||
+    error.message.includes("NetworkError")
+  );
+}
+
+/**
+ * Send one queued action through its API call. Side effect: network.
+ * @throws {Error} Whatever the API call throws (caller classifies it)
+ */
+export async function replayOfflineAction(
+  item: QueuedCheckIn,
+  resolveScanStatus?: ScanStatusResolver
+): Promise<void> {
+  const { action } = item;
+  switch (action.kind) {
+    case "scan":
+      await recordAttendance(action.qrPayload, {
+        scannedAt: item.createdAt,
+        status: resolveScanStatus?.(new Date(item.createdAt)),
+        eventId: action.eventId,
+        chapter: action.chapter
+      });
+      return;
+    case "log": {
+      const result = await logAttendance(
+        action.attendeeId,
+        action.attendeeType,
+        action.attendeeName,
+        action.attendeeProfession,
+        action.eventDate,
+        action.checkedInAt,
+        action.status,
+        action.chapter,
+        { liveToken: action.liveToken, queuedAt: item.createdAt },
+        action.introductionToken
+      );
+      if (action.introductionToken && action.eventId != null && result.introductionReady === false) {
+        // The check-in itself went through; a card that fails to build is left for the admin batch.
+        await completeGuestIntroduction(
+          action.eventId,
+          action.introductionToken,
+          { name: action.attendeeName, profession: action.attendeeProfession },
+          action.chapter
+        ).catch(() => undefined);
+      }
+      return;
+    }
+    case "substitute":
+      await updateAttendanceSubstitute(action.eventDate, action.memberName, action.substituteName, action.chapter);
+      return;
+    case "walk-in-guest": {
+      const result = await checkIn(action.request);
+      if (result.status !== "success") throw new Error(result.message);
+      return;
+    }
+    case "observer":
+      await logAttendance(
+        action.observerId,
+        "observer",
+        action.name,
+        action.profession,
+        action.eventDate,
+        // Observers carry no check-in time, as on the online path; the queued time only travels as `queuedAt`.
+        "",
+        "present",
+        action.chapter,
+        { liveToken: action.liveToken, queuedAt: item.createdAt }
+      );
+      return;
+  }
+}
+
+/** Member check-in a substitute action depends on: same event date and member name. */
+const memberLogKey = (eventDate: string, memberName: string) => `${eventDate}|${memberName.trim().toLowerCase()}`;
+
+/** Key of the member check-in this action depends on (substitutes), or records (member logs); null otherwise. */
+function dependencyKey(action: QueuedCheckInAction): string | null {
+  if (action.kind === "substitute") return memberLogKey(action.eventDate, action.memberName);
+  if (action.kind === "log" && action.attendeeType === "member") return memberLogKey(action.eventDate, action.attendeeName);
+  return null;
+}
+
+/**
+ * Replay pending actions oldest first. 409 counts as success; backend rejections are marked failed and skipped;
+ * a connectivity error stops the run so later actions never overtake earlier ones.
+ * A substitute whose member's queued check-in failed is marked failed without sending, so an absent member never
+ * gets a substitute; retrying the failed items replays both in order again.
+ * Concurrent callers share one run. Side effects: network, storage writes, subscriber notifications.
+ */
+export function flushOfflineQueue(resolveScanStatus?: ScanStatusResolver): Promise<FlushResult> {
+  if (flushInFlight) return flushInFlight;
+  flushInFlight = (async () => {
+    let flushed = 0;
+    let failed = 0;
+    try {
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        const items = await loadOfflineQueue();
+        return { flushed, failed, remaining: items.length };
+      }
+      const failedLogs = new Set<string>();
+      for (const item of await loadOfflineQueue()) {
+        const key = dependencyKey(item.action);
+        if (item.state === "failed") {
+          if (item.action.kind === "log" && key) failedLogs.add(key);
+          continue;
+        }
+        if (item.action.kind === "substitute" && key && failedLogs.has(key)) {
+          await putItems([{ ...item, state: "failed", lastError: "會員簽到未成功，未有套用替代人" }]);
+          failed += 1;
+          continue;
+        }
+        try {
+          await replayOfflineAction(item, resolveScanStatus);
+          await deleteItem(item.id);
+          flushed += 1;
+        } catch (error) {
+          if (isAlreadyCheckedInError(error)) {
+            await deleteItem(item.id);
+            flushed += 1;
+            continue;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          if (isOfflineError(error)) {
+            await putItems([{ ...item, attempts: item.attempts + 1, lastError: message }]);
+            break;
+          }
+          await putItems([{ ...item, attempts: item.attempts + 1, state: "failed", lastError: message }]);
+          if (item.action.kind === "log" && key) failedLogs.add(key);
+          failed += 1;
+        }
+      }
+      return { flushed, failed, remaining: (await loadOfflineQueue()).length };
+    } finally {
+      flushInFlight = null;
+      emitChange();
+    }
+  })();
+  return flushInFlight;
+}
+
+/** One-line zh-HK description for the pending / failed list. */
+export function describeOfflineAction(action: QueuedCheckInAction): string {
+  switch (action.kind) {
+    case "scan":
+      return "QR 掃描";
+    case "log":
+      return `簽到 ${action.attendeeName}`;
+    case "substitute":
+      return action.substituteName?.trim()
+        ? `替代人 ${action.memberName} → ${action.substituteName.trim()}`
+        : `清除替代人 ${action.memberName}`;
+    case "walk-in-guest":
+      return `Walk-in 嘉賓 ${action.request.name}`;
+    case "observer":
+      return `觀察員出席 ${action.name}`;
+  }
+}
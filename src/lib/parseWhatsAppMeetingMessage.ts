@@ -1,10 +1,13 @@
 import Papa from "papaparse";
+import type { AttendeeRole, MeetingSectionKind } from "../api";
 
 export type ParsedGuest = {
   name: string;
   profession: string;
   referrer: string;
   eventDate: string;
+  /** GUEST from the guest list; SPEAKER / VIP from those sections. */
+  role: AttendeeRole;
 };
 
 export type ParsedObserver = {
@@ -19,44 +22,141 @@ export type ParsedSubstitute = {
   eventDate: string;
 };
 
+/** One parse problem; `line` is 1-based in the pasted text, null for whole-message problems (e.g. no date). */
+export type MeetingParseError = {
+  line: number | null;
+  message: string;
+};
+
 export type ParsedMeetingMessage = {
   eventDate: string;
   guests: ParsedGuest[];
   observers: ParsedObserver[];
   substitutes: ParsedSubstitute[];
-  errors: string[];
+  errors: MeetingParseError[];
+};
+
+/**
+ * Section headings a chapter's announcements use (matched case-insensitively at the start or end of a line).
+ * The first alias of each section and `language` are what the announcement generator writes.
+ */
+export type MeetingMessageTemplate = {
+  language: "zh" | "en";
+  sections: Record<MeetingSectionKind, string[]>;
+};
+
+const ZH_SECTION_ALIASES: Record<MeetingSectionKind, string[]> = {
+  guests: ["嘉賓名單", "來賓名單"],
+  observers: ["觀察員"],
+  substitutes: ["替代人名單", "替代人"],
+  speakers: ["主講嘉賓", "講者"],
+  vips: ["VIP", "貴賓"],
+};
+
+const EN_SECTION_ALIASES: Record<MeetingSectionKind, string[]> = {
+  guests: ["Visitors", "Visitor List", "Guests", "Guest List"],
+  observers: ["Observers"],
+  substitutes: ["Substitutes", "Subs"],
+  speakers: ["Speaker", "Feature Presentation", "Education Slot"],
+  vips: ["VIP", "VIP Visitors"],
 };
 
+function mergeSectionAliases(
+  ...sources: Array<Partial<Record<MeetingSectionKind, string[]>> | null | undefined>
+): Record<MeetingSectionKind, string[]> {
+  const merged: Record<MeetingSectionKind, string[]> = { guests: [], observers: [], substitutes: [], speakers: [], vips: [] };
+  for (const source of sources) {
+    for (const kind of Object.keys(merged) as MeetingSectionKind[]) {
+      for (const alias of source?.[kind] ?? []) {
+        if (alias.trim() && !merged[kind].includes(alias.trim())) merged[kind].push(alias.trim());
+      }
+    }
+  }
+  return merged;
+}
+
+/** Built-in templates: Anchor posts in Chinese, AMax and Dynasty in English. */
+export const CHAPTER_MEETING_TEMPLATES: Record<string, MeetingMessageTemplate> = {
+  anchor: { language: "zh", sections: ZH_SECTION_ALIASES },
+  amax: { language: "en", sections: EN_SECTION_ALIASES },
+  dynasty: { language: "en", sections: EN_SECTION_ALIASES },
+};
+
+/**
+ * Template for a chapter: its built-in one (both languages for unknown chapters) plus the chapter's own aliases
+ * (ChapterInfo.meetingSectionAliases).
+ */
+export function resolveMeetingTemplate(
+  chapterTag?: string | null,
+  extraAliases?: Partial<Record<MeetingSectionKind, string[]>> | null
+): MeetingMessageTemplate {
+  const builtIn = CHAPTER_MEETING_TEMPLATES[(chapterTag || "").trim().toLowerCase()];
+  const base = builtIn ? builtIn.sections : mergeSectionAliases(ZH_SECTION_ALIASES, EN_SECTION_ALIASES);
+  return { language: builtIn?.language ?? "zh", sections: mergeSectionAliases(base, extraAliases) };
+}
+
 const INVISIBLE_CHARS = /[\u200B-\u200D\uFEFF\u2060]/g;
 const EMOJI_CHARS = /[\u{1F300}-\u{1FAFF}\u2600-\u27BF]/gu;
-const LINE_NUMBER_PREFIX = /^\d+\.\s*/;
+/** "1." / "1)" / "1、" numbering or "-" / "•" / "* " bullets ("*Bold*" headings are not bullets). */
+const LIST_MARKER_PREFIX = /^(?:\d+[.)、]|[-•·]|\*(?=\s))\s*/;
+const FIELD_SLASH = /[/／]/;
+/** Spaced dash or pipe, for announcements that don't use slashes (hyphenated names stay intact). */
+const FIELD_DASH_OR_PIPE = /\s+[-–—|｜]\s+/;
+const REFERRER_PREFIX = /^(?:invited\s+by|inv(?:ited)?\.?\s*(?:by)?|referred\s+by|ref\.?|介紹人)\s*[:：]?\s*/i;
 
-/** Strip WhatsApp / copy-paste invisible characters and list numbering. */
+/** Strip WhatsApp / copy-paste invisible characters and list numbering / bullets. */
 export function cleanMeetingLine(raw: string): string {
-  return raw.replace(INVISIBLE_CHARS, "").replace(LINE_NUMBER_PREFIX, "").trim();
+  return raw.replace(INVISIBLE_CHARS, "").trim().replace(LIST_MARKER_PREFIX, "").trim();
 }
 
-/** Parse 2026年8月13日 or embedded YYYY-MM-DD from meeting announcement text. */
+const MONTH_PATTERN =
+  "(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toIsoDate(year: string, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Parse the meeting date: 2026年8月13日, 2026-08-13, 13 Aug 2026, Aug 13, 2026 or 13/08/2026 (day first).
+ * The first format found wins.
+ */
 export function parseMeetingEventDate(text: string): string | null {
   const zh = text.match(/(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/);
-  if (zh) {
-    return `${zh[1]}-${zh[2].padStart(2, "0")}-${zh[3].padStart(2, "0")}`;
-  }
+  if (zh) return toIsoDate(zh[1], Number(zh[2]), Number(zh[3]));
   const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
-  return iso ? iso[1] : null;
+  if (iso) return iso[1];
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\.?,?\\s+(\\d{4})\\b`, "i"));
+  if (dayFirst) return toIsoDate(dayFirst[3], MONTHS.indexOf(dayFirst[2].slice(0, 3).toLowerCase()) + 1, Number(dayFirst[1]));
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "i"));
+  if (monthFirst) {
+    return toIsoDate(monthFirst[3], MONTHS.indexOf(monthFirst[1].slice(0, 3).toLowerCase()) + 1, Number(monthFirst[2]));
+  }
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  return numeric ? toIsoDate(numeric[3], Number(numeric[2]), Number(numeric[1])) : null;
 }
 
 export function cleanReferrer(raw: string): string {
-  return raw.replace(EMOJI_CHARS, "").trim();
+  return raw.replace(EMOJI_CHARS, "").trim().replace(REFERRER_PREFIX, "").trim();
 }
 
-/** Split "Name / Profession / Referrer" lines (supports full-width slashes). */
+/**
+ * Split "Name / Profession / Referrer" lines (full-width slashes too; slashes inside the profession are kept).
+ * Without any slash, " - " or " | " separate the fields.
+ */
 export function splitPersonLine(line: string): { name: string; profession: string; referrer: string } | null {
   const cleaned = cleanMeetingLine(line);
   if (!cleaned) return null;
 
-  const firstSlash = cleaned.search(/[/／]/);
-  if (firstSlash < 0) return null;
+  const firstSlash = cleaned.search(FIELD_SLASH);
+  if (firstSlash < 0) {
+    const fields = cleaned.split(FIELD_DASH_OR_PIPE).map((f) => f.trim());
+    if (fields.length < 2) return null;
+    return fields.length === 2
+      ? { name: fields[0], profession: fields[1], referrer: "" }
+      : { name: fields[0], profession: fields.slice(1, -1).join(" - "), referrer: cleanReferrer(fields[fields.length - 1]) };
+  }
 
   const name = cleaned.slice(0, firstSlash).trim();
   const remainder = cleaned.slice(firstSlash + 1);
@@ -73,116 +173,170 @@ export function splitPersonLine(line: string): { name: string; profession: strin
   };
 }
 
-/** Split "Substitute Name / Member Name" (替代人名單). */
+/** Split "Substitute Name / Member Name" (替代人名單), "Substitute for Member" or "Substitute (for Member)". */
 export function splitSubstituteLine(line: string): { substituteName: string; memberName: string } | null {
   const cleaned = cleanMeetingLine(line);
   if (!cleaned) return null;
-  const slash = cleaned.search(/[/／]/);
-  if (slash < 0) return null;
-  const substituteName = cleaned.slice(0, slash).trim();
-  const memberName = cleaned.slice(slash + 1).trim();
+  const forMatch =
+    cleaned.match(/^(.+?)\s*[(（]\s*(?:sub(?:stituting)?\s+)?(?:for|代)\s*(.+?)\s*[)）]$/i) ??
+    cleaned.match(/^(.+?)\s+(?:sub(?:stituting)?\s+)?for\s+(.+)$/i);
+  if (forMatch) return { substituteName: forMatch[1].trim(), memberName: forMatch[2].trim() };
+  const slash = cleaned.search(FIELD_SLASH);
+  const separator = slash >= 0 ? null : cleaned.match(FIELD_DASH_OR_PIPE);
+  if (slash < 0 && !separator) return null;
+  const substituteName = (slash >= 0 ? cleaned.slice(0, slash) : cleaned.slice(0, separator!.index)).trim();
+  const memberName = (slash >= 0 ? cleaned.slice(slash + 1) : cleaned.slice(separator!.index! + separator![0].length)).trim();
   if (!substituteName || !memberName) return null;
   return { substituteName, memberName };
 }
 
-function extractSectionLines(text: string, startPattern: RegExp, endPattern: RegExp): string[] {
-  const startMatch = text.match(startPattern);
-  if (!startMatch || startMatch.index == null) return [];
+/** "Name (Profession)" or just "Name", for speaker / VIP lines. */
+function splitNameWithProfession(cleaned: string): { name: string; profession: string } {
+  const match = cleaned.match(/^(.*?)\s*[(（]([^)）]+)[)）]$/);
+  return match && match[1] ? { name: match[1].trim(), profession: match[2].trim() } : { name: cleaned, profession: "" };
+}
 
-  const from = startMatch.index + startMatch[0].length;
-  const rest = text.slice(from);
-  const endMatch = rest.match(endPattern);
-  const block = endMatch && endMatch.index != null ? rest.slice(0, endMatch.index) : rest;
+type SectionHeader = { kind: MeetingSectionKind; inlineEntry: string };
 
-  return block
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => /^\d+\./.test(line.replace(INVISIBLE_CHARS, "")));
-}
+const isLetter = (ch: string | undefined) => !!ch && /[a-z]/i.test(ch);
 
-function extractSectionLinesToEnd(text: string, startPattern: RegExp): string[] {
-  const startMatch = text.match(startPattern);
-  if (!startMatch || startMatch.index == null) return [];
-  const block = text.slice(startMatch.index + startMatch[0].length);
-  return block
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => /^\d+\./.test(line.replace(INVISIBLE_CHARS, "")));
+/**
+ * A heading line (not a list entry) starting or ending with an alias (English aliases may take a plural "s").
+ * Text after the heading, minus a "(Name / Profession / …)" format hint, is an inline entry ("Speaker: Amy Lee").
+ */
+function matchSectionHeader(line: string, aliases: Array<{ kind: MeetingSectionKind; alias: string }>): SectionHeader | null {
+  const raw = line.replace(INVISIBLE_CHARS, "").trim();
+  if (!raw || LIST_MARKER_PREFIX.test(raw)) return null;
+  const plain = raw.replace(EMOJI_CHARS, "").replace(/[*_~]/g, "").trim();
+  const lower = plain.toLowerCase();
+  const bare = lower.replace(/[\s:：]+$/, "");
+  for (const { kind, alias } of aliases) {
+    const key = alias.toLowerCase();
+    if (lower.startsWith(key)) {
+      let end = key.length;
+      if (isLetter(key[key.length - 1]) && lower[end] === "s") end += 1;
+      if (isLetter(key[key.length - 1]) && isLetter(lower[end])) continue;
+      const inlineEntry = plain
+        .slice(end)
+        .replace(/^[\s:：\-–]+/, "")
+        .replace(/^[(（][^)）]*[)）]/, "")
+        .replace(/^[\s:：\-–]+/, "")
+        .trim();
+      return { kind, inlineEntry };
+    }
+    if (bare.endsWith(key) && !isLetter(bare[bare.length - key.length - 1])) return { kind, inlineEntry: "" };
+  }
+  return null;
 }
 
+const SECTION_LABELS: Record<MeetingSectionKind, string> = {
+  guests: "嘉賓",
+  observers: "觀察員",
+  substitutes: "替代人",
+  speakers: "講者",
+  vips: "VIP",
+};
+
+const SECTION_ROLES: Partial<Record<MeetingSectionKind, AttendeeRole>> = {
+  guests: "GUEST",
+  speakers: "SPEAKER",
+  vips: "VIP",
+};
+
 /**
- * Parse Anchor-style WhatsApp meeting announcements into guest and observer rows.
- * Expects sections 嘉賓名單 and 觀察員 with numbered name/profession/referrer lines.
+ * Parse a WhatsApp meeting announcement into guests (incl. speakers / VIPs with their role), observers and substitutes.
+ * Lines are read top to bottom; a heading from the template opens a section until the next heading.
+ * List sections take numbered / bulleted / separated lines; speaker and VIP sections take every line up to a blank one,
+ * with a lone "(Profession)" line attaching to the name above it.
+ * @param {string} text - Pasted announcement
+ * @param {MeetingMessageTemplate} [template] - resolveMeetingTemplate(chapterTag, chapter.meetingSectionAliases); both languages by default
  */
-export function parseWhatsAppMeetingMessage(text: string): ParsedMeetingMessage {
-  const errors: string[] = [];
+export function parseWhatsAppMeetingMessage(
+  text: string,
+  template: MeetingMessageTemplate = resolveMeetingTemplate()
+): ParsedMeetingMessage {
+  const errors: MeetingParseError[] = [];
   const normalized = text.replace(/\r\n/g, "\n");
-  const eventDate = parseMeetingEventDate(normalized);
+  const eventDate = parseMeetingEventDate(normalized) || "";
 
   if (!eventDate) {
-    errors.push("找不到活動日期（例如 2026年8月13日）");
+    errors.push({ line: null, message: "找不到活動日期（例如 2026年8月13日 或 13 Aug 2026）" });
   }
 
-  const guestLines = extractSectionLines(
-    normalized,
-    /嘉賓名單[^\n]*/i,
-    /(?:觀察員|替代人)/i
-  );
-  const observerLines = extractSectionLines(
-    normalized,
-    /觀察員[^\n]*/i,
-    /替代人/i
-  );
-  const substituteLines = extractSectionLinesToEnd(normalized, /替代人[^\n]*/i);
+  const aliases = (Object.keys(template.sections) as MeetingSectionKind[])
+    .flatMap((kind) => template.sections[kind].map((alias) => ({ kind, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
 
   const guests: ParsedGuest[] = [];
-  for (const line of guestLines) {
-    const parts = splitPersonLine(line);
-    if (!parts?.name || !parts.profession) {
-      errors.push(`無法解析嘉賓行：${cleanMeetingLine(line)}`);
-      continue;
+  const observers: ParsedObserver[] = [];
+  const substitutes: ParsedSubstitute[] = [];
+  let section: MeetingSectionKind | null = null;
+  let sectionsFound = 0;
+  let sectionEntries = 0;
+  let lastRoleGuest: ParsedGuest | null = null;
+
+  const addEntry = (kind: MeetingSectionKind, rawLine: string, lineNumber: number) => {
+    const cleaned = cleanMeetingLine(rawLine);
+    if (!cleaned) return;
+    const isListed = LIST_MARKER_PREFIX.test(rawLine.replace(INVISIBLE_CHARS, "").trim());
+    const hasSeparator = FIELD_SLASH.test(cleaned) || FIELD_DASH_OR_PIPE.test(cleaned);
+    const fail = () => errors.push({ line: lineNumber, message: `無法解析${SECTION_LABELS[kind]}行：${cleaned}` });
+
+    if (kind === "speakers" || kind === "vips") {
+      if (/^[(（][^)）]*[)）]$/.test(cleaned) && lastRoleGuest && !lastRoleGuest.profession) {
+        lastRoleGuest.profession = cleaned.slice(1, -1).trim();
+        return;
+      }
+      const parts = hasSeparator ? splitPersonLine(cleaned) : { ...splitNameWithProfession(cleaned), referrer: "" };
+      if (!parts?.name) return fail();
+      lastRoleGuest = { name: parts.name, profession: parts.profession, referrer: parts.referrer, eventDate, role: SECTION_ROLES[kind]! };
+      guests.push(lastRoleGuest);
+      sectionEntries += 1;
+      return;
     }
-    guests.push({
-      name: parts.name,
-      profession: parts.profession,
-      referrer: parts.referrer,
-      eventDate: eventDate || "",
-    });
-  }
 
-  const observers: ParsedObserver[] = [];
-  for (const line of observerLines) {
-    const parts = splitPersonLine(line);
-    if (!parts?.name || !parts.profession) {
-      errors.push(`無法解析觀察員行：${cleanMeetingLine(line)}`);
-      continue;
+    // Free text inside a list section (e.g. "Please welcome…") is not an entry.
+    if (!isListed && !hasSeparator) return;
+    sectionEntries += 1;
+    if (kind === "substitutes") {
+      const parts = splitSubstituteLine(cleaned);
+      if (!parts) return fail();
+      substitutes.push({ ...parts, eventDate });
+      return;
     }
-    observers.push({
-      name: parts.name,
-      profession: parts.profession,
-      eventDate: eventDate || "",
-    });
-  }
+    const parts = splitPersonLine(cleaned);
+    if (!parts?.name || !parts.profession) return fail();
+    if (kind === "observers") {
+      observers.push({ name: parts.name, profession: parts.profession, eventDate });
+    } else {
+      guests.push({ ...parts, eventDate, role: "GUEST" });
+    }
+  };
 
-  const substitutes: ParsedSubstitute[] = [];
-  for (const line of substituteLines) {
-    const parts = splitSubstituteLine(line);
-    if (!parts) {
-      errors.push(`無法解析替代人行：${cleanMeetingLine(line)}`);
-      continue;
+  normalized.split("\n").forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const header = matchSectionHeader(rawLine, aliases);
+    if (header) {
+      section = header.kind;
+      sectionsFound += 1;
+      sectionEntries = 0;
+      lastRoleGuest = null;
+      if (header.inlineEntry) addEntry(header.kind, header.inlineEntry, lineNumber);
+      return;
     }
-    substitutes.push({
-      substituteName: parts.substituteName,
-      memberName: parts.memberName,
-      eventDate: eventDate || "",
-    });
-  }
+    if (!section) return;
+    if (!cleanMeetingLine(rawLine)) {
+      if ((section === "speakers" || section === "vips") && sectionEntries > 0) section = null;
+      return;
+    }
+    addEntry(section, rawLine, lineNumber);
+  });
 
-  if (guestLines.length === 0 && observerLines.length === 0 && substituteLines.length === 0) {
-    errors.push("找不到嘉賓名單、觀察員或替代人段落（請確認已貼上完整會議訊息）");
+  if (sectionsFound === 0) {
+    errors.push({ line: null, message: "找不到嘉賓、觀察員、替代人、講者或 VIP 段落（請確認已貼上完整會議訊息）" });
   }
 
-  return { eventDate: eventDate || "", guests, observers, substitutes, errors };
+  return { eventDate, guests, observers, substitutes, errors };
 }
 
 export function guestListToCsv(guests: ParsedGuest[]): string {
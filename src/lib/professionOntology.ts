@@ -0,0 +1,310 @@
+import type { MemberCategory } from "./memberCategories";
+
+/**
+ * One profession concept with its zh-HK and English terms. `groupTerms` are fragments of profession group names
+ * (e.g. "金融及投資") the concept belongs to, so a chapter's own groups from GET /api/profession-groups resolve
+ * without hardcoding their letter codes. `related` concepts are adjacent ones (insurance ↔ financial planning).
+ */
+export type ProfessionConcept = {
+  id: string;
+  labelZh: string;
+  labelEn: string;
+  terms: string[];
+  groupTerms: string[];
+  related: string[];
+};
+
+export const PROFESSION_CONCEPTS: ProfessionConcept[] = [
+  {
+    id: "insurance",
+    labelZh: "保險",
+    labelEn: "Insurance",
+    terms: ["保險", "保障", "insurance", "insurer", "underwriting"],
+    groupTerms: ["金融", "finance"],
+    related: ["financial-planning", "medical"],
+  },
+  {
+    id: "financial-planning",
+    labelZh: "理財規劃",
+    labelEn: "Financial planning",
+    terms: ["理財", "財務策劃", "財務規劃", "財富管理", "financial planning", "financial planner", "wealth"],
+    groupTerms: ["金融", "投資", "finance", "investment"],
+    related: ["insurance", "investment", "accounting"],
+  },
+  {
+    id: "investment",
+    labelZh: "投資",
+    labelEn: "Investment",
+    terms: ["投資", "基金", "證券", "股票", "investment", "fund", "securities", "stock"],
+    groupTerms: ["投資", "investment"],
+    related: ["financial-planning", "banking"],
+  },
+  {
+    id: "banking",
+    labelZh: "銀行及融資",
+    labelEn: "Banking & lending",
+    terms: ["銀行", "貸款", "按揭", "融資", "bank", "loan", "mortgage", "financing"],
+    groupTerms: ["金融", "finance"],
+    related: ["investment", "property"],
+  },
+  {
+    id: "accounting",
+    labelZh: "會計及稅務",
+    labelEn: "Accounting & tax",
+    terms: ["會計", "核數", "審計", "稅務", "報稅", "accounting", "accountant", "audit", "tax", "bookkeeping"],
+    groupTerms: ["專業", "企業服務", "professional", "corporate"],
+    related: ["company-secretary", "financial-planning", "legal"],
+  },
+  {
+    id: "company-secretary",
+    labelZh: "公司秘書",
+    labelEn: "Company secretary",
+    terms: ["公司秘書", "公司註冊", "開公司", "company secretary", "incorporation", "corporate services"],
+    groupTerms: ["專業", "企業服務", "professional", "corporate"],
+    related: ["accounting", "legal"],
+  },
+  {
+    id: "legal",
+    labelZh: "法律",
+    labelEn: "Legal",
+    terms: ["律師", "法律", "法務", "訴訟", "lawyer", "legal", "solicitor", "barrister", "law firm"],
+    groupTerms: ["專業", "professional"],
+    related: ["accounting", "company-secretary"],
+  },
+  {
+    id: "hr",
+    labelZh: "人力資源",
+    labelEn: "Human resources",
+    terms: ["人力資源", "人事", "招聘", "獵頭", "human resources", "hr", "recruitment", "recruiter", "headhunt", "payroll"],
+    groupTerms: ["專業", "企業服務", "professional", "corporate"],
+    related: ["education"],
+  },
+  {
+    id: "it",
+    labelZh: "資訊科技",
+    labelEn: "IT",
+    terms: ["資訊科技", "電腦", "軟件", "程式", "系統開發", "網站", "網頁", "it", "software", "computer", "website", "web", "app", "cloud"],
+    groupTerms: ["資訊", "科技", "technology"],
+    related: ["cybersecurity", "ai", "digital-marketing", "design"],
+  },
+  {
+    id: "cybersecurity",
+    labelZh: "網絡安全",
+    labelEn: "Cybersecurity",
+    terms: ["網絡安全", "資訊保安", "cybersecurity", "cyber security"],
+    groupTerms: ["資訊", "科技", "technology"],
+    related: ["it"],
+  },
+  {
+    id: "ai",
+    labelZh: "人工智能及自動化",
+    labelEn: "AI & automation",
+    terms: ["人工智能", "自動化", "ai", "automation"],
+    groupTerms: ["創新科技", "technology"],
+    related: ["it"],
+  },
+  {
+    id: "digital-marketing",
+    labelZh: "市場推廣",
+    labelEn: "Marketing",
+    terms: ["市場推廣", "數碼營銷", "網上推廣", "社交媒體", "廣告", "marketing", "social media", "advertising", "seo"],
+    groupTerms: ["市場推廣", "marketing"],
+    related: ["design", "branding", "event", "it"],
+  },
+  {
+    id: "design",
+    labelZh: "設計",
+    labelEn: "Design",
+    terms: ["平面設計", "設計", "design", "designer", "graphic"],
+    groupTerms: ["市場推廣", "marketing"],
+    related: ["branding", "printing", "digital-marketing"],
+  },
+  {
+    id: "branding",
+    labelZh: "品牌",
+    labelEn: "Branding",
+    terms: ["品牌", "brand", "branding"],
+    groupTerms: ["品牌", "brand", "市場推廣", "marketing"],
+    related: ["design", "digital-marketing"],
+  },
+  {
+    id: "event",
+    labelZh: "活動及展覽",
+    labelEn: "Events & exhibitions",
+    terms: ["活動", "展覽", "場地", "婚禮", "event", "exhibition", "venue", "wedding"],
+    groupTerms: ["展覽", "exhibition"],
+    related: ["photography", "food", "printing", "digital-marketing"],
+  },
+  {
+    id: "photography",
+    labelZh: "攝影及影片",
+    labelEn: "Photo & video",
+    terms: ["攝影", "錄影", "影片", "photography", "photographer", "video", "videography"],
+    groupTerms: ["市場推廣", "marketing"],
+    related: ["event", "design"],
+  },
+  {
+    id: "printing",
+    labelZh: "印刷",
+    labelEn: "Printing",
+    terms: ["印刷", "紙品", "printing", "print"],
+    groupTerms: ["品牌", "廠商", "vendor"],
+    related: ["design", "branding", "event"],
+  },
+  {
+    id: "interior-design",
+    labelZh: "室內設計及裝修",
+    labelEn: "Interior design & renovation",
+    terms: ["室內設計", "裝修", "裝潢", "翻新", "interior design", "renovation", "fit-out", "fitting out"],
+    groupTerms: ["建築", "construction"],
+    related: ["construction", "property", "home"],
+  },
+  {
+    id: "construction",
+    labelZh: "建築工程",
+    labelEn: "Construction & engineering",
+    terms: ["建築", "工程", "承建", "機電", "construction", "engineering", "engineer", "contractor", "builder"],
+    groupTerms: ["建築", "construction", "engineering"],
+    related: ["interior-design", "property", "cleaning"],
+  },
+  {
+    id: "cleaning",
+    labelZh: "清潔及環境衛生",
+    labelEn: "Cleaning & hygiene",
+    terms: ["清潔", "消毒", "滅蟲", "環境衛生", "cleaning", "pest control", "disinfection"],
+    groupTerms: ["環境衛生"],
+    related: ["property", "construction"],
+  },
+  {
+    id: "property",
+    labelZh: "地產及物業",
+    labelEn: "Property",
+    terms: ["地產", "物業", "房地產", "樓盤", "租務", "property", "real estate", "estate agent", "leasing"],
+    groupTerms: ["地產", "property"],
+    related: ["banking", "interior-design", "cleaning"],
+  },
+  {
+    id: "logistics",
+    labelZh: "物流",
+    labelEn: "Logistics",
+    terms: ["物流", "運輸", "貨運", "倉庫", "速遞", "logistics", "shipping", "freight", "courier", "warehouse"],
+    groupTerms: ["企業服務", "corporate"],
+    related: ["trading"],
+  },
+  {
+    id: "trading",
+    labelZh: "貿易及採購",
+    labelEn: "Trading & sourcing",
+    terms: ["貿易", "進出口", "批發", "採購", "trading", "import", "export", "wholesale", "sourcing"],
+    groupTerms: ["廠商", "vendor"],
+    related: ["logistics", "branding"],
+  },
+  {
+    id: "food",
+    labelZh: "餐飲",
+    labelEn: "Food & beverage",
+    terms: ["餐飲", "餐廳", "食品", "到會", "咖啡", "紅酒", "restaurant", "catering", "food", "f&b", "wine", "coffee"],
+    groupTerms: ["食品", "餐飲", "food"],
+    related: ["event"],
+  },
+  {
+    id: "medical",
+    labelZh: "醫療",
+    labelEn: "Medical",
+    terms: ["醫生", "醫療", "醫務", "診所", "牙醫", "中醫", "藥", "doctor", "medical", "clinic", "dental", "pharmacy"],
+    groupTerms: ["醫療", "medical"],
+    related: ["health", "insurance"],
+  },
+  {
+    id: "health",
+    labelZh: "健康及運動",
+    labelEn: "Health & fitness",
+    terms: ["健康", "健身", "物理治療", "營養", "運動", "health", "fitness", "physiotherapy", "nutrition", "wellness", "sport"],
+    groupTerms: ["健康", "運動", "health", "sports"],
+    related: ["medical", "beauty"],
+  },
+  {
+    id: "beauty",
+    labelZh: "美容",
+    labelEn: "Beauty",
+    terms: ["美容", "美髮", "護膚", "化妝", "beauty", "salon", "skincare", "makeup", "spa"],
+    groupTerms: ["生活品味", "lifestyle"],
+    related: ["health"],
+  },
+  {
+    id: "education",
+    labelZh: "教育及培訓",
+    labelEn: "Education & training",
+    terms: ["教育", "培訓", "補習", "課程", "導師", "教練", "education", "training", "tutor", "course", "coach"],
+    groupTerms: ["教育", "培訓", "education", "training"],
+    related: ["hr"],
+  },
+  {
+    id: "travel",
+    labelZh: "旅遊",
+    labelEn: "Travel",
+    terms: ["旅遊", "旅行社", "機票", "酒店", "travel", "tour", "hotel"],
+    groupTerms: ["生活品味", "lifestyle"],
+    related: ["event"],
+  },
+  {
+    id: "home",
+    labelZh: "家居及家庭服務",
+    labelEn: "Home & family services",
+    terms: ["家居", "傢俬", "家庭", "搬屋", "furniture", "home", "moving", "removal"],
+    groupTerms: ["家庭", "family"],
+    related: ["interior-design"],
+  },
+];
+
+const conceptById = new Map(PROFESSION_CONCEPTS.map((c) => [c.id, c]));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Han terms match anywhere ("保險裝修" holds both); Latin terms match from a word start ("account" in
+ * "accountant"), and short ones ("it", "hr", "ai") only as whole words.
+ */
+const termPatterns = new Map(
+  PROFESSION_CONCEPTS.flatMap((c) => c.terms).map((term) => {
+    if (/\p{Script=Han}/u.test(term)) return [term, null] as const;
+    const body = escapeRegExp(term);
+    return [term, new RegExp(term.length <= 3 ? `(^|[^a-z])${body}($|[^a-z])` : `(^|[^a-z])${body}`)] as const;
+  })
+);
+
+export const normalizeProfessionText = (text: string) => text.normalize("NFKC").toLowerCase();
+
+const hasTerm = (normalized: string, term: string) => {
+  const pattern = termPatterns.get(term);
+  return pattern ? pattern.test(normalized) : normalized.includes(term);
+};
+
+/** Ids of the concepts mentioned in free text, in ontology order. */
+export function extractProfessionConcepts(text: string): string[] {
+  const normalized = normalizeProfessionText(text);
+  if (!normalized.trim()) return [];
+  return PROFESSION_CONCEPTS.filter((c) => c.terms.some((term) => hasTerm(normalized, term))).map((c) => c.id);
+}
+
+/** Adjacent concepts (either side lists the other). */
+export function areConceptsRelated(a: string, b: string): boolean {
+  return Boolean(conceptById.get(a)?.related.includes(b) || conceptById.get(b)?.related.includes(a));
+}
+
+export const conceptLabel = (id: string) => conceptById.get(id)?.labelZh ?? id;
+
+/** Chapter profession group codes whose names match any of the concepts' group terms. */
+export function conceptCategoryCodes(conceptIds: string[], categories: MemberCategory[]): Set<string> {
+  const codes = new Set<string>();
+  for (const id of conceptIds) {
+    const concept = conceptById.get(id);
+    if (!concept) continue;
+    for (const category of categories) {
+      if (category.code === "OTHER") continue;
+      const names = normalizeProfessionText(`${category.nameZh} ${category.nameEn}`);
+      if (concept.groupTerms.some((term) => names.includes(term.toLowerCase()))) codes.add(String(category.code));
+    }
+  }
+  return codes;
+}
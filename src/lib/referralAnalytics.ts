@@ -0,0 +1,257 @@
+import Papa from "papaparse";
+import type { CheckInRecord, GuestInfo, MemberInfo, ObserverInfo, PipelineEntry } from "../api";
+import { toChapterWallClock } from "./attendanceStatus";
+import { normalizeGuestName } from "./guestIdentity";
+import { cleanReferrer } from "./parseWhatsAppMeetingMessage";
+
+/** Inclusive YYYY-MM-DD range. */
+export type ReferralDateRange = {
+  from: string;
+  to: string;
+};
+
+export type ReferralSources = {
+  guests: GuestInfo[];
+  records: CheckInRecord[];
+  observers: ObserverInfo[];
+  members: MemberInfo[];
+  /** Pipeline entries; one with a memberId marks its guest as converted. */
+  pipelineEntries?: PipelineEntry[];
+};
+
+/** One invited guest at one meeting. */
+export type ReferredVisit = {
+  eventDate: string;
+  guestName: string;
+  attended: boolean;
+  /** Checked in without a registration (walk-in naming this referrer). */
+  walkIn: boolean;
+};
+
+export type ReferrerMeetingStats = {
+  eventDate: string;
+  invited: number;
+  attended: number;
+};
+
+export type ReferrerStats = {
+  /** Matched member name, or the cleaned referrer text when no member matches. */
+  referrer: string;
+  member?: MemberInfo;
+  invited: number;
+  attended: number;
+  noShows: number;
+  /** Distinct invited guests registered as observers on or after their first visit referred by this referrer. */
+  becameObservers: number;
+  /** Distinct invited guests who are now members. */
+  becameMembers: number;
+  /** becameMembers / distinct invited guests (0–1); null when nobody was invited. */
+  conversionRate: number | null;
+  meetings: ReferrerMeetingStats[];
+  visits: ReferredVisit[];
+};
+
+export type ReferralMeetingSummary = {
+  eventDate: string;
+  invited: number;
+  attended: number;
+  noShows: number;
+  referrers: number;
+};
+
+export type ReferralReport = {
+  range: ReferralDateRange;
+  referrers: ReferrerStats[];
+  meetings: ReferralMeetingSummary[];
+};
+
+const GUEST_ROLES = new Set(["GUEST", "VIP", "SPEAKER"]);
+
+/** Check-in record of a guest (members and observers excluded). */
+const isGuestRecord = (record: CheckInRecord) =>
+  record.type.trim().toLowerCase() === "guest" || (record.role != null && GUEST_ROLES.has(record.role));
+
+const tokens = (normalized: string) => normalized.split(" ").filter(Boolean);
+
+/**
+ * Member a free-text referrer refers to: emoji and "Invited by" prefixes are dropped (cleanReferrer), then an
+ * exact normalized-name match, else the only member whose name contains every referrer word ("Vincent" →
+ * "Vincent Woo") or, for Chinese, the referrer's characters. Undefined when nothing or several members match.
+ */
+export function matchReferrerToMember<T extends Pick<MemberInfo, "name">>(raw: string, members: T[]): T | undefined {
+  const key = normalizeGuestName(cleanReferrer(raw));
+  if (!key) return undefined;
+  const exact = members.find((m) => normalizeGuestName(m.name) === key);
+  if (exact) return exact;
+  const wanted = tokens(key);
+  const partial = members.filter((m) => {
+    const name = normalizeGuestName(m.name);
+    const words = tokens(name);
+    return wanted.every((w) => words.includes(w)) || (/\p{Script=Han}/u.test(key) && name.includes(key));
+  });
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+const inRange = (date: string, range: ReferralDateRange) => date >= range.from && date <= range.to;
+
+/**
+ * Per-referrer and per-meeting referral numbers for meetings in `range`.
+ * A guest attended when a guest check-in with their (normalized) name falls on the registration's event date in the
+ * chapter's timezone; check-ins naming a referrer with no registration count as invited and attended.
+ * Referrers are sorted by attended, then invited guests.
+ */
+export function buildReferralReport(sources: ReferralSources, range: ReferralDateRange, timeZone?: string | null): ReferralReport {
+  const checkedIn = new Map<string, CheckInRecord>();
+  for (const record of sources.records.filter(isGuestRecord)) {
+    const checkedInAt = new Date(record.timestamp);
+    // Empty or unparseable timestamps have no meeting to count towards.
+    if (Number.isNaN(checkedInAt.getTime())) continue;
+    const date = toChapterWallClock(checkedInAt, timeZone).date;
+    if (!inRange(date, range)) continue;
+    checkedIn.set(`${date}|${normalizeGuestName(record.name)}`, record);
+  }
+
+  type Referred = ReferredVisit & { guestKey: string; referrerRaw: string };
+  const referred: Referred[] = [];
+  const registered = new Set<string>();
+  for (const guest of sources.guests) {
+    const eventDate = (guest.eventDate ?? "").slice(0, 10);
+    if (!eventDate || !inRange(eventDate, range)) continue;
+    const guestKey = normalizeGuestName(guest.name);
+    registered.add(`${eventDate}|${guestKey}`);
+    if (!cleanReferrer(guest.referrer ?? "")) continue;
+    referred.push({
+      eventDate,
+      guestName: guest.name.trim(),
+      guestKey,
+      referrerRaw: guest.referrer,
+      attended: checkedIn.has(`${eventDate}|${guestKey}`),
+      walkIn: false,
+    });
+  }
+  for (const [key, record] of checkedIn) {
+    if (registered.has(key) || !cleanReferrer(record.referrer ?? "")) continue;
+    const [eventDate, guestKey] = key.split("|");
+    referred.push({ eventDate, guestName: record.name.trim(), guestKey, referrerRaw: record.referrer ?? "", attended: true, walkIn: true });
+  }
+
+  /** Latest observer registration date per person. */
+  const observerDates = new Map<string, string>();
+  for (const o of sources.observers) {
+    const key = normalizeGuestName(o.name);
+    const date = (o.eventDate ?? "").slice(0, 10);
+    if (date > (observerDates.get(key) ?? "")) observerDates.set(key, date);
+  }
+  const memberKeys = new Set([
+    ...sources.members.map((m) => normalizeGuestName(m.name)),
+    ...(sources.pipelineEntries ?? []).filter((e) => e.memberId != null).map((e) => e.prospectKey),
+  ]);
+
+  const byReferrer = new Map<string, { referrer: string; member?: MemberInfo; visits: Referred[] }>();
+  for (const visit of referred) {
+    const member = matchReferrerToMember(visit.referrerRaw, sources.members);
+    const referrer = member?.name ?? cleanReferrer(visit.referrerRaw);
+    const key = member ? `member:${member.id ?? member.name}` : `text:${normalizeGuestName(referrer)}`;
+    const group = byReferrer.get(key) ?? { referrer, member, visits: [] };
+    group.visits.push(visit);
+    byReferrer.set(key, group);
+  }
+
+  const referrers: ReferrerStats[] = [...byReferrer.values()].map(({ referrer, member, visits }) => {
+    const firstVisit = new Map<string, string>();
+    for (const v of visits) {
+      const first = firstVisit.get(v.guestKey);
+      if (!first || v.eventDate < first) firstVisit.set(v.guestKey, v.eventDate);
+    }
+    const guestKeys = new Set(firstVisit.keys());
+    const becameMembers = [...guestKeys].filter((k) => memberKeys.has(k)).length;
+    const meetings = new Map<string, ReferrerMeetingStats>();
+    for (const v of visits) {
+      const m = meetings.get(v.eventDate) ?? { eventDate: v.eventDate, invited: 0, attended: 0 };
+      m.invited += 1;
+      if (v.attended) m.attended += 1;
+      meetings.set(v.eventDate, m);
+    }
+    const attended = visits.filter((v) => v.attended).length;
+    return {
+      referrer,
+      member,
+      invited: visits.length,
+      attended,
+      noShows: visits.length - attended,
+      becameObservers: [...firstVisit].filter(([k, first]) => (observerDates.get(k) ?? "") >= first).length,
+      becameMembers,
+      conversionRate: guestKeys.size > 0 ? becameMembers / guestKeys.size : null,
+      meetings: [...meetings.values()].sort((a, b) => a.eventDate.localeCompare(b.eventDate)),
+      visits: visits
+        .map(({ eventDate, guestName, attended: a, walkIn }) => ({ eventDate, guestName, attended: a, walkIn }))
+        .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.guestName.localeCompare(b.guestName)),
+    };
+  });
+  referrers.sort((a, b) => b.attended - a.attended || b.invited - a.invited || a.referrer.localeCompare(b.referrer));
+
+  const meetingMap = new Map<string, { invited: number; attended: number; referrers: Set<string> }>();
+  for (const stats of referrers) {
+    for (const m of stats.meetings) {
+      const summary = meetingMap.get(m.eventDate) ?? { invited: 0, attended: 0, referrers: new Set<string>() };
+      summary.invited += m.invited;
+      summary.attended += m.attended;
+      summary.referrers.add(stats.referrer);
+      meetingMap.set(m.eventDate, summary);
+    }
+  }
+  const meetings = [...meetingMap]
+    .map(([eventDate, s]) => ({
+      eventDate,
+      invited: s.invited,
+      attended: s.attended,
+      noShows: s.invited - s.attended,
+      referrers: s.referrers.size,
+    }))
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+
+  return { range, referrers, meetings };
+}
+
+const percent = (rate: number | null) => (rate == null ? "" : `${Math.round(rate * 100)}%`);
+
+/** Leaderboard rows followed by one row per referrer per meeting. */
+export function referralReportToCsv(report: ReferralReport): string {
+  const summaryRows = report.referrers.map((r) => ({
+    referrer: r.referrer,
+    matched_member: r.member ? "yes" : "no",
+    event_date: "",
+    invited: r.invited,
+    attended: r.attended,
+    no_shows: r.noShows,
+    became_observers: r.becameObservers,
+    became_members: r.becameMembers,
+    conversion_rate: percent(r.conversionRate),
+  }));
+  const meetingRows = report.referrers.flatMap((r) =>
+    r.meetings.map((m) => ({
+      referrer: r.referrer,
+      matched_member: r.member ? "yes" : "no",
+      event_date: m.eventDate,
+      invited: m.invited,
+      attended: m.attended,
+      no_shows: m.invited - m.attended,
+      became_observers: "",
+      became_members: "",
+      conversion_rate: "",
+    }))
+  );
+  return Papa.unparse([...summaryRows, ...meetingRows], {
+    columns: [
+      "referrer",
+      "matched_member",
+      "event_date",
+      "invited",
+      "attended",
+      "no_shows",
+      "became_observers",
+      "became_members",
+      "conversion_rate",
+    ],
+  });
+}
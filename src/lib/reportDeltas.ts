@@ -0,0 +1,96 @@
+import type { CheckInRecord, ReportAttendance, ReportData, ReportDeltaMessage, ReportStats } from "../api";
+import { isLateStatus } from "./attendanceStatus";
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const roleOf = (row: ReportAttendance) => (row.role ?? "MEMBER").toUpperCase();
+
+const withoutName = (rows: ReportAttendance[], name: string) =>
+  rows.filter((row) => nameKey(row.memberName) !== nameKey(name));
+
+/** Replace the row with the same name in place, or append it. */
+function upsertRow(rows: ReportAttendance[], row: ReportAttendance): ReportAttendance[] {
+  const index = rows.findIndex((r) => nameKey(r.memberName) === nameKey(row.memberName));
+  if (index < 0) return [...rows, row];
+  const next = [...rows];
+  next[index] = row;
+  return next;
+}
+
+/**
+ * Dashboard counters from the two lists (same definitions the report cards use):
+ * VIP counts include speakers; guest count is arrived guests only.
+ */
+export function computeReportStats(attendees: ReportAttendance[], absentees: ReportAttendance[]): ReportStats {
+  const everyone = [...attendees, ...absentees];
+  const isVip = (row: ReportAttendance) => roleOf(row) === "VIP" || roleOf(row) === "SPEAKER";
+  return {
+    totalAttendees: attendees.length,
+    onTimeCount: attendees.filter((row) => row.status === "on-time" || row.status === "early").length,
+    lateCount: attendees.filter((row) => isLateStatus(row.status)).length,
+    absentCount: absentees.length,
+    guestCount: attendees.filter((row) => roleOf(row) === "GUEST").length,
+    vipCount: everyone.filter(isVip).length,
+    vipArrivedCount: attendees.filter(isVip).length,
+    speakerCount: everyone.filter((row) => roleOf(row) === "SPEAKER").length
+  };
+}
+
+function withLists(report: ReportData, attendees: ReportAttendance[], absentees: ReportAttendance[], seq: number): ReportData {
+  return { ...report, attendees, absentees, stats: computeReportStats(attendees, absentees), seq };
+}
+
+/**
+ * Apply one delta to the report snapshot. Pure; returns the same object when the delta does not apply
+ * (other event, already-applied seq, or resync_required which the caller handles by refetching).
+ */
+export function applyReportDelta(report: ReportData | null, message: ReportDeltaMessage): ReportData | null {
+  if (message.type === "event_activated") return { ...message.report, seq: message.seq };
+  if (message.type === "resync_required" || !report) return report;
+  if (message.eventId !== report.eventId) return report;
+  if (report.seq != null && message.seq <= report.seq) return report;
+
+  switch (message.type) {
+    case "attendee_checked_in":
+      return withLists(
+        report,
+        upsertRow(report.attendees, message.attendee),
+        withoutName(report.absentees, message.attendee.memberName),
+        message.seq
+      );
+    case "attendee_removed":
+      return withLists(
+        report,
+        withoutName(report.attendees, message.memberName),
+        message.absentee ? upsertRow(report.absentees, message.absentee) : report.absentees,
+        message.seq
+      );
+    case "substitute_set": {
+      const name = nameKey(message.attendee.memberName);
+      const inAbsentees = report.absentees.some((row) => nameKey(row.memberName) === name);
+      return inAbsentees
+        ? withLists(report, report.attendees, upsertRow(report.absentees, message.attendee), message.seq)
+        : withLists(report, upsertRow(report.attendees, message.attendee), report.absentees, message.seq);
+    }
+  }
+}
+
+/** Apply one delta to the 簽到記錄 table (newest first). Pure. */
+export function applyRecordDelta(records: CheckInRecord[], message: ReportDeltaMessage): CheckInRecord[] {
+  switch (message.type) {
+    case "attendee_checked_in":
+    case "substitute_set": {
+      const record = message.record;
+      if (!record) return records;
+      const index = records.findIndex((r) => r.id === record.id);
+      if (index < 0) return [record, ...records];
+      const next = [...records];
+      next[index] = record;
+      return next;
+    }
+    case "attendee_removed":
+      return message.recordId ? records.filter((r) => r.id !== message.recordId) : records;
+    default:
+      return records;
+  }
+}
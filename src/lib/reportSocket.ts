@@ -0,0 +1,152 @@
+import {
+  buildReportSubscribeMessage,
+  getReportWebSocketUrl,
+  type ReportDeltaMessage,
+  type ReportDeltaType,
+  type ReportSubscription
+} from "../api";
+
+const DELTA_TYPES = new Set<ReportDeltaType>([
+  "attendee_checked_in",
+  "attendee_removed",
+  "substitute_set",
+  "event_activated",
+  "resync_required"
+]);
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+/** A connection must stay open this long before the backoff resets; one that drops sooner keeps backing off. */
+const STABLE_CONNECTION_MS = 10000;
+
+export type ReportSocketOptions = {
+  /** Chapter (and optional event) to receive; other chapters' check-ins are never delivered. */
+  subscription: ReportSubscription;
+  /** One in-order delta (duplicates and replays already dropped). */
+  onDelta: (message: ReportDeltaMessage) => void;
+  /** Deltas were missed (gap in seq or server asked); caller should refetch a snapshot and call setSeq. */
+  onResync: () => void;
+  onStatusChange?: (connected: boolean) => void;
+};
+
+export type ReportSocket = {
+  /** Record the seq a freshly fetched snapshot reflects, so reconnects resume after it. */
+  setSeq: (seq: number | null | undefined) => void;
+  /**
+   * Switch chapter / event on the open connection (no reconnect). Seq restarts because it is per chapter;
+   * the caller refetches a snapshot for the new scope and calls setSeq.
+   */
+  subscribe: (subscription: ReportSubscription) => void;
+  close: () => void;
+};
+
+/** 1s, 2s, 4s … capped at 30s, with ±20% jitter so kiosks don't reconnect in lockstep. */
+export function reportSocketBackoffMs(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(base * (0.8 + random() * 0.4));
+}
+
+function parseDelta(raw: unknown): ReportDeltaMessage | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const message = JSON.parse(raw) as { type?: string; seq?: unknown };
+    if (!message.type || !DELTA_TYPES.has(message.type as ReportDeltaType)) return null;
+    if (typeof message.seq !== "number") return null;
+    return message as ReportDeltaMessage;
+  } catch {
+    return null;
+  }
+}
+
+const sameScope = (a: ReportSubscription, b: ReportSubscription) =>
+  (a.chapterTag ?? null) === (b.chapterTag ?? null) &&
+  (a.chapterId ?? null) === (b.chapterId ?? null) &&
+  (a.eventId ?? null) === (b.eventId ?? null);
+
+/**
+ * Open /ws/report for one chapter and keep it open: reconnects with exponential backoff (reset once a connection has
+ * stayed up for STABLE_CONNECTION_MS) and resumes with `?since=<lastSeq>`.
+ * Deltas at or below the last seq are dropped; a jump past lastSeq + 1 triggers onResync.
+ * Side effects: WebSocket connection, timers.
+ */
+export function openReportSocket(options: ReportSocketOptions): ReportSocket {
+  let lastSeq = 0;
+  let attempt = 0;
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stableTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let scope = options.subscription;
+
+  const connect = () => {
+    if (closed) return;
+    const urlScope = scope;
+    const ws = new WebSocket(getReportWebSocketUrl(urlScope, lastSeq || null));
+    socket = ws;
+    ws.onopen = () => {
+      // A server that accepts and then drops right away must not reset the backoff.
+      stableTimer = setTimeout(() => {
+        stableTimer = null;
+        attempt = 0;
+      }, STABLE_CONNECTION_MS);
+      // subscribe() while connecting only changed `scope`; the URL still names the old one.
+      if (!sameScope(urlScope, scope)) ws.send(buildReportSubscribeMessage(scope));
+      options.onStatusChange?.(true);
+    };
+    ws.onmessage = (event) => {
+      const message = parseDelta(event.data);
+      if (!message) return;
+      // Frames already in flight for the previous chapter when we resubscribed.
+      const chapterId = "chapterId" in message ? message.chapterId : undefined;
+      if (chapterId != null && scope.chapterId != null && chapterId !== scope.chapterId) return;
+      if (message.type === "resync_required") {
+        options.onResync();
+        return;
+      }
+      if (message.type !== "event_activated" && lastSeq && message.seq <= lastSeq) return;
+      const gap = lastSeq > 0 && message.seq > lastSeq + 1 && message.type !== "event_activated";
+      lastSeq = Math.max(lastSeq, message.seq);
+      if (gap) {
+        options.onResync();
+        return;
+      }
+      options.onDelta(message);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (stableTimer) clearTimeout(stableTimer);
+      stableTimer = null;
+      options.onStatusChange?.(false);
+      if (closed) return;
+      retryTimer = setTimeout(connect, reportSocketBackoffMs(attempt));
+      attempt += 1;
+    };
+    ws.onerror = () => {
+      options.onStatusChange?.(false);
+    };
+  };
+
+  connect();
+
+  return {
+    setSeq: (seq) => {
+      if (typeof seq === "number" && seq > lastSeq) lastSeq = seq;
+    },
+    subscribe: (subscription) => {
+      if (sameScope(scope, subscription)) return;
+      scope = subscription;
+      lastSeq = 0;
+      // Still connecting: onopen sends it. Reconnecting: the next connect() puts the new scope in the URL.
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(buildReportSubscribeMessage(scope));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (stableTimer) clearTimeout(stableTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+    }
+  };
+}
@@ -0,0 +1,213 @@
+import type { BatchMatchResult, GuestInfo } from "../api";
+import type { Guest, Member, MatchStrength, MemberMatch, SeatingPlanResponse, SeatingTable } from "../types/seating";
+import { buildChapterPdfFilename } from "./chapterBranding";
+import { generatePagedPdfBlob } from "./generateQrFlyerPdf";
+import { normalizeGuestName } from "./guestIdentity";
+import type { MemberCategory } from "./memberCategories";
+import { matchReferrerToMember } from "./referralAnalytics";
+import { buildSeatingAssignments, rankSeatingMatches } from "./seatingOptimizer";
+
+/** A person dragged in the editor. */
+export type SeatRef = {
+  kind: "member" | "guest";
+  id: string;
+};
+
+export type SeatingViolationKind = "capacity" | "category" | "host" | "referrer" | "unseated";
+
+/** A broken seating rule, for the editor's warning list. `table` is null for people without a seat. */
+export type SeatingViolation = {
+  kind: SeatingViolationKind;
+  table: number | null;
+  message: string;
+};
+
+/**
+ * Seating guest for an event registration; the id is the normalized name so it stays stable across reloads.
+ * Registrations carry no target profession or bottlenecks, so keyword matching finds nothing for these guests:
+ * only AI batch results give them matches (see guestsWithoutMatchData).
+ */
+export function toSeatingGuest(guest: GuestInfo): Guest {
+  return {
+    id: `guest-${normalizeGuestName(guest.name)}`,
+    name: guest.name.trim(),
+    profession: guest.profession,
+    bottlenecks: [],
+    referrer: guest.referrer || undefined,
+  };
+}
+
+/** AI batch results as seating matches (guest id → matches), joining guests and members by normalized name. */
+export function batchResultsToMatches(
+  results: BatchMatchResult[],
+  guests: Guest[],
+  members: Member[]
+): Record<string, MemberMatch[]> {
+  const guestByName = new Map(guests.map((g) => [normalizeGuestName(g.name), g]));
+  const memberByName = new Map(members.map((m) => [normalizeGuestName(m.name), m]));
+  const matches: Record<string, MemberMatch[]> = {};
+  for (const result of results) {
+    const guest = guestByName.get(normalizeGuestName(result.guestName));
+    if (!guest) continue;
+    matches[guest.id] = result.matchedMembers.flatMap((m) => {
+      const member = memberByName.get(normalizeGuestName(m.memberName));
+      const matchStrength = (["High", "Medium", "Low"] as const).find((s) => s === m.matchStrength) ?? "Low";
+      return member ? [{ member, matchStrength, reason: m.reason }] : [];
+    });
+  }
+  return matches;
+}
+
+/** Guests the auto-plan can't match: no batch result and nothing for keyword matching to score. */
+export function guestsWithoutMatchData(guests: Guest[], matches: Record<string, MemberMatch[]>): Guest[] {
+  return guests.filter((g) => !matches[g.id] && !g.targetProfession?.trim() && g.bottlenecks.length === 0);
+}
+
+/**
+ * Move one person to `toTable` (null = unseat). Returns new tables; the input is untouched.
+ * A moved host leaves their table to the next leadership member still seated there; a leader moved to a table
+ * without a host becomes its host.
+ */
+export function moveSeat(tables: SeatingTable[], members: Member[], ref: SeatRef, toTable: number | null): SeatingTable[] {
+  const leaders = new Set(members.filter((m) => m.isLeadership).map((m) => m.id));
+  const key = ref.kind === "member" ? "memberIds" : "guestIds";
+  return tables.map((t) => {
+    const ids = t[key].filter((id) => id !== ref.id);
+    if (t.table === toTable) ids.push(ref.id);
+    const next = { ...t, [key]: ids };
+    if (ref.kind === "member") {
+      if (next.hostMemberId && !next.memberIds.includes(next.hostMemberId)) {
+        next.hostMemberId = next.memberIds.find((id) => leaders.has(id)) ?? null;
+      }
+      if (!next.hostMemberId && t.table === toTable && leaders.has(ref.id)) next.hostMemberId = ref.id;
+    }
+    return next;
+  });
+}
+
+/** Every broken rule in the current layout: over capacity, shared category, no host, referrer apart, nobody seated. */
+export function checkSeatingConstraints(
+  tables: SeatingTable[],
+  guests: Guest[],
+  members: Member[],
+  seatsPerTable: number
+): SeatingViolation[] {
+  const memberById = new Map(members.map((m) => [m.id, m]));
+  const tableOf = (id: string) => tables.find((t) => t.memberIds.includes(id) || t.guestIds.includes(id));
+  const violations: SeatingViolation[] = [];
+
+  for (const t of tables) {
+    const seated = t.memberIds.length + t.guestIds.length;
+    if (seated > seatsPerTable) {
+      violations.push({ kind: "capacity", table: t.table, message: `第 ${t.table} 桌超出座位（${seated}／${seatsPerTable}）` });
+    }
+    const byCategory = new Map<string, string[]>();
+    for (const id of t.memberIds) {
+      const member = memberById.get(id);
+      if (!member?.category) continue;
+      byCategory.set(member.category, [...(byCategory.get(member.category) ?? []), member.name]);
+    }
+    for (const [category, names] of byCategory) {
+      if (names.length > 1) {
+        violations.push({ kind: "category", table: t.table, message: `第 ${t.table} 桌有同類別（${category}）會員：${names.join("、")}` });
+      }
+    }
+    if (!t.memberIds.some((id) => memberById.get(id)?.isLeadership)) {
+      violations.push({ kind: "host", table: t.table, message: `第 ${t.table} 桌沒有領導團隊成員主持` });
+    }
+  }
+
+  for (const guest of guests) {
+    const guestTable = tableOf(guest.id);
+    if (!guestTable) {
+      violations.push({ kind: "unseated", table: null, message: `嘉賓 ${guest.name} 未安排座位` });
+      continue;
+    }
+    const referrer = guest.referrer ? matchReferrerToMember(guest.referrer, members) : undefined;
+    const referrerTable = referrer ? tableOf(referrer.id) : undefined;
+    if (referrer && referrerTable !== guestTable) {
+      violations.push({
+        kind: "referrer",
+        table: guestTable.table,
+        message: `${guest.name} 與介紹人 ${referrer.name} 不同桌`,
+      });
+    }
+  }
+  const unseatedMembers = members.filter((m) => !tableOf(m.id));
+  if (unseatedMembers.length > 0) {
+    violations.push({
+      kind: "unseated",
+      table: null,
+      message: `${unseatedMembers.length} 位會員未安排座位：${unseatedMembers.map((m) => m.name).join("、")}`,
+    });
+  }
+  return violations;
+}
+
+/**
+ * A saved version's roster brought up to date: everyone in the snapshot plus anyone the live roster has that the
+ * snapshot does not (e.g. walk-ins registered after the save). Newcomers are in no table, so they show as unseated.
+ */
+export function withLiveRoster<T extends { id: string }>(snapshot: T[], live: T[]): T[] {
+  const known = new Set(snapshot.map((p) => p.id));
+  return [...snapshot, ...live.filter((p) => !known.has(p.id))];
+}
+
+/** Plan after manual edits: assignments, unseated members and warnings recomputed for `tables`. */
+export function refreshSeatingPlan(
+  plan: SeatingPlanResponse,
+  tables: SeatingTable[],
+  guests: Guest[],
+  members: Member[],
+  seatsPerTable: number,
+  matches?: Record<string, MemberMatch[]>,
+  categories?: MemberCategory[]
+): SeatingPlanResponse {
+  const seated = new Set(tables.flatMap((t) => t.memberIds));
+  return {
+    ...plan,
+    tables,
+    assignments: buildSeatingAssignments(guests, tables, rankSeatingMatches(guests, members, matches, categories)),
+    unseatedMemberIds: members.filter((m) => !seated.has(m.id)).map((m) => m.id),
+    warnings: checkSeatingConstraints(tables, guests, members, seatsPerTable).map((v) => v.message),
+  };
+}
+
+/** Strength of a member for the guests at their table (best one), or null when they match none of them. */
+export function memberStrengthAtTable(
+  plan: SeatingPlanResponse,
+  table: SeatingTable,
+  memberId: string
+): MatchStrength | null {
+  const strengths = plan.assignments
+    .filter((a) => table.guestIds.includes(a.guestId) && a.seatedWithMemberIds.includes(memberId))
+    .map((a) => a.matchStrength);
+  return strengths.includes("High") ? "High" : strengths.includes("Medium") ? "Medium" : null;
+}
+
+/** Tables per page of the master seating sheet. */
+export const MASTER_SHEET_TABLES_PER_PAGE = 6;
+
+/** "{Display-Name}-Seating-{YYYY-MM-DD}.pdf" */
+export function buildSeatingPdfFilename(displayName: string, date: string): string {
+  return buildChapterPdfFilename(`${displayName} Seating`, date);
+}
+
+/**
+ * Capture every `.seating-sheet-page` under `rootElementId` (tent cards, then the master sheet) into one A4 PDF
+ * and download it. The sheet must already be rendered (see SeatingPrintSheet). Side effects: DOM capture, file download.
+ */
+export async function downloadSeatingChartPdf(rootElementId: string, filename: string): Promise<void> {
+  const root = document.getElementById(rootElementId);
+  const pages = root ? Array.from(root.querySelectorAll<HTMLElement>(".seating-sheet-page")) : [];
+  if (!pages.length) {
+    throw new Error("Seating sheet not found");
+  }
+  const pdfBlob = await generatePagedPdfBlob(pages);
+  const url = URL.createObjectURL(pdfBlob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
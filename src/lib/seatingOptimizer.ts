@@ -0,0 +1,217 @@
+import type { MemberInfo } from "../api";
+import type { Guest, MatchStrength, Member, MemberMatch, SeatingPlanRequest, SeatingPlanResponse, SeatingTable } from "../types/seating";
+import { fingerprint } from "./fingerprint";
+import { matchMembersByKeyword } from "./keywordMatch";
+import { MEMBER_CATEGORIES, resolveMemberCategoryCode, type MemberCategory } from "./memberCategories";
+import { matchReferrerToMember } from "./referralAnalytics";
+
+export type SeatingOptions = {
+  /** Matches per guest id (e.g. saved AI results); guests without an entry are keyword-matched. */
+  matches?: Record<string, MemberMatch[]>;
+  /** Chapter profession groups for keyword matching (categoriesFromProfessionGroups). */
+  categories?: MemberCategory[];
+  /** Recommended members pulled to each guest's table, besides the referrer (default 2). */
+  matchesPerGuest?: number;
+  /** createdAt of the plan (defaults to now); nothing else depends on the clock. */
+  now?: Date;
+};
+
+const STRENGTH_WEIGHT: Record<MatchStrength, number> = { High: 3, Medium: 2, Low: 0 };
+
+const byId = <T extends { id: string }>(a: T, b: T) => a.id.localeCompare(b.id);
+
+/** Seating member from a MemberInfo: category from the chapter's profession groups, leadership from `position`. */
+export function toSeatingMember(member: MemberInfo, categories: MemberCategory[] = MEMBER_CATEGORIES): Member {
+  const category = resolveMemberCategoryCode(member, categories);
+  return {
+    id: member.id != null ? `member-${member.id}` : `member-${member.name}`,
+    name: member.name,
+    profession: member.domain,
+    category: category === "OTHER" ? undefined : category,
+    isLeadership: Boolean(member.position?.trim()),
+  };
+}
+
+/** High / Medium matches per guest id, strongest first: `matches[guest.id]` when given, else keyword matching. */
+export function rankSeatingMatches(
+  guests: Guest[],
+  members: Member[],
+  matches?: Record<string, MemberMatch[]>,
+  categories?: MemberCategory[]
+): Map<string, MemberMatch[]> {
+  const memberIds = new Set(members.map((m) => m.id));
+  const ranked = new Map<string, MemberMatch[]>();
+  for (const guest of guests) {
+    ranked.set(
+      guest.id,
+      (matches?.[guest.id] ?? matchMembersByKeyword(guest, members, categories))
+        .filter((m) => STRENGTH_WEIGHT[m.matchStrength] > 0 && memberIds.has(m.member.id))
+        .sort((a, b) => STRENGTH_WEIGHT[b.matchStrength] - STRENGTH_WEIGHT[a.matchStrength])
+    );
+  }
+  return ranked;
+}
+
+/** Per-guest table, best match seated there and a short note, in `guests` order. */
+export function buildSeatingAssignments(
+  guests: Guest[],
+  tables: SeatingTable[],
+  rankedMatches: Map<string, MemberMatch[]>
+): SeatingPlanResponse["assignments"] {
+  return guests.map((guest) => {
+    const table = tables.find((t) => t.guestIds.includes(guest.id));
+    const seatedWith = table ? (rankedMatches.get(guest.id) ?? []).filter((m) => table.memberIds.includes(m.member.id)) : [];
+    const matchStrength: MatchStrength = seatedWith[0]?.matchStrength ?? "Low";
+    const matchNote = !table
+      ? "未能安排座位"
+      : seatedWith.length > 0
+        ? `第 ${table.table} 桌，與 ${seatedWith.map((m) => `${m.member.name}（${m.matchStrength}）`).join("、")} 同桌`
+        : `第 ${table.table} 桌，同桌暫無高／中度配對會員`;
+    return {
+      guestId: guest.id,
+      guestName: guest.name,
+      assignedTable: table?.table ?? null,
+      matchStrength,
+      matchNote,
+      seatedWithMemberIds: seatedWith.map((m) => m.member.id),
+    };
+  });
+}
+
+/**
+ * Deterministic seating plan (no network, no randomness). In order:
+ * 1. one leadership-team host per table;
+ * 2. guests, strongest matches first, each to the table holding the most of their High / Medium matches (ties go
+ *    to the table with fewest guests, then the lowest number), with their referrer, and then up to
+ *    `matchesPerGuest` of their unseated matches;
+ * 3. remaining members to the emptiest table without their category.
+ * Seats still needed by guests are never given to pulled members. No table gets two members of one category,
+ * except a referrer who must sit with their guest; anything that can't be honoured is listed in `warnings`.
+ */
+export function planSeating(request: SeatingPlanRequest, options: SeatingOptions = {}): SeatingPlanResponse {
+  const capacity = Math.max(0, Math.floor(request.seatsPerTable));
+  const matchesPerGuest = options.matchesPerGuest ?? 2;
+  const members = [...request.members].sort(byId);
+  const memberById = new Map(members.map((m) => [m.id, m]));
+  const tables: SeatingTable[] = Array.from({ length: Math.max(0, Math.floor(request.tableCount)) }, (_, i) => ({
+    table: i + 1,
+    hostMemberId: null,
+    memberIds: [],
+    guestIds: [],
+  }));
+  const tableOfMember = new Map<string, SeatingTable>();
+  const warnings: string[] = [];
+
+  const free = (t: SeatingTable) => capacity - t.memberIds.length - t.guestIds.length;
+  const totalFree = () => tables.reduce((sum, t) => sum + Math.max(0, free(t)), 0);
+  const categoryTaken = (t: SeatingTable, member: Member) =>
+    Boolean(member.category) && t.memberIds.some((id) => memberById.get(id)?.category === member.category);
+  const seatMember = (t: SeatingTable, member: Member) => {
+    t.memberIds.push(member.id);
+    tableOfMember.set(member.id, t);
+  };
+
+  const leaders = members.filter((m) => m.isLeadership);
+  for (const t of tables) {
+    const host = leaders.find((l) => !tableOfMember.has(l.id) && !categoryTaken(t, l));
+    if (host && free(t) > 0) {
+      seatMember(t, host);
+      t.hostMemberId = host.id;
+    } else {
+      warnings.push(`第 ${t.table} 桌沒有領導團隊成員主持`);
+    }
+  }
+
+  const rankedMatches = rankSeatingMatches(request.guests, members, options.matches, options.categories);
+  const weightAt = (guest: Guest, t: SeatingTable) =>
+    (rankedMatches.get(guest.id) ?? [])
+      .filter((m) => t.memberIds.includes(m.member.id))
+      .reduce((sum, m) => sum + STRENGTH_WEIGHT[m.matchStrength], 0);
+  const pullableWeight = (guest: Guest, t: SeatingTable) =>
+    (rankedMatches.get(guest.id) ?? [])
+      .filter((m) => !tableOfMember.has(m.member.id) && !categoryTaken(t, m.member))
+      .slice(0, matchesPerGuest)
+      .reduce((sum, m) => sum + STRENGTH_WEIGHT[m.matchStrength], 0);
+
+  const guestPriority = (guest: Guest) =>
+    (rankedMatches.get(guest.id) ?? []).slice(0, matchesPerGuest).reduce((sum, m) => sum + STRENGTH_WEIGHT[m.matchStrength], 0);
+  const guests = [...request.guests].sort((a, b) => guestPriority(b) - guestPriority(a) || byId(a, b));
+  let guestsLeft = guests.length;
+  const tableOfGuest = new Map<string, SeatingTable>();
+
+  for (const guest of guests) {
+    const referrer = guest.referrer?.trim() ? matchReferrerToMember(guest.referrer, members) : undefined;
+    const referrerTable = referrer ? tableOfMember.get(referrer.id) : undefined;
+    let chosen: SeatingTable | undefined;
+    if (referrerTable && free(referrerTable) > 0) {
+      chosen = referrerTable;
+    } else {
+      if (referrer && referrerTable) warnings.push(`${guest.name} 未能與介紹人 ${referrer.name} 同桌（第 ${referrerTable.table} 桌已滿）`);
+      const needed = referrer && !referrerTable ? 2 : 1;
+      const score = (t: SeatingTable) => weightAt(guest, t) * 2 + pullableWeight(guest, t);
+      chosen = tables
+        .filter((t) => free(t) >= needed)
+        .sort((a, b) => score(b) - score(a) || a.guestIds.length - b.guestIds.length || a.table - b.table)[0];
+      if (!chosen && needed === 2) chosen = tables.filter((t) => free(t) >= 1).sort((a, b) => a.table - b.table)[0];
+    }
+    guestsLeft -= 1;
+    if (!chosen) {
+      warnings.push(`${guest.name} 未能安排座位（座位不足）`);
+      continue;
+    }
+    chosen.guestIds.push(guest.id);
+    tableOfGuest.set(guest.id, chosen);
+
+    if (referrer && !tableOfMember.has(referrer.id)) {
+      if (free(chosen) > 0 && totalFree() - 1 >= guestsLeft) {
+        if (categoryTaken(chosen, referrer)) warnings.push(`第 ${chosen.table} 桌有兩位同類別會員（介紹人 ${referrer.name} 需與嘉賓同桌）`);
+        seatMember(chosen, referrer);
+      } else {
+        warnings.push(`${guest.name} 未能與介紹人 ${referrer.name} 同桌（座位不足）`);
+      }
+    }
+
+    let pulled = 0;
+    for (const match of rankedMatches.get(guest.id) ?? []) {
+      if (pulled >= matchesPerGuest || free(chosen) < 1 || totalFree() - 1 < guestsLeft) break;
+      if (tableOfMember.has(match.member.id) || categoryTaken(chosen, match.member)) continue;
+      seatMember(chosen, memberById.get(match.member.id)!);
+      pulled += 1;
+    }
+  }
+
+  const unseatedMemberIds: string[] = [];
+  for (const member of members) {
+    if (tableOfMember.has(member.id)) continue;
+    const target = tables
+      .filter((t) => free(t) > 0 && !categoryTaken(t, member))
+      .sort((a, b) => free(b) - free(a) || a.table - b.table)[0];
+    if (target) seatMember(target, member);
+    else unseatedMemberIds.push(member.id);
+  }
+  if (unseatedMemberIds.length > 0) {
+    warnings.push(`${unseatedMemberIds.length} 位會員未能安排座位（座位不足或同桌已有同類別會員）`);
+  }
+
+  const assignments = buildSeatingAssignments(request.guests, tables, rankedMatches);
+
+  const planKey = JSON.stringify({
+    eventId: request.eventId,
+    tableCount: tables.length,
+    capacity,
+    guests: [...request.guests].sort(byId).map((g) => [g.id, g.profession, g.targetProfession, g.bottlenecks, g.referrer]),
+    members: members.map((m) => [m.id, m.category, m.isLeadership]),
+    tables: tables.map((t) => [t.memberIds, t.guestIds]),
+  });
+
+  return {
+    eventId: request.eventId,
+    // Same input, same id.
+    planId: `seat-${fingerprint(planKey)}`,
+    createdAt: (options.now ?? new Date()).toISOString(),
+    assignments,
+    tables,
+    unseatedMemberIds,
+    warnings,
+  };
+}
@@ -0,0 +1,116 @@
+import type {
+  MemberAttendance,
+  MemberInfo,
+  MemberStanding,
+  StandingRule,
+  StandingRuleMetric,
+  StandingRuleSet
+} from "../api";
+import { meetingOutcome, shiftIsoDateByMonths } from "./memberAttendanceStats";
+
+/** Used until a chapter saves its own rules. */
+export const DEFAULT_STANDING_RULE_SET: StandingRuleSet = {
+  substituteCountsAsPresent: true,
+  rules: [
+    { id: "absent-3-6m", metric: "absences", windowMonths: 6, comparator: ">=", threshold: 3, standing: "YELLOW" },
+    { id: "absent-5-6m", metric: "absences", windowMonths: 6, comparator: ">=", threshold: 5, standing: "RED" },
+    { id: "late-4-6m", metric: "lateCount", windowMonths: 6, comparator: ">=", threshold: 4, standing: "YELLOW" }
+  ]
+};
+
+export const STANDING_RULE_METRIC_LABELS: Record<StandingRuleMetric, string> = {
+  absences: "缺席次數",
+  lateCount: "遲到次數",
+  attendanceRatePercent: "出席率 %"
+};
+
+/** Higher is more severe; the most severe matching rule wins. */
+const STANDING_SEVERITY: Record<MemberStanding, number> = { GREEN: 0, YELLOW: 1, RED: 2, BLACK: 3 };
+
+/** A proposed standing change with the rules that triggered it. */
+export type StandingProposal = {
+  member: MemberInfo;
+  from: MemberStanding;
+  to: MemberStanding;
+  reasons: string[];
+};
+
+/** Measured value of one metric over the last `windowMonths` months up to `today`. */
+export function measureStandingMetric(
+  history: MemberAttendance[],
+  metric: StandingRuleMetric,
+  windowMonths: number,
+  today: string,
+  substituteCountsAsPresent: boolean
+): number {
+  const since = shiftIsoDateByMonths(today, -windowMonths);
+  const outcomes = history
+    .filter((row) => {
+      const date = row.eventDate.slice(0, 10);
+      return date > since && date <= today;
+    })
+    .map(meetingOutcome);
+  const absences = outcomes.filter((o) => o === "absent" || (o === "covered" && !substituteCountsAsPresent)).length;
+  switch (metric) {
+    case "absences":
+      return absences;
+    case "lateCount":
+      return outcomes.filter((o) => o === "late").length;
+    case "attendanceRatePercent":
+      return outcomes.length ? Math.round(((outcomes.length - absences) / outcomes.length) * 100) : 100;
+  }
+}
+
+/** e.g. "近 6 個月缺席次數 ≥ 3 → YELLOW" */
+export function describeStandingRule(rule: StandingRule): string {
+  const comparator = rule.comparator === ">=" ? "≥" : "<";
+  return `近 ${rule.windowMonths} 個月${STANDING_RULE_METRIC_LABELS[rule.metric]} ${comparator} ${rule.threshold} → ${rule.standing}`;
+}
+
+/**
+ * Standing the rules give one member, plus a reason per matching rule (with the measured value).
+ * No matching rule → GREEN with no reasons (the rules have no opinion).
+ */
+export function evaluateStanding(
+  history: MemberAttendance[],
+  ruleSet: StandingRuleSet,
+  today: string
+): { standing: MemberStanding; reasons: string[] } {
+  let standing: MemberStanding = "GREEN";
+  const reasons: string[] = [];
+  for (const rule of ruleSet.rules) {
+    const value = measureStandingMetric(history, rule.metric, rule.windowMonths, today, ruleSet.substituteCountsAsPresent);
+    const matches = rule.comparator === ">=" ? value >= rule.threshold : value < rule.threshold;
+    if (!matches) continue;
+    reasons.push(`${describeStandingRule(rule)}（實際 ${value}）`);
+    if (STANDING_SEVERITY[rule.standing] > STANDING_SEVERITY[standing]) standing = rule.standing;
+  }
+  return { standing, reasons };
+}
+
+/** Reason logged when a member who matches no rule is proposed back to GREEN. */
+export const NO_STANDING_RULE_MATCHED = "未觸發任何出席規則";
+
+/**
+ * Reviewable diff: one proposal per member whose rule-derived standing differs from the current one, in either
+ * direction — a member who recovered (no rule matches) is proposed back to GREEN, a manual RED who only matches a
+ * YELLOW rule is proposed YELLOW. Members without attendance history and BLACK (left the chapter) are never changed.
+ */
+export function proposeStandingChanges(
+  members: MemberInfo[],
+  historyByMember: Map<string, MemberAttendance[]>,
+  ruleSet: StandingRuleSet,
+  today: string
+): StandingProposal[] {
+  const proposals: StandingProposal[] = [];
+  for (const member of members) {
+    const from = member.standing ?? "GREEN";
+    if (from === "BLACK") continue;
+    const history = historyByMember.get(member.name);
+    if (!history) continue;
+    const { standing, reasons } = evaluateStanding(history, ruleSet, today);
+    if (standing === from) continue;
+    proposals.push({ member, from, to: standing, reasons: reasons.length ? reasons : [NO_STANDING_RULE_MATCHED] });
+  }
+  return proposals;
+}
@@ -0,0 +1,165 @@
+import type { GuestInfo, MemberInfo, ObserverInfo, PipelineEntry, PipelineStage } from "../api";
+import { groupGuestIdentities, normalizeGuestName } from "./guestIdentity";
+
+/** Stages in pipeline order (board columns, left to right). */
+export const PIPELINE_STAGES: { stage: PipelineStage; label: string }[] = [
+  { stage: "guest", label: "嘉賓到訪" },
+  { stage: "repeat", label: "重複到訪" },
+  { stage: "observer", label: "觀察員" },
+  { stage: "applicant", label: "申請中" },
+  { stage: "member", label: "會員" },
+  { stage: "declined", label: "已婉拒" },
+];
+
+export const PIPELINE_STAGE_LABELS = Object.fromEntries(
+  PIPELINE_STAGES.map(({ stage, label }) => [stage, label])
+) as Record<PipelineStage, string>;
+
+const stageRank = (stage: PipelineStage) => PIPELINE_STAGES.findIndex((s) => s.stage === stage);
+
+/** One person in the pipeline: attendance from guest / observer records plus the saved follow-up entry. */
+export type PipelineProspect = {
+  key: string;
+  name: string;
+  profession: string;
+  referrers: string[];
+  /** Guest visit dates, oldest first. */
+  guestVisitDates: string[];
+  /** Event dates registered as an observer, oldest first. */
+  observerDates: string[];
+  /** Stage attendance alone implies. */
+  autoStage: PipelineStage;
+  /** Stage shown on the board. */
+  stage: PipelineStage;
+  entry?: PipelineEntry;
+  /** Member record with this name (after conversion, or a guest who joined another way). */
+  member?: MemberInfo;
+};
+
+export type VisitorPipelineSources = {
+  guests: GuestInfo[];
+  observers: ObserverInfo[];
+  members: MemberInfo[];
+  entries: PipelineEntry[];
+};
+
+/**
+ * Effective stage: a matching member record makes it "member"; otherwise the last manual stage, even one earlier than
+ * attendance implies (a correction). Only a visit on a later day than that move takes the prospect forward to the
+ * attendance stage again, which never undoes applicant / declined.
+ * @param {string} [lastAttendanceDate] - Latest guest visit or observer date (YYYY-MM-DD)
+ */
+export function effectivePipelineStage(
+  autoStage: PipelineStage,
+  entry?: PipelineEntry,
+  member?: MemberInfo,
+  lastAttendanceDate?: string
+): PipelineStage {
+  if (member || entry?.memberId != null) return "member";
+  if (!entry?.stage) return autoStage;
+  if (stageRank(autoStage) <= stageRank(entry.stage)) return entry.stage;
+  const movedOn = (entry.history.at(-1)?.changedAt ?? "").slice(0, 10);
+  return lastAttendanceDate && lastAttendanceDate > movedOn ? autoStage : entry.stage;
+}
+
+/**
+ * Everyone who visited as a guest or registered as an observer, plus anyone with a saved entry, matched by
+ * normalized name. Sorted by stage, then most recent activity first.
+ */
+export function buildVisitorPipeline({ guests, observers, members, entries }: VisitorPipelineSources): PipelineProspect[] {
+  const prospects = new Map<string, Omit<PipelineProspect, "autoStage" | "stage" | "entry" | "member">>();
+  const prospectFor = (key: string, name: string) => {
+    const existing = prospects.get(key);
+    if (existing) return existing;
+    const created = { key, name: name.trim(), profession: "", referrers: [], guestVisitDates: [], observerDates: [] };
+    prospects.set(key, created);
+    return created;
+  };
+
+  for (const identity of groupGuestIdentities(guests)) {
+    const prospect = prospectFor(identity.key, identity.name);
+    prospect.profession = identity.profession;
+    prospect.referrers = identity.referrers;
+    prospect.guestVisitDates = identity.visits.map((v) => v.eventDate ?? "").filter(Boolean);
+  }
+  for (const observer of observers) {
+    const key = normalizeGuestName(observer.name);
+    if (!key) continue;
+    const prospect = prospectFor(key, observer.name);
+    prospect.profession ||= observer.profession;
+    if (observer.eventDate) prospect.observerDates.push(observer.eventDate.slice(0, 10));
+  }
+  for (const entry of entries) {
+    prospectFor(entry.prospectKey, entry.name);
+  }
+
+  const entriesByKey = new Map(entries.map((e) => [e.prospectKey, e]));
+  const membersById = new Map(members.filter((m) => m.id != null).map((m) => [m.id, m]));
+  const membersByKey = new Map(members.map((m) => [normalizeGuestName(m.name), m]));
+
+  return [...prospects.values()]
+    .map((p) => {
+      const observerDates = [...new Set(p.observerDates)].sort();
+      const autoStage: PipelineStage =
+        observerDates.length > 0 ? "observer" : p.guestVisitDates.length > 1 ? "repeat" : "guest";
+      const entry = entriesByKey.get(p.key);
+      const member = (entry?.memberId != null ? membersById.get(entry.memberId) : undefined) ?? membersByKey.get(p.key);
+      const lastAttendanceDate = [...p.guestVisitDates, ...observerDates].sort().at(-1);
+      return {
+        ...p,
+        observerDates,
+        autoStage,
+        stage: effectivePipelineStage(autoStage, entry, member, lastAttendanceDate),
+        entry,
+        member,
+      };
+    })
+    .sort((a, b) => stageRank(a.stage) - stageRank(b.stage) || lastActivity(b).localeCompare(lastActivity(a)));
+}
+
+/** Latest visit, observer date or stage change (ISO strings compare as dates). */
+export function lastActivity(prospect: PipelineProspect): string {
+  const dates = [
+    ...prospect.guestVisitDates,
+    ...prospect.observerDates,
+    ...(prospect.entry?.history ?? []).map((h) => h.changedAt),
+  ];
+  return dates.sort().at(-1) ?? "";
+}
+
+export type PipelineTimelineItem = {
+  date: string;
+  label: string;
+  note?: string;
+};
+
+/** Visits and stage moves in date order, for the prospect's history. */
+export function pipelineTimeline(prospect: PipelineProspect): PipelineTimelineItem[] {
+  return [
+    ...prospect.guestVisitDates.map((date, i) => ({ date, label: i === 0 ? "首次以嘉賓到訪" : `第 ${i + 1} 次嘉賓到訪` })),
+    ...prospect.observerDates.map((date) => ({ date, label: "觀察員登記" })),
+    ...(prospect.entry?.history ?? []).map((change) => ({
+      date: change.changedAt,
+      label: `→ ${PIPELINE_STAGE_LABELS[change.stage]}${change.changedBy ? `（${change.changedBy}）` : ""}`,
+      note: change.note,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The prospect's entry with follow-up edits applied; a stage different from the current one is recorded in the
+ * history. Returns a new entry (the prospect's saved one is not modified).
+ */
+export function updatePipelineEntry(
+  prospect: PipelineProspect,
+  changes: Partial<Pick<PipelineEntry, "stage" | "ownerMemberName" | "notes" | "nextFollowUpDate" | "memberId">>,
+  changedAt: string,
+  note?: string
+): PipelineEntry {
+  const base: PipelineEntry = prospect.entry ?? { prospectKey: prospect.key, name: prospect.name, history: [] };
+  const next: PipelineEntry = { ...base, ...changes, history: [...base.history] };
+  if (changes.stage && changes.stage !== prospect.stage) {
+    next.history.push({ stage: changes.stage, changedAt, ...(note ? { note } : {}) });
+  }
+  return next;
+}
@@ -7,13 +7,14 @@ import { AdminManualEntryPanel } from "../components/AdminManualEntryPanel";
 import { EventManagementPanel } from "../components/EventManagementPanel";
 import { StrategicPlanningPanel } from "../components/StrategicPlanningPanel";
 import { ChapterPasswordPanel } from "../components/ChapterPasswordPanel";
+import { BadgeSettingsPanel } from "../components/BadgeSettingsPanel";
 import { AppVersionFooter } from "../components/AppVersionFooter";
 import { AnchorOnlyNotice } from "../components/AnchorOnlyNotice";
 import { ClientAdminLoginPanel } from "../components/ClientAdminLoginPanel";
 import { useChapter } from "../chapterContext";
 import { getCurrentEvent, type EventData } from "../api";
 
-type AdminView = "home" | "generate" | "manual" | "event" | "strategic" | "chapter-password";
+type AdminView = "home" | "generate" | "manual" | "event" | "strategic" | "chapter-password" | "badge-settings";
 
 const navTargets: { id: AdminView; title: string; description: string; icon: string }[] = [
   {
@@ -33,6 +34,12 @@ const navTargets: { id: AdminView; title: string; description: string; icon: str
     title: "手動輸入",
     description: "管理員手動新增記錄",
     icon: "✍️"
+  },
+  {
+    id: "badge-settings",
+    title: "QR 徽章安全",
+    description: "簽署徽章及舊版 QR 開關",
+    icon: "🛡️"
   }
 ];
 
@@ -77,7 +84,7 @@ export default function AdminPage() {
   // Handle URL parameter for direct navigation (keep client=true / chapter)
   useEffect(() => {
     const viewParam = searchParams.get("view");
-    if (viewParam && ["generate", "manual", "event", "strategic", "chapter-password"].includes(viewParam)) {
+    if (viewParam && ["generate", "manual", "event", "strategic", "chapter-password", "badge-settings"].includes(viewParam)) {
       setActiveView(viewParam as AdminView);
       const next = new URLSearchParams();
       if (searchParams.get("client") === "true" || searchParams.get("client") === "1") {
@@ -129,6 +136,8 @@ export default function AdminPage() {
         return <AdminManualEntryPanel onNotify={handlePanelNotification} />;
       case "chapter-password":
         return <ChapterPasswordPanel onNotify={handlePanelNotification} />;
+      case "badge-settings":
+        return <BadgeSettingsPanel onNotify={handlePanelNotification} />;
       default:
         return null;
     }
@@ -279,12 +288,36 @@ export default function AdminPage() {
               <span className="hint">管理嘉賓資料</span>
             </Link>
 
+            <Link to={adminHref("/admin/pipeline")} className="nav-card" style={{ textDecoration: "none" }}>
+              <span className="nav-icon">🧭</span>
+              <strong className="nav-title">嘉賓轉會員跟進</strong>
+              <span className="hint">到訪 → 觀察員 → 申請 → 會員，指派跟進會員</span>
+            </Link>
+
+            <Link to={adminHref("/admin/referrals")} className="nav-card" style={{ textDecoration: "none" }}>
+              <span className="nav-icon">🏆</span>
+              <strong className="nav-title">介紹人排行榜</strong>
+              <span className="hint">邀請、出席、轉化率，可匯出 CSV</span>
+            </Link>
+
+            <Link to={adminHref("/admin/introductions")} className="nav-card" style={{ textDecoration: "none" }}>
+              <span className="nav-icon">📇</span>
+              <strong className="nav-title">嘉賓交流推薦卡</strong>
+              <span className="hint">今日嘉賓建議認識的會員，批量列印</span>
+            </Link>
+
             <Link to={adminHref("/admin/import")} className="nav-card" style={{ textDecoration: "none" }}>
               <span className="nav-icon">📥</span>
               <strong className="nav-title">批量匯入</strong>
               <span className="hint">CSV 匯入會員、嘉賓、觀察員</span>
             </Link>
 
+            <Link to={adminHref("/admin/live-qr")} className="nav-card" style={{ textDecoration: "none" }}>
+              <span className="nav-icon">📽️</span>
+              <strong className="nav-title">現場簽到 QR 碼</strong>
+              <span className="hint">投影用，每 30 秒更新，防止遙距簽到</span>
+            </Link>
+
             <Link to={adminHref("/admin/public-guest")} className="nav-card" style={{ textDecoration: "none" }}>
               <span className="nav-icon">🔗</span>
               <strong className="nav-title">公開嘉賓登記連結</strong>
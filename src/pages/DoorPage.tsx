@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useLayoutEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ScanPanel, type NotificationEntry } from "../components/ScanPanel";
+import { NotificationStack } from "../components/NotificationStack";
+import {
+  getCurrentEvent,
+  listChapters,
+  setActiveApiChapter,
+  ANCHOR_CHAPTER_ID,
+  CHAPTER_TAG_TO_ID,
+  type EventData
+} from "../api";
+import { badgeKeyFromChapter, type BadgeVerificationKey } from "../qr-format";
+import { DEFAULT_CHAPTER_TIMEZONE } from "../lib/attendanceStatus";
+
+/** Seconds before the same badge may be submitted again; `?debounce=` overrides. */
+const DEFAULT_DOOR_DEBOUNCE_SECONDS = 5;
+
+/** Door scanner: `/door?chapter=amax` keeps the camera scanning and records into that chapter's current event. */
+export default function DoorPage() {
+  const [searchParams] = useSearchParams();
+  const chapterTag = (searchParams.get("chapter") || "anchor").trim().toLowerCase() || "anchor";
+  const debounceParam = Number(searchParams.get("debounce"));
+  const debounceSeconds = debounceParam > 0 ? debounceParam : DEFAULT_DOOR_DEBOUNCE_SECONDS;
+  const [chapterId, setChapterId] = useState(() => CHAPTER_TAG_TO_ID[chapterTag] ?? ANCHOR_CHAPTER_ID);
+  const [timezone, setTimezone] = useState(DEFAULT_CHAPTER_TIMEZONE);
+  const [badgeKey, setBadgeKey] = useState<BadgeVerificationKey | null>(null);
+  const [event, setEvent] = useState<EventData | null>(null);
+  const [eventLoading, setEventLoading] = useState(true);
+  const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
+
+  useLayoutEffect(() => {
+    setActiveApiChapter({ id: chapterId, tag: chapterTag });
+    return () => setActiveApiChapter({ id: ANCHOR_CHAPTER_ID, tag: "anchor" });
+  }, [chapterTag, chapterId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { chapters } = await listChapters();
+        const match = chapters.find((c) => c.tag.trim().toLowerCase() === chapterTag);
+        if (cancelled) return;
+        setTimezone(match?.timezone || DEFAULT_CHAPTER_TIMEZONE);
+        setBadgeKey(match ? badgeKeyFromChapter(match) : null);
+        if (match) setChapterId(match.id);
+      } catch {
+        if (!cancelled) setTimezone(DEFAULT_CHAPTER_TIMEZONE);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEventLoading(true);
+    getCurrentEvent(chapterTag, chapterId)
+      .then((current) => {
+        if (!cancelled) setEvent(current);
+      })
+      .finally(() => {
+        if (!cancelled) setEventLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag, chapterId]);
+
+  const pushNotification = useCallback((note: NotificationEntry) => {
+    setNotifications((current) => [...current, note]);
+    setTimeout(() => {
+      setNotifications((current) => current.filter((item) => item.id !== note.id));
+    }, 4500);
+  }, []);
+
+  return (
+    <div className="app-shell">
+      <NotificationStack notifications={notifications} />
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {chapterTag}</p>
+          <h1>🚪 Door Scanner</h1>
+          <p className="hint">
+            {eventLoading
+              ? "Loading current event…"
+              : event
+                ? `${event.name} · ${event.date}`
+                : "No current event: scans go to the chapter's default event."}
+          </p>
+        </div>
+        <div className="header-meta">
+          <Link
+            to={chapterTag === "anchor" ? "/" : `/?chapter=${encodeURIComponent(chapterTag)}`}
+            className="ghost-button back-home-btn"
+          >
+            ← Check-in page
+          </Link>
+        </div>
+      </header>
+
+      <ScanPanel
+        onNotify={pushNotification}
+        event={event}
+        timezone={timezone}
+        badgeKey={badgeKey}
+        chapterTag={chapterTag}
+        continuous
+        debounceSeconds={debounceSeconds}
+      />
+    </div>
+  );
+}
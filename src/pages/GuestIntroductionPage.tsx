@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { getGuestIntroduction, type GuestIntroduction } from "../api";
+import { useChapter } from "../chapterContext";
+import { GuestIntroductionCard } from "../components/GuestIntroductionCard";
+
+/** Public `/guest/intro?id=`: the guest's "who you should meet" card, opened from the check-in QR on their phone. */
+export default function GuestIntroductionPage() {
+  const [searchParams] = useSearchParams();
+  const { chapterTag, chapter } = useChapter();
+  const token = searchParams.get("id") ?? "";
+  const [introduction, setIntroduction] = useState<GuestIntroduction | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "missing" | "error">("loading");
+
+  useEffect(() => {
+    if (!token) {
+      setStatus("missing");
+      return;
+    }
+    let cancelled = false;
+    setStatus("loading");
+    getGuestIntroduction(token, chapterTag)
+      .then((intro) => {
+        if (cancelled) return;
+        setIntroduction(intro);
+        setStatus(intro ? "ready" : "missing");
+      })
+      .catch(() => {
+        if (!cancelled) setStatus("error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, chapterTag]);
+
+  return (
+    <div className="app-shell">
+      <section className="section" style={{ maxWidth: "480px", margin: "0 auto" }}>
+        {status === "loading" && <p className="hint">載入中...</p>}
+        {status === "missing" && <p className="hint">暫時未有你的交流推薦卡，請稍後再試或向接待處查詢。</p>}
+        {status === "error" && <p className="hint">無法載入交流推薦卡，請檢查網絡後重試。</p>}
+        {status === "ready" && introduction && (
+          <GuestIntroductionCard
+            introduction={introduction}
+            chapterTag={chapterTag}
+            chapterDisplayName={chapter?.displayName || chapterTag || "BNI"}
+          />
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  getCurrentEvent,
+  getGuestIntroductions,
+  getGuests,
+  saveGuestIntroduction,
+  type EventData,
+  type GuestInfo,
+  type GuestIntroduction
+} from "../api";
+import { ClientAuthGate } from "../components/ClientAuthGate";
+import { GuestIntroductionCard, GuestIntroductionSheet } from "../components/GuestIntroductionCard";
+import { useChapter } from "../chapterContext";
+import { normalizeGuestName } from "../lib/guestIdentity";
+import {
+  buildGuestIntroductionPdfFilename,
+  downloadGuestIntroductionPdf,
+  loadGuestIntroductionSources,
+  prepareGuestIntroduction
+} from "../lib/guestIntroduction";
+import { latestResultsByGuest } from "../lib/matchResultStore";
+
+const INTRO_SHEET_ROOT_ID = "guest-intro-sheet-root";
+
+/** `/admin/introductions`: "who you should meet" cards for every guest of the current event, saved for the phone links and printable as one PDF. */
+export default function GuestIntroductionsPage() {
+  return (
+    <ClientAuthGate>
+      <GuestIntroductionsPageInner />
+    </ClientAuthGate>
+  );
+}
+
+function GuestIntroductionsPageInner() {
+  const { chapterTag, chapterId, chapter, adminHref } = useChapter();
+  const [event, setEvent] = useState<EventData | null>(null);
+  const [guests, setGuests] = useState<GuestInfo[]>([]);
+  const [introductions, setIntroductions] = useState<GuestIntroduction[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const displayName = chapter?.displayName || chapterTag || "BNI";
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const ev = await getCurrentEvent(chapterTag, chapterId);
+        if (cancelled) return;
+        setEvent(ev);
+        if (!ev) return;
+        const { guests: eventGuests } = await getGuests(ev.date.slice(0, 10), chapterTag);
+        if (!cancelled) setGuests(eventGuests ?? []);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "無法載入嘉賓名單");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag, chapterId]);
+
+  /**
+   * Stored matches (with overrides and the latest seating) win; guests without any keep the card made at check-in,
+   * and only the rest are matched fresh. One guest at a time so the AI backend is not flooded.
+   */
+  const handleGenerate = async () => {
+    if (!event) return;
+    setError(null);
+    setMessage(null);
+    setProgress({ done: 0, total: guests.length });
+    try {
+      const [sources, savedCards] = await Promise.all([
+        loadGuestIntroductionSources(event.id, chapterTag, chapterId),
+        getGuestIntroductions(event.id, chapterTag).catch(() => [])
+      ]);
+      const latest = latestResultsByGuest(sources.stored);
+      const savedByGuest = new Map(savedCards.map((card) => [card.guestKey, card]));
+      const cards: GuestIntroduction[] = [];
+      let failed = 0;
+      for (const guest of guests) {
+        try {
+          const guestKey = normalizeGuestName(guest.name);
+          const saved = latest.has(guestKey) ? undefined : savedByGuest.get(guestKey);
+          const card = saved ?? (await saveGuestIntroduction(await prepareGuestIntroduction(event.id, guest, sources), chapterTag));
+          cards.push(card);
+        } catch {
+          failed += 1;
+        }
+        setProgress({ done: cards.length + failed, total: guests.length });
+      }
+      setIntroductions(cards);
+      setMessage(failed > 0 ? `已產生 ${cards.length} 張介紹卡，${failed} 張失敗` : `已產生 ${cards.length} 張介紹卡`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "介紹卡產生失敗");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Capture once the off-screen sheet has rendered, then unmount it.
+  useEffect(() => {
+    if (!isPrinting || !event) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        await downloadGuestIntroductionPdf(INTRO_SHEET_ROOT_ID, buildGuestIntroductionPdfFilename(displayName, event.date));
+        if (!cancelled) setMessage("介紹卡 PDF 已下載");
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "PDF 生成失敗");
+      } finally {
+        if (!cancelled) setIsPrinting(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isPrinting, event, displayName]);
+
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {displayName}</p>
+          <h1>📇 嘉賓交流推薦卡</h1>
+          <p className="hint">為今日每位嘉賓列出建議認識的會員（類別顏色、桌號、理由），可列印或於簽到後在手機查看</p>
+        </div>
+        <div className="header-meta">
+          <Link to={adminHref("/admin")} className="ghost-button back-home-btn">
+            ← 返回管理頁
+          </Link>
+        </div>
+      </header>
+
+      <section className="section">
+        {!event ? (
+          <p className="hint">{error ?? "載入活動中…（如未有當前活動，請先於管理頁設定）"}</p>
+        ) : (
+          <>
+            <p className="hint">
+              {event.name} · {event.date.slice(0, 10)} · {guests.length} 位嘉賓
+            </p>
+            <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", margin: "0.75rem 0" }}>
+              <button type="button" className="button primary" onClick={() => void handleGenerate()} disabled={!!progress || guests.length === 0}>
+                {progress ? `⏳ 產生中 ${progress.done}/${progress.total}` : "📇 產生全部介紹卡"}
+              </button>
+              <button
+                type="button"
+                className="button"
+                onClick={() => setIsPrinting(true)}
+                disabled={isPrinting || introductions.length === 0}
+              >
+                {isPrinting ? "⏳ 生成 PDF..." : "🖨️ 列印全部 PDF"}
+              </button>
+            </div>
+            {error && <p className="hint" style={{ color: "var(--error)" }}>{error}</p>}
+            {message && <p className="hint" style={{ color: "var(--success)" }}>{message}</p>}
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(320px, 1fr))", gap: "1rem" }}>
+              {introductions.map((introduction) => (
+                <GuestIntroductionCard
+                  key={introduction.guestKey}
+                  introduction={introduction}
+                  chapterTag={chapterTag}
+                  chapterDisplayName={displayName}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </section>
+
+      {isPrinting && (
+        <GuestIntroductionSheet
+          introductions={introductions}
+          rootId={INTRO_SHEET_ROOT_ID}
+          chapterTag={chapterTag}
+          chapterDisplayName={displayName}
+        />
+      )}
+    </div>
+  );
+}
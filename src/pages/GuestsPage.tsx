@@ -3,6 +3,7 @@ import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { getGuests, GuestInfo, deleteGuest, updateGuest } from "../api";
 import { guestMatchesKeywords } from "../lib/guestSearch";
 import { AnchorOnlyNotice } from "../components/AnchorOnlyNotice";
+import { GuestIdentityPanel } from "../components/GuestIdentityPanel";
 import { ClientAuthGate } from "../components/ClientAuthGate";
 import { useChapter } from "../chapterContext";
 
@@ -378,6 +379,18 @@ function GuestsPageInner() {
           </div>
         </div>
 
+        {!loading && !loadFailedRedirect && guests.length > 0 && (
+          <GuestIdentityPanel
+            guests={guests}
+            chapterTag={chapterTag}
+            onMerged={(message) => {
+              showNotification(message, "success");
+              fetchGuests();
+            }}
+            onError={(message) => showNotification(message, "error")}
+          />
+        )}
+
         {loading && !loadFailedRedirect ? (
           <div style={{ textAlign: "center", padding: "2rem" }}>
             <p>載入中...</p>
@@ -4,7 +4,9 @@ import { NotificationEntry } from "../components/ScanPanel";
 import { NotificationStack } from "../components/NotificationStack";
 import { CheckinFormPanel } from "../components/CheckinFormPanel";
 import { AppVersionFooter } from "../components/AppVersionFooter";
-import { setActiveApiChapter, ANCHOR_CHAPTER_ID, CHAPTER_TAG_TO_ID } from "../api";
+import { listChapters, setActiveApiChapter, ANCHOR_CHAPTER_ID, CHAPTER_TAG_TO_ID } from "../api";
+import { DEFAULT_CHAPTER_TIMEZONE } from "../lib/attendanceStatus";
+import { badgeKeyFromChapter, type BadgeVerificationKey } from "../qr-format";
 
 interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
@@ -18,6 +20,8 @@ export default function HomePage() {
   const chapterId = CHAPTER_TAG_TO_ID[chapterTag] ?? ANCHOR_CHAPTER_ID;
   const isAnchor = chapterTag === "anchor";
   const [chapterReady, setChapterReady] = useState(false);
+  const [chapterTimezone, setChapterTimezone] = useState(DEFAULT_CHAPTER_TIMEZONE);
+  const [liveTokenKey, setLiveTokenKey] = useState<BadgeVerificationKey | null>(null);
 
   const [notifications, setNotifications] = useState<NotificationEntry[]>([]);
   const [isOnline, setIsOnline] = useState(() =>
@@ -35,6 +39,25 @@ export default function HomePage() {
     };
   }, [chapterTag, chapterId]);
 
+  // On-time / late is judged in the chapter's own timezone (ChapterInfo.timezone); its key checks the live event QR.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { chapters } = await listChapters();
+        const match = chapters.find((c) => c.tag.trim().toLowerCase() === chapterTag);
+        if (cancelled) return;
+        setChapterTimezone(match?.timezone || DEFAULT_CHAPTER_TIMEZONE);
+        setLiveTokenKey(match ? badgeKeyFromChapter(match) : null);
+      } catch {
+        if (!cancelled) setChapterTimezone(DEFAULT_CHAPTER_TIMEZONE);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag]);
+
   const pushNotification = useCallback((note: NotificationEntry) => {
     setNotifications((current) => [...current, note]);
     setTimeout(() => {
@@ -144,6 +167,8 @@ export default function HomePage() {
           key={chapterTag}
           onNotify={handlePanelNotification}
           chapterTag={chapterTag}
+          timezone={chapterTimezone}
+          liveTokenKey={liveTokenKey}
         />
       ) : (
         <section className="section">
@@ -4,8 +4,6 @@ import { useDropzone } from "react-dropzone";
 import Papa from "papaparse";
 import {
   bulkImport,
-  bulkImportObservers,
-  bulkSetPlannedSubstitutes,
   ImportRecord,
   getCurrentEvent,
   activateEvent,
@@ -14,13 +12,29 @@ import {
 import { AnchorOnlyNotice } from "../components/AnchorOnlyNotice";
 import { ClientAuthGate } from "../components/ClientAuthGate";
 import { WhatsAppMeetingImportPanel } from "../components/WhatsAppMeetingImportPanel";
+import { WhatsAppAnnouncementPanel } from "../components/WhatsAppAnnouncementPanel";
 import { ObserverManagementPanel } from "../components/ObserverManagementPanel";
 import { SubstituteManagementPanel } from "../components/SubstituteManagementPanel";
 import { useChapter } from "../chapterContext";
 import { ensureEventForDate } from "../lib/meetingEventImport";
+import { ImportDiffPreview } from "../components/ImportDiffPreview";
+import {
+  applyImportDiff,
+  defaultSelectedDiffRows,
+  loadExistingRegistrations,
+  reconcileImport,
+  type ImportDiffRow,
+  type ImportDraft,
+} from "../lib/importReconciliation";
 
 type ImportType = "member" | "guest" | "observer" | "substitute";
 
+/** Reconciliation of the CSV rows for one event date; row ids are prefixed with the date so one selection spans all dates. */
+type DateImportDiff = {
+  eventDate: string;
+  rows: ImportDiffRow[];
+};
+
 type ImportRow = {
   name: string;
   profession: string;
@@ -83,6 +97,8 @@ function ImportPageInner() {
   const [targetEvent, setTargetEvent] = useState<EventData | null>(null);
   const [eventLoading, setEventLoading] = useState(true);
   const [observerPanelKey, setObserverPanelKey] = useState(0);
+  const [dateDiffs, setDateDiffs] = useState<DateImportDiff[] | null>(null);
+  const [selectedDiffRows, setSelectedDiffRows] = useState<Set<string>>(new Set());
   const [notification, setNotification] = useState<{ message: string; type: "success" | "error" | "info" } | null>(null);
 
   const preferredGuestEventDate = targetEvent?.date || "";
@@ -182,6 +198,7 @@ function ImportPageInner() {
 
           setErrors(validationErrors);
           setImportData(data);
+          setDateDiffs(null);
 
           if (validationErrors.length > 0) {
             showNotification(`發現 ${validationErrors.length} 個格式錯誤`, "error");
@@ -212,103 +229,141 @@ function ImportPageInner() {
     multiple: false
   });
 
-  const handleBulkImport = async () => {
+  const isEventScopedImport = importType === "guest" || importType === "observer" || importType === "substitute";
+
+  const resolveDefaultEventDate = async () => {
+    if (preferredGuestEventDate) return preferredGuestEventDate;
+    const currentEvent = await getCurrentEvent(chapterTag, chapterId);
+    return currentEvent?.date || "";
+  };
+
+  /** CSV rows of the current (event-scoped) type grouped by event date, as import drafts, plus the rows with no date at all. */
+  const draftsByEventDate = (eventDateDefault: string): { drafts: Map<string, ImportDraft>; undatedLines: number[] } => {
+    const drafts = new Map<string, ImportDraft>();
+    const undatedLines: number[] = [];
+    for (const [index, row] of importData.entries()) {
+      const eventDate = normalizeEventDate((row.eventDate || eventDateDefault).trim());
+      if (!eventDate) {
+        undatedLines.push(index + 1);
+        continue;
+      }
+      const draft = drafts.get(eventDate) ?? {};
+      if (importType === "substitute") {
+        (draft.substitutes ??= []).push({
+          substituteName: (row.substituteName || "").trim(),
+          memberName: (row.substituteMemberName || "").trim(),
+        });
+      } else if (importType === "observer") {
+        (draft.observers ??= []).push({ name: row.name, profession: row.profession || "", eventDate });
+      } else {
+        (draft.guests ??= []).push({
+          name: row.name,
+          profession: row.profession || "",
+          chapter: (row.chapter || "").trim() || chapterTag || undefined,
+          email: row.email || "",
+          phoneNumber: row.phone || "",
+          referrer: row.referrer || "",
+          eventDate,
+        });
+      }
+      drafts.set(eventDate, draft);
+    }
+    return { drafts, undatedLines };
+  };
+
+  const handlePreviewDiff = async () => {
     if (importData.length === 0 || errors.length > 0) {
       showNotification("請先修正格式錯誤", "error");
       return;
     }
 
     setIsImporting(true);
-
     try {
-      let eventDateDefault = preferredGuestEventDate;
-      if ((importType === "guest" || importType === "observer" || importType === "substitute") && !eventDateDefault) {
-        const currentEvent = await getCurrentEvent(chapterTag, chapterId);
-        if (currentEvent?.date) eventDateDefault = currentEvent.date;
+      const eventDateDefault = await resolveDefaultEventDate();
+      const { drafts, undatedLines } = draftsByEventDate(eventDateDefault);
+      if (undatedLines.length > 0) {
+        setErrors(undatedLines.map((line) => `第 ${line} 行：缺少活動日期 (event_date)，亦沒有預設活動日期`));
+        showNotification(`${undatedLines.length} 筆資料沒有活動日期，請補上 event_date 或先選擇活動`, "error");
+        return;
       }
-
-      if (importType === "guest" || importType === "observer" || importType === "substitute") {
-        const eventDates = [
-          ...new Set(
-            importData
-              .map((r) =>
-                normalizeEventDate((r.eventDate || eventDateDefault).trim())
-              )
-              .filter(Boolean)
-          ),
-        ];
-
-        for (const d of eventDates) {
-          const event = await ensureEventForDate(
-            normalizeEventDate(d),
-            chapterTag,
-            chapterId,
-            chapterLabel
-          );
-          if (d === eventDateDefault || d === preferredGuestEventDate) {
-            await activateEvent(event.id, true, chapterTag, chapterId);
-          }
-        }
+      const diffs: DateImportDiff[] = [];
+      for (const [eventDate, draft] of drafts) {
+        const existing = await loadExistingRegistrations(eventDate, chapterTag, chapterId);
+        const rows = reconcileImport(draft, existing).map((row) => ({ ...row, id: `${eventDate}|${row.id}` }));
+        diffs.push({ eventDate, rows });
       }
+      setDateDiffs(diffs);
+      setSelectedDiffRows(defaultSelectedDiffRows(diffs.flatMap((d) => d.rows)));
+    } catch (error) {
+      showNotification("比對失敗: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      if (importType === "substitute") {
-        const byDate = new Map<string, { substituteName: string; memberName: string }[]>();
-        for (const row of importData) {
-          const eventDate = normalizeEventDate((row.eventDate || eventDateDefault).trim());
-          if (!eventDate) continue;
-          const list = byDate.get(eventDate) ?? [];
-          list.push({
-            substituteName: (row.substituteName || "").trim(),
-            memberName: (row.substituteMemberName || "").trim(),
-          });
-          byDate.set(eventDate, list);
+  const handleApplyDiff = async () => {
+    if (!dateDiffs) return;
+    setIsImporting(true);
+
+    try {
+      const eventDateDefault = await resolveDefaultEventDate();
+      let upserted = 0;
+      let failed = 0;
+      let deleted = 0;
+      const deleteErrors: string[] = [];
+      for (const { eventDate, rows } of dateDiffs) {
+        const selectedRows = rows.filter((row) => selectedDiffRows.has(row.id));
+        if (selectedRows.length === 0) continue;
+        const event = await ensureEventForDate(eventDate, chapterTag, chapterId, chapterLabel);
+        if (eventDate === eventDateDefault || eventDate === preferredGuestEventDate) {
+          await activateEvent(event.id, true, chapterTag, chapterId);
         }
-        let totalUpdated = 0;
-        let totalFailed = 0;
-        for (const [eventDate, entries] of byDate) {
-          await ensureEventForDate(eventDate, chapterTag, chapterId, chapterLabel);
-          const result = await bulkSetPlannedSubstitutes(eventDate, entries, chapterTag, chapterId);
-          totalUpdated += result.updated;
-          totalFailed += result.failed;
+        const result = await applyImportDiff(eventDate, selectedRows, chapterTag, chapterId);
+        for (const r of [result.guests, result.observers, result.substitutes]) {
+          if (!r) continue;
+          upserted += r.inserted + r.updated;
+          failed += r.failed;
+        }
+        if (result.deletions) {
+          deleted += result.deletions.deleted;
+          failed += result.deletions.failed;
+          deleteErrors.push(...result.deletions.errors);
         }
-        setImportData([]);
-        setErrors([]);
-        await refreshTargetEvent();
-        showNotification(
-          totalFailed === 0
-            ? `✅ 替代人匯入：設定 ${totalUpdated} 對`
-            : `⚠️ 替代人匯入：設定 ${totalUpdated} 對、失敗 ${totalFailed}`,
-          totalFailed === 0 ? "success" : "info"
-        );
-        return;
       }
-
-      if (importType === "observer") {
-        const records: ImportRecord[] = importData.map((row) => ({
-          name: row.name,
-          profession: row.profession || "",
-          eventDate: normalizeEventDate((row.eventDate || eventDateDefault).trim()),
-        }));
-        const result = await bulkImportObservers(records, chapterTag, chapterId);
-        setImportData([]);
-        setErrors([]);
-        setObserverPanelKey((k) => k + 1);
-        await refreshTargetEvent();
-        showNotification(
-          result.failed === 0
-            ? `✅ 觀察員匯入：新增 ${result.inserted}、更新 ${result.updated}`
-            : `⚠️ 觀察員匯入：新增 ${result.inserted}、更新 ${result.updated}、失敗 ${result.failed}`,
-          result.failed === 0 ? "success" : "info"
-        );
-        return;
+      if (deleteErrors.length) {
+        console.error("Import delete errors:", deleteErrors);
       }
 
-      let guestEventDateDefault = eventDateDefault;
+      setImportData([]);
+      setErrors([]);
+      setDateDiffs(null);
+      setObserverPanelKey((k) => k + 1);
+      await refreshTargetEvent();
+      const label = importType === "guest" ? "嘉賓" : importType === "observer" ? "觀察員" : "替代人";
+      showNotification(
+        failed === 0
+          ? `✅ ${label}匯入：寫入 ${upserted} 筆、刪除 ${deleted} 筆`
+          : `⚠️ ${label}匯入：寫入 ${upserted} 筆、刪除 ${deleted} 筆、失敗 ${failed} 筆`,
+        failed === 0 ? "success" : "info"
+      );
+    } catch (error) {
+      showNotification("匯入失敗: " + (error instanceof Error ? error.message : "未知錯誤"), "error");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleBulkImport = async () => {
+    if (importData.length === 0 || errors.length > 0) {
+      showNotification("請先修正格式錯誤", "error");
+      return;
+    }
+
+    setIsImporting(true);
+
+    try {
       const records: ImportRecord[] = importData.map((row) => {
-        const rawDate =
-          (row.eventDate || "").trim() ||
-          (importType === "guest" ? guestEventDateDefault : "");
-        const eventDate = rawDate ? normalizeEventDate(rawDate) : "";
+        const eventDate = normalizeEventDate((row.eventDate || "").trim());
         return {
           name: row.name,
           profession: row.profession || "",
@@ -326,7 +381,7 @@ function ImportPageInner() {
 
       const result = await bulkImport(
         {
-          type: importType,
+          type: "member",
           records
         },
         chapterTag,
@@ -669,14 +724,44 @@ function ImportPageInner() {
               </table>
             </div>
 
-            <button
-              className="button submit-button"
-              onClick={handleBulkImport}
-              disabled={errors.length > 0 || isImporting}
-              style={{ marginTop: "1.5rem", width: "100%" }}
-            >
-              {isImporting ? "⏳ 匯入中..." : `🚀 開始匯入 ${importData.length} 筆資料`}
-            </button>
+            {isEventScopedImport && dateDiffs?.map((diff) => (
+              <ImportDiffPreview
+                key={diff.eventDate}
+                title={`變更預覽（${diff.eventDate}）`}
+                rows={diff.rows}
+                selected={selectedDiffRows}
+                onSelectedChange={setSelectedDiffRows}
+              />
+            ))}
+
+            {!isEventScopedImport ? (
+              <button
+                className="button submit-button"
+                onClick={handleBulkImport}
+                disabled={errors.length > 0 || isImporting}
+                style={{ marginTop: "1.5rem", width: "100%" }}
+              >
+                {isImporting ? "⏳ 匯入中..." : `🚀 開始匯入 ${importData.length} 筆資料`}
+              </button>
+            ) : !dateDiffs ? (
+              <button
+                className="button submit-button"
+                onClick={() => void handlePreviewDiff()}
+                disabled={errors.length > 0 || isImporting}
+                style={{ marginTop: "1.5rem", width: "100%" }}
+              >
+                {isImporting ? "⏳ 比對中..." : `🔎 與資料庫比對 ${importData.length} 筆資料`}
+              </button>
+            ) : (
+              <button
+                className="button submit-button"
+                onClick={() => void handleApplyDiff()}
+                disabled={selectedDiffRows.size === 0 || isImporting}
+                style={{ marginTop: "1.5rem", width: "100%" }}
+              >
+                {isImporting ? "⏳ 匯入中..." : `🚀 套用已選變更（${selectedDiffRows.size}）`}
+              </button>
+            )}
           </div>
         )}
       </section>
@@ -685,12 +770,20 @@ function ImportPageInner() {
         chapterTag={chapterTag}
         chapterId={chapterId}
         chapterLabel={chapterLabel}
+        sectionAliases={chapter?.meetingSectionAliases}
         onImported={() => {
           void refreshTargetEvent();
           setObserverPanelKey((k) => k + 1);
         }}
       />
 
+      <WhatsAppAnnouncementPanel
+        event={targetEvent}
+        chapterTag={chapterTag}
+        chapterId={chapterId}
+        sectionAliases={chapter?.meetingSectionAliases}
+      />
+
       {importType === "substitute" && (
         <SubstituteManagementPanel onChanged={() => void refreshTargetEvent()} />
       )}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { QRCodeSVG } from "qrcode.react";
+import { getCurrentEvent, issueLiveEventToken, type EventData, type LiveEventTokenGrant } from "../api";
+import { ClientAuthGate } from "../components/ClientAuthGate";
+import { useChapter } from "../chapterContext";
+import { LIVE_EVENT_TOKEN_ROTATE_SECONDS } from "../qr-format";
+
+/** Public check-in URL carrying a live event token (`/?chapter=…&t=…`). */
+export function buildLiveCheckinUrl(origin: string, chapterTag: string, token: string): string {
+  const params = new URLSearchParams({ chapter: chapterTag, t: token });
+  return `${origin}/?${params.toString()}`;
+}
+
+/** Projector display: `/admin/live-qr` shows a check-in QR that rotates every 30 s, so only people in the room can check in. */
+export default function LiveEventQrPage() {
+  return (
+    <ClientAuthGate>
+      <LiveEventQrPageInner />
+    </ClientAuthGate>
+  );
+}
+
+function LiveEventQrPageInner() {
+  const { chapterTag, chapterId, chapter, adminHref } = useChapter();
+  const [event, setEvent] = useState<EventData | null>(null);
+  const [eventLoading, setEventLoading] = useState(true);
+  const [grant, setGrant] = useState<LiveEventTokenGrant | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(LIVE_EVENT_TOKEN_ROTATE_SECONDS);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEventLoading(true);
+    getCurrentEvent(chapterTag, chapterId)
+      .then((current) => {
+        if (!cancelled) setEvent(current);
+      })
+      .finally(() => {
+        if (!cancelled) setEventLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterTag, chapterId]);
+
+  // Fetch a token, show it for one rotation, repeat; a failed fetch keeps the old QR up and retries next rotation.
+  useEffect(() => {
+    if (!event) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const rotate = async () => {
+      try {
+        const next = await issueLiveEventToken(event.id, chapterTag);
+        if (cancelled) return;
+        setGrant(next);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "無法取得簽到 QR 碼");
+      }
+      if (cancelled) return;
+      setSecondsLeft(LIVE_EVENT_TOKEN_ROTATE_SECONDS);
+      timer = setTimeout(() => void rotate(), LIVE_EVENT_TOKEN_ROTATE_SECONDS * 1000);
+    };
+    void rotate();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [event, chapterTag]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const checkinUrl = grant ? buildLiveCheckinUrl(window.location.origin, chapterTag, grant.token) : "";
+
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {chapter?.displayName || chapterTag}</p>
+          <h1>📽️ 現場簽到 QR 碼</h1>
+          <p className="hint">投影到會場螢幕；QR 碼每 {LIVE_EVENT_TOKEN_ROTATE_SECONDS} 秒更新，只限現場人士簽到</p>
+        </div>
+        <div className="header-meta">
+          <Link to={adminHref("/admin")} className="ghost-button back-home-btn">
+            ← 返回管理頁
+          </Link>
+        </div>
+      </header>
+
+      <section className="section" style={{ textAlign: "center" }}>
+        {eventLoading && <p className="hint">載入活動中...</p>}
+        {!eventLoading && !event && <p className="error-text">尚未設定當前活動，請先在活動管理設定。</p>}
+        {event && (
+          <>
+            <h2 style={{ marginTop: 0 }}>
+              {event.name} · {event.date}
+            </h2>
+            {checkinUrl ? (
+              <div style={{ display: "inline-block", background: "#fff", padding: "1.5rem", borderRadius: "16px" }}>
+                <QRCodeSVG value={checkinUrl} size={420} level="M" />
+              </div>
+            ) : (
+              !error && <p className="hint">產生 QR 碼中...</p>
+            )}
+            {grant && (
+              <p className="hint" style={{ fontSize: "1.1rem" }}>
+                {secondsLeft} 秒後更新 · 請用手機相機掃描簽到
+              </p>
+            )}
+            {error && <p className="error-text">{error}</p>}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
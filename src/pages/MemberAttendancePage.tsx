@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { searchMemberAttendance, type MemberAttendance } from "../api";
+import { ClientAuthGate } from "../components/ClientAuthGate";
+import { AnchorOnlyNotice } from "../components/AnchorOnlyNotice";
+import { useChapter } from "../chapterContext";
+import { toChapterWallClock } from "../lib/attendanceStatus";
+import {
+  buildAttendanceHeatmap,
+  computeMemberAttendanceStats,
+  meetingOutcome,
+  type AttendanceWindow,
+  type MeetingOutcome
+} from "../lib/memberAttendanceStats";
+
+const OUTCOME_COLORS: Record<MeetingOutcome, string> = {
+  attended: "#22c55e",
+  late: "#f59e0b",
+  covered: "#60a5fa",
+  absent: "#ef4444"
+};
+
+const OUTCOME_LABELS: Record<MeetingOutcome, string> = {
+  attended: "出席",
+  late: "遲到",
+  covered: "替代人出席",
+  absent: "缺席"
+};
+
+const formatRate = (window: AttendanceWindow) =>
+  window.rate === null ? "—" : `${Math.round(window.rate * 100)}%`;
+
+/** Member attendance profile: `/admin/members/attendance?name=…` (linked from MembersPage). */
+export default function MemberAttendancePage() {
+  return (
+    <ClientAuthGate>
+      <MemberAttendancePageInner />
+    </ClientAuthGate>
+  );
+}
+
+function MemberAttendancePageInner() {
+  const [searchParams] = useSearchParams();
+  const memberName = searchParams.get("name")?.trim() ?? "";
+  const { chapterTag, chapter, adminHref } = useChapter();
+  const [history, setHistory] = useState<MemberAttendance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!memberName) {
+      setLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    searchMemberAttendance(memberName, controller.signal, chapterTag)
+      .then((rows) => setHistory(rows))
+      .catch((e) => {
+        if ((e as DOMException).name === "AbortError") return;
+        setError(e instanceof Error ? e.message : "無法載入出席紀錄");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [memberName, chapterTag]);
+
+  const today = toChapterWallClock(new Date(), chapter?.timezone).date;
+  const stats = useMemo(() => computeMemberAttendanceStats(history, today), [history, today]);
+  const heatmap = useMemo(() => buildAttendanceHeatmap(history, today), [history, today]);
+  const sortedHistory = useMemo(
+    () => [...history].sort((a, b) => b.eventDate.localeCompare(a.eventDate)),
+    [history]
+  );
+
+  const statCards: { label: string; value: string | number; hint?: string }[] = [
+    { label: "近 6 個月出席率", value: formatRate(stats.sixMonths), hint: `${stats.sixMonths.attended}/${stats.sixMonths.meetings} 次例會` },
+    { label: "近 12 個月出席率", value: formatRate(stats.twelveMonths), hint: `${stats.twelveMonths.attended}/${stats.twelveMonths.meetings} 次例會` },
+    { label: "連續出席", value: stats.currentStreak, hint: "替代人出席不中斷" },
+    { label: "遲到（12 個月）", value: stats.lateCount },
+    { label: "缺席有替代人", value: stats.coveredAbsences },
+    { label: "缺席無替代人", value: stats.uncoveredAbsences }
+  ];
+
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {chapter?.displayName || chapterTag}</p>
+          <h1>📈 {memberName || "會員"} 出席紀錄</h1>
+          <p className="hint">Member Attendance Profile · chapter={chapterTag}</p>
+        </div>
+        <div className="header-meta">
+          <Link to={adminHref("/admin/members")} className="ghost-button back-home-btn">
+            ← 返回會員管理
+          </Link>
+        </div>
+      </header>
+
+      <AnchorOnlyNotice />
+
+      <section className="section">
+        {!memberName && <p className="error-text">未指定會員。</p>}
+        {loading && <p className="hint">載入中...</p>}
+        {error && <p className="error-text">{error}</p>}
+
+        {!loading && !error && memberName && (
+          <>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))",
+                gap: "0.75rem",
+                marginBottom: "1.5rem"
+              }}
+            >
+              {statCards.map((card) => (
+                <div key={card.label} className="stat-card" style={{ padding: "0.75rem 1rem", borderRadius: "12px", border: "1px solid var(--border-color)" }}>
+                  <div className="hint">{card.label}</div>
+                  <div style={{ fontSize: "1.75rem", fontWeight: 700 }}>{card.value}</div>
+                  {card.hint && <div className="hint">{card.hint}</div>}
+                </div>
+              ))}
+            </div>
+
+            <h3>例會出席熱圖（近 12 個月）</h3>
+            <div style={{ overflowX: "auto", paddingBottom: "0.5rem" }}>
+              <div role="img" aria-label="出席熱圖" style={{ display: "flex", gap: "3px" }}>
+                {heatmap.map((week) => (
+                  <div key={week[0].date} style={{ display: "flex", flexDirection: "column", gap: "3px" }}>
+                    {week.map((cell) => (
+                      <div
+                        key={cell.date}
+                        title={cell.outcome ? `${cell.date} ${cell.eventName ?? ""} · ${OUTCOME_LABELS[cell.outcome]}` : cell.date}
+                        style={{
+                          width: "12px",
+                          height: "12px",
+                          borderRadius: "2px",
+                          background: cell.outcome ? OUTCOME_COLORS[cell.outcome] : "rgba(148, 163, 184, 0.15)"
+                        }}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="hint" style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+              {(Object.keys(OUTCOME_LABELS) as MeetingOutcome[]).map((outcome) => (
+                <span key={outcome}>
+                  <span
+                    style={{
+                      display: "inline-block",
+                      width: "10px",
+                      height: "10px",
+                      borderRadius: "2px",
+                      marginRight: "0.35rem",
+                      background: OUTCOME_COLORS[outcome]
+                    }}
+                  />
+                  {OUTCOME_LABELS[outcome]}
+                </span>
+              ))}
+            </p>
+
+            <div className="table-container">
+              <table aria-label="會員出席紀錄">
+                <thead>
+                  <tr>
+                    <th>日期</th>
+                    <th>活動</th>
+                    <th>狀態</th>
+                    <th>替代人</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedHistory.map((row) => {
+                    const outcome = meetingOutcome(row);
+                    return (
+                      <tr key={`${row.eventDate}-${row.eventName}`}>
+                        <td>{row.eventDate}</td>
+                        <td>{row.eventName}</td>
+                        <td style={{ color: OUTCOME_COLORS[outcome] }}>
+                          {OUTCOME_LABELS[outcome]}
+                          {row.checkInTime ? ` · ${row.checkInTime}` : ""}
+                        </td>
+                        <td>{row.substituteName || "—"}</td>
+                      </tr>
+                    );
+                  })}
+                  {sortedHistory.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="hint">暫無出席紀錄</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -7,22 +7,37 @@ import {
   MemberStanding,
   updateMember,
   deleteMember,
-  createMember
+  createMember,
+  issueMemberBadge,
+  issueMemberBadges
 } from "../api";
 import {
   groupMembersByCategory,
   MEMBER_CATEGORIES,
   resolveMemberCategoryCode,
   categoriesFromProfessionGroups,
+  getMemberCategory,
   type MemberCategory,
   type MemberCategoryCode
 } from "../lib/memberCategories";
+import {
+  buildBadgeSheetEntries,
+  buildBadgeSheetFilename,
+  downloadMemberBadgeSheetPdf,
+  type BadgeSheetEntry
+} from "../lib/memberBadgeSheet";
+import { MemberBadgeSheet } from "../components/MemberBadgeSheet";
+import { StandingReviewPanel } from "../components/StandingReviewPanel";
 import { AnchorOnlyNotice } from "../components/AnchorOnlyNotice";
 import { ClientAuthGate } from "../components/ClientAuthGate";
 import { useChapter } from "../chapterContext";
 
 type MembersPageProps = {};
 
+const BADGE_SHEET_ROOT_ID = "member-badge-sheet";
+
+const todayIsoDate = () => new Date().toISOString().slice(0, 10);
+
 export default function MembersPage({}: MembersPageProps) {
   return (
     <ClientAuthGate>
@@ -47,6 +62,9 @@ function MembersPageInner() {
   const [editStanding, setEditStanding] = useState<MemberStanding>("GREEN");
   const [editProfessionCode, setEditProfessionCode] = useState<MemberCategoryCode>("A");
   const [notification, setNotification] = useState<{ message: string; type: "success" | "error" | "info" } | null>(null);
+  const [badgeSheet, setBadgeSheet] = useState<{ entries: BadgeSheetEntry[]; filename: string } | null>(null);
+  const [badgeBusy, setBadgeBusy] = useState(false);
+  const [showStandingReview, setShowStandingReview] = useState(false);
 
   useEffect(() => {
     if (isClientMode && (!authReady || !isAuthenticated)) return;
@@ -192,6 +210,73 @@ function MembersPageInner() {
     }
   };
 
+  const chapterDisplayName = chapter?.displayName || (isClientMode ? chapterTag : "BNI Anchor");
+
+  const handlePrintAllBadges = async () => {
+    const memberIds = members.map((m) => m.id).filter((id): id is number => id != null);
+    if (memberIds.length === 0) {
+      showNotification("沒有可列印徽章的會員", "error");
+      return;
+    }
+    setBadgeBusy(true);
+    try {
+      const badges = await issueMemberBadges(memberIds, chapterTag);
+      const { entries, skipped } = buildBadgeSheetEntries(memberGroups, badges);
+      if (entries.length === 0) {
+        showNotification("後端未有簽發任何徽章", "error");
+        setBadgeBusy(false);
+        return;
+      }
+      if (skipped.length > 0) {
+        showNotification(`${skipped.length} 位會員未能簽發徽章：${skipped.map((m) => m.name).join("、")}`, "info");
+      }
+      setBadgeSheet({ entries, filename: buildBadgeSheetFilename(chapterDisplayName, todayIsoDate()) });
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : "簽發徽章失敗", "error");
+      setBadgeBusy(false);
+    }
+  };
+
+  const handleReprintBadge = async (member: MemberInfo) => {
+    if (member.id == null) {
+      showNotification(`${member.name} 未有會員 ID，無法簽發徽章`, "error");
+      return;
+    }
+    setBadgeBusy(true);
+    try {
+      const badge = await issueMemberBadge(member.id, chapterTag);
+      setBadgeSheet({
+        entries: [{ member, category: getMemberCategory(member, categories), badge }],
+        filename: buildBadgeSheetFilename(`${chapterDisplayName} ${member.name}`, todayIsoDate())
+      });
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : "簽發徽章失敗", "error");
+      setBadgeBusy(false);
+    }
+  };
+
+  // Capture once the off-screen sheet has rendered, then unmount it.
+  useEffect(() => {
+    if (!badgeSheet) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        await downloadMemberBadgeSheetPdf(BADGE_SHEET_ROOT_ID, badgeSheet.filename);
+        if (!cancelled) showNotification(`已下載 ${badgeSheet.entries.length} 個徽章`, "success");
+      } catch (error) {
+        if (!cancelled) showNotification(error instanceof Error ? error.message : "PDF 生成失敗", "error");
+      } finally {
+        if (!cancelled) {
+          setBadgeSheet(null);
+          setBadgeBusy(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [badgeSheet]);
+
   const getStandingColor = (standing?: MemberStanding) => {
     switch (standing) {
       case "GREEN": return "#22c55e";
@@ -261,6 +346,20 @@ function MembersPageInner() {
           >
             ✏️ 編輯
           </button>
+          <Link
+            to={adminHref(`/admin/members/attendance?name=${encodeURIComponent(member.name)}`)}
+            className="ghost-button members-action-btn"
+          >
+            📈 出席紀錄
+          </Link>
+          <button
+            type="button"
+            className="ghost-button members-action-btn"
+            onClick={() => void handleReprintBadge(member)}
+            disabled={badgeBusy}
+          >
+            🪪 重印徽章
+          </button>
           <button
             type="button"
             className="ghost-button members-action-btn members-action-btn--danger"
@@ -341,8 +440,34 @@ function MembersPageInner() {
           >
             🔄 重新載入
           </button>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => void handlePrintAllBadges()}
+            disabled={loading || badgeBusy || members.length === 0}
+          >
+            {badgeBusy ? "⏳ 生成徽章中…" : "🪪 列印會員徽章 PDF"}
+          </button>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => setShowStandingReview((v) => !v)}
+            aria-pressed={showStandingReview}
+          >
+            ⚖️ 狀態建議
+          </button>
         </div>
 
+        {showStandingReview && (
+          <StandingReviewPanel
+            members={members}
+            chapterTag={chapterTag}
+            timezone={chapter?.timezone}
+            onNotify={showNotification}
+            onApplied={() => void fetchMembers()}
+          />
+        )}
+
         {loading ? (
           <div style={{ textAlign: "center", padding: "2rem" }}>
             <p>載入中...</p>
@@ -391,6 +516,15 @@ function MembersPageInner() {
         )}
       </section>
 
+      {badgeSheet && (
+        <MemberBadgeSheet
+          entries={badgeSheet.entries}
+          rootId={BADGE_SHEET_ROOT_ID}
+          chapterTag={chapterTag}
+          chapterDisplayName={chapterDisplayName}
+        />
+      )}
+
       {/* Add Member Modal */}
       {showAddMember && (
         <div className="modal-overlay" style={{
@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  createMember,
+  getGuests,
+  getMembers,
+  getObservers,
+  getPipelineEntries,
+  savePipelineEntry,
+  type MemberInfo,
+  type PipelineStage,
+} from "../api";
+import { ClientAuthGate } from "../components/ClientAuthGate";
+import { useChapter } from "../chapterContext";
+import {
+  buildVisitorPipeline,
+  pipelineTimeline,
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  updatePipelineEntry,
+  type PipelineProspect,
+  type VisitorPipelineSources,
+} from "../lib/visitorPipeline";
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+/** Visitor-to-member pipeline: `/admin/pipeline` boards every guest / observer by stage with follow-up owner and notes. */
+export default function PipelinePage() {
+  return (
+    <ClientAuthGate>
+      <PipelinePageInner />
+    </ClientAuthGate>
+  );
+}
+
+function PipelinePageInner() {
+  const { chapterTag, chapter, adminHref } = useChapter();
+  const [sources, setSources] = useState<VisitorPipelineSources | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [notification, setNotification] = useState<string | null>(null);
+
+  const showNotice = (message: string) => {
+    setNotification(message);
+    window.setTimeout(() => setNotification(null), 5000);
+  };
+
+  const load = useCallback(async () => {
+    try {
+      const [{ guests }, { observers }, { members }, entries] = await Promise.all([
+        getGuests(undefined, chapterTag),
+        getObservers(undefined, chapterTag),
+        getMembers(chapterTag),
+        getPipelineEntries(chapterTag),
+      ]);
+      setSources({ guests: guests ?? [], observers: observers ?? [], members: members ?? [], entries });
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "無法載入跟進名單");
+    }
+  }, [chapterTag]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const prospects = useMemo(() => (sources ? buildVisitorPipeline(sources) : []), [sources]);
+  const selected = prospects.find((p) => p.key === selectedKey) ?? null;
+
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {chapter?.displayName || chapterTag}</p>
+          <h1>🧭 嘉賓轉會員跟進</h1>
+          <p className="hint">嘉賓到訪 → 重複到訪 → 觀察員 → 申請中 → 會員；按出席紀錄自動分類，可手動調整</p>
+        </div>
+        <div className="header-meta">
+          <Link to={adminHref("/admin")} className="ghost-button back-home-btn">
+            ← 返回管理頁
+          </Link>
+        </div>
+      </header>
+
+      {notification && (
+        <p className="hint" style={{ color: "#15803d", textAlign: "center" }}>
+          {notification}
+        </p>
+      )}
+
+      <section className="section">
+        {error && <p className="error-text">{error}</p>}
+        {!sources && !error && <p className="hint">載入中...</p>}
+        {sources && (
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: "0.75rem" }}>
+            {PIPELINE_STAGES.map(({ stage, label }) => {
+              const column = prospects.filter((p) => p.stage === stage);
+              return (
+                <div
+                  key={stage}
+                  aria-label={label}
+                  style={{ background: "var(--card-bg)", border: "1px solid var(--border-color)", borderRadius: "12px", padding: "0.75rem" }}
+                >
+                  <h3 style={{ margin: "0 0 0.5rem", fontSize: "1rem" }}>
+                    {label} <span className="hint">({column.length})</span>
+                  </h3>
+                  {column.map((prospect) => (
+                    <ProspectCard
+                      key={prospect.key}
+                      prospect={prospect}
+                      active={prospect.key === selectedKey}
+                      onSelect={() => setSelectedKey(prospect.key)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      {selected && sources && (
+        <ProspectDetail
+          key={selected.key}
+          prospect={selected}
+          members={sources.members}
+          chapterTag={chapterTag}
+          onSaved={(message) => {
+            showNotice(message);
+            void load();
+          }}
+          onError={showNotice}
+        />
+      )}
+    </div>
+  );
+}
+
+function ProspectCard({ prospect, active, onSelect }: { prospect: PipelineProspect; active: boolean; onSelect: () => void }) {
+  const followUp = prospect.entry?.nextFollowUpDate;
+  const overdue = Boolean(followUp && followUp < todayIso() && prospect.stage !== "member" && prospect.stage !== "declined");
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      style={{
+        display: "block",
+        width: "100%",
+        textAlign: "left",
+        marginBottom: "0.5rem",
+        padding: "0.6rem",
+        borderRadius: "8px",
+        border: active ? "2px solid #2563eb" : "1px solid var(--border-color)",
+        background: "var(--bg)",
+        cursor: "pointer",
+      }}
+    >
+      <strong>{prospect.name}</strong>
+      <div className="hint">{prospect.profession || "-"}</div>
+      <div className="hint">
+        到訪 {prospect.guestVisitDates.length} 次
+        {prospect.entry?.ownerMemberName && ` · 👤 ${prospect.entry.ownerMemberName}`}
+      </div>
+      {followUp && (
+        <div className="hint" style={{ color: overdue ? "#b91c1c" : undefined }}>
+          📅 跟進 {followUp}
+          {overdue && "（已逾期）"}
+        </div>
+      )}
+    </button>
+  );
+}
+
+type ProspectDetailProps = {
+  prospect: PipelineProspect;
+  members: MemberInfo[];
+  chapterTag: string;
+  onSaved: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function ProspectDetail({ prospect, members, chapterTag, onSaved, onError }: ProspectDetailProps) {
+  const [stage, setStage] = useState<PipelineStage>(prospect.stage);
+  const [owner, setOwner] = useState(prospect.entry?.ownerMemberName ?? "");
+  const [followUpDate, setFollowUpDate] = useState(prospect.entry?.nextFollowUpDate ?? "");
+  const [notes, setNotes] = useState(prospect.entry?.notes ?? "");
+  const [stageNote, setStageNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  /** Member created by a conversion whose entry save then failed; a retry links it instead of creating another. */
+  const [createdMember, setCreatedMember] = useState<MemberInfo | null>(null);
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      const entry = updatePipelineEntry(
+        prospect,
+        {
+          ...(stage !== prospect.stage ? { stage } : {}),
+          ownerMemberName: owner || undefined,
+          nextFollowUpDate: followUpDate || undefined,
+          notes: notes.trim() || undefined,
+        },
+        new Date().toISOString(),
+        stageNote.trim() || undefined
+      );
+      await savePipelineEntry(entry, chapterTag);
+      setStageNote("");
+      onSaved(`已更新 ${prospect.name}`);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "儲存失敗");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConvert = async () => {
+    const existing = prospect.member ?? createdMember;
+    if (!window.confirm(existing ? `將 ${prospect.name} 連結到現有會員紀錄？` : `將 ${prospect.name} 建立為會員？`)) return;
+    setBusy(true);
+    let member = existing;
+    try {
+      if (!member) {
+        const created = await createMember({ name: prospect.name, profession: prospect.profession }, chapterTag);
+        member = created.member ?? { name: prospect.name, domain: prospect.profession };
+        setCreatedMember(member);
+      }
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "轉為會員失敗");
+      setBusy(false);
+      return;
+    }
+    try {
+      const entry = updatePipelineEntry(
+        prospect,
+        { stage: "member", memberId: member.id, ownerMemberName: owner || undefined, notes: notes.trim() || undefined },
+        new Date().toISOString(),
+        "轉為會員"
+      );
+      await savePipelineEntry(entry, chapterTag);
+      onSaved(`✅ ${prospect.name} 已轉為會員`);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : "未知錯誤";
+      onError(
+        existing
+          ? `未能更新 ${prospect.name} 的跟進紀錄：${reason}`
+          : `已建立會員 ${prospect.name}，但未能更新跟進紀錄：${reason}。再按「轉為會員」只會連結這個會員，不會重複建立。`
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="section">
+      <div className="section-header">
+        <h2>{prospect.name}</h2>
+        <p className="hint">
+          {prospect.profession || "-"} · 邀請人 {prospect.referrers.join("、") || "-"} · 出席紀錄建議：
+          {PIPELINE_STAGE_LABELS[prospect.autoStage]}
+          {prospect.member && ` · 會員紀錄：${prospect.member.name}`}
+        </p>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: "1rem" }}>
+        <label className="form-group">
+          階段 Stage
+          <select className="input-field" value={stage} onChange={(e) => setStage(e.target.value as PipelineStage)}>
+            {PIPELINE_STAGES.map(({ stage: value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-group">
+          跟進會員 Owner
+          <select className="input-field" value={owner} onChange={(e) => setOwner(e.target.value)}>
+            <option value="">（未指派）</option>
+            {members.map((m) => (
+              <option key={m.id ?? m.name} value={m.name}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-group">
+          下次跟進日期
+          <input type="date" className="input-field" value={followUpDate} onChange={(e) => setFollowUpDate(e.target.value)} />
+        </label>
+      </div>
+
+      {stage !== prospect.stage && (
+        <label className="form-group" style={{ display: "block", marginTop: "1rem" }}>
+          階段變更備註
+          <input className="input-field" value={stageNote} onChange={(e) => setStageNote(e.target.value)} style={{ width: "100%" }} />
+        </label>
+      )}
+
+      <label className="form-group" style={{ display: "block", marginTop: "1rem" }}>
+        備註 Notes
+        <textarea
+          className="input-field"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={4}
+          style={{ width: "100%", fontFamily: "inherit" }}
+        />
+      </label>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", marginTop: "1rem" }}>
+        <button type="button" className="button" disabled={busy} onClick={() => void handleSave()}>
+          💾 儲存
+        </button>
+        {prospect.stage !== "member" && (
+          <button type="button" className="button submit-button" disabled={busy} onClick={() => void handleConvert()}>
+            🎉 轉為會員
+          </button>
+        )}
+      </div>
+
+      <h3 style={{ marginTop: "1.5rem" }}>紀錄</h3>
+      <ul style={{ paddingLeft: "1.25rem" }}>
+        {pipelineTimeline(prospect).map((item, index) => (
+          <li key={`${item.date}-${index}`}>
+            <span className="hint">{item.date.slice(0, 10)}</span> {item.label}
+            {item.note && <span className="hint"> · {item.note}</span>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
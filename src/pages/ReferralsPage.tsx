@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { getGuests, getMembers, getObservers, getPipelineEntries, getRecords } from "../api";
+import { ClientAuthGate } from "../components/ClientAuthGate";
+import { useChapter } from "../chapterContext";
+import { shiftIsoDateByMonths } from "../lib/memberAttendanceStats";
+import { downloadCsv } from "../lib/parseWhatsAppMeetingMessage";
+import {
+  buildReferralReport,
+  referralReportToCsv,
+  type ReferralDateRange,
+  type ReferralSources,
+  type ReferrerStats,
+} from "../lib/referralAnalytics";
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+/** Referral analytics: `/admin/referrals` ranks members by guests invited / attended / converted over a date range. */
+export default function ReferralsPage() {
+  return (
+    <ClientAuthGate>
+      <ReferralsPageInner />
+    </ClientAuthGate>
+  );
+}
+
+function ReferralsPageInner() {
+  const { chapterTag, chapter, adminHref } = useChapter();
+  const [range, setRange] = useState<ReferralDateRange>(() => ({ from: shiftIsoDateByMonths(todayIso(), -6), to: todayIso() }));
+  const [sources, setSources] = useState<ReferralSources | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [{ guests }, { records }, { observers }, { members }, pipelineEntries] = await Promise.all([
+        getGuests(undefined, chapterTag),
+        getRecords(chapterTag),
+        getObservers(undefined, chapterTag),
+        getMembers(chapterTag),
+        // Conversions recorded in the pipeline are a bonus; the report works without them.
+        getPipelineEntries(chapterTag).catch(() => []),
+      ]);
+      setSources({ guests: guests ?? [], records: records ?? [], observers: observers ?? [], members: members ?? [], pipelineEntries });
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "無法載入介紹紀錄");
+    }
+  }, [chapterTag]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const report = useMemo(
+    () => (sources && range.from <= range.to ? buildReferralReport(sources, range, chapter?.timezone) : null),
+    [sources, range, chapter?.timezone]
+  );
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(`referrals_${range.from}_${range.to}.csv`, referralReportToCsv(report));
+  };
+
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div>
+          <p className="hint">EventXP · {chapter?.displayName || chapterTag}</p>
+          <h1>🏆 介紹人排行榜</h1>
+          <p className="hint">每位會員邀請的嘉賓、實際出席、缺席，以及成為觀察員／會員的轉化率</p>
+        </div>
+        <div className="header-meta">
+          <Link to={adminHref("/admin")} className="ghost-button back-home-btn">
+            ← 返回管理頁
+          </Link>
+        </div>
+      </header>
+
+      <section className="section">
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end", marginBottom: "1.5rem" }}>
+          <label className="form-group">
+            由 From
+            <input
+              type="date"
+              className="input-field"
+              value={range.from}
+              onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+            />
+          </label>
+          <label className="form-group">
+            至 To
+            <input
+              type="date"
+              className="input-field"
+              value={range.to}
+              onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+            />
+          </label>
+          <button type="button" className="ghost-button" onClick={handleExport} disabled={!report?.referrers.length}>
+            📥 匯出 CSV
+          </button>
+        </div>
+
+        {error && <p className="error-text">{error}</p>}
+        {!sources && !error && <p className="hint">載入中...</p>}
+        {range.from > range.to && <p className="error-text">開始日期不可遲於結束日期</p>}
+
+        {report && (
+          <>
+            <h2>排行榜（{report.referrers.length} 位介紹人）</h2>
+            {report.referrers.length === 0 ? (
+              <p className="hint">此期間沒有附介紹人的嘉賓</p>
+            ) : (
+              <div className="table-container">
+                <table aria-label="介紹人排行榜">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>介紹人</th>
+                      <th>邀請</th>
+                      <th>出席</th>
+                      <th>缺席</th>
+                      <th>成為觀察員</th>
+                      <th>成為會員</th>
+                      <th>轉化率</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.referrers.map((stats, index) => (
+                      <ReferrerRow
+                        key={stats.referrer}
+                        rank={index + 1}
+                        stats={stats}
+                        expanded={expanded === stats.referrer}
+                        onToggle={() => setExpanded((current) => (current === stats.referrer ? null : stats.referrer))}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <h2 style={{ marginTop: "2rem" }}>按會議</h2>
+            <div className="table-container">
+              <table aria-label="按會議統計">
+                <thead>
+                  <tr>
+                    <th>會議日期</th>
+                    <th>邀請</th>
+                    <th>出席</th>
+                    <th>缺席</th>
+                    <th>介紹人數</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.meetings.map((m) => (
+                    <tr key={m.eventDate}>
+                      <td>{m.eventDate}</td>
+                      <td>{m.invited}</td>
+                      <td>{m.attended}</td>
+                      <td>{m.noShows}</td>
+                      <td>{m.referrers}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
+
+type ReferrerRowProps = {
+  rank: number;
+  stats: ReferrerStats;
+  expanded: boolean;
+  onToggle: () => void;
+};
+
+function ReferrerRow({ rank, stats, expanded, onToggle }: ReferrerRowProps) {
+  return (
+    <>
+      <tr onClick={onToggle} style={{ cursor: "pointer" }}>
+        <td>{rank}</td>
+        <td>
+          {expanded ? "▾" : "▸"} {stats.referrer}
+          {!stats.member && <span className="hint">（未配對會員）</span>}
+        </td>
+        <td>{stats.invited}</td>
+        <td>{stats.attended}</td>
+        <td>{stats.noShows}</td>
+        <td>{stats.becameObservers}</td>
+        <td>{stats.becameMembers}</td>
+        <td>{stats.conversionRate == null ? "-" : `${Math.round(stats.conversionRate * 100)}%`}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td />
+          <td colSpan={7}>
+            {stats.meetings.map((meeting) => (
+              <div key={meeting.eventDate} style={{ marginBottom: "0.4rem" }}>
+                <strong>{meeting.eventDate}</strong>
+                <span className="hint">
+                  {" "}
+                  · 邀請 {meeting.invited} · 出席 {meeting.attended}
+                </span>
+                <div className="hint">
+                  {stats.visits
+                    .filter((v) => v.eventDate === meeting.eventDate)
+                    .map((v) => `${v.attended ? "✅" : "❌"} ${v.guestName}${v.walkIn ? "（即場）" : ""}`)
+                    .join("　")}
+                </div>
+              </div>
+            ))}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,12 +1,15 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import {
-  getReportData, getReportWebSocketUrl, exportRecords, getRecords, clearRecords, deleteRecord, markAttendanceAbsent, getCurrentEvent,
+  getReportData, exportRecords, getRecords, clearRecords, deleteRecord, isRecordConflictError, markAttendanceAbsent, getCurrentEvent,
   setActiveApiChapter,
   ReportData, ReportAttendance, AttendeeRole, CheckInRecord
 } from "../api";
 import { buildAttendanceCsvBasename, buildAttendanceCsvFilename } from "../lib/attendanceExportFilename";
 import { useChapter } from "../chapterContext";
+import { isLateStatus } from "../lib/attendanceStatus";
+import { applyRecordDelta, applyReportDelta } from "../lib/reportDeltas";
+import { openReportSocket, type ReportSocket } from "../lib/reportSocket";
 
 type FilterType = "all" | "members" | "guests";
 type ViewTab = "report" | "records";
@@ -27,8 +30,7 @@ export default function ReportPage() {
   const [wsConnected, setWsConnected] = useState(false);
   const [filter, setFilter] = useState<FilterType>("all");
   const [exporting, setExporting] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-  const pollIntervalRef = useRef<number | null>(null);
+  const socketRef = useRef<ReportSocket | null>(null);
 
   // Records tab state
   const [viewTab, setViewTab] = useState<ViewTab>("report");
@@ -36,6 +38,7 @@ export default function ReportPage() {
   const [recordsLoading, setRecordsLoading] = useState(false);
   const [recordFilter, setRecordFilter] = useState<"all" | "member" | "guest">("all");
   const [searchQuery, setSearchQuery] = useState("");
+  const [recordsNotice, setRecordsNotice] = useState<string | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const chapterLabel = chapter?.displayName || (chapterTag === "anchor" ? "BNI Anchor" : `BNI ${chapterTag}`);
@@ -61,6 +64,7 @@ export default function ReportPage() {
         return;
       }
       setReportData(data);
+      socketRef.current?.setSeq(data.seq);
       setLastUpdated(new Date());
       setError(null);
       setNoEvent(false);
@@ -94,41 +98,42 @@ export default function ReportPage() {
     }
   }, [chapterTag]);
 
-  // WebSocket connection
+  // Initial snapshot; afterwards only deltas (or a resync when the socket reports a gap)
   useEffect(() => {
-    const connectWebSocket = () => {
-      const wsUrl = getReportWebSocketUrl();
-      const ws = new WebSocket(wsUrl);
-
-      ws.onopen = () => { setWsConnected(true); };
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          if (message.type === "attendance_updated" || message.type === "event_created") {
-            fetchReportData();
-            fetchRecords();
-          }
-        } catch { /* ignore */ }
-      };
-      ws.onclose = () => { setWsConnected(false); setTimeout(connectWebSocket, 3000); };
-      ws.onerror = () => { setWsConnected(false); };
-      wsRef.current = ws;
-    };
-
-    connectWebSocket();
-    return () => { if (wsRef.current) wsRef.current.close(); };
+    fetchReportData();
+    fetchRecords();
   }, [fetchReportData, fetchRecords]);
 
-  // Polling
-  useEffect(() => {
+  // Live deltas over /ws/report: one connection for the page's lifetime; resync handlers read the latest chapter via ref
+  const resyncRef = useRef(() => {});
+  resyncRef.current = () => {
     fetchReportData();
     fetchRecords();
-    pollIntervalRef.current = window.setInterval(() => {
-      fetchReportData();
-      fetchRecords();
-    }, 10000);
-    return () => { if (pollIntervalRef.current) clearInterval(pollIntervalRef.current); };
-  }, [fetchReportData, fetchRecords]);
+  };
+
+  useEffect(() => {
+    const socket = openReportSocket({
+      subscription: { chapterTag, chapterId },
+      onDelta: (message) => {
+        setReportData((prev) => applyReportDelta(prev, message));
+        setRecords((prev) => applyRecordDelta(prev, message));
+        if (message.type === "event_activated") setNoEvent(false);
+        setLastUpdated(new Date());
+      },
+      onResync: () => resyncRef.current(),
+      onStatusChange: setWsConnected
+    });
+    socketRef.current = socket;
+    return () => {
+      socketRef.current = null;
+      socket.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- chapter switches resubscribe below instead of reconnecting
+  }, []);
+
+  useEffect(() => {
+    socketRef.current?.subscribe({ chapterTag, chapterId });
+  }, [chapterTag, chapterId]);
 
   const formatTime = (date: Date) =>
     date.toLocaleTimeString("zh-TW", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
@@ -211,18 +216,26 @@ export default function ReportPage() {
 
   const handleDeleteRecord = async (record: CheckInRecord) => {
     const eventDate = reportData?.eventDate;
+    setRecordsNotice(null);
     try {
-      if (eventDate) {
+      if (eventDate && record.type.toLowerCase() === "member") {
+        // "標記缺席": an attendance correction, so the member also shows as absent on the report.
         await markAttendanceAbsent(eventDate, record.name);
         await Promise.all([fetchReportData(), fetchRecords()]);
       } else {
-        const originalIndex = records.indexOf(record);
-        if (originalIndex < 0) return;
-        await deleteRecord(originalIndex);
-        setRecords((prev) => prev.filter((_, i) => i !== originalIndex));
+        await deleteRecord(record);
+        setRecords((prev) => prev.filter((r) => r.id !== record.id));
+        if (eventDate) await fetchReportData();
       }
     } catch (err) {
+      if (isRecordConflictError(err)) {
+        // Another device changed this row since we loaded it; show the fresh list instead of deleting blindly.
+        setRecordsNotice(`⚠️ ${record.name} 的記錄已被其他裝置更改，已重新載入，請再確認`);
+        await fetchRecords();
+        return;
+      }
       console.error("Delete record failed:", err);
+      setRecordsNotice(`❌ 刪除失敗：${err instanceof Error ? err.message : "未知錯誤"}`);
     }
   };
 
@@ -250,7 +263,7 @@ export default function ReportPage() {
   };
 
   const renderAttendee = (record: ReportAttendance) => {
-    const isLate = record.status === "late";
+    const isLate = isLateStatus(record.status);
     const role = normalizeReportRole(record.role);
     const isVIP = role === "VIP" || role === "SPEAKER";
     const isGuest = role === "GUEST";
@@ -565,6 +578,12 @@ export default function ReportPage() {
             </button>
           </div>
 
+          {recordsNotice && (
+            <p className="hint" role="alert" style={{ color: "var(--error)" }}>
+              {recordsNotice}
+            </p>
+          )}
+
           <div className="table-container">
             <table aria-label="Check-in records">
               <thead>
@@ -590,7 +609,7 @@ export default function ReportPage() {
                   </tr>
                 )}
                 {filteredRecords.map((record, index) => (
-                    <tr key={`${record.name}-${record.timestamp}-${index}`}>
+                    <tr key={record.id}>
                       <td className="row-number">{filteredRecords.length - index}</td>
                       <td className="name-cell">{record.name}</td>
                       <td className="name-cell">{record.domain}</td>
@@ -1,5 +1,8 @@
+import type { ChapterInfo } from "./api";
+
 /**
  * QR Code data format for BNI Anchor attendance: "member" (BNI member) or "guest" (visitor).
+ * v1 is plain JSON (forgeable); v2 member badges are signed by the backend with the chapter's Ed25519 key.
  */
 
 /** Member QR payload (name, time, type "member", membershipId). */
@@ -21,6 +24,296 @@ export interface GuestQRData {
 /** Union of member or guest QR payload. */
 export type AttendanceQRData = MemberQRData | GuestQRData;
 
+/** Prefix of a v2 badge: `BNI2.<base64url(JSON body)>.<base64url(Ed25519 signature over "BNI2.<body>")>`. */
+export const BADGE_V2_PREFIX = "BNI2";
+
+/** Signed body of a v2 member badge (times are epoch seconds). */
+export interface MemberBadgeV2 {
+  v: 2;
+  t: "member";
+  /** Member id (Member.id). */
+  mid: number;
+  /** Issuing chapter id. */
+  ch: number;
+  /** Display name at issue time (informational; the backend resolves by mid). */
+  n: string;
+  iat: number;
+  exp: number;
+  /** Chapter key id, so keys can rotate. */
+  kid?: string;
+}
+
+/** Prefix of a live event token shown on the venue projector: same signed layout as a v2 badge. */
+export const LIVE_EVENT_TOKEN_PREFIX = "BNIE";
+
+/** The projector fetches a fresh live event token this often. */
+export const LIVE_EVENT_TOKEN_ROTATE_SECONDS = 30;
+
+/**
+ * How long after its expiry a token is still accepted when the check-in page opens
+ * (time to scan, load the page and for clocks to disagree). The backend applies its own window on submit.
+ */
+export const LIVE_EVENT_TOKEN_GRACE_SECONDS = 90;
+
+/** Signed body of a live event token (times are epoch seconds). */
+export interface LiveEventToken {
+  v: 1;
+  t: "event";
+  /** EventData.id the token admits check-ins to. */
+  eid: number;
+  ch: number;
+  iat: number;
+  exp: number;
+  kid?: string;
+}
+
+/** Chapter key material the scanner verifies against (from ChapterInfo). */
+export type BadgeVerificationKey = {
+  chapterId: number;
+  /** base64url raw 32-byte Ed25519 public key. */
+  publicKey?: string | null;
+  keyId?: string | null;
+  /** Admin toggle: still accept v1 plain-JSON payloads. */
+  acceptLegacy?: boolean;
+};
+
+/** Verification key + legacy toggle for the given chapter. */
+export function badgeKeyFromChapter(chapter: Pick<ChapterInfo, "id" | "badgePublicKey" | "badgeKeyId" | "acceptLegacyBadges">): BadgeVerificationKey {
+  return {
+    chapterId: chapter.id,
+    publicKey: chapter.badgePublicKey ?? null,
+    keyId: chapter.badgeKeyId ?? null,
+    acceptLegacy: chapter.acceptLegacyBadges === true
+  };
+}
+
+export type BadgeRejectReason =
+  | "malformed"
+  | "no-key"
+  | "unknown-key"
+  | "bad-signature"
+  | "wrong-chapter"
+  | "expired"
+  | "not-yet-valid"
+  | "legacy-disabled";
+
+export type BadgeVerification =
+  | { ok: true; version: 2; badge: MemberBadgeV2 }
+  | { ok: true; version: 1; data: AttendanceQRData }
+  /** Not a badge (e.g. a server-issued attendance token); the backend validates it. */
+  | { ok: true; version: "opaque" }
+  | { ok: false; reason: BadgeRejectReason };
+
+export type LiveEventTokenRejectReason =
+  | "missing"
+  | "malformed"
+  | "unknown-key"
+  | "bad-signature"
+  | "wrong-chapter"
+  | "wrong-event"
+  | "expired";
+
+export type LiveEventTokenVerification =
+  | { ok: true; token: LiveEventToken }
+  | { ok: false; reason: LiveEventTokenRejectReason };
+
+/** Check-in page explanation for each rejected live event token. */
+export const LIVE_EVENT_TOKEN_REJECT_MESSAGES: Record<LiveEventTokenRejectReason, string> = {
+  missing: "請掃描會場螢幕上的簽到 QR 碼",
+  malformed: "簽到連結不完整，請重新掃描會場螢幕上的 QR 碼",
+  "unknown-key": "簽到 QR 碼並非由本分會發出",
+  "bad-signature": "簽到 QR 碼驗證失敗，請重新掃描",
+  "wrong-chapter": "簽到 QR 碼屬於其他分會",
+  "wrong-event": "簽到 QR 碼並非本次活動，請掃描會場螢幕上的最新 QR 碼",
+  expired: "簽到 QR 碼已過期，請重新掃描會場螢幕上的最新 QR 碼"
+};
+
+/** Scanner-facing explanation for each rejection. */
+export const BADGE_REJECT_MESSAGES: Record<BadgeRejectReason, string> = {
+  malformed: "Badge is damaged or incomplete. Ask the member to reopen it.",
+  "no-key": "This chapter has no badge key yet, so signed badges can’t be checked.",
+  "unknown-key": "Badge was signed with a key this chapter doesn’t use (old or foreign badge).",
+  "bad-signature": "Signature check failed: the badge was altered or not issued by this chapter.",
+  "wrong-chapter": "Badge belongs to another chapter.",
+  expired: "Badge has expired. Reissue it from the members page.",
+  "not-yet-valid": "Badge isn’t valid yet. Check the scanner’s clock.",
+  "legacy-disabled": "Old unsigned QR codes are turned off for this chapter."
+};
+
+/** Allowed clock drift between issuing server and scanner, in seconds. */
+const CLOCK_SKEW_SECONDS = 120;
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Split `<prefix>.<body>.<sig>` and decode the JSON body; null when any part is missing or undecodable. */
+function decodeSignedPayload(text: string): { signedText: string; body: unknown; signature: Uint8Array<ArrayBuffer> } | null {
+  const parts = text.split(".");
+  if (parts.length !== 3 || !parts[1] || !parts[2]) return null;
+  try {
+    return {
+      signedText: `${parts[0]}.${parts[1]}`,
+      body: JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[1]))),
+      signature: base64UrlToBytes(parts[2])
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** WebCrypto Ed25519 check; false (never throws) on a bad key, signature or unsupported runtime. */
+async function verifyEd25519(publicKeyBase64Url: string, signature: Uint8Array<ArrayBuffer>, signedText: string): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey("raw", base64UrlToBytes(publicKeyBase64Url), { name: "Ed25519" }, false, [
+      "verify"
+    ]);
+    return await crypto.subtle.verify({ name: "Ed25519" }, publicKey, signature, new TextEncoder().encode(signedText));
+  } catch {
+    return false;
+  }
+}
+
+function isMemberBadgeV2(value: unknown): value is MemberBadgeV2 {
+  const body = value as Partial<MemberBadgeV2> | null;
+  return (
+    !!body &&
+    body.v === 2 &&
+    body.t === "member" &&
+    typeof body.mid === "number" &&
+    typeof body.ch === "number" &&
+    typeof body.iat === "number" &&
+    typeof body.exp === "number"
+  );
+}
+
+function parseLegacyPayload(raw: string): AttendanceQRData | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<AttendanceQRData> | null;
+    if (parsed && (parsed.type === "member" || parsed.type === "guest") && typeof parsed.name === "string") {
+      return parsed as AttendanceQRData;
+    }
+  } catch {
+    // not JSON
+  }
+  return null;
+}
+
+/** Any JSON object, however its fields look: a v1 badge or an attempt at one. */
+function isJsonObject(raw: string): boolean {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null;
+  } catch {
+    return false;
+  }
+}
+
+/** The only opaque format passed to the backend: a server-issued attendance token (URL-safe, single line). */
+const OPAQUE_TOKEN_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._~-]{0,255}$/;
+
+/** True when the scanned text claims to be a v2 badge (whether or not it verifies). */
+export function isBadgeV2Payload(raw: string): boolean {
+  return raw.trim().startsWith(`${BADGE_V2_PREFIX}.`);
+}
+
+/**
+ * Verify a scanned payload before it is submitted. v2: signature (WebCrypto Ed25519), key id, chapter, expiry.
+ * JSON: v1 badge, accepted only when the chapter's legacy toggle is on (any JSON object is refused while it is off).
+ * Server-issued attendance tokens pass through as opaque; anything else is malformed.
+ * Side effects: none (pure apart from WebCrypto).
+ * @param {string} raw - Scanned text
+ * @param {BadgeVerificationKey} key - Current chapter's key and legacy toggle
+ * @param {Date} [now]
+ * @returns {Promise<BadgeVerification>}
+ */
+export async function verifyBadgePayload(
+  raw: string,
+  key: BadgeVerificationKey,
+  now: Date = new Date()
+): Promise<BadgeVerification> {
+  const text = raw.trim();
+  if (!isBadgeV2Payload(text)) {
+    if (isJsonObject(text)) {
+      if (!key.acceptLegacy) return { ok: false, reason: "legacy-disabled" };
+      const legacy = parseLegacyPayload(text);
+      return legacy ? { ok: true, version: 1, data: legacy } : { ok: false, reason: "malformed" };
+    }
+    return OPAQUE_TOKEN_PATTERN.test(text) ? { ok: true, version: "opaque" } : { ok: false, reason: "malformed" };
+  }
+
+  const decoded = decodeSignedPayload(text);
+  if (!decoded) return { ok: false, reason: "malformed" };
+  const { body } = decoded;
+  if (!isMemberBadgeV2(body)) return { ok: false, reason: "malformed" };
+  if (!key.publicKey) return { ok: false, reason: "no-key" };
+  if (body.kid && key.keyId && body.kid !== key.keyId) return { ok: false, reason: "unknown-key" };
+  if (!(await verifyEd25519(key.publicKey, decoded.signature, decoded.signedText))) {
+    return { ok: false, reason: "bad-signature" };
+  }
+
+  // Only trust the body's claims once the signature holds.
+  if (body.ch !== key.chapterId) return { ok: false, reason: "wrong-chapter" };
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (body.iat - CLOCK_SKEW_SECONDS > nowSeconds) return { ok: false, reason: "not-yet-valid" };
+  if (body.exp + CLOCK_SKEW_SECONDS < nowSeconds) return { ok: false, reason: "expired" };
+  return { ok: true, version: 2, badge: body };
+}
+
+function isLiveEventToken(value: unknown): value is LiveEventToken {
+  const body = value as Partial<LiveEventToken> | null;
+  return (
+    !!body &&
+    body.v === 1 &&
+    body.t === "event" &&
+    typeof body.eid === "number" &&
+    typeof body.ch === "number" &&
+    typeof body.iat === "number" &&
+    typeof body.exp === "number"
+  );
+}
+
+/**
+ * Check the live event token a guest brought from the projector QR (`/?t=…`) before the check-in form opens.
+ * The signature is checked when the chapter publishes its key; without one the backend is the only check.
+ * Side effects: none (pure apart from WebCrypto).
+ * @param {string | null | undefined} raw - `t` query param
+ * @param {BadgeVerificationKey} key - Current chapter's key (legacy toggle is ignored)
+ * @param {number} eventId - Event the form is about to check in to
+ * @param {Date} [now] - Page-open time
+ * @returns {Promise<LiveEventTokenVerification>}
+ */
+export async function verifyLiveEventToken(
+  raw: string | null | undefined,
+  key: BadgeVerificationKey,
+  eventId: number,
+  now: Date = new Date()
+): Promise<LiveEventTokenVerification> {
+  const text = raw?.trim() ?? "";
+  if (!text) return { ok: false, reason: "missing" };
+  if (!text.startsWith(`${LIVE_EVENT_TOKEN_PREFIX}.`)) return { ok: false, reason: "malformed" };
+  const decoded = decodeSignedPayload(text);
+  if (!decoded || !isLiveEventToken(decoded.body)) return { ok: false, reason: "malformed" };
+  const token = decoded.body;
+  if (key.publicKey) {
+    if (token.kid && key.keyId && token.kid !== key.keyId) return { ok: false, reason: "unknown-key" };
+    if (!(await verifyEd25519(key.publicKey, decoded.signature, decoded.signedText))) {
+      return { ok: false, reason: "bad-signature" };
+    }
+  }
+  if (key.chapterId > 0 && token.ch !== key.chapterId) return { ok: false, reason: "wrong-chapter" };
+  if (token.eid !== eventId) return { ok: false, reason: "wrong-event" };
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (token.iat - CLOCK_SKEW_SECONDS > nowSeconds || token.exp + LIVE_EVENT_TOKEN_GRACE_SECONDS < nowSeconds) {
+    return { ok: false, reason: "expired" };
+  }
+  return { ok: true, token };
+}
+
 /**
  * Generate a member check-in JSON payload. Side effect: uses current time (new Date()).
  * @param {string} name - Trimmed
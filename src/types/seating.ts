@@ -10,13 +10,28 @@ export type Guest = {
   targetProfession?: string;
   bottlenecks: string[];
   remarks?: string;
+  /** Member who invited the guest (free text, matched to a member by name); seated at the guest's table. */
+  referrer?: string;
 };
 
-/** Member profile (id, name, profession). */
+/** Member profile (id, name, profession, category, leadership). */
 export type Member = {
   id: string;
   name: string;
   profession: string;
+  /** Profession category code (resolveMemberCategoryCode); two members of one category never share a table. */
+  category?: string;
+  /** Leadership team (MemberInfo.position set); each table gets one as host. */
+  isLeadership?: boolean;
+  /** Past introduction outcomes (withIntroductionStats); members who convert introductions rank higher. */
+  introductions?: IntroductionStats;
+};
+
+/** Recorded outcomes of a member's introductions to guests: feedback entries, introductions made, useful ones. */
+export type IntroductionStats = {
+  recorded: number;
+  happened: number;
+  useful: number;
 };
 
 /** Match strength level. */
@@ -36,14 +51,24 @@ export type MatchResult = {
   recommendedMembers: MemberMatch[];
 };
 
-/** Request for seating plan API (eventId, guests, members). */
+/** Request for seating plan API (eventId, guests, members, table layout). */
 export type SeatingPlanRequest = {
   eventId: number;
   guests: Guest[];
   members: Member[];
+  tableCount: number;
+  seatsPerTable: number;
+};
+
+/** Who sits at one table (1-based number); host is a leadership-team member or null. */
+export type SeatingTable = {
+  table: number;
+  hostMemberId: string | null;
+  memberIds: string[];
+  guestIds: string[];
 };
 
-/** Response from seating plan API (eventId, planId, createdAt, assignments). */
+/** Response from seating plan API (eventId, planId, createdAt, assignments, tables). */
 export type SeatingPlanResponse = {
   eventId: number;
   planId: string;
@@ -54,5 +79,12 @@ export type SeatingPlanResponse = {
     assignedTable: number | null;
     matchStrength: MatchStrength;
     matchNote: string;
+    /** Recommended members seated at the guest's table. */
+    seatedWithMemberIds: string[];
   }[];
+  tables: SeatingTable[];
+  /** Members left without a seat (no room, or only tables that already have their category). */
+  unseatedMemberIds: string[];
+  /** Constraints that could not be met (missing host, referrer at another table, …). */
+  warnings: string[];
 };